@@ -10,9 +10,16 @@
 
 import type * as artifacts from "../artifacts.js";
 import type * as conversations from "../conversations.js";
+import type * as executionApprovals from "../executionApprovals.js";
 import type * as executionLogs from "../executionLogs.js";
+import type * as executionRuleVersions from "../executionRuleVersions.js";
 import type * as executionRules from "../executionRules.js";
 import type * as notifications from "../notifications.js";
+import type * as ruleDebounces from "../ruleDebounces.js";
+import type * as runEvents from "../runEvents.js";
+import type * as triggerEvents from "../triggerEvents.js";
+import type * as webhookDeliveries from "../webhookDeliveries.js";
+import type * as workflows from "../workflows.js";
 
 import type {
   ApiFromModules,
@@ -23,9 +30,16 @@ import type {
 declare const fullApi: ApiFromModules<{
   artifacts: typeof artifacts;
   conversations: typeof conversations;
+  executionApprovals: typeof executionApprovals;
   executionLogs: typeof executionLogs;
+  executionRuleVersions: typeof executionRuleVersions;
   executionRules: typeof executionRules;
   notifications: typeof notifications;
+  ruleDebounces: typeof ruleDebounces;
+  runEvents: typeof runEvents;
+  triggerEvents: typeof triggerEvents;
+  webhookDeliveries: typeof webhookDeliveries;
+  workflows: typeof workflows;
 }>;
 
 /**
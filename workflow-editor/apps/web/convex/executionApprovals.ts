@@ -0,0 +1,91 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+export const get = query({
+  args: { id: v.id("execution_approvals") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const listPending = query({
+  args: { userId: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("execution_approvals")
+      .withIndex("by_userId_status", (q) =>
+        q.eq("userId", args.userId).eq("status", "pending")
+      )
+      .collect();
+  },
+});
+
+export const create = mutation({
+  args: {
+    userId: v.string(),
+    ruleId: v.id("execution_rules"),
+    ruleName: v.string(),
+    stepIndex: v.number(),
+    message: v.optional(v.string()),
+    stepResultsJson: v.any(),
+    previousResults: v.array(v.string()),
+    triggerPayload: v.string(),
+    matchConfidence: v.optional(v.number()),
+    ruleVersionId: v.optional(v.id("execution_rule_versions")),
+    ruleVersion: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("execution_approvals", {
+      ...args,
+      status: "pending",
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Approve or reject a pending request. Returns null if it does not belong to
+ * the user or was already resolved, so a run can only be resumed once.
+ * Approving a run whose rule was edited or deleted since it paused marks the
+ * request expired instead: the run cannot be resumed.
+ */
+export const resolve = mutation({
+  args: {
+    id: v.id("execution_approvals"),
+    userId: v.string(),
+    status: v.union(v.literal("approved"), v.literal("rejected")),
+  },
+  handler: async (ctx, args) => {
+    const approval = await ctx.db.get(args.id);
+    if (!approval || approval.userId !== args.userId || approval.status !== "pending") {
+      return null;
+    }
+
+    let status: "approved" | "rejected" | "expired" = args.status;
+    if (status === "approved") {
+      const rule = await ctx.db.get(approval.ruleId);
+      // Requests from before versions were recorded only need the rule to exist
+      if (!rule || (approval.ruleVersionId !== undefined && rule.currentVersionId !== approval.ruleVersionId)) {
+        status = "expired";
+      }
+    }
+
+    const resolvedAt = Date.now();
+    await ctx.db.patch(args.id, { status, resolvedAt });
+
+    // The request has been handled, so its notifications are read
+    const notifications = await ctx.db
+      .query("notifications")
+      .withIndex("by_userId_read", (q) =>
+        q.eq("userId", args.userId).eq("read", false)
+      )
+      .collect();
+    for (const n of notifications) {
+      if (n.approvalId === args.id) {
+        await ctx.db.patch(n._id, { read: true });
+      }
+    }
+
+    return { ...approval, status, resolvedAt };
+  },
+});
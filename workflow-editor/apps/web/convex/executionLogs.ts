@@ -1,37 +1,82 @@
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
 import { query, mutation } from "./_generated/server";
+import { logStatus, outputDelivery } from "./schema";
 
+/** Characters of output and error text indexed for search */
+const MAX_SEARCH_TEXT_LENGTH = 32 * 1024;
+
+/**
+ * The text a log is found by in search: its output and error text
+ */
+function toSearchText(outputText?: string, errorText?: string): string | undefined {
+  const text = [outputText, errorText].filter(Boolean).join("\n");
+  return text ? text.slice(0, MAX_SEARCH_TEXT_LENGTH) : undefined;
+}
+
+/**
+ * A page of a user's logs, newest first. The rule and date range (since
+ * inclusive, until exclusive) narrow an index; status and trigger slug are
+ * filtered within it, so a page may hold fewer than numItems logs.
+ *
+ * With search, logs whose outputText or errorText match are returned in
+ * relevance order instead.
+ */
 export const list = query({
   args: {
     userId: v.string(),
-    limit: v.optional(v.number()),
+    ruleId: v.optional(v.id("execution_rules")),
+    status: v.optional(logStatus),
+    triggerSlug: v.optional(v.string()),
+    since: v.optional(v.number()),
+    until: v.optional(v.number()),
+    search: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
   },
   handler: async (ctx, args) => {
-    const q = ctx.db
-      .query("execution_logs")
-      .withIndex("by_userId_createdAt", (q) => q.eq("userId", args.userId))
-      .order("desc");
-    if (args.limit) {
-      return await q.take(args.limit);
-    }
-    return await q.collect();
-  },
-});
+    const since = args.since ?? 0;
+    const until = args.until ?? Number.MAX_SAFE_INTEGER;
 
-export const listByRule = query({
-  args: {
-    ruleId: v.id("execution_rules"),
-    limit: v.optional(v.number()),
-  },
-  handler: async (ctx, args) => {
-    const q = ctx.db
-      .query("execution_logs")
-      .withIndex("by_ruleId", (q) => q.eq("ruleId", args.ruleId))
-      .order("desc");
-    if (args.limit) {
-      return await q.take(args.limit);
+    if (args.search) {
+      const search = args.search;
+      return await ctx.db
+        .query("execution_logs")
+        .withSearchIndex("search_text", (q) => {
+          let s = q.search("searchText", search).eq("userId", args.userId);
+          if (args.ruleId) s = s.eq("ruleId", args.ruleId);
+          if (args.status) s = s.eq("status", args.status);
+          if (args.triggerSlug) s = s.eq("triggerSlug", args.triggerSlug);
+          return s;
+        })
+        .filter((q) =>
+          q.and(q.gte(q.field("createdAt"), since), q.lt(q.field("createdAt"), until))
+        )
+        .paginate(args.paginationOpts);
     }
-    return await q.collect();
+
+    const ruleId = args.ruleId;
+    const logs = ruleId
+      ? ctx.db
+          .query("execution_logs")
+          .withIndex("by_ruleId_createdAt", (q) =>
+            q.eq("ruleId", ruleId).gte("createdAt", since).lt("createdAt", until)
+          )
+      : ctx.db
+          .query("execution_logs")
+          .withIndex("by_userId_createdAt", (q) =>
+            q.eq("userId", args.userId).gte("createdAt", since).lt("createdAt", until)
+          );
+
+    return await logs
+      .order("desc")
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("userId"), args.userId),
+          args.status ? q.eq(q.field("status"), args.status) : true,
+          args.triggerSlug ? q.eq(q.field("triggerSlug"), args.triggerSlug) : true
+        )
+      )
+      .paginate(args.paginationOpts);
   },
 });
 
@@ -42,47 +87,223 @@ export const get = query({
   },
 });
 
+export const listReplays = query({
+  args: { logId: v.id("execution_logs") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("execution_logs")
+      .withIndex("by_replayOfLogId", (q) => q.eq("replayOfLogId", args.logId))
+      .order("desc")
+      .collect();
+  },
+});
+
 export const create = mutation({
   args: {
     ruleId: v.id("execution_rules"),
     ruleName: v.string(),
     userId: v.string(),
     triggerSlug: v.optional(v.string()),
-    status: v.union(
-      v.literal("success"),
-      v.literal("failure"),
-      v.literal("partial")
-    ),
+    status: logStatus,
     stepsJson: v.any(),
     outputText: v.optional(v.string()),
     errorText: v.optional(v.string()),
+    skipReason: v.optional(v.string()),
     durationMs: v.optional(v.number()),
+    triggerId: v.optional(v.string()),
+    matchConfidence: v.optional(v.number()),
+    triggerPayloadJson: v.optional(v.string()),
+    payloadTruncated: v.optional(v.boolean()),
+    replayOfLogId: v.optional(v.id("execution_logs")),
+    ruleVersionId: v.optional(v.id("execution_rule_versions")),
+    ruleVersion: v.optional(v.number()),
+    runId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.insert("execution_logs", {
+    const createdAt = Date.now();
+    const id = await ctx.db.insert("execution_logs", {
       ...args,
-      createdAt: Date.now(),
+      searchText: toSearchText(args.outputText, args.errorText),
+      createdAt,
     });
+
+    // Every log, skipped ones included, counts as the rule firing
+    if (await ctx.db.get(args.ruleId)) {
+      await ctx.db.patch(args.ruleId, { lastFiredAt: createdAt });
+    }
+    return id;
+  },
+});
+
+/**
+ * Record where a run's output was delivered, one entry per destination
+ */
+export const setOutputDeliveries = mutation({
+  args: {
+    id: v.id("execution_logs"),
+    deliveries: v.array(outputDelivery),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.id, { outputDeliveries: args.deliveries });
   },
 });
 
 export const stats = query({
-  args: { userId: v.string() },
+  args: { userId: v.string(), ruleId: v.optional(v.id("execution_rules")) },
   handler: async (ctx, args) => {
-    const logs = await ctx.db
-      .query("execution_logs")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .collect();
+    const ruleId = args.ruleId;
+    const logs = ruleId
+      ? (
+          await ctx.db
+            .query("execution_logs")
+            .withIndex("by_ruleId", (q) => q.eq("ruleId", ruleId))
+            .collect()
+        ).filter((l) => l.userId === args.userId)
+      : await ctx.db
+          .query("execution_logs")
+          .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+          .collect();
 
-    const total = logs.length;
+    // Skipped events never ran, so they're counted apart from runs
+    const skipped = logs.filter((l) => l.status === "skipped").length;
+    const runs = logs.filter((l) => l.status !== "skipped");
+    const total = runs.length;
     const success = logs.filter((l) => l.status === "success").length;
     const failure = logs.filter((l) => l.status === "failure").length;
     const partial = logs.filter((l) => l.status === "partial").length;
     const avgDuration =
       total > 0
-        ? logs.reduce((sum, l) => sum + (l.durationMs ?? 0), 0) / total
+        ? runs.reduce((sum, l) => sum + (l.durationMs ?? 0), 0) / total
         : 0;
 
-    return { total, success, failure, partial, avgDuration };
+    return { total, success, failure, partial, skipped, avgDuration };
+  },
+});
+
+/**
+ * Delete up to limit logs created before the cutoff, across all users, with
+ * the progress events and webhook deliveries of their runs. Returns how many
+ * logs were deleted; fewer than limit means none are left.
+ */
+export const removeOlderThan = mutation({
+  args: { before: v.number(), limit: v.number() },
+  handler: async (ctx, args) => {
+    const logs = await ctx.db
+      .query("execution_logs")
+      .withIndex("by_createdAt", (q) => q.lt("createdAt", args.before))
+      .take(args.limit);
+
+    for (const log of logs) {
+      const runId = log.runId;
+      if (runId) {
+        const events = await ctx.db
+          .query("run_events")
+          .withIndex("by_runId_seq", (q) => q.eq("runId", runId))
+          .collect();
+        for (const event of events) {
+          await ctx.db.delete(event._id);
+        }
+      }
+      const deliveries = await ctx.db
+        .query("webhook_deliveries")
+        .withIndex("by_logId", (q) => q.eq("logId", log._id))
+        .collect();
+      for (const delivery of deliveries) {
+        await ctx.db.delete(delivery._id);
+      }
+      await ctx.db.delete(log._id);
+    }
+
+    return logs.length;
+  },
+});
+
+/**
+ * Set searchText on a page of logs recorded before search existed, oldest
+ * first. Logs get searchText when they are created, so the backfill is done
+ * at the first log that already has it.
+ */
+export const backfillSearchText = mutation({
+  args: { cursor: v.union(v.string(), v.null()), numItems: v.number() },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("execution_logs")
+      .withIndex("by_createdAt")
+      .order("asc")
+      .paginate({ cursor: args.cursor, numItems: args.numItems });
+
+    let updated = 0;
+    for (const log of page.page) {
+      if (log.searchText !== undefined) {
+        return { updated, isDone: true, continueCursor: page.continueCursor };
+      }
+      const searchText = toSearchText(log.outputText, log.errorText);
+      if (searchText) {
+        await ctx.db.patch(log._id, { searchText });
+        updated++;
+      }
+    }
+    return { updated, isDone: page.isDone, continueCursor: page.continueCursor };
+  },
+});
+
+/**
+ * Error text with its variable parts (IDs, numbers, quoted values, URLs)
+ * replaced, so occurrences of the same error group together
+ */
+function normalizeError(text: string): string {
+  return text
+    .split("\n")[0]
+    .replace(/https?:\/\/\S+/g, "<url>")
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<id>")
+    .replace(/\b(?=[0-9a-z]*\d)[0-9a-z_-]{16,}\b/gi, "<id>")
+    .replace(/(^|[\s:(=])(["'`])[^"'`]*\2/g, "$1$2…$2")
+    .replace(/\d+(\.\d+)?/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 200);
+}
+
+/**
+ * A page of a user's logs between since (inclusive) and until (exclusive),
+ * oldest first, reduced to the fields the analytics dashboard aggregates.
+ * Error text comes back normalized, ready for grouping.
+ */
+export const analyticsPage = query({
+  args: {
+    userId: v.string(),
+    since: v.number(),
+    until: v.number(),
+    ruleId: v.optional(v.id("execution_rules")),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const ruleId = args.ruleId;
+    const logs = ruleId
+      ? ctx.db
+          .query("execution_logs")
+          .withIndex("by_ruleId_createdAt", (q) =>
+            q.eq("ruleId", ruleId).gte("createdAt", args.since).lt("createdAt", args.until)
+          )
+          .filter((q) => q.eq(q.field("userId"), args.userId))
+      : ctx.db
+          .query("execution_logs")
+          .withIndex("by_userId_createdAt", (q) =>
+            q.eq("userId", args.userId).gte("createdAt", args.since).lt("createdAt", args.until)
+          );
+
+    const result = await logs.paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: result.page.map((log) => ({
+        ruleId: log.ruleId,
+        ruleName: log.ruleName,
+        status: log.status,
+        triggerSlug: log.triggerSlug,
+        errorGroup: log.errorText ? normalizeError(log.errorText) : undefined,
+        durationMs: log.durationMs,
+        createdAt: log.createdAt,
+      })),
+    };
   },
 });
@@ -0,0 +1,165 @@
+import { v } from "convex/values";
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+
+/**
+ * Rule fields captured in each version. Runtime state (whether the rule is
+ * active, execution counts, schedule run times, recent run starts) is not part
+ * of a rule's definition and isn't versioned, so pausing or resuming a rule
+ * doesn't create a version.
+ */
+export const VERSIONED_FIELDS = [
+  "name",
+  "description",
+  "priority",
+  "acceptedTriggers",
+  "topicCondition",
+  "executionSteps",
+  "outputConfig",
+  "activationMode",
+  "scheduleEnabled",
+  "scheduleInterval",
+  "scheduleType",
+  "scheduleCron",
+  "scheduleTimezone",
+  "matchMode",
+  "matchThreshold",
+  "exclusive",
+  "conditions",
+  "conditionsOnly",
+  "rateLimit",
+  "cooldownMs",
+  "debounceMs",
+] as const;
+
+export const changeSource = v.union(
+  v.literal("ui"),
+  v.literal("assistant"),
+  v.literal("api"),
+  v.literal("import"),
+  v.literal("rollback"),
+  v.literal("baseline")
+);
+
+type ChangeSource = "ui" | "assistant" | "api" | "import" | "rollback" | "baseline";
+
+function pickSnapshot(rule: Doc<"execution_rules">): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of VERSIONED_FIELDS) {
+    if (rule[field] !== undefined) snapshot[field] = rule[field];
+  }
+  return snapshot;
+}
+
+/** JSON with sorted object keys, so equal values compare equal */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+}
+
+/**
+ * Snapshot a rule's current definition as a new version.
+ * Returns the current version unchanged when nothing versioned changed.
+ */
+export async function recordVersion(
+  ctx: MutationCtx,
+  ruleId: Id<"execution_rules">,
+  source: ChangeSource,
+  changedBy?: string,
+  restoredFromVersion?: number
+): Promise<Id<"execution_rule_versions"> | null> {
+  const rule = await ctx.db.get(ruleId);
+  if (!rule) return null;
+
+  const snapshot = pickSnapshot(rule);
+  const previous = rule.currentVersionId ? await ctx.db.get(rule.currentVersionId) : null;
+  const changedFields = VERSIONED_FIELDS.filter((field) =>
+    previous
+      ? canonical(previous.snapshot[field]) !== canonical(snapshot[field])
+      : snapshot[field] !== undefined
+  );
+  if (previous && changedFields.length === 0) return previous._id;
+
+  const version = (rule.currentVersion ?? 0) + 1;
+  const id = await ctx.db.insert("execution_rule_versions", {
+    ruleId,
+    userId: rule.userId,
+    version,
+    snapshot,
+    changedFields,
+    source,
+    changedBy,
+    restoredFromVersion,
+    createdAt: Date.now(),
+  });
+  await ctx.db.patch(ruleId, { currentVersionId: id, currentVersion: version });
+  return id;
+}
+
+/**
+ * Rules created before version history existed get their current state
+ * recorded before the first change, so that change can be rolled back.
+ */
+export async function ensureBaselineVersion(
+  ctx: MutationCtx,
+  rule: Doc<"execution_rules">
+): Promise<void> {
+  if (!rule.currentVersionId) {
+    await recordVersion(ctx, rule._id, "baseline");
+  }
+}
+
+export const listByRule = query({
+  args: { ruleId: v.id("execution_rules") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("execution_rule_versions")
+      .withIndex("by_ruleId_version", (q) => q.eq("ruleId", args.ruleId))
+      .order("desc")
+      .collect();
+  },
+});
+
+export const get = query({
+  args: { id: v.id("execution_rule_versions") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
+/**
+ * Restore a rule to an earlier version. The restore is recorded as a new
+ * version, so it can itself be rolled back. Whether the rule is active is
+ * left as it is.
+ */
+export const restore = mutation({
+  args: {
+    ruleId: v.id("execution_rules"),
+    versionId: v.id("execution_rule_versions"),
+    changedBy: v.optional(v.string()),
+    // null clears the next run (rule no longer scheduled)
+    scheduleNextRun: v.optional(v.union(v.number(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const rule = await ctx.db.get(args.ruleId);
+    const target = await ctx.db.get(args.versionId);
+    if (!rule || !target || target.ruleId !== args.ruleId) {
+      throw new Error("Version not found for this rule");
+    }
+
+    await ensureBaselineVersion(ctx, rule);
+
+    const updates: Record<string, unknown> = { updatedAt: Date.now() };
+    for (const field of VERSIONED_FIELDS) {
+      updates[field] = target.snapshot[field];
+    }
+    if (args.scheduleNextRun === null) updates.scheduleNextRun = undefined;
+    else if (args.scheduleNextRun !== undefined) updates.scheduleNextRun = args.scheduleNextRun;
+    await ctx.db.patch(args.ruleId, updates);
+
+    return await recordVersion(ctx, args.ruleId, "rollback", args.changedBy, target.version);
+  },
+});
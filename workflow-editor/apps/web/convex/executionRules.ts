@@ -1,5 +1,7 @@
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
+import { changeSource, ensureBaselineVersion, recordVersion } from "./executionRuleVersions";
+import { outputTarget } from "./schema";
 
 export const list = query({
   args: { userId: v.string() },
@@ -23,6 +25,33 @@ export const listActive = query({
   },
 });
 
+/**
+ * A user's rules that have not fired since idleSince. Rules that last fired
+ * before lastFiredAt was recorded fall back to their last execution.
+ */
+export const listIdle = query({
+  args: {
+    userId: v.string(),
+    idleSince: v.number(),
+    ruleId: v.optional(v.id("execution_rules")),
+  },
+  handler: async (ctx, args) => {
+    const rules = await ctx.db
+      .query("execution_rules")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .collect();
+    return rules
+      .filter((rule) => !args.ruleId || rule._id === args.ruleId)
+      .map((rule) => ({
+        ruleId: rule._id,
+        ruleName: rule.name,
+        isActive: rule.isActive,
+        lastFiredAt: rule.lastFiredAt ?? rule.lastExecutedAt,
+      }))
+      .filter((rule) => rule.lastFiredAt === undefined || rule.lastFiredAt < args.idleSince);
+  },
+});
+
 export const get = query({
   args: { id: v.id("execution_rules") },
   handler: async (ctx, args) => {
@@ -45,6 +74,18 @@ export const create = mutation({
         content: v.optional(v.string()),
         toolName: v.optional(v.string()),
         parameters: v.optional(v.any()),
+        message: v.optional(v.string()),
+        retry: v.optional(
+          v.object({
+            maxAttempts: v.number(),
+            backoffMs: v.optional(v.number()),
+            maxBackoffMs: v.optional(v.number()),
+            retryOn: v.optional(v.array(v.string())),
+          })
+        ),
+        timeoutMs: v.optional(v.number()),
+        onError: v.optional(v.string()),
+        fallbackStep: v.optional(v.number()),
       })
     ),
     outputConfig: v.optional(
@@ -53,6 +94,7 @@ export const create = mutation({
         destination: v.optional(v.string()),
         format: v.optional(v.string()),
         template: v.optional(v.string()),
+        additionalTargets: v.optional(v.array(outputTarget)),
       })
     ),
     activationMode: v.union(
@@ -70,15 +112,42 @@ export const create = mutation({
         v.literal("weekly")
       )
     ),
+    scheduleType: v.optional(
+      v.union(v.literal("interval"), v.literal("cron"))
+    ),
+    scheduleCron: v.optional(v.string()),
+    scheduleTimezone: v.optional(v.string()),
+    scheduleNextRun: v.optional(v.number()),
+    matchMode: v.optional(v.union(v.literal("first"), v.literal("all"))),
+    matchThreshold: v.optional(v.number()),
+    exclusive: v.optional(v.boolean()),
+    conditions: v.optional(
+      v.array(
+        v.object({
+          field: v.string(),
+          operator: v.string(),
+          value: v.optional(v.any()),
+        })
+      )
+    ),
+    conditionsOnly: v.optional(v.boolean()),
+    rateLimit: v.optional(v.object({ maxRuns: v.number(), windowMs: v.number() })),
+    cooldownMs: v.optional(v.number()),
+    debounceMs: v.optional(v.number()),
+    source: v.optional(changeSource),
+    changedBy: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const { source, changedBy, ...fields } = args;
     const now = Date.now();
-    return await ctx.db.insert("execution_rules", {
-      ...args,
+    const id = await ctx.db.insert("execution_rules", {
+      ...fields,
       executionCount: 0,
       createdAt: now,
       updatedAt: now,
     });
+    await recordVersion(ctx, id, source ?? "api", changedBy ?? fields.userId);
+    return id;
   },
 });
 
@@ -98,6 +167,18 @@ export const update = mutation({
           content: v.optional(v.string()),
           toolName: v.optional(v.string()),
           parameters: v.optional(v.any()),
+          message: v.optional(v.string()),
+          retry: v.optional(
+            v.object({
+              maxAttempts: v.number(),
+              backoffMs: v.optional(v.number()),
+              maxBackoffMs: v.optional(v.number()),
+              retryOn: v.optional(v.array(v.string())),
+            })
+          ),
+          timeoutMs: v.optional(v.number()),
+          onError: v.optional(v.string()),
+          fallbackStep: v.optional(v.number()),
         })
       )
     ),
@@ -107,6 +188,7 @@ export const update = mutation({
         destination: v.optional(v.string()),
         format: v.optional(v.string()),
         template: v.optional(v.string()),
+        additionalTargets: v.optional(v.array(outputTarget)),
       })
     ),
     activationMode: v.optional(
@@ -126,20 +208,198 @@ export const update = mutation({
         v.literal("weekly")
       )
     ),
+    scheduleType: v.optional(
+      v.union(v.literal("interval"), v.literal("cron"))
+    ),
+    scheduleCron: v.optional(v.string()),
+    scheduleTimezone: v.optional(v.string()),
+    // null clears the next run (rule no longer scheduled)
+    scheduleNextRun: v.optional(v.union(v.number(), v.null())),
+    matchMode: v.optional(v.union(v.literal("first"), v.literal("all"))),
+    matchThreshold: v.optional(v.number()),
+    exclusive: v.optional(v.boolean()),
+    conditions: v.optional(
+      v.array(
+        v.object({
+          field: v.string(),
+          operator: v.string(),
+          value: v.optional(v.any()),
+        })
+      )
+    ),
+    conditionsOnly: v.optional(v.boolean()),
+    // null removes the limit
+    rateLimit: v.optional(
+      v.union(v.object({ maxRuns: v.number(), windowMs: v.number() }), v.null())
+    ),
+    cooldownMs: v.optional(v.union(v.number(), v.null())),
+    debounceMs: v.optional(v.union(v.number(), v.null())),
+    source: v.optional(changeSource),
+    changedBy: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const { id, ...fields } = args;
+    const { id, source, changedBy, ...fields } = args;
+    const rule = await ctx.db.get(id);
+    if (!rule) throw new Error("Execution rule not found");
+    await ensureBaselineVersion(ctx, rule);
+
     const updates: Record<string, unknown> = { updatedAt: Date.now() };
     for (const [key, value] of Object.entries(fields)) {
-      if (value !== undefined) updates[key] = value;
+      if (value === null) updates[key] = undefined;
+      else if (value !== undefined) updates[key] = value;
     }
     await ctx.db.patch(id, updates);
+    await recordVersion(ctx, id, source ?? "api", changedBy ?? rule.userId);
+  },
+});
+
+export const listScheduledDue = query({
+  args: { now: v.number() },
+  handler: async (ctx, args) => {
+    const due = await ctx.db
+      .query("execution_rules")
+      .withIndex("by_isActive_scheduleNextRun", (q) =>
+        q.eq("isActive", true).gt("scheduleNextRun", 0).lte("scheduleNextRun", args.now)
+      )
+      .collect();
+    // Rules without a next run sort first in the index; the lower bound skips
+    // them, so a schedule with nothing pending is never treated as due.
+    // Rules scheduled before next runs were tracked get one from
+    // backfillScheduleNextRun.
+    return due.filter(
+      (rule) =>
+        rule.scheduleEnabled === true &&
+        (rule.scheduleType === "cron"
+          ? rule.scheduleCron !== undefined
+          : rule.scheduleInterval !== undefined) &&
+        (rule.activationMode === "scheduled" || rule.activationMode === "all")
+    );
+  },
+});
+
+/**
+ * Give scheduled rules that have no next run time one of `now`, so they are
+ * due right away. Rules scheduled before next run times were tracked have
+ * none, and listScheduledDue only sees rules that do. Returns how many rules
+ * were updated.
+ */
+export const backfillScheduleNextRun = mutation({
+  args: { now: v.number() },
+  handler: async (ctx, args) => {
+    const rules = await ctx.db
+      .query("execution_rules")
+      .withIndex("by_isActive_scheduleNextRun", (q) =>
+        q.eq("isActive", true).eq("scheduleNextRun", undefined)
+      )
+      .collect();
+    const scheduled = rules.filter(
+      (rule) =>
+        rule.scheduleEnabled === true &&
+        (rule.scheduleType === "cron"
+          ? rule.scheduleCron !== undefined
+          : rule.scheduleInterval !== undefined) &&
+        (rule.activationMode === "scheduled" || rule.activationMode === "all")
+    );
+    for (const rule of scheduled) {
+      await ctx.db.patch(rule._id, { scheduleNextRun: args.now });
+    }
+    return scheduled.length;
+  },
+});
+
+/**
+ * Claim a due scheduled run by advancing its next run time. Without a next
+ * run (the schedule never fires again) the schedule is disabled.
+ * Returns false if another scheduler already claimed this run.
+ */
+export const claimScheduledRun = mutation({
+  args: {
+    id: v.id("execution_rules"),
+    expectedNextRun: v.optional(v.number()),
+    ranAt: v.number(),
+    nextRun: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const rule = await ctx.db.get(args.id);
+    if (!rule || rule.scheduleNextRun !== args.expectedNextRun) return false;
+    await ctx.db.patch(args.id, {
+      scheduleLastRun: args.ranAt,
+      scheduleNextRun: args.nextRun,
+      ...(args.nextRun === undefined ? { scheduleEnabled: false } : {}),
+    });
+    return true;
+  },
+});
+
+/**
+ * Record the start of a trigger run against the rule's rate limit and
+ * cooldown. Returns false when the limits don't allow another run yet, e.g.
+ * because a concurrent event claimed the last slot. Mirrors checkRunLimits in
+ * src/lib/execution-rules/run-limits.ts.
+ */
+export const claimRun = mutation({
+  args: { id: v.id("execution_rules"), now: v.number() },
+  handler: async (ctx, args) => {
+    const rule = await ctx.db.get(args.id);
+    if (!rule) return false;
+
+    const starts = rule.recentRunStarts ?? [];
+    const last = starts[starts.length - 1];
+    if (rule.cooldownMs && last !== undefined && args.now - last < rule.cooldownMs) {
+      return false;
+    }
+    if (rule.rateLimit) {
+      const { maxRuns, windowMs } = rule.rateLimit;
+      const inWindow = starts.filter((start) => args.now - start < windowMs).length;
+      if (inWindow >= maxRuns) return false;
+    }
+
+    // Only the latest maxRuns starts can matter for the next check
+    const keep = Math.max(rule.rateLimit?.maxRuns ?? 1, 1);
+    await ctx.db.patch(args.id, { recentRunStarts: [...starts, args.now].slice(-keep) });
+    return true;
+  },
+});
+
+/**
+ * Set the secret that signs the rule's webhook deliveries. Unless replace is
+ * set, an existing secret is kept. Returns the secret in effect.
+ */
+export const setWebhookSecret = mutation({
+  args: { id: v.id("execution_rules"), secret: v.string(), replace: v.boolean() },
+  handler: async (ctx, args) => {
+    const rule = await ctx.db.get(args.id);
+    if (!rule) return null;
+    if (rule.webhookSecret && !args.replace) return rule.webhookSecret;
+    await ctx.db.patch(args.id, { webhookSecret: args.secret });
+    return args.secret;
   },
 });
 
 export const remove = mutation({
   args: { id: v.id("execution_rules") },
   handler: async (ctx, args) => {
+    const versions = await ctx.db
+      .query("execution_rule_versions")
+      .withIndex("by_ruleId_version", (q) => q.eq("ruleId", args.id))
+      .collect();
+    for (const version of versions) {
+      await ctx.db.delete(version._id);
+    }
+    const held = await ctx.db
+      .query("rule_debounces")
+      .withIndex("by_ruleId", (q) => q.eq("ruleId", args.id))
+      .collect();
+    for (const debounce of held) {
+      await ctx.db.delete(debounce._id);
+    }
+    const deliveries = await ctx.db
+      .query("webhook_deliveries")
+      .withIndex("by_ruleId_createdAt", (q) => q.eq("ruleId", args.id))
+      .collect();
+    for (const delivery of deliveries) {
+      await ctx.db.delete(delivery._id);
+    }
     await ctx.db.delete(args.id);
   },
 });
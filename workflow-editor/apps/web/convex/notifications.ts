@@ -8,7 +8,16 @@ export const list = query({
       .query("notifications")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
       .order("desc");
-    return args.limit ? await q.take(args.limit) : await q.collect();
+    const docs = args.limit ? await q.take(args.limit) : await q.collect();
+
+    // Include the current status of approval requests
+    return await Promise.all(
+      docs.map(async (doc) => {
+        if (!doc.approvalId) return doc;
+        const approval = await ctx.db.get(doc.approvalId);
+        return { ...doc, approvalStatus: approval?.status };
+      })
+    );
   },
 });
 
@@ -40,6 +49,7 @@ export const create = mutation({
     ruleId: v.optional(v.id("execution_rules")),
     ruleName: v.optional(v.string()),
     logId: v.optional(v.id("execution_logs")),
+    approvalId: v.optional(v.id("execution_approvals")),
   },
   handler: async (ctx, args) => {
     return await ctx.db.insert("notifications", {
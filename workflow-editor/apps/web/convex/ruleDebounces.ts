@@ -0,0 +1,63 @@
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+
+/**
+ * Hold an event for a debounced rule until dueAt. A rule holds one event at a
+ * time: a newer event replaces the held one and pushes dueAt back. Returns
+ * the replaced event, if any, so it can be logged as skipped.
+ */
+export const hold = mutation({
+  args: {
+    ruleId: v.id("execution_rules"),
+    userId: v.string(),
+    payloadJson: v.string(),
+    triggerId: v.optional(v.string()),
+    dueAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("rule_debounces")
+      .withIndex("by_ruleId", (q) => q.eq("ruleId", args.ruleId))
+      .first();
+
+    if (!existing) {
+      await ctx.db.insert("rule_debounces", {
+        ...args,
+        supersededCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+      return { superseded: null };
+    }
+
+    await ctx.db.patch(existing._id, {
+      payloadJson: args.payloadJson,
+      triggerId: args.triggerId,
+      dueAt: args.dueAt,
+      supersededCount: existing.supersededCount + 1,
+      updatedAt: now,
+    });
+    return {
+      superseded: { payloadJson: existing.payloadJson, triggerId: existing.triggerId },
+    };
+  },
+});
+
+/**
+ * Take held events that are due. Taken events are removed, so each one is
+ * run by a single caller.
+ */
+export const takeDue = mutation({
+  args: { now: v.number(), limit: v.number() },
+  handler: async (ctx, args) => {
+    const due = await ctx.db
+      .query("rule_debounces")
+      .withIndex("by_dueAt", (q) => q.lte("dueAt", args.now))
+      .take(args.limit);
+    for (const held of due) {
+      await ctx.db.delete(held._id);
+    }
+    return due;
+  },
+});
@@ -0,0 +1,106 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+export const append = mutation({
+  args: {
+    runId: v.string(),
+    userId: v.string(),
+    ruleId: v.id("execution_rules"),
+    seq: v.number(),
+    type: v.union(
+      v.literal("run_started"),
+      v.literal("step_started"),
+      v.literal("tool_call"),
+      v.literal("step_finished"),
+      v.literal("run_finished")
+    ),
+    stepIndex: v.optional(v.number()),
+    stepType: v.optional(v.string()),
+    stepCount: v.optional(v.number()),
+    attempt: v.optional(v.number()),
+    toolName: v.optional(v.string()),
+    success: v.optional(v.boolean()),
+    error: v.optional(v.string()),
+    detail: v.optional(v.string()),
+    durationMs: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("run_events", { ...args, createdAt: Date.now() });
+  },
+});
+
+export const listByRun = query({
+  args: { runId: v.string(), userId: v.string() },
+  handler: async (ctx, args) => {
+    const events = await ctx.db
+      .query("run_events")
+      .withIndex("by_runId_seq", (q) => q.eq("runId", args.runId))
+      .order("asc")
+      .collect();
+    return events.filter((event) => event.userId === args.userId);
+  },
+});
+
+/**
+ * Every event of the user's runs that started after startedAfter and haven't
+ * finished, optionally of one rule only. The cursor marks the user's latest
+ * event, to follow on from with listAfter.
+ */
+export const listActive = query({
+  args: {
+    userId: v.string(),
+    ruleId: v.optional(v.id("execution_rules")),
+    startedAfter: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const starts = await ctx.db
+      .query("run_events")
+      .withIndex("by_userId_type_createdAt", (q) =>
+        q.eq("userId", args.userId).eq("type", "run_started").gt("createdAt", args.startedAfter)
+      )
+      .collect();
+
+    const events = [];
+    for (const start of starts) {
+      if (args.ruleId && start.ruleId !== args.ruleId) continue;
+      const run = await ctx.db
+        .query("run_events")
+        .withIndex("by_runId_seq", (q) => q.eq("runId", start.runId))
+        .order("asc")
+        .collect();
+      if (run.some((event) => event.type === "run_finished")) continue;
+      events.push(...run);
+    }
+
+    const latest = await ctx.db
+      .query("run_events")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .first();
+    return { events, cursor: latest?._creationTime ?? 0 };
+  },
+});
+
+/**
+ * The user's events recorded after a cursor (an event's _creationTime), in
+ * the order they were recorded
+ */
+export const listAfter = query({
+  args: {
+    userId: v.string(),
+    ruleId: v.optional(v.id("execution_rules")),
+    after: v.number(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const events = await ctx.db
+      .query("run_events")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId).gt("_creationTime", args.after))
+      .order("asc")
+      .take(args.limit ?? 200);
+    return {
+      events: args.ruleId ? events.filter((event) => event.ruleId === args.ruleId) : events,
+      cursor: events.length > 0 ? events[events.length - 1]._creationTime : args.after,
+    };
+  },
+});
@@ -1,6 +1,34 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+/** A further output destination of a rule (OutputTarget) */
+export const outputTarget = v.object({
+  platform: v.string(),
+  destination: v.optional(v.string()),
+  format: v.string(),
+  template: v.optional(v.string()),
+});
+
+/** Status of an execution log; skipped events never ran */
+export const logStatus = v.union(
+  v.literal("success"),
+  v.literal("failure"),
+  v.literal("partial"),
+  v.literal("skipped")
+);
+
+/** Delivery of a run's output to one destination (OutputDelivery) */
+export const outputDelivery = v.object({
+  platform: v.string(),
+  destination: v.optional(v.string()),
+  status: v.union(v.literal("delivered"), v.literal("failed")),
+  error: v.optional(v.string()),
+  detail: v.optional(v.string()),
+  webhookDeliveryId: v.optional(v.string()),
+  durationMs: v.number(),
+  attemptedAt: v.number(),
+});
+
 export default defineSchema({
   users: defineTable({
     email: v.string(),
@@ -8,6 +36,24 @@ export default defineSchema({
     createdAt: v.number(),
   }).index("by_email", ["email"]),
 
+  workflows: defineTable({
+    userId: v.string(),
+    name: v.string(),
+    description: v.optional(v.string()),
+    formatVersion: v.string(),
+    metadata: v.any(),
+    trigger: v.any(),
+    nodes: v.any(),
+    edges: v.any(),
+    nodeCount: v.number(),
+    triggerType: v.optional(v.string()),
+    isActive: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_updatedAt", ["userId", "updatedAt"]),
+
   execution_rules: defineTable({
     userId: v.string(),
     name: v.string(),
@@ -22,6 +68,18 @@ export default defineSchema({
         content: v.optional(v.string()),
         toolName: v.optional(v.string()),
         parameters: v.optional(v.any()),
+        message: v.optional(v.string()),
+        retry: v.optional(
+          v.object({
+            maxAttempts: v.number(),
+            backoffMs: v.optional(v.number()),
+            maxBackoffMs: v.optional(v.number()),
+            retryOn: v.optional(v.array(v.string())),
+          })
+        ),
+        timeoutMs: v.optional(v.number()),
+        onError: v.optional(v.string()),
+        fallbackStep: v.optional(v.number()),
       })
     ),
     outputConfig: v.optional(
@@ -30,10 +88,12 @@ export default defineSchema({
         destination: v.optional(v.string()),
         format: v.optional(v.string()),
         template: v.optional(v.string()),
+        additionalTargets: v.optional(v.array(outputTarget)),
       })
     ),
     executionCount: v.number(),
     lastExecutedAt: v.optional(v.number()),
+    lastFiredAt: v.optional(v.number()), // Latest log of the rule, skipped runs included
     createdAt: v.number(),
     updatedAt: v.number(),
     activationMode: v.union(
@@ -51,31 +111,215 @@ export default defineSchema({
         v.literal("weekly")
       )
     ),
+    scheduleType: v.optional(
+      v.union(v.literal("interval"), v.literal("cron"))
+    ),
+    scheduleCron: v.optional(v.string()),
+    scheduleTimezone: v.optional(v.string()),
     scheduleLastRun: v.optional(v.number()),
     scheduleNextRun: v.optional(v.number()),
+    matchMode: v.optional(v.union(v.literal("first"), v.literal("all"))),
+    matchThreshold: v.optional(v.number()),
+    exclusive: v.optional(v.boolean()),
+    conditions: v.optional(
+      v.array(
+        v.object({
+          field: v.string(),
+          operator: v.string(),
+          value: v.optional(v.any()),
+        })
+      )
+    ),
+    conditionsOnly: v.optional(v.boolean()),
+    rateLimit: v.optional(
+      v.object({ maxRuns: v.number(), windowMs: v.number() })
+    ),
+    cooldownMs: v.optional(v.number()),
+    debounceMs: v.optional(v.number()),
+    recentRunStarts: v.optional(v.array(v.number())), // Latest trigger runs, oldest first
+    webhookSecret: v.optional(v.string()), // Signs outgoing webhook deliveries
+    currentVersionId: v.optional(v.id("execution_rule_versions")),
+    currentVersion: v.optional(v.number()),
   })
     .index("by_userId", ["userId"])
-    .index("by_userId_isActive", ["userId", "isActive"]),
+    .index("by_userId_isActive", ["userId", "isActive"])
+    .index("by_isActive_scheduleNextRun", ["isActive", "scheduleNextRun"]),
+
+  execution_rule_versions: defineTable({
+    ruleId: v.id("execution_rules"),
+    userId: v.string(),
+    version: v.number(),
+    snapshot: v.any(), // Versioned rule fields, see VERSIONED_FIELDS
+    changedFields: v.array(v.string()),
+    source: v.union(
+      v.literal("ui"),
+      v.literal("assistant"),
+      v.literal("api"),
+      v.literal("import"),
+      v.literal("rollback"),
+      v.literal("baseline")
+    ),
+    changedBy: v.optional(v.string()),
+    restoredFromVersion: v.optional(v.number()),
+    createdAt: v.number(),
+  }).index("by_ruleId_version", ["ruleId", "version"]),
 
   execution_logs: defineTable({
     ruleId: v.id("execution_rules"),
     ruleName: v.string(),
     userId: v.string(),
     triggerSlug: v.optional(v.string()),
-    status: v.union(
-      v.literal("success"),
-      v.literal("failure"),
-      v.literal("partial")
-    ),
+    status: logStatus,
     stepsJson: v.any(),
     outputText: v.optional(v.string()),
     errorText: v.optional(v.string()),
+    skipReason: v.optional(v.string()),
+    durationMs: v.optional(v.number()),
+    triggerId: v.optional(v.string()),
+    matchConfidence: v.optional(v.number()),
+    triggerPayloadJson: v.optional(v.string()), // Redacted, size-capped TriggerPayload
+    payloadTruncated: v.optional(v.boolean()),
+    replayOfLogId: v.optional(v.id("execution_logs")),
+    ruleVersionId: v.optional(v.id("execution_rule_versions")),
+    ruleVersion: v.optional(v.number()),
+    outputDeliveries: v.optional(v.array(outputDelivery)),
+    runId: v.optional(v.string()), // Progress events of the run, in run_events
+    searchText: v.optional(v.string()), // outputText and errorText, for full-text search
+    createdAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_ruleId", ["ruleId"])
+    .index("by_ruleId_createdAt", ["ruleId", "createdAt"])
+    .index("by_userId_createdAt", ["userId", "createdAt"])
+    .index("by_createdAt", ["createdAt"])
+    .index("by_replayOfLogId", ["replayOfLogId"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["userId", "ruleId", "status", "triggerSlug"],
+    }),
+
+  // Progress of rule runs as they happen, one row per event (RunEvent)
+  run_events: defineTable({
+    runId: v.string(),
+    userId: v.string(),
+    ruleId: v.id("execution_rules"),
+    seq: v.number(), // Order within the run, from 1
+    type: v.union(
+      v.literal("run_started"),
+      v.literal("step_started"),
+      v.literal("tool_call"),
+      v.literal("step_finished"),
+      v.literal("run_finished")
+    ),
+    stepIndex: v.optional(v.number()),
+    stepType: v.optional(v.string()),
+    stepCount: v.optional(v.number()),
+    attempt: v.optional(v.number()),
+    toolName: v.optional(v.string()),
+    success: v.optional(v.boolean()),
+    error: v.optional(v.string()),
+    detail: v.optional(v.string()),
     durationMs: v.optional(v.number()),
     createdAt: v.number(),
   })
+    .index("by_runId_seq", ["runId", "seq"])
     .index("by_userId", ["userId"])
+    .index("by_userId_type_createdAt", ["userId", "type", "createdAt"]),
+
+  trigger_events: defineTable({
+    eventId: v.string(),
+    userId: v.optional(v.string()),
+    triggerSlug: v.optional(v.string()),
+    rawPayload: v.string(),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("processing"),
+      v.literal("completed"),
+      v.literal("failed"),
+      v.literal("skipped")
+    ),
+    attempts: v.number(),
+    leaseOwner: v.optional(v.string()),
+    leaseExpiresAt: v.optional(v.number()),
+    logIds: v.array(v.id("execution_logs")),
+    reason: v.optional(v.string()),
+    errorText: v.optional(v.string()),
+    duplicateCount: v.number(),
+    lastDuplicateAt: v.optional(v.number()),
+    receivedAt: v.number(),
+    processedAt: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_eventId", ["eventId"])
+    .index("by_status_receivedAt", ["status", "receivedAt"])
+    .index("by_status_leaseExpiresAt", ["status", "leaseExpiresAt"])
+    .index("by_userId_receivedAt", ["userId", "receivedAt"]),
+
+  // The latest event held back by a debounced rule, waiting for the burst to end
+  rule_debounces: defineTable({
+    ruleId: v.id("execution_rules"),
+    userId: v.string(),
+    payloadJson: v.string(), // TriggerPayload
+    triggerId: v.optional(v.string()),
+    dueAt: v.number(),
+    supersededCount: v.number(), // Earlier events in the burst that were dropped
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
     .index("by_ruleId", ["ruleId"])
-    .index("by_userId_createdAt", ["userId", "createdAt"]),
+    .index("by_dueAt", ["dueAt"]),
+
+  // A signed POST of a rule's output to a webhook destination, with each attempt
+  webhook_deliveries: defineTable({
+    userId: v.string(),
+    ruleId: v.id("execution_rules"),
+    ruleName: v.string(),
+    logId: v.optional(v.id("execution_logs")),
+    url: v.string(),
+    body: v.optional(v.string()), // Unset when too large to keep; such deliveries can't be redelivered
+    bodyBytes: v.number(),
+    status: v.union(v.literal("pending"), v.literal("delivered"), v.literal("failed")),
+    attempts: v.array(
+      v.object({
+        attempt: v.number(),
+        statusCode: v.optional(v.number()),
+        responseSnippet: v.optional(v.string()),
+        error: v.optional(v.string()),
+        durationMs: v.number(),
+        attemptedAt: v.number(),
+      })
+    ),
+    redeliveryOfId: v.optional(v.id("webhook_deliveries")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_ruleId_createdAt", ["ruleId", "createdAt"])
+    .index("by_logId", ["logId"]),
+
+  execution_approvals: defineTable({
+    userId: v.string(),
+    ruleId: v.id("execution_rules"),
+    ruleName: v.string(),
+    stepIndex: v.number(),
+    message: v.optional(v.string()),
+    stepResultsJson: v.any(),
+    previousResults: v.array(v.string()),
+    triggerPayload: v.string(),
+    matchConfidence: v.optional(v.number()),
+    // Rule version the paused run uses; it only resumes while that is current
+    ruleVersionId: v.optional(v.id("execution_rule_versions")),
+    ruleVersion: v.optional(v.number()),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("approved"),
+      v.literal("rejected"),
+      v.literal("expired")
+    ),
+    createdAt: v.number(),
+    resolvedAt: v.optional(v.number()),
+  })
+    .index("by_userId_status", ["userId", "status"])
+    .index("by_ruleId", ["ruleId"]),
 
   notifications: defineTable({
     userId: v.string(),
@@ -91,6 +335,7 @@ export default defineSchema({
     ruleId: v.optional(v.id("execution_rules")),
     ruleName: v.optional(v.string()),
     logId: v.optional(v.id("execution_logs")),
+    approvalId: v.optional(v.id("execution_approvals")),
     read: v.boolean(),
     createdAt: v.number(),
   })
@@ -0,0 +1,188 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+const finishStatus = v.union(
+  v.literal("pending"),
+  v.literal("completed"),
+  v.literal("failed"),
+  v.literal("skipped")
+);
+
+export const get = query({
+  args: { id: v.id("trigger_events") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const listByUser = query({
+  args: { userId: v.string(), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const q = ctx.db
+      .query("trigger_events")
+      .withIndex("by_userId_receivedAt", (q) => q.eq("userId", args.userId))
+      .order("desc");
+    return args.limit ? await q.take(args.limit) : await q.collect();
+  },
+});
+
+/**
+ * Record an inbound event. An event with the same eventId received within the
+ * dedup window is not inserted again; the existing event is returned instead.
+ */
+export const record = mutation({
+  args: {
+    eventId: v.string(),
+    userId: v.optional(v.string()),
+    triggerSlug: v.optional(v.string()),
+    rawPayload: v.string(),
+    dedupWindowMs: v.number(),
+    skipReason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("trigger_events")
+      .withIndex("by_eventId", (q) => q.eq("eventId", args.eventId))
+      .order("desc")
+      .first();
+
+    if (existing && now - existing.receivedAt < args.dedupWindowMs) {
+      await ctx.db.patch(existing._id, {
+        duplicateCount: existing.duplicateCount + 1,
+        lastDuplicateAt: now,
+      });
+      return { id: existing._id, duplicate: true, status: existing.status };
+    }
+
+    const status = args.skipReason ? ("skipped" as const) : ("pending" as const);
+    const id = await ctx.db.insert("trigger_events", {
+      eventId: args.eventId,
+      userId: args.userId,
+      triggerSlug: args.triggerSlug,
+      rawPayload: args.rawPayload,
+      status,
+      attempts: 0,
+      logIds: [],
+      reason: args.skipReason,
+      duplicateCount: 0,
+      receivedAt: now,
+      processedAt: args.skipReason ? now : undefined,
+      updatedAt: now,
+    });
+    return { id, duplicate: false, status };
+  },
+});
+
+/**
+ * Claim pending events (and processing events whose lease expired) for a
+ * worker. Events that used up their attempts are marked failed instead.
+ */
+export const claim = mutation({
+  args: {
+    workerId: v.string(),
+    leaseMs: v.number(),
+    limit: v.number(),
+    maxAttempts: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const candidates = await ctx.db
+      .query("trigger_events")
+      .withIndex("by_status_receivedAt", (q) => q.eq("status", "pending"))
+      .order("asc")
+      .take(args.limit);
+
+    if (candidates.length < args.limit) {
+      const expired = await ctx.db
+        .query("trigger_events")
+        .withIndex("by_status_leaseExpiresAt", (q) =>
+          q.eq("status", "processing").lt("leaseExpiresAt", now)
+        )
+        .take(args.limit - candidates.length);
+      candidates.push(...expired);
+    }
+
+    const claimed = [];
+    for (const event of candidates) {
+      if (event.attempts >= args.maxAttempts) {
+        await ctx.db.patch(event._id, {
+          status: "failed",
+          leaseOwner: undefined,
+          leaseExpiresAt: undefined,
+          errorText: event.errorText || `Lease expired after ${event.attempts} attempts`,
+          processedAt: now,
+          updatedAt: now,
+        });
+        continue;
+      }
+
+      const patch = {
+        status: "processing" as const,
+        leaseOwner: args.workerId,
+        leaseExpiresAt: now + args.leaseMs,
+        attempts: event.attempts + 1,
+        updatedAt: now,
+      };
+      await ctx.db.patch(event._id, patch);
+      claimed.push({ ...event, ...patch });
+    }
+    return claimed;
+  },
+});
+
+/**
+ * Extend the lease of an event a worker is still processing.
+ * Returns false if the worker no longer holds the lease.
+ */
+export const renewLease = mutation({
+  args: {
+    id: v.id("trigger_events"),
+    workerId: v.string(),
+    leaseMs: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const event = await ctx.db.get(args.id);
+    if (!event || event.status !== "processing" || event.leaseOwner !== args.workerId) {
+      return false;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.id, { leaseExpiresAt: now + args.leaseMs, updatedAt: now });
+    return true;
+  },
+});
+
+/**
+ * Finish processing a claimed event. Returns false if the worker no longer
+ * holds the lease. Finishing as "pending" releases the event for a retry.
+ */
+export const finish = mutation({
+  args: {
+    id: v.id("trigger_events"),
+    workerId: v.string(),
+    status: finishStatus,
+    logIds: v.optional(v.array(v.id("execution_logs"))),
+    reason: v.optional(v.string()),
+    errorText: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const event = await ctx.db.get(args.id);
+    if (!event || event.status !== "processing" || event.leaseOwner !== args.workerId) {
+      return false;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.id, {
+      status: args.status,
+      leaseOwner: undefined,
+      leaseExpiresAt: undefined,
+      logIds: [...event.logIds, ...(args.logIds ?? [])],
+      reason: args.reason,
+      errorText: args.errorText,
+      processedAt: args.status === "pending" ? undefined : now,
+      updatedAt: now,
+    });
+    return true;
+  },
+});
@@ -0,0 +1,73 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+const attempt = v.object({
+  attempt: v.number(),
+  statusCode: v.optional(v.number()),
+  responseSnippet: v.optional(v.string()),
+  error: v.optional(v.string()),
+  durationMs: v.number(),
+  attemptedAt: v.number(),
+});
+
+export const get = query({
+  args: { id: v.id("webhook_deliveries") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const listByRule = query({
+  args: { ruleId: v.id("execution_rules"), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("webhook_deliveries")
+      .withIndex("by_ruleId_createdAt", (q) => q.eq("ruleId", args.ruleId))
+      .order("desc")
+      .take(args.limit ?? 50);
+  },
+});
+
+export const create = mutation({
+  args: {
+    userId: v.string(),
+    ruleId: v.id("execution_rules"),
+    ruleName: v.string(),
+    logId: v.optional(v.id("execution_logs")),
+    url: v.string(),
+    body: v.optional(v.string()),
+    bodyBytes: v.number(),
+    redeliveryOfId: v.optional(v.id("webhook_deliveries")),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    return await ctx.db.insert("webhook_deliveries", {
+      ...args,
+      status: "pending",
+      attempts: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Record an attempt of a delivery. A "pending" status means another attempt
+ * follows.
+ */
+export const recordAttempt = mutation({
+  args: {
+    id: v.id("webhook_deliveries"),
+    attempt,
+    status: v.union(v.literal("pending"), v.literal("delivered"), v.literal("failed")),
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.id);
+    if (!delivery) return;
+    await ctx.db.patch(args.id, {
+      attempts: [...delivery.attempts, args.attempt],
+      status: args.status,
+      updatedAt: Date.now(),
+    });
+  },
+});
@@ -0,0 +1,66 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+const workflowFields = {
+  name: v.string(),
+  description: v.optional(v.string()),
+  formatVersion: v.string(),
+  metadata: v.any(),
+  trigger: v.any(),
+  nodes: v.any(),
+  edges: v.any(),
+  nodeCount: v.number(),
+  triggerType: v.optional(v.string()),
+  isActive: v.boolean(),
+};
+
+export const list = query({
+  args: { userId: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("workflows")
+      .withIndex("by_userId_updatedAt", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .collect();
+  },
+});
+
+export const get = query({
+  args: { id: v.id("workflows") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const create = mutation({
+  args: {
+    userId: v.string(),
+    ...workflowFields,
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    return await ctx.db.insert("workflows", {
+      ...args,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id("workflows"),
+    ...workflowFields,
+  },
+  handler: async (ctx, args) => {
+    const { id, ...fields } = args;
+    await ctx.db.patch(id, { ...fields, updatedAt: Date.now() });
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id("workflows") },
+  handler: async (ctx, args) => {
+    await ctx.db.delete(args.id);
+  },
+});
@@ -12,6 +12,20 @@ import { findArtifactsWithConfidence, formatArtifactsForContext } from '@/lib/ar
 import { createThinkTagStreamFilter } from '@/lib/minimax-model';
 import type { ToolRouterChatRequest, InjectedArtifactInfo, ToolCallResult } from '@/lib/ai-assistant/types';
 
+/**
+ * Tool call arguments arrive as a JSON string; keep them only if they parse to an object
+ */
+function parseToolArguments(raw: unknown): Record<string, unknown> | undefined {
+  if (raw && typeof raw === 'object') return raw as Record<string, unknown>;
+  if (typeof raw !== 'string') return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * POST handler - streaming chat with tool router
  */
@@ -105,11 +119,13 @@ export async function POST(request: NextRequest) {
                 const toolName = rawItem?.name || rawItem?.call?.function?.name || 'unknown';
                 const toolkit = toolName.split('_')[0]?.toLowerCase() || 'unknown';
                 const callId = rawItem?.call_id || rawItem?.id || `tool_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+                const toolArguments = parseToolArguments(rawItem?.arguments ?? rawItem?.call?.function?.arguments);
                 
                 const toolCall: ToolCallResult = {
                   id: callId,
                   toolName,
                   toolkit,
+                  arguments: toolArguments,
                   success: false,
                   timestamp: new Date().toISOString(),
                 };
@@ -119,7 +135,8 @@ export async function POST(request: NextRequest) {
                 const sseEvent = `event: tool_call\ndata: ${JSON.stringify({ 
                   toolName, 
                   toolkit, 
-                  id: callId 
+                  id: callId,
+                  arguments: toolArguments,
                 })}\n\n`;
                 controller.enqueue(encoder.encode(sseEvent));
               } else if (itemEvent.name === 'tool_output') {
@@ -2,12 +2,14 @@
  * Rule-specific Execution Logs API Route
  *
  * GET /api/automations/[id]/logs - List execution logs for a specific rule
+ * Query params: the filters and page of log-filters.ts
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { DEV_USER } from '@/lib/dev-user';
 import { executionRulesStorage } from '@/lib/execution-rules/storage';
 import { executionLogStorage } from '@/lib/execution-rules/execution-log-storage';
+import { readLogListParams } from '@/lib/execution-rules/log-filters';
 
 export async function GET(
   request: NextRequest,
@@ -24,14 +26,19 @@ export async function GET(
       return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
     }
 
-    const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get('limit') || '50', 10);
-    const offset = parseInt(searchParams.get('offset') || '0', 10);
+    const listParams = readLogListParams(new URL(request.url).searchParams);
+    if ('error' in listParams) {
+      return NextResponse.json({ error: listParams.error }, { status: 400 });
+    }
 
-    const { logs, total } = await executionLogStorage.getByRuleId(id, limit, offset);
-    const stats = await executionLogStorage.getStatsByRuleId(id);
+    const [page, stats] = await Promise.all([
+      listParams.limit > 0
+        ? executionLogStorage.list(userId, { ...listParams.filters, ruleId: id }, listParams.cursor, listParams.limit)
+        : { logs: [], nextCursor: null },
+      executionLogStorage.getStats(userId, id),
+    ]);
 
-    return NextResponse.json({ logs, total, stats });
+    return NextResponse.json({ ...page, stats });
   } catch (error) {
     console.error('[API] Error fetching rule execution logs:', error);
     return NextResponse.json(
@@ -9,6 +9,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DEV_USER } from '@/lib/dev-user';
 import { executionRulesStorage } from '@/lib/execution-rules/storage';
+import { validateSchedule } from '@/lib/execution-rules/schedule';
+import { validateMatchThreshold } from '@/lib/execution-rules/matching';
+import { validateConditions } from '@/lib/execution-rules/conditions';
+import { validateRuleTemplates } from '@/lib/execution-rules/templating';
+import { validateStepPolicies } from '@/lib/execution-rules/step-policy';
+import { validateRunLimits } from '@/lib/execution-rules/run-limits';
+import { validateOutputConfig } from '@/lib/execution-rules/output-destinations';
 import type { ExecutionRuleInput } from '@/lib/execution-rules/types';
 
 interface RouteParams {
@@ -63,7 +70,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const body = (await request.json()) as Partial<ExecutionRuleInput>;
+    const body = (await request.json()) as Partial<ExecutionRuleInput> & { source?: string };
 
     // Validate execution steps if provided
     if (body.executionSteps) {
@@ -82,9 +89,16 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
               { status: 400 }
             );
           }
+        } else if (step.type === 'approval') {
+          if (step.message !== undefined && typeof step.message !== 'string') {
+            return NextResponse.json(
+              { error: 'Approval step message must be a string' },
+              { status: 400 }
+            );
+          }
         } else {
           return NextResponse.json(
-            { error: 'Invalid step type. Must be "instruction" or "action"' },
+            { error: 'Invalid step type. Must be "instruction", "action" or "approval"' },
             { status: 400 }
           );
         }
@@ -93,20 +107,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
     // Validate output config if provided
     if (body.outputConfig) {
-      const validPlatforms = ['slack', 'gmail', 'webhook', 'none'];
-      if (!validPlatforms.includes(body.outputConfig.platform)) {
-        return NextResponse.json(
-          { error: 'Invalid output platform' },
-          { status: 400 }
-        );
-      }
-
-      const validFormats = ['summary', 'detailed', 'raw'];
-      if (!validFormats.includes(body.outputConfig.format)) {
-        return NextResponse.json(
-          { error: 'Invalid output format' },
-          { status: 400 }
-        );
+      const outputError = validateOutputConfig(body.outputConfig);
+      if (outputError) {
+        return NextResponse.json({ error: outputError }, { status: 400 });
       }
     }
 
@@ -121,15 +124,53 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       }
     }
 
-    // Validate schedule interval if provided
-    if (body.scheduleInterval !== undefined) {
-      const validIntervals = ['15min', 'hourly', 'daily', 'weekly'];
-      if (!validIntervals.includes(body.scheduleInterval)) {
-        return NextResponse.json(
-          { error: 'Invalid schedule interval' },
-          { status: 400 }
-        );
-      }
+    // Validate matching options if provided
+    if (body.matchMode !== undefined && !['first', 'all'].includes(body.matchMode)) {
+      return NextResponse.json(
+        { error: 'Invalid match mode. Must be "first" or "all"' },
+        { status: 400 }
+      );
+    }
+
+    const thresholdError = validateMatchThreshold(body.matchThreshold);
+    if (thresholdError) {
+      return NextResponse.json({ error: thresholdError }, { status: 400 });
+    }
+
+    // Validate structured conditions if provided
+    const conditionsError = validateConditions(
+      body.conditions ?? existingRule.conditions,
+      body.conditionsOnly ?? existingRule.conditionsOnly
+    );
+    if (conditionsError) {
+      return NextResponse.json({ error: conditionsError }, { status: 400 });
+    }
+
+    // Validate template references in steps and the output template
+    const templateError = validateRuleTemplates(
+      body.executionSteps ?? existingRule.executionSteps,
+      body.outputConfig ?? existingRule.outputConfig
+    );
+    if (templateError) {
+      return NextResponse.json({ error: templateError }, { status: 400 });
+    }
+
+    // Validate step retry, timeout and error policies
+    const policyError = validateStepPolicies(body.executionSteps ?? existingRule.executionSteps);
+    if (policyError) {
+      return NextResponse.json({ error: policyError }, { status: 400 });
+    }
+
+    // Validate rate limit, cooldown and debounce
+    const limitsError = validateRunLimits(body);
+    if (limitsError) {
+      return NextResponse.json({ error: limitsError }, { status: 400 });
+    }
+
+    // Validate schedule (interval, cron expression, timezone) if provided
+    const scheduleError = validateSchedule(body);
+    if (scheduleError) {
+      return NextResponse.json({ error: scheduleError }, { status: 400 });
     }
 
     const updatedRule = await executionRulesStorage.update(id, {
@@ -144,6 +185,21 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       activationMode: body.activationMode,
       scheduleEnabled: body.scheduleEnabled,
       scheduleInterval: body.scheduleInterval,
+      scheduleType: body.scheduleType,
+      scheduleCron: body.scheduleCron?.trim(),
+      scheduleTimezone: body.scheduleTimezone?.trim(),
+      matchMode: body.matchMode,
+      matchThreshold: body.matchThreshold,
+      exclusive: body.exclusive,
+      conditions: body.conditions,
+      conditionsOnly: body.conditionsOnly,
+      rateLimit: body.rateLimit,
+      cooldownMs: body.cooldownMs,
+      debounceMs: body.debounceMs,
+    }, {
+      // The automations page marks its requests; anything else is an API client
+      source: body.source === 'ui' ? 'ui' : 'api',
+      changedBy: userId,
     });
 
     return NextResponse.json({ rule: updatedRule, success: true });
@@ -0,0 +1,62 @@
+/**
+ * Rule Test API Route
+ *
+ * POST /api/automations/[id]/test - Test a rule against a sample trigger payload
+ *
+ * Reports whether the rule would match and why. With `execute`, the steps run
+ * as a dry run: tool calls with side effects are reported instead of performed,
+ * and nothing is logged or sent.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { executionRulesStorage } from '@/lib/execution-rules/storage';
+import { triggerProcessingService } from '@/lib/execution-rules/trigger-processing-service';
+import { buildTestPayload } from '@/lib/execution-rules/dry-run';
+
+interface TestRequest {
+  triggerSlug: string;
+  payload: Record<string, unknown>;
+  execute?: boolean;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = DEV_USER.id;
+
+    const { id } = await params;
+
+    // Verify rule belongs to user
+    const rule = await executionRulesStorage.getByIdAndUser(id, userId);
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    const body = (await request.json()) as TestRequest;
+
+    if (!body.triggerSlug || typeof body.triggerSlug !== 'string') {
+      return NextResponse.json({ error: 'Trigger slug is required' }, { status: 400 });
+    }
+
+    if (!body.payload || typeof body.payload !== 'object' || Array.isArray(body.payload)) {
+      return NextResponse.json(
+        { error: 'Payload must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const payload = buildTestPayload(userId, body.triggerSlug.trim().toUpperCase(), body.payload);
+    const result = await triggerProcessingService.testRule(userId, rule, payload, Boolean(body.execute));
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('[API] Error testing execution rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to test execution rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Rule Rollback API Route
+ *
+ * POST /api/automations/[id]/versions/[versionId]/restore - Roll the rule back
+ * to this version. The rollback is saved as a new version and the rule keeps
+ * its active state.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { executionRulesStorage } from '@/lib/execution-rules/storage';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const userId = DEV_USER.id;
+
+    const { id, versionId } = await params;
+
+    const rule = await executionRulesStorage.getByIdAndUser(id, userId);
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    const version = await executionRulesStorage.getVersion(versionId);
+    if (!version || version.ruleId !== id) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    if (version.id === rule.versionId) {
+      return NextResponse.json(
+        { error: 'This is already the current version' },
+        { status: 400 }
+      );
+    }
+
+    const restored = await executionRulesStorage.restoreVersion(rule, version, userId);
+
+    return NextResponse.json({ rule: restored, success: true });
+  } catch (error) {
+    console.error('[API] Error restoring rule version:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore rule version' },
+      { status: 500 }
+    );
+  }
+}
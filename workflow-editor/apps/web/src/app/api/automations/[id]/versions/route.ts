@@ -0,0 +1,36 @@
+/**
+ * Rule Version History API Route
+ *
+ * GET /api/automations/[id]/versions - List a rule's versions, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { executionRulesStorage } from '@/lib/execution-rules/storage';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = DEV_USER.id;
+
+    const { id } = await params;
+
+    // Verify rule belongs to user
+    const rule = await executionRulesStorage.getByIdAndUser(id, userId);
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    const versions = await executionRulesStorage.getVersions(id);
+
+    return NextResponse.json({ versions, currentVersionId: rule.versionId });
+  } catch (error) {
+    console.error('[API] Error fetching rule versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rule versions' },
+      { status: 500 }
+    );
+  }
+}
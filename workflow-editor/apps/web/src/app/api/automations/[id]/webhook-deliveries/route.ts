@@ -0,0 +1,43 @@
+/**
+ * Webhook Deliveries API Route
+ *
+ * GET /api/automations/[id]/webhook-deliveries - List a rule's webhook
+ * deliveries, newest first, with the secret that signs them
+ * Query params: limit (default 50)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { executionRulesStorage } from '@/lib/execution-rules/storage';
+import { webhookDeliveryStorage } from '@/lib/execution-rules/webhook-delivery-storage';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = DEV_USER.id;
+
+    const { id } = await params;
+
+    // Verify rule belongs to user
+    const rule = await executionRulesStorage.getByIdAndUser(id, userId);
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '50', 10);
+
+    const deliveries = await webhookDeliveryStorage.getByRuleId(id, limit);
+    const secret = await executionRulesStorage.getWebhookSecret(id);
+
+    return NextResponse.json({ deliveries, secret });
+  } catch (error) {
+    console.error('[API] Error fetching webhook deliveries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
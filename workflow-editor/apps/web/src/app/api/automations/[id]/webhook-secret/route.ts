@@ -0,0 +1,38 @@
+/**
+ * Webhook Secret API Route
+ *
+ * POST /api/automations/[id]/webhook-secret - Replace the secret that signs the
+ * rule's webhook deliveries. Deliveries signed with the old secret stop
+ * verifying, so receivers need the new one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { executionRulesStorage } from '@/lib/execution-rules/storage';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = DEV_USER.id;
+
+    const { id } = await params;
+
+    // Verify rule belongs to user
+    const rule = await executionRulesStorage.getByIdAndUser(id, userId);
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    const secret = await executionRulesStorage.rotateWebhookSecret(id);
+
+    return NextResponse.json({ secret });
+  } catch (error) {
+    console.error('[API] Error rotating webhook secret:', error);
+    return NextResponse.json(
+      { error: 'Failed to rotate webhook secret' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Execution Analytics API Route
+ *
+ * GET /api/automations/analytics - Aggregated execution logs of the authenticated user
+ * Query params:
+ * - days: range to aggregate, 1-90 (default 30); ranges of up to 2 days are bucketed by hour, longer ones by day
+ * - idleDays: rules without a log in this many days are reported as idle (default 7)
+ * - ruleId: only this rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { executionRulesStorage } from '@/lib/execution-rules/storage';
+import { executionLogStorage } from '@/lib/execution-rules/execution-log-storage';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_DAYS = 90;
+
+function readDays(value: string | null, fallback: number): number {
+  const days = parseInt(value || '', 10);
+  return Number.isFinite(days) ? Math.min(MAX_DAYS, Math.max(1, days)) : fallback;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = DEV_USER.id;
+
+    const { searchParams } = new URL(request.url);
+    const days = readDays(searchParams.get('days'), 30);
+    const idleDays = readDays(searchParams.get('idleDays'), 7);
+    const ruleId = searchParams.get('ruleId') || undefined;
+
+    if (ruleId) {
+      // Verify rule belongs to user
+      const rule = await executionRulesStorage.getByIdAndUser(ruleId, userId);
+      if (!rule) {
+        return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+      }
+    }
+
+    const analytics = await executionLogStorage.getAnalytics(userId, {
+      since: new Date(Date.now() - days * DAY_MS),
+      bucketMs: days <= 2 ? HOUR_MS : DAY_MS,
+      idleDays,
+      ruleId,
+    });
+
+    return NextResponse.json({ analytics });
+  } catch (error) {
+    console.error('[API] Error fetching execution analytics:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch execution analytics' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Approval API Route
+ *
+ * POST /api/automations/approvals/[id] - Approve (resume) or reject (cancel) a
+ * rule run that is paused at an approval step
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { triggerProcessingService } from '@/lib/execution-rules/trigger-processing-service';
+
+interface ApprovalRequest {
+  decision: 'approve' | 'reject';
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = DEV_USER.id;
+    const { id } = await params;
+    const body: ApprovalRequest = await request.json();
+
+    if (body.decision !== 'approve' && body.decision !== 'reject') {
+      return NextResponse.json(
+        { error: 'decision must be "approve" or "reject"' },
+        { status: 400 }
+      );
+    }
+
+    const result = await triggerProcessingService.resolveApproval(
+      id,
+      userId,
+      body.decision === 'approve' ? 'approved' : 'rejected'
+    );
+
+    // No status means the request was never resolved by this call
+    if (!result.status) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[API] Error resolving approval:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resolve approval' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Rule Export API Route
+ *
+ * GET /api/automations/export - Download rules as a rule bundle
+ * Query: format=json|yaml (default yaml), ids=<comma-separated rule IDs>
+ * (default: all of the user's rules)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { executionRulesStorage } from '@/lib/execution-rules/storage';
+import { serializeRuleBundle, toPortableRule } from '@/lib/execution-rules/rule-bundle';
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = DEV_USER.id;
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') === 'json' ? 'json' : 'yaml';
+    const ids = searchParams.get('ids')?.split(',').filter(Boolean);
+
+    let rules = await executionRulesStorage.getByUserId(userId);
+    if (ids?.length) {
+      rules = rules.filter((rule) => ids.includes(rule.id));
+      if (rules.length === 0) {
+        return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+      }
+    }
+
+    const content = serializeRuleBundle({ rules: rules.map(toPortableRule) }, format);
+    const fileName = `automations-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json' : 'application/yaml',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error exporting rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to export rules' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Rule Import API Route
+ *
+ * POST /api/automations/import - Import rules from a rule bundle
+ * Body: {
+ *   content: string,            // JSON or YAML rule bundle
+ *   fileName?: string,          // used to tell JSON from YAML
+ *   onConflict?: 'rename' | 'skip' | 'overwrite' (default 'rename'),
+ *   preview?: boolean           // report what would happen without saving
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { detectBundleFormat, parseRuleBundle } from '@/lib/execution-rules/rule-bundle';
+import {
+  importRules,
+  IMPORT_CONFLICT_STRATEGIES,
+  type ImportConflictStrategy,
+} from '@/lib/execution-rules/rule-import';
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = DEV_USER.id;
+    const body = await request.json();
+
+    if (typeof body.content !== 'string' || !body.content.trim()) {
+      return NextResponse.json({ error: 'content is required' }, { status: 400 });
+    }
+
+    const onConflict: ImportConflictStrategy = body.onConflict ?? 'rename';
+    if (!IMPORT_CONFLICT_STRATEGIES.includes(onConflict)) {
+      return NextResponse.json(
+        { error: 'Invalid onConflict. Must be "rename", "skip" or "overwrite"' },
+        { status: 400 }
+      );
+    }
+
+    const { bundle, error } = parseRuleBundle(body.content, detectBundleFormat(body.content, body.fileName));
+    if (!bundle) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    if (bundle.rules.length === 0) {
+      return NextResponse.json({ error: 'The file contains no rules' }, { status: 400 });
+    }
+
+    const results = await importRules(userId, bundle.rules, {
+      onConflict,
+      preview: Boolean(body.preview),
+    });
+
+    return NextResponse.json({ results, preview: Boolean(body.preview) });
+  } catch (error) {
+    console.error('[API] Error importing rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to import rules' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Execution Replay API Route
+ *
+ * POST /api/automations/logs/[logId]/replay - Run the logged rule again against
+ * the payload stored with the log. The new log links back to this one.
+ * Body: { version?: 'current' | 'original' } - replay with the rule as it is
+ * now (default) or with the version of the rule that produced the log.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { executionLogStorage } from '@/lib/execution-rules/execution-log-storage';
+import {
+  triggerProcessingService,
+  type ReplayVersion,
+} from '@/lib/execution-rules/trigger-processing-service';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ logId: string }> }
+) {
+  try {
+    const userId = DEV_USER.id;
+    const { logId } = await params;
+
+    const log = await executionLogStorage.getByIdAndUser(logId, userId);
+    if (!log) {
+      return NextResponse.json({ error: 'Execution log not found' }, { status: 404 });
+    }
+
+    if (!log.triggerPayload) {
+      return NextResponse.json(
+        { error: 'This run was logged without its payload and cannot be replayed' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const version: ReplayVersion = body.version === 'original' ? 'original' : 'current';
+    if (version === 'original' && !log.ruleVersionId) {
+      return NextResponse.json(
+        { error: 'This run was logged before rule versions were recorded' },
+        { status: 400 }
+      );
+    }
+
+    const result = await triggerProcessingService.replay(userId, log, version);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[API] Error replaying execution:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay execution' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Execution Log API Route
+ *
+ * GET /api/automations/logs/[logId] - Get a log with its linked runs: the run
+ * it replayed (if any) and its own replays, for comparison
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { executionLogStorage } from '@/lib/execution-rules/execution-log-storage';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ logId: string }> }
+) {
+  try {
+    const userId = DEV_USER.id;
+    const { logId } = await params;
+
+    const log = await executionLogStorage.getByIdAndUser(logId, userId);
+    if (!log) {
+      return NextResponse.json({ error: 'Execution log not found' }, { status: 404 });
+    }
+
+    const original = log.replayOfLogId
+      ? await executionLogStorage.getByIdAndUser(log.replayOfLogId, userId)
+      : undefined;
+    const replays = await executionLogStorage.getReplays(log.id);
+
+    return NextResponse.json({ log, original, replays });
+  } catch (error) {
+    console.error('[API] Error fetching execution log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch execution log' },
+      { status: 500 }
+    );
+  }
+}
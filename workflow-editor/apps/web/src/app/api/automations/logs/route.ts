@@ -2,30 +2,35 @@
  * Execution Logs API Route
  *
  * GET /api/automations/logs - List execution logs for the authenticated user
+ * Query params: ruleId, plus the filters and page of log-filters.ts
+ * Returns a page of logs with the cursor of the next one (null on the last page)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { DEV_USER } from '@/lib/dev-user';
 import { executionLogStorage } from '@/lib/execution-rules/execution-log-storage';
+import { readLogListParams } from '@/lib/execution-rules/log-filters';
 
 export async function GET(request: NextRequest) {
   try {
     const userId = DEV_USER.id;
 
     const { searchParams } = new URL(request.url);
-    const ruleId = searchParams.get('ruleId');
-    const limit = parseInt(searchParams.get('limit') || '50', 10);
-    const offset = parseInt(searchParams.get('offset') || '0', 10);
+    const params = readLogListParams(searchParams);
+    if ('error' in params) {
+      return NextResponse.json({ error: params.error }, { status: 400 });
+    }
+    const ruleId = searchParams.get('ruleId') || undefined;
+    const filters = { ...params.filters, ruleId };
 
-    const { logs, total } = ruleId
-      ? await executionLogStorage.getByRuleId(ruleId, limit, offset)
-      : await executionLogStorage.getByUserId(userId, limit, offset);
+    const [page, stats] = await Promise.all([
+      params.limit > 0
+        ? executionLogStorage.list(userId, filters, params.cursor, params.limit)
+        : { logs: [], nextCursor: null },
+      executionLogStorage.getStats(userId, ruleId),
+    ]);
 
-    const stats = ruleId
-      ? await executionLogStorage.getStatsByRuleId(ruleId)
-      : await executionLogStorage.getStats(userId);
-
-    return NextResponse.json({ logs, total, stats });
+    return NextResponse.json({ ...page, stats });
   } catch (error) {
     console.error('[API] Error fetching execution logs:', error);
     return NextResponse.json(
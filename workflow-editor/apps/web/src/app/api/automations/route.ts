@@ -8,6 +8,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DEV_USER } from '@/lib/dev-user';
 import { executionRulesStorage } from '@/lib/execution-rules/storage';
+import { validateSchedule } from '@/lib/execution-rules/schedule';
+import { validateMatchThreshold } from '@/lib/execution-rules/matching';
+import { validateConditions } from '@/lib/execution-rules/conditions';
+import { validateRuleTemplates } from '@/lib/execution-rules/templating';
+import { validateStepPolicies } from '@/lib/execution-rules/step-policy';
+import { validateRunLimits } from '@/lib/execution-rules/run-limits';
+import { validateOutputConfig } from '@/lib/execution-rules/output-destinations';
 import type { ExecutionRuleInput } from '@/lib/execution-rules/types';
 
 /**
@@ -36,7 +43,7 @@ export async function POST(request: NextRequest) {
   try {
     const userId = DEV_USER.id;
 
-    const body = (await request.json()) as ExecutionRuleInput;
+    const body = (await request.json()) as ExecutionRuleInput & { source?: string };
 
     // Validate required fields
     if (!body.name || typeof body.name !== 'string') {
@@ -80,29 +87,25 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
+      } else if (step.type === 'approval') {
+        if (step.message !== undefined && typeof step.message !== 'string') {
+          return NextResponse.json(
+            { error: 'Approval step message must be a string' },
+            { status: 400 }
+          );
+        }
       } else {
         return NextResponse.json(
-          { error: 'Invalid step type. Must be "instruction" or "action"' },
+          { error: 'Invalid step type. Must be "instruction", "action" or "approval"' },
           { status: 400 }
         );
       }
     }
 
     // Validate output config
-    const validPlatforms = ['slack', 'gmail', 'webhook', 'none'];
-    if (!validPlatforms.includes(body.outputConfig.platform)) {
-      return NextResponse.json(
-        { error: 'Invalid output platform' },
-        { status: 400 }
-      );
-    }
-
-    const validFormats = ['summary', 'detailed', 'raw'];
-    if (!validFormats.includes(body.outputConfig.format)) {
-      return NextResponse.json(
-        { error: 'Invalid output format' },
-        { status: 400 }
-      );
+    const outputError = validateOutputConfig(body.outputConfig);
+    if (outputError) {
+      return NextResponse.json({ error: outputError }, { status: 400 });
     }
 
     // Validate activation mode if provided
@@ -116,15 +119,47 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Validate schedule interval if provided
-    if (body.scheduleInterval !== undefined) {
-      const validIntervals = ['15min', 'hourly', 'daily', 'weekly'];
-      if (!validIntervals.includes(body.scheduleInterval)) {
-        return NextResponse.json(
-          { error: 'Invalid schedule interval' },
-          { status: 400 }
-        );
-      }
+    // Validate matching options if provided
+    if (body.matchMode !== undefined && !['first', 'all'].includes(body.matchMode)) {
+      return NextResponse.json(
+        { error: 'Invalid match mode. Must be "first" or "all"' },
+        { status: 400 }
+      );
+    }
+
+    const thresholdError = validateMatchThreshold(body.matchThreshold);
+    if (thresholdError) {
+      return NextResponse.json({ error: thresholdError }, { status: 400 });
+    }
+
+    // Validate structured conditions if provided
+    const conditionsError = validateConditions(body.conditions, body.conditionsOnly);
+    if (conditionsError) {
+      return NextResponse.json({ error: conditionsError }, { status: 400 });
+    }
+
+    // Validate template references in steps and the output template
+    const templateError = validateRuleTemplates(body.executionSteps, body.outputConfig);
+    if (templateError) {
+      return NextResponse.json({ error: templateError }, { status: 400 });
+    }
+
+    // Validate step retry, timeout and error policies
+    const policyError = validateStepPolicies(body.executionSteps);
+    if (policyError) {
+      return NextResponse.json({ error: policyError }, { status: 400 });
+    }
+
+    // Validate rate limit, cooldown and debounce
+    const limitsError = validateRunLimits(body);
+    if (limitsError) {
+      return NextResponse.json({ error: limitsError }, { status: 400 });
+    }
+
+    // Validate schedule (interval, cron expression, timezone) if provided
+    const scheduleError = validateSchedule(body);
+    if (scheduleError) {
+      return NextResponse.json({ error: scheduleError }, { status: 400 });
     }
 
     const rule = await executionRulesStorage.create(userId, {
@@ -139,6 +174,21 @@ export async function POST(request: NextRequest) {
       activationMode: body.activationMode ?? 'trigger',
       scheduleEnabled: body.scheduleEnabled ?? false,
       scheduleInterval: body.scheduleInterval,
+      scheduleType: body.scheduleType,
+      scheduleCron: body.scheduleCron?.trim(),
+      scheduleTimezone: body.scheduleTimezone?.trim(),
+      matchMode: body.matchMode,
+      matchThreshold: body.matchThreshold,
+      exclusive: body.exclusive,
+      conditions: body.conditions,
+      conditionsOnly: body.conditionsOnly,
+      rateLimit: body.rateLimit,
+      cooldownMs: body.cooldownMs,
+      debounceMs: body.debounceMs,
+    }, {
+      // The automations page marks its requests; anything else is an API client
+      source: body.source === 'ui' ? 'ui' : 'api',
+      changedBy: userId,
     });
 
     return NextResponse.json({ rule, success: true });
@@ -0,0 +1,32 @@
+/**
+ * Run Events API Route
+ *
+ * GET /api/automations/runs/[runId] - The progress events of a run, in order
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { runEventStorage } from '@/lib/execution-rules/run-event-storage';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const userId = DEV_USER.id;
+    const { runId } = await params;
+
+    const events = await runEventStorage.getByRunIdAndUser(runId, userId);
+    if (events.length === 0) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('[API] Error fetching run events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch run events' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Live Run Progress API Route
+ *
+ * GET /api/automations/runs/stream - Server-Sent Events stream of rule run
+ * progress. Starts with every event of the runs still in progress, then sends
+ * each new event as it is recorded, as "run_event" events carrying a RunEvent.
+ * Query params: ruleId (optional) - only runs of this rule
+ *
+ * The stream ends after a few minutes. Each batch of events is followed by
+ * an SSE id holding the stream's cursor; EventSource reconnects by itself and
+ * sends it back as Last-Event-ID, and the stream then carries on from there,
+ * so runs that finished while disconnected still get their last events.
+ * Clients must ignore events they already have (same runId and seq).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { executionRulesStorage } from '@/lib/execution-rules/storage';
+import { runEventStorage, type RunEventPage } from '@/lib/execution-rules/run-event-storage';
+
+export const dynamic = 'force-dynamic';
+
+/** How often new events are checked for */
+const POLL_INTERVAL_MS = 1000;
+
+/** Idle time after which a keep-alive comment is sent */
+const KEEPALIVE_MS = 15 * 1000;
+
+/** How long one stream stays open */
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+/** Runs that started longer ago than this are not treated as in progress */
+const ACTIVE_WINDOW_MS = 60 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  const userId = DEV_USER.id;
+  const ruleId = new URL(request.url).searchParams.get('ruleId') || undefined;
+  const lastEventId = Number(request.headers.get('last-event-id') || NaN);
+  const resumeFrom = Number.isFinite(lastEventId) && lastEventId > 0 ? lastEventId : undefined;
+
+  if (ruleId) {
+    const rule = await executionRulesStorage.getByIdAndUser(ruleId, userId).catch(() => undefined);
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const openedAt = Date.now();
+      let lastSentAt = openedAt;
+
+      const sendPage = (page: RunEventPage) => {
+        for (const event of page.events) {
+          send(`event: run_event\ndata: ${JSON.stringify(event)}\n\n`);
+        }
+        // The id alone dispatches nothing, but becomes the Last-Event-ID of a reconnect
+        send(`id: ${page.cursor}\n\n`);
+      };
+
+      try {
+        // A reconnect carries on where the previous stream stopped
+        let cursor = resumeFrom;
+        if (cursor === undefined) {
+          const active = await runEventStorage.getActive(userId, new Date(openedAt - ACTIVE_WINDOW_MS), ruleId);
+          cursor = active.cursor;
+          sendPage(active);
+        }
+
+        while (!request.signal.aborted && Date.now() - openedAt < MAX_STREAM_MS) {
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+          if (request.signal.aborted) break;
+
+          const page = await runEventStorage.getAfter(userId, cursor, ruleId);
+          if (page.cursor !== cursor) sendPage(page);
+          cursor = page.cursor;
+
+          if (page.events.length > 0) {
+            lastSentAt = Date.now();
+          } else if (Date.now() - lastSentAt > KEEPALIVE_MS) {
+            send(': keep-alive\n\n');
+            lastSentAt = Date.now();
+          }
+        }
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error('[API] Run progress stream error:', error);
+          send(`event: error\ndata: ${JSON.stringify({
+            message: error instanceof Error ? error.message : 'Failed to stream run progress',
+          })}\n\n`);
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client disconnecting
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,23 @@
+/**
+ * Rule Templates API Route
+ *
+ * GET /api/automations/templates - Built-in templates plus those from custom
+ * template packs
+ */
+
+import { NextResponse } from 'next/server';
+import { getAllTemplates } from '@/lib/execution-rules/template-packs';
+
+export async function GET() {
+  try {
+    const templates = await getAllTemplates();
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('[API] Error loading rule templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to load rule templates' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Webhook Redelivery API Route
+ *
+ * POST /api/automations/webhook-deliveries/[deliveryId]/redeliver - Send a
+ * webhook delivery's body again. The redelivery is a new delivery that links
+ * back to this one; it is signed with the rule's current secret.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { webhookDeliveryStorage } from '@/lib/execution-rules/webhook-delivery-storage';
+import { webhookDeliveryService } from '@/lib/execution-rules/webhook-delivery';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ deliveryId: string }> }
+) {
+  try {
+    const userId = DEV_USER.id;
+    const { deliveryId } = await params;
+
+    const delivery = await webhookDeliveryStorage.getByIdAndUser(deliveryId, userId);
+    if (!delivery) {
+      return NextResponse.json({ error: 'Webhook delivery not found' }, { status: 404 });
+    }
+
+    if (delivery.body === undefined) {
+      return NextResponse.json(
+        { error: 'The body of this delivery was too large to keep, so it cannot be redelivered' },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await webhookDeliveryService.redeliver(delivery);
+    const redelivery = await webhookDeliveryStorage.get(id);
+
+    return NextResponse.json({ delivery: redelivery });
+  } catch (error) {
+    console.error('[API] Error redelivering webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to redeliver webhook' },
+      { status: 500 }
+    );
+  }
+}
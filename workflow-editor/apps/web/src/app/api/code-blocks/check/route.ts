@@ -0,0 +1,34 @@
+/**
+ * Code Block Syntax Check API Route
+ *
+ * POST /api/code-blocks/check
+ * Reports TypeScript syntax problems in a code block node, so the editor does
+ * not have to ship the compiler
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { checkCodeBlockSyntax } from '@/lib/code-blocks/compiler';
+
+export const runtime = 'nodejs';
+
+interface CheckRequest {
+  code: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CheckRequest = await request.json();
+
+    if (typeof body.code !== 'string') {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ diagnostics: checkCodeBlockSyntax(body.code) });
+  } catch (error) {
+    console.error('Error checking code block syntax:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to check code block syntax' },
+      { status: 500 }
+    );
+  }
+}
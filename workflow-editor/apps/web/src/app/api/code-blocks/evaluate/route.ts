@@ -0,0 +1,59 @@
+/**
+ * Code Block Evaluate API Route
+ *
+ * POST /api/code-blocks/evaluate
+ * Test-runs a code block node against sample input in an isolated, unprivileged process
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/dev-user';
+import { evaluateCodeBlock } from '@/lib/code-blocks/evaluator';
+
+export const runtime = 'nodejs';
+
+interface EvaluateRequest {
+  code: string;
+  payload?: unknown;
+  variables?: Record<string, unknown>;
+  timeoutMs?: number;
+}
+
+export async function POST(request: NextRequest) {
+  if (!getRequestUser(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body: EvaluateRequest = await request.json();
+
+    if (typeof body.code !== 'string' || !body.code.trim()) {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 });
+    }
+
+    if (
+      body.variables !== undefined &&
+      (typeof body.variables !== 'object' || body.variables === null || Array.isArray(body.variables))
+    ) {
+      return NextResponse.json({ error: 'variables must be an object' }, { status: 400 });
+    }
+
+    if (body.timeoutMs !== undefined && (typeof body.timeoutMs !== 'number' || body.timeoutMs <= 0)) {
+      return NextResponse.json({ error: 'timeoutMs must be a positive number' }, { status: 400 });
+    }
+
+    const result = await evaluateCodeBlock({
+      code: body.code,
+      payload: body.payload,
+      variables: body.variables,
+      timeoutMs: body.timeoutMs,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error evaluating code block:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to evaluate code block' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Composio Trigger Type API Route
+ *
+ * GET /api/composio/triggers/types/[slug] - Get a trigger type with a sample
+ * event payload built from its payload schema
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { composioService } from '@/lib/composio/composio-service';
+import { buildSamplePayload } from '@/lib/execution-rules/dry-run';
+
+type RouteParams = {
+  params: Promise<{ slug: string }>;
+};
+
+/**
+ * GET - Get a trigger type and a sample payload for testing rules
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { slug } = await params;
+
+    if (!process.env.COMPOSIO_API_KEY) {
+      return NextResponse.json(
+        { error: 'COMPOSIO_API_KEY is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const triggerType = await composioService.getTriggerType(slug.toUpperCase());
+    if (!triggerType) {
+      return NextResponse.json({ error: 'Trigger type not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      triggerType,
+      samplePayload: buildSamplePayload(triggerType.payload),
+    });
+  } catch (error) {
+    console.error('Get trigger type error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get trigger type' },
+      { status: 500 }
+    );
+  }
+}
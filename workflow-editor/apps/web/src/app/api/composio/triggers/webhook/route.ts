@@ -3,158 +3,62 @@
  *
  * POST /api/composio/triggers/webhook - Receive trigger events from Composio
  *
- * Supports both V3 and V2 webhook payload formats:
- * - V3: userId in metadata.user_id
- * - V2: userId in data.user_id
+ * Every event is recorded in the trigger_events inbox before it is
+ * acknowledged. Redeliveries of the same event ID are ignored, and processing
+ * happens in the trigger event worker.
+ *
+ * Requests are verified with HMAC-SHA256 signatures (see webhook-signature.ts).
+ * Once a secret is configured, every request must carry a valid signature.
+ * Without one, unsigned requests are only accepted outside strict mode (strict
+ * is the default in production).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { executionRulesStorage } from '@/lib/execution-rules/storage';
-import { triggerProcessingService } from '@/lib/execution-rules/trigger-processing-service';
-import type { TriggerPayload } from '@/lib/execution-rules/types';
-
-/**
- * Composio V3 webhook payload format
- */
-interface ComposioV3Payload {
-  id: string;
-  timestamp: string;
-  type: string;
-  metadata: {
-    user_id: string;
-    trigger_slug: string;
-    trigger_id: string;
-    connected_account_id: string;
-    auth_config_id: string;
-    log_id?: string;
-  };
-  data: Record<string, unknown>;
-}
-
-/**
- * Composio V2 webhook payload format
- */
-interface ComposioV2Payload {
-  type: string;
-  timestamp: string;
-  data: {
-    user_id: string;
-    connection_id: string;
-    trigger_id: string;
-    [key: string]: unknown;
-  };
-}
-
-/**
- * Legacy/raw payload format (headers + body wrapper)
- */
-interface LegacyPayload {
-  headers?: Record<string, string>;
-  body?: Record<string, unknown>;
-}
-
-type ComposioWebhookPayload = ComposioV3Payload | ComposioV2Payload | LegacyPayload | Record<string, unknown>;
-
-/**
- * Extract userId and trigger info from any Composio webhook format
- */
-function parseComposioPayload(payload: ComposioWebhookPayload): {
-  userId: string | null;
-  triggerSlug: string | null;
-  eventData: Record<string, unknown>;
-} {
-  // V3 format: metadata.user_id
-  if ('metadata' in payload && payload.metadata && typeof payload.metadata === 'object') {
-    const meta = payload.metadata as Record<string, unknown>;
-    return {
-      userId: (meta.user_id as string) || null,
-      triggerSlug: (meta.trigger_slug as string) || null,
-      eventData: ('data' in payload ? payload.data : payload) as Record<string, unknown>,
-    };
-  }
-
-  // V2 format: data.user_id
-  if ('data' in payload && payload.data && typeof payload.data === 'object') {
-    const data = payload.data as Record<string, unknown>;
-    if (data.user_id) {
-      return {
-        userId: data.user_id as string,
-        triggerSlug: ('type' in payload ? payload.type : null) as string | null,
-        eventData: data,
-      };
-    }
-  }
-
-  // Legacy format: headers + body wrapper
-  if ('headers' in payload && 'body' in payload && payload.body) {
-    const body = payload.body as Record<string, unknown>;
-    // Try to find user_id in body
-    const userId = (body.user_id as string) ||
-                   ((body.metadata as Record<string, unknown>)?.user_id as string) ||
-                   ((body.data as Record<string, unknown>)?.user_id as string) ||
-                   null;
-    return {
-      userId,
-      triggerSlug: inferTriggerSlug(body),
-      eventData: body,
-    };
-  }
-
-  // Fallback: try to find user_id anywhere in the payload
-  const p = payload as Record<string, unknown>;
-  return {
-    userId: (p.user_id as string) || (p.userId as string) || null,
-    triggerSlug: inferTriggerSlug(p),
-    eventData: p,
-  };
-}
-
-/**
- * Infer trigger type from payload content
- */
-function inferTriggerSlug(data: Record<string, unknown>): string | null {
-  if (data.message_id && (data.message_text || data.sender)) return 'GMAIL_NEW_GMAIL_MESSAGE';
-  if (data.thread_id && data.label_ids) return 'GMAIL_NEW_GMAIL_MESSAGE';
-  if (data.event_id || data.calendar_id) return 'GOOGLECALENDAR_EVENT_CREATED';
-  if (data.channel && data.text && data.user) return 'SLACK_NEW_MESSAGE';
-  return null;
-}
-
-/**
- * Infer toolkit from trigger slug
- */
-function inferToolkitFromTrigger(triggerSlug?: string | null): string {
-  if (!triggerSlug) return 'UNKNOWN';
-  const slug = triggerSlug.toUpperCase();
-  if (slug.includes('GMAIL')) return 'GMAIL';
-  if (slug.includes('CALENDAR')) return 'GOOGLECALENDAR';
-  if (slug.includes('SLACK')) return 'SLACK';
-  if (slug.includes('NOTION')) return 'NOTION';
-  if (slug.includes('GITHUB')) return 'GITHUB';
-  if (slug.includes('DRIVE')) return 'GOOGLEDRIVE';
-  return 'UNKNOWN';
-}
+import { getWebhookVerificationConfig, verifyWebhookSignature } from '@/lib/composio/webhook-signature';
+import { triggerEventStorage } from '@/lib/execution-rules/trigger-event-storage';
+import { triggerEventWorker, DEDUP_WINDOW_MS } from '@/lib/execution-rules/trigger-event-worker';
+import {
+  parseComposioPayload,
+  inferTriggerSlug,
+  resolveEventId,
+  type ComposioWebhookPayload,
+} from '@/lib/execution-rules/webhook-payload';
+
+export const runtime = 'nodejs';
 
 /**
  * POST - Receive trigger events from Composio
  */
 export async function POST(request: NextRequest) {
   try {
-    // Verify webhook secret if configured
-    const webhookSecret = process.env.COMPOSIO_WEBHOOK_SECRET;
-    if (webhookSecret) {
-      const providedSecret =
-        request.headers.get('x-webhook-secret') ||
-        request.headers.get('x-composio-signature');
-      if (providedSecret !== webhookSecret) {
-        console.warn('[Composio Webhook] Invalid or missing webhook secret');
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Verify the signature over the raw body before parsing it
+    const rawBody = await request.text();
+    const verification = getWebhookVerificationConfig();
+    const signature = verifyWebhookSignature(rawBody, request.headers, verification);
+
+    if (signature.verified) {
+      if (signature.secretIndex > 0) {
+        console.log('[Composio Webhook] Request signed with the previous secret (COMPOSIO_WEBHOOK_SECRET_PREVIOUS)');
       }
+    } else if (verification.strict || verification.secrets.length > 0) {
+      if (verification.secrets.length === 0) {
+        console.error('[Composio Webhook] Strict mode is on but COMPOSIO_WEBHOOK_SECRET is not configured');
+      }
+      console.warn(`[Composio Webhook] Rejected request: ${signature.error}`);
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     } else {
-      console.warn('[Composio Webhook] COMPOSIO_WEBHOOK_SECRET is not configured — webhook signature verification is disabled');
+      console.warn(
+        `[Composio Webhook] Accepting unverified request (${signature.error}); ` +
+        'set COMPOSIO_WEBHOOK_SECRET to require signatures'
+      );
     }
 
-    const rawPayload = (await request.json()) as ComposioWebhookPayload;
+    let rawPayload: ComposioWebhookPayload;
+    try {
+      rawPayload = JSON.parse(rawBody) as ComposioWebhookPayload;
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
 
     // Parse the payload (handles V3, V2, and legacy formats)
     const { userId, triggerSlug, eventData } = parseComposioPayload(rawPayload);
@@ -166,88 +70,61 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString(),
     });
 
+    // Record the event before acknowledging it, so it survives a restart
+    const eventId =
+      resolveEventId(rawPayload, eventData, request.headers.get('webhook-id')) || crypto.randomUUID();
+    const resolvedTriggerSlug = triggerSlug || inferTriggerSlug(eventData) || 'UNKNOWN_TRIGGER';
+    const recorded = await triggerEventStorage.record({
+      eventId,
+      userId: userId || undefined,
+      triggerSlug: resolvedTriggerSlug,
+      rawPayload: rawPayload as Record<string, unknown>,
+      dedupWindowMs: DEDUP_WINDOW_MS,
+      skipReason: userId ? undefined : 'No user_id in webhook payload',
+    });
+
+    if (recorded.duplicate) {
+      console.log(`[Composio Webhook] Ignoring redelivery of event ${eventId} (${recorded.status})`);
+      return NextResponse.json({
+        received: true,
+        duplicate: true,
+        eventId,
+        status: recorded.status,
+      });
+    }
+
     if (!userId) {
       console.log('[Composio Webhook] No user_id found in payload structure');
       return NextResponse.json({
         received: true,
         processed: false,
+        eventId,
         reason: 'No user_id in webhook payload - check Composio webhook version',
       });
     }
 
-    console.log(`[Composio Webhook] Identified user: ${userId}`);
-
-    // Check if user has active rules
-    const hasRules = await executionRulesStorage.hasActiveRules(userId);
-    if (!hasRules) {
-      console.log(`[Composio Webhook] User ${userId} has no active rules`);
-      return NextResponse.json({ received: true, processed: false, reason: 'No active rules' });
-    }
-
-    // Build TriggerPayload
-    const resolvedTriggerSlug = triggerSlug || inferTriggerSlug(eventData) || 'UNKNOWN_TRIGGER';
-    const triggerPayload: TriggerPayload = {
-      id: (eventData.id as string) || (eventData.message_id as string) || crypto.randomUUID(),
-      uuid: crypto.randomUUID(),
-      triggerSlug: resolvedTriggerSlug,
-      toolkitSlug: inferToolkitFromTrigger(resolvedTriggerSlug),
-      userId,
-      payload: eventData,
-      originalPayload: rawPayload as Record<string, unknown>,
-      metadata: {
-        id: '',
-        uuid: '',
-        toolkitSlug: inferToolkitFromTrigger(resolvedTriggerSlug),
-        triggerSlug: resolvedTriggerSlug,
-        triggerConfig: {},
-        connectedAccount: {
-          id: '',
-          uuid: '',
-          authConfigId: '',
-          authConfigUUID: '',
-          userId,
-          status: 'ACTIVE',
-        },
-      },
-    };
+    console.log(`[Composio Webhook] Identified user: ${userId}, queued event ${eventId}`);
 
-    // Process async
-    processTriggerAsync(userId, triggerPayload).catch((err) => {
-      console.error('[Composio Webhook] Async processing error:', err);
-    });
+    // Process in the background; the worker loop retries anything left behind
+    triggerEventWorker.kick();
 
     return NextResponse.json({
       received: true,
       processing: true,
-      triggerId: triggerPayload.id,
+      eventId,
       triggerSlug: resolvedTriggerSlug,
       userId,
     });
   } catch (error) {
     console.error('[Composio Webhook] Error:', error);
-    return NextResponse.json({
-      received: true,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-}
-
-/**
- * Process trigger asynchronously
- */
-async function processTriggerAsync(userId: string, payload: TriggerPayload): Promise<void> {
-  const result = await triggerProcessingService.process(userId, payload);
-
-  if (result.matched && result.executed) {
-    console.log(
-      `[Composio Webhook] Successfully executed rule "${result.ruleName}" for trigger ${payload.triggerSlug}`
-    );
-  } else if (result.matched && !result.executed) {
-    console.log(
-      `[Composio Webhook] Rule "${result.ruleName}" matched but execution failed: ${result.error}`
+    // Not recorded: fail so Composio redelivers the event
+    return NextResponse.json(
+      {
+        received: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
     );
-  } else {
-    console.log(`[Composio Webhook] No rule matched for trigger ${payload.triggerSlug}`);
   }
 }
 
@@ -0,0 +1,63 @@
+/**
+ * Cron Endpoint for Execution Log Retention
+ *
+ * GET /api/cron/cleanup-execution-logs - Delete logs past the retention period
+ * and make logs recorded before full-text search existed searchable
+ *
+ * The in-process scheduler handles this on long-running servers. On
+ * serverless deployments, call this endpoint daily. The retention period is
+ * EXECUTION_LOG_RETENTION_DAYS (see log-retention.ts).
+ *
+ * Security: Requires an Authorization header with the value "Bearer <CRON_SECRET>".
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { enforceLogRetention } from '@/lib/execution-rules/log-retention';
+
+/**
+ * GET /api/cron/cleanup-execution-logs - Enforce execution log retention
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      console.error('[Cron] CRON_SECRET is not configured');
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 503 }
+      );
+    }
+
+    const authHeader = request.headers.get('authorization');
+    const providedSecret = authHeader?.replace('Bearer ', '');
+    if (providedSecret !== cronSecret) {
+      console.warn('[Cron] Unauthorized cron request - invalid or missing secret');
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const result = await enforceLogRetention();
+
+    return NextResponse.json({
+      success: true,
+      result: {
+        ...result,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error('[Cron] Error cleaning up execution logs:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to clean up execution logs',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const maxDuration = 60;
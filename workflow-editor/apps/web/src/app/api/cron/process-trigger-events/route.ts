@@ -0,0 +1,62 @@
+/**
+ * Cron Endpoint for the Trigger Event Inbox
+ *
+ * GET /api/cron/process-trigger-events - Process pending trigger events
+ *
+ * The in-process worker loop handles this on long-running servers. On
+ * serverless deployments, call this endpoint every minute so events left
+ * behind by a cold-stopped function (and expired leases) are picked up.
+ *
+ * Security: Requires an Authorization header with the value "Bearer <CRON_SECRET>".
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { triggerEventWorker } from '@/lib/execution-rules/trigger-event-worker';
+
+/**
+ * GET /api/cron/process-trigger-events - Drain the trigger event inbox
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      console.error('[Cron] CRON_SECRET is not configured');
+      return NextResponse.json(
+        { error: 'Cron not configured' },
+        { status: 503 }
+      );
+    }
+
+    const authHeader = request.headers.get('authorization');
+    const providedSecret = authHeader?.replace('Bearer ', '');
+    if (providedSecret !== cronSecret) {
+      console.warn('[Cron] Unauthorized cron request - invalid or missing secret');
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const result = await triggerEventWorker.drain();
+
+    return NextResponse.json({
+      success: true,
+      result: {
+        ...result,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error('[Cron] Error processing trigger events:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to process trigger events',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const maxDuration = 60;
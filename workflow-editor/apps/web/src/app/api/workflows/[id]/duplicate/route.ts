@@ -0,0 +1,53 @@
+/**
+ * Workflow Duplicate API Route
+ *
+ * POST /api/workflows/[id]/duplicate - Copy a workflow under a new name
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deserializeWorkflow } from '@workflow-editor/core';
+import { DEV_USER } from '@/lib/dev-user';
+import { workflowStorage } from '@/lib/workflows';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/workflows/[id]/duplicate - Duplicate a workflow
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = DEV_USER.id;
+
+    const { id } = await params;
+    const existing = await workflowStorage.get(id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+    }
+
+    // Check ownership
+    if (existing.userId !== userId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const document = deserializeWorkflow(existing.workflow);
+    document.metadata = {
+      ...document.metadata,
+      name: `${document.metadata.name} (copy)`,
+    };
+    // Copies start inactive so a duplicated trigger never fires twice
+    document.trigger = { ...document.trigger, isActive: false };
+
+    const stored = await workflowStorage.create(userId, document);
+
+    return NextResponse.json({ id: stored.id, workflow: stored.workflow, success: true });
+  } catch (error) {
+    console.error('Error duplicating workflow:', error);
+    return NextResponse.json(
+      { error: 'Failed to duplicate workflow' },
+      { status: 500 }
+    );
+  }
+}
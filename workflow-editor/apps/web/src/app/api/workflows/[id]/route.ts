@@ -0,0 +1,114 @@
+/**
+ * Workflow by ID API Route
+ *
+ * GET /api/workflows/[id] - Get a workflow as a SerializedWorkflow
+ * PUT /api/workflows/[id] - Replace a workflow with a SerializedWorkflow
+ * DELETE /api/workflows/[id] - Delete a workflow
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEV_USER } from '@/lib/dev-user';
+import { workflowStorage, parseSerializedWorkflow } from '@/lib/workflows';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/workflows/[id] - Get a workflow
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = DEV_USER.id;
+
+    const { id } = await params;
+    const stored = await workflowStorage.get(id);
+
+    if (!stored) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+    }
+
+    // Check ownership
+    if (stored.userId !== userId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    return NextResponse.json({ workflow: stored.workflow });
+  } catch (error) {
+    console.error('Error getting workflow:', error);
+    return NextResponse.json(
+      { error: 'Failed to get workflow' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/workflows/[id] - Update a workflow
+ *
+ * Body: SerializedWorkflow (as produced by exportWorkflow in the workflow store)
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = DEV_USER.id;
+
+    const { id } = await params;
+    const existing = await workflowStorage.get(id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+    }
+
+    // Check ownership
+    if (existing.userId !== userId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = parseSerializedWorkflow(body.workflow ?? body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const stored = await workflowStorage.update(id, parsed.workflow);
+
+    return NextResponse.json({ workflow: stored?.workflow, success: true });
+  } catch (error) {
+    console.error('Error updating workflow:', error);
+    return NextResponse.json(
+      { error: 'Failed to update workflow' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/workflows/[id] - Delete a workflow
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = DEV_USER.id;
+
+    const { id } = await params;
+    const existing = await workflowStorage.get(id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+    }
+
+    // Check ownership
+    if (existing.userId !== userId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await workflowStorage.delete(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting workflow:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete workflow' },
+      { status: 500 }
+    );
+  }
+}
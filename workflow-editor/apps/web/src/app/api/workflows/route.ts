@@ -0,0 +1,72 @@
+/**
+ * Workflows API Route
+ *
+ * GET /api/workflows - List all workflows for the authenticated user
+ * POST /api/workflows - Create a new workflow
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createEmptyWorkflow } from '@workflow-editor/core';
+import { DEV_USER } from '@/lib/dev-user';
+import { workflowStorage, parseSerializedWorkflow } from '@/lib/workflows';
+
+/**
+ * GET /api/workflows - List all workflows for the authenticated user
+ */
+export async function GET() {
+  try {
+    const userId = DEV_USER.id;
+
+    const stored = await workflowStorage.getByUserId(userId);
+    const workflows = stored.map((w) => workflowStorage.toSummary(w));
+
+    return NextResponse.json({ workflows });
+  } catch (error) {
+    console.error('Error listing workflows:', error);
+    return NextResponse.json(
+      { error: 'Failed to list workflows' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workflows - Create a new workflow
+ *
+ * Body: { name, description? } for an empty workflow,
+ * or { workflow: SerializedWorkflow } to save an existing canvas.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = DEV_USER.id;
+
+    const body = await request.json();
+
+    let document;
+    if (body.workflow) {
+      const parsed = parseSerializedWorkflow(body.workflow);
+      if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      document = parsed.workflow;
+    } else {
+      if (!body.name || typeof body.name !== 'string' || !body.name.trim()) {
+        return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+      }
+      document = createEmptyWorkflow(body.name.trim());
+      if (typeof body.description === 'string' && body.description.trim()) {
+        document.metadata.description = body.description.trim();
+      }
+    }
+
+    const stored = await workflowStorage.create(userId, document);
+
+    return NextResponse.json({ id: stored.id, workflow: stored.workflow, success: true });
+  } catch (error) {
+    console.error('Error creating workflow:', error);
+    return NextResponse.json(
+      { error: 'Failed to create workflow' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,5 @@
+import { AnalyticsClient } from '@/components/automations/AnalyticsClient';
+
+export default function AutomationAnalyticsPage() {
+  return <AnalyticsClient />;
+}
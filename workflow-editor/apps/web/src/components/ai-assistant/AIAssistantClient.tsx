@@ -840,6 +840,7 @@ function AIAssistantContent() {
                       id: eventData.id,
                       toolName: eventData.toolName,
                       toolkit: eventData.toolkit,
+                      arguments: eventData.arguments,
                       success: false,
                       timestamp: new Date().toISOString(),
                     };
@@ -554,6 +554,9 @@ function ToolRouterMessageRow({ message }: { message: ToolRouterMessage }) {
             </ReactMarkdown>
           </div>
         )}
+        {message.toolCalls?.map((toolCall) => (
+          <ToolCallCard key={toolCall.id} toolCall={toolCall} />
+        ))}
       </div>
       <div className="chat-action-bar" role="group" aria-label="Message actions">
         <button
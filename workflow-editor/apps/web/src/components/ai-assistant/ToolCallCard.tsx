@@ -1,18 +1,59 @@
 'use client';
 
-import React, { useState } from 'react';
-import { CheckCircle2, XCircle, Wrench, ChevronDown, ChevronRight } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, XCircle, Wrench, ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
 import { clsx } from 'clsx';
+import { useLiveRuns } from '@/hooks/useLiveRuns';
+import { RunTimeline } from '@/components/automations/RunTimeline';
 import type { ToolCallResult } from '@/lib/ai-assistant/types';
+import type { RunEvent } from '@/lib/execution-rules/types';
 
 interface ToolCallCardProps {
   toolCall: ToolCallResult;
 }
 
+/** Runs that started this long before the tool call still count as its run (clock skew) */
+const RUN_MATCH_SLACK_MS = 5000;
+
+/**
+ * The run_id an invoke_automation result reports
+ */
+function getRunId(result: unknown): string | undefined {
+  try {
+    const parsed = typeof result === 'string' ? JSON.parse(result) : result;
+    return typeof parsed?.run_id === 'string' ? parsed.run_id : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export function ToolCallCard({ toolCall }: ToolCallCardProps) {
   const [expanded, setExpanded] = useState(false);
+  const [runEvents, setRunEvents] = useState<RunEvent[] | null>(null);
+
+  const isPending = toolCall.result === undefined && toolCall.error === undefined;
+  const isAutomationRun = toolCall.toolName === 'invoke_automation';
+  const ruleId = typeof toolCall.arguments?.rule_id === 'string' ? toolCall.arguments.rule_id : undefined;
+  const runId = isAutomationRun ? getRunId(toolCall.result) : undefined;
+
+  // Watch the automation while it runs...
+  const { runs } = useLiveRuns({ ruleId, enabled: isAutomationRun && isPending && !!ruleId });
+  const calledAt = new Date(toolCall.timestamp).getTime() - RUN_MATCH_SLACK_MS;
+  const liveEvents = Object.values(runs)
+    .filter((events) => events[0]?.type === 'run_started' && new Date(events[0].createdAt).getTime() >= calledAt)
+    .sort((a, b) => b[0].createdAt.localeCompare(a[0].createdAt))[0];
 
-  const hasDetails = toolCall.result !== undefined || toolCall.error !== undefined;
+  // ...and load its full timeline once it has finished
+  useEffect(() => {
+    if (!runId) return;
+    fetch(`/api/automations/runs/${runId}`)
+      .then((res) => (res.ok ? res.json() : { events: [] }))
+      .then((data) => setRunEvents(data.events || []))
+      .catch(() => setRunEvents([]));
+  }, [runId]);
+
+  const timeline = runId ? runEvents : liveEvents;
+  const hasDetails = toolCall.result !== undefined || toolCall.error !== undefined || !!timeline?.length;
 
   const formatResult = (result: unknown): string => {
     if (typeof result === 'string') {
@@ -25,9 +66,11 @@ export function ToolCallCard({ toolCall }: ToolCallCardProps) {
     <div
       className={clsx(
         'mt-2 p-3 rounded-lg border',
-        toolCall.success
-          ? 'bg-green-500/[0.06] border-green-500/20'
-          : 'bg-red-500/[0.06] border-red-500/20'
+        isPending
+          ? 'bg-muted/40 border-border'
+          : toolCall.success
+            ? 'bg-green-500/[0.06] border-green-500/20'
+            : 'bg-red-500/[0.06] border-red-500/20'
       )}
     >
       <div
@@ -37,7 +80,9 @@ export function ToolCallCard({ toolCall }: ToolCallCardProps) {
         )}
         onClick={() => hasDetails && setExpanded(!expanded)}
       >
-        {toolCall.success ? (
+        {isPending ? (
+          <Loader2 className="w-3.5 h-3.5 text-muted-foreground animate-spin flex-shrink-0" />
+        ) : toolCall.success ? (
           <CheckCircle2 className="w-3.5 h-3.5 text-green-400 flex-shrink-0" />
         ) : (
           <XCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />
@@ -58,6 +103,13 @@ export function ToolCallCard({ toolCall }: ToolCallCardProps) {
         )}
       </div>
 
+      {/* A running automation is followed live without expanding the card */}
+      {timeline && timeline.length > 0 && (isPending || expanded) && (
+        <div className="mt-2 p-2 bg-background/80 rounded-md border border-border/50">
+          <RunTimeline events={timeline} />
+        </div>
+      )}
+
       {expanded && toolCall.result !== undefined && (
         <div className="mt-2">
           <pre className="p-2 bg-background/80 rounded-md text-xs overflow-auto max-h-40 whitespace-pre-wrap break-words border border-border/50">
@@ -0,0 +1,415 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import {
+  ArrowLeft,
+  Loader2,
+  AlertCircle,
+  Activity,
+  TrendingUp,
+  Timer,
+  AlertTriangle,
+  Zap,
+  Moon,
+  BarChart3,
+} from 'lucide-react';
+import { clsx } from 'clsx';
+import { AuthenticatedLayout } from '../layout';
+import type { ExecutionAnalytics, ExecutionAnalyticsBucket, ExecutionRule } from '@/lib/execution-rules/types';
+
+const RANGE_OPTIONS = [
+  { days: 1, label: 'Last 24 hours' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+const IDLE_OPTIONS = [3, 7, 14, 30];
+
+/** Rules shown in the runs-per-rule chart */
+const MAX_CHARTED_RULES = 8;
+
+const STATUS_COLORS: Record<keyof Omit<ExecutionAnalyticsBucket, 'start'>, string> = {
+  success: 'bg-green-500',
+  partial: 'bg-yellow-500',
+  failure: 'bg-red-500',
+  skipped: 'bg-muted-foreground/30',
+};
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60000).toFixed(1)}m`;
+}
+
+function formatBucket(start: string, bucketMs: number): string {
+  const date = new Date(start);
+  return bucketMs < 24 * 60 * 60 * 1000
+    ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+export function AnalyticsClient() {
+  const [analytics, setAnalytics] = useState<ExecutionAnalytics | null>(null);
+  const [rules, setRules] = useState<ExecutionRule[]>([]);
+  const [days, setDays] = useState(30);
+  const [idleDays, setIdleDays] = useState(7);
+  const [ruleId, setRuleId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({ days: String(days), idleDays: String(idleDays) });
+      if (ruleId) params.set('ruleId', ruleId);
+
+      const res = await fetch(`/api/automations/analytics?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to fetch analytics');
+      setAnalytics(data.analytics);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days, idleDays, ruleId]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  useEffect(() => {
+    fetch('/api/automations')
+      .then((res) => (res.ok ? res.json() : { rules: [] }))
+      .then((data) => setRules(data.rules || []))
+      .catch(() => setRules([]));
+  }, []);
+
+  const runs = analytics?.rules.reduce((sum, r) => sum + r.runs, 0) ?? 0;
+  const successes = analytics?.buckets.reduce((sum, b) => sum + b.success, 0) ?? 0;
+  const skipped = analytics?.buckets.reduce((sum, b) => sum + b.skipped, 0) ?? 0;
+  const successRate = runs > 0 ? (successes / runs) * 100 : 0;
+
+  return (
+    <AuthenticatedLayout title="Automation Analytics">
+      <div className="p-6 max-w-5xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <Link
+            href="/automations"
+            className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Automations
+          </Link>
+          <div className="flex items-center gap-2">
+            <select
+              value={ruleId}
+              onChange={(e) => setRuleId(e.target.value)}
+              className="px-3 py-1.5 border rounded-md bg-background text-sm"
+            >
+              <option value="">All rules</option>
+              {rules.map((rule) => (
+                <option key={rule.id} value={rule.id}>{rule.name}</option>
+              ))}
+            </select>
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="px-3 py-1.5 border rounded-md bg-background text-sm"
+            >
+              {RANGE_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-md flex items-center gap-2 text-destructive">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+
+        {isLoading && !analytics ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : analytics && (
+          <div className={clsx('space-y-6', isLoading && 'opacity-60')}>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <StatCard icon={Activity} iconClass="text-blue-500" label="Runs">
+                {runs}
+                {skipped > 0 && (
+                  <span className="ml-1.5 text-xs font-normal text-muted-foreground">+{skipped} skipped</span>
+                )}
+              </StatCard>
+              <StatCard icon={TrendingUp} iconClass="text-green-500" label="Success Rate">
+                {runs > 0 ? `${successRate.toFixed(1)}%` : '—'}
+              </StatCard>
+              <StatCard icon={Timer} iconClass="text-amber-500" label="p50 Duration">
+                {analytics.duration.samples > 0 ? formatDuration(analytics.duration.p50Ms) : '—'}
+              </StatCard>
+              <StatCard icon={Timer} iconClass="text-red-500" label="p95 Duration">
+                {analytics.duration.samples > 0 ? formatDuration(analytics.duration.p95Ms) : '—'}
+                {analytics.duration.samples > 0 && (
+                  <span className="ml-1.5 text-xs font-normal text-muted-foreground">
+                    max {formatDuration(analytics.duration.maxMs)}
+                  </span>
+                )}
+              </StatCard>
+            </div>
+
+            {/* Success / failure trend */}
+            <Section icon={BarChart3} title="Runs over time">
+              <TrendChart buckets={analytics.buckets} bucketMs={analytics.bucketMs} />
+              <div className="flex items-center gap-3 mt-2 text-xs text-muted-foreground">
+                {(Object.keys(STATUS_COLORS) as Array<keyof typeof STATUS_COLORS>).map((status) => (
+                  <span key={status} className="flex items-center gap-1">
+                    <span className={clsx('w-2.5 h-2.5 rounded-sm', STATUS_COLORS[status])} />
+                    {status}
+                  </span>
+                ))}
+              </div>
+            </Section>
+
+            {/* Runs per rule */}
+            <Section icon={Zap} title="Runs per rule">
+              {analytics.rules.length === 0 ? (
+                <Empty>No runs in this range</Empty>
+              ) : (
+                <div className="space-y-2">
+                  {analytics.rules.slice(0, MAX_CHARTED_RULES).map((rule) => (
+                    <div key={rule.ruleId} className="grid grid-cols-[10rem_1fr_6rem] gap-3 items-center">
+                      <span className="text-sm truncate" title={rule.ruleName}>{rule.ruleName}</span>
+                      <Sparkline counts={rule.counts} />
+                      <span className="text-xs text-right text-muted-foreground">
+                        {rule.runs} run{rule.runs === 1 ? '' : 's'}
+                        {rule.failures > 0 && <span className="text-red-500"> · {rule.failures} failed</span>}
+                      </span>
+                    </div>
+                  ))}
+                  {analytics.rules.length > MAX_CHARTED_RULES && (
+                    <p className="text-xs text-muted-foreground">
+                      and {analytics.rules.length - MAX_CHARTED_RULES} more rule(s) with fewer runs
+                    </p>
+                  )}
+                </div>
+              )}
+            </Section>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              {/* Trigger breakdown */}
+              <Section icon={Activity} title="By trigger">
+                {analytics.triggers.length === 0 ? (
+                  <Empty>No runs in this range</Empty>
+                ) : (
+                  <div className="space-y-2">
+                    {analytics.triggers.map((trigger) => (
+                      <div key={trigger.triggerSlug}>
+                        <div className="flex items-center justify-between text-xs mb-0.5">
+                          <span className="truncate font-mono">{trigger.triggerSlug}</span>
+                          <span className="text-muted-foreground flex-shrink-0 ml-2">
+                            {trigger.runs}
+                            {trigger.failures > 0 && <span className="text-red-500"> · {trigger.failures} failed</span>}
+                          </span>
+                        </div>
+                        <div className="h-2 bg-muted rounded-full overflow-hidden flex">
+                          <div
+                            className="bg-green-500"
+                            style={{ width: `${((trigger.runs - trigger.failures) / analytics.triggers[0].runs) * 100}%` }}
+                          />
+                          <div
+                            className="bg-red-500"
+                            style={{ width: `${(trigger.failures / analytics.triggers[0].runs) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Section>
+
+              {/* Idle rules */}
+              <Section
+                icon={Moon}
+                title="Not fired recently"
+                action={
+                  <select
+                    value={idleDays}
+                    onChange={(e) => setIdleDays(Number(e.target.value))}
+                    className="px-2 py-1 border rounded-md bg-background text-xs"
+                  >
+                    {IDLE_OPTIONS.map((n) => (
+                      <option key={n} value={n}>{n} days</option>
+                    ))}
+                  </select>
+                }
+              >
+                {analytics.idleRules.length === 0 ? (
+                  <Empty>Every rule fired in the last {analytics.idleDays} days</Empty>
+                ) : (
+                  <ul className="space-y-1">
+                    {analytics.idleRules.map((rule) => (
+                      <li key={rule.ruleId} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">
+                          {rule.ruleName}
+                          {!rule.isActive && (
+                            <span className="ml-1.5 text-xs px-1.5 py-0.5 bg-muted rounded-full text-muted-foreground">
+                              paused
+                            </span>
+                          )}
+                        </span>
+                        <span className="text-xs text-muted-foreground flex-shrink-0">
+                          {rule.lastFiredAt ? `last ${new Date(rule.lastFiredAt).toLocaleDateString()}` : 'never'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Section>
+            </div>
+
+            {/* Common errors */}
+            <Section icon={AlertTriangle} title="Most common errors">
+              {analytics.topErrors.length === 0 ? (
+                <Empty>No errors in this range</Empty>
+              ) : (
+                <div className="space-y-2">
+                  {analytics.topErrors.map((group) => (
+                    <div key={group.message} className="p-2 bg-background rounded border">
+                      <div className="flex items-start gap-2">
+                        <span className="text-xs px-1.5 py-0.5 bg-red-500/10 text-red-500 rounded-full flex-shrink-0">
+                          {group.count}×
+                        </span>
+                        <code className="text-xs break-words flex-1">{group.message}</code>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {group.ruleNames.join(', ')} · last {new Date(group.lastSeenAt).toLocaleString()}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Section>
+          </div>
+        )}
+      </div>
+    </AuthenticatedLayout>
+  );
+}
+
+function StatCard({
+  icon: Icon,
+  iconClass,
+  label,
+  children,
+}: {
+  icon: typeof Activity;
+  iconClass: string;
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="bg-card border border-border rounded-lg p-4">
+      <div className="flex items-center gap-2 text-muted-foreground mb-1">
+        <Icon className={clsx('w-3.5 h-3.5', iconClass)} />
+        <span className="text-xs font-medium">{label}</span>
+      </div>
+      <p className="text-2xl font-semibold">{children}</p>
+    </div>
+  );
+}
+
+function Section({
+  icon: Icon,
+  title,
+  action,
+  children,
+}: {
+  icon: typeof Activity;
+  title: string;
+  action?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="bg-card border border-border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2 text-sm font-medium">
+          <Icon className="w-4 h-4 text-muted-foreground" />
+          {title}
+        </h3>
+        {action}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function Empty({ children }: { children: React.ReactNode }) {
+  return <p className="text-sm text-muted-foreground py-4 text-center">{children}</p>;
+}
+
+/**
+ * Stacked bars of each bucket's logs by status
+ */
+function TrendChart({ buckets, bucketMs }: { buckets: ExecutionAnalyticsBucket[]; bucketMs: number }) {
+  const totals = buckets.map((b) => b.success + b.partial + b.failure + b.skipped);
+  const max = Math.max(1, ...totals);
+  const labelEvery = Math.ceil(buckets.length / 8);
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-40">
+        {buckets.map((bucket, i) => (
+          <div
+            key={bucket.start}
+            className="flex-1 flex flex-col-reverse min-w-0 h-full"
+            title={`${formatBucket(bucket.start, bucketMs)}: ${bucket.success} succeeded, ${bucket.partial} partial, ${bucket.failure} failed, ${bucket.skipped} skipped`}
+          >
+            {(Object.keys(STATUS_COLORS) as Array<keyof typeof STATUS_COLORS>).map((status) =>
+              bucket[status] > 0 ? (
+                <div
+                  key={status}
+                  className={STATUS_COLORS[status]}
+                  style={{ height: `${(bucket[status] / max) * 100}%` }}
+                />
+              ) : null
+            )}
+            {totals[i] === 0 && <div className="h-px bg-border" />}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px mt-1">
+        {buckets.map((bucket, i) => (
+          <span key={bucket.start} className="flex-1 min-w-0 text-[10px] text-muted-foreground truncate">
+            {i % labelEvery === 0 ? formatBucket(bucket.start, bucketMs) : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Small bars of a rule's runs per bucket, scaled to its busiest bucket
+ */
+function Sparkline({ counts }: { counts: number[] }) {
+  const max = Math.max(1, ...counts);
+  return (
+    <div className="flex items-end gap-px h-6">
+      {counts.map((count, i) => (
+        <div
+          key={i}
+          className={clsx('flex-1 min-w-0', count > 0 ? 'bg-primary/70' : 'bg-border')}
+          style={{ height: count > 0 ? `${Math.max(8, (count / max) * 100)}%` : '1px' }}
+        />
+      ))}
+    </div>
+  );
+}
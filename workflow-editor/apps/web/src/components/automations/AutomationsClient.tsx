@@ -15,11 +15,18 @@ import {
   Bell,
   X,
   History,
+  FlaskConical,
   Activity,
   CheckCircle2,
   Clock,
   ArrowRight,
   MessageSquare,
+  PauseCircle,
+  GitCommitHorizontal,
+  Upload,
+  Download,
+  Webhook,
+  BarChart3,
 } from 'lucide-react';
 import { clsx } from 'clsx';
 import { AuthenticatedLayout } from '../layout';
@@ -32,15 +39,54 @@ import {
   useTutorialContext,
 } from '@/components/tutorial';
 import { ExecutionLogPanel } from './ExecutionLogPanel';
+import { RuleTestPanel } from './RuleTestPanel';
+import { RuleHistoryPanel } from './RuleHistoryPanel';
+import { WebhookDeliveriesPanel } from './WebhookDeliveriesPanel';
+import { RuleImportPanel } from './RuleImportPanel';
 import { TemplatePicker } from './TemplatePicker';
+import { ConditionsEditor, cleanConditions } from './ConditionsEditor';
+import { StepPolicyEditor } from './StepPolicyEditor';
+import { RunLimitsEditor, type RunLimitSettings } from './RunLimitsEditor';
+import { OutputTargetsEditor } from './OutputTargetsEditor';
 import type {
   ExecutionRule,
   ExecutionRuleInput,
   ExecutionStep,
+  StepPolicy,
   OutputConfig,
+  OutputTarget,
   ActivationMode,
   ScheduleInterval,
+  ScheduleType,
+  MatchMode,
+  StructuredCondition,
 } from '@/lib/execution-rules/types';
+import { DEFAULT_MATCH_THRESHOLD } from '@/lib/execution-rules/matching';
+import { describeCondition } from '@/lib/execution-rules/conditions';
+import { validateRuleTemplates } from '@/lib/execution-rules/templating';
+import { validateStepPolicies } from '@/lib/execution-rules/step-policy';
+import { describeRunLimits, validateRunLimits } from '@/lib/execution-rules/run-limits';
+import {
+  describeOutputTarget,
+  resolveOutputTargets,
+  toOutputConfig,
+  validateOutputConfig,
+} from '@/lib/execution-rules/output-destinations';
+import {
+  getNextCronRuns,
+  formatCronRun,
+  validateCronExpression,
+  validateTimezone,
+} from '@/lib/execution-rules/cron';
+
+/**
+ * Human-readable schedule label for a rule
+ */
+function describeSchedule(rule: ExecutionRule): string | undefined {
+  return rule.scheduleType === 'cron'
+    ? `${rule.scheduleCron} (${rule.scheduleTimezone || 'UTC'})`
+    : rule.scheduleInterval;
+}
 
 export function AutomationsClient() {
   return (
@@ -63,6 +109,10 @@ function AutomationsContent() {
   const [showLogs, setShowLogs] = useState(false);
   const [logsRuleId, setLogsRuleId] = useState<string | undefined>(undefined);
   const [logsRuleName, setLogsRuleName] = useState<string | undefined>(undefined);
+  const [testingRule, setTestingRule] = useState<ExecutionRule | null>(null);
+  const [historyRule, setHistoryRule] = useState<ExecutionRule | null>(null);
+  const [webhookRule, setWebhookRule] = useState<ExecutionRule | null>(null);
+  const [showImport, setShowImport] = useState(false);
   const [globalStats, setGlobalStats] = useState<{ totalRuns: number; successRate: number; avgDurationMs: number } | null>(null);
 
   // Tutorial refs
@@ -109,7 +159,7 @@ function AutomationsContent() {
       const res = await fetch(`/api/automations/${rule.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ isActive: !rule.isActive }),
+        body: JSON.stringify({ isActive: !rule.isActive, source: 'ui' }),
       });
       if (!res.ok) throw new Error('Failed to update rule');
       fetchRules();
@@ -207,6 +257,17 @@ function AutomationsContent() {
               <History className="w-4 h-4" />
               History
             </button>
+            <a
+              href="/automations/analytics"
+              className={clsx(
+                'flex items-center gap-2 px-4 py-2 rounded-md',
+                'border border-border bg-background',
+                'hover:bg-muted transition-colors'
+              )}
+            >
+              <BarChart3 className="w-4 h-4" />
+              Analytics
+            </a>
             <button
               onClick={() => setShowTriggersModal(true)}
               className={clsx(
@@ -218,6 +279,31 @@ function AutomationsContent() {
               <Bell className="w-4 h-4" />
               Manage Triggers
             </button>
+            <button
+              onClick={() => setShowImport(true)}
+              className={clsx(
+                'flex items-center gap-2 px-4 py-2 rounded-md',
+                'border border-border bg-background',
+                'hover:bg-muted transition-colors'
+              )}
+            >
+              <Upload className="w-4 h-4" />
+              Import
+            </button>
+            {rules.length > 0 && (
+              <a
+                href="/api/automations/export"
+                download
+                className={clsx(
+                  'flex items-center gap-2 px-4 py-2 rounded-md',
+                  'border border-border bg-background',
+                  'hover:bg-muted transition-colors'
+                )}
+              >
+                <Download className="w-4 h-4" />
+                Export
+              </a>
+            )}
             <button
               onClick={() => setShowTemplatePicker(true)}
               className={clsx(
@@ -287,6 +373,30 @@ function AutomationsContent() {
           />
         )}
 
+        {/* Rule Test Panel */}
+        {testingRule && (
+          <RuleTestPanel rule={testingRule} onClose={() => setTestingRule(null)} />
+        )}
+
+        {/* Rule Import */}
+        {showImport && (
+          <RuleImportPanel onClose={() => setShowImport(false)} onImported={fetchRules} />
+        )}
+
+        {/* Rule Version History */}
+        {historyRule && (
+          <RuleHistoryPanel
+            rule={historyRule}
+            onClose={() => setHistoryRule(null)}
+            onRestored={fetchRules}
+          />
+        )}
+
+        {/* Webhook Deliveries */}
+        {webhookRule && (
+          <WebhookDeliveriesPanel rule={webhookRule} onClose={() => setWebhookRule(null)} />
+        )}
+
         {/* Error display */}
             {error && (
               <div className="mb-4 p-4 bg-destructive/10 border border-destructive/20 rounded-md flex items-center gap-2 text-destructive">
@@ -392,6 +502,9 @@ function AutomationsContent() {
                       setLogsRuleName(rule.name);
                       setShowLogs(true);
                     }}
+                    onTest={() => setTestingRule(rule)}
+                    onViewHistory={() => setHistoryRule(rule)}
+                    onViewWebhooks={() => setWebhookRule(rule)}
                   />
                 ))}
               </div>
@@ -423,6 +536,9 @@ function RuleCard({
   onEdit,
   onDelete,
   onViewLogs,
+  onTest,
+  onViewHistory,
+  onViewWebhooks,
 }: {
   rule: ExecutionRule;
   isExpanded: boolean;
@@ -431,6 +547,9 @@ function RuleCard({
   onEdit: () => void;
   onDelete: () => void;
   onViewLogs: () => void;
+  onTest: () => void;
+  onViewHistory: () => void;
+  onViewWebhooks: () => void;
 }) {
   return (
     <div
@@ -457,9 +576,29 @@ function RuleCard({
               Priority: {rule.priority}
             </span>
             <ActivationModeBadge mode={rule.activationMode} />
-            {rule.scheduleEnabled && rule.scheduleInterval && (
-              <span className="text-xs px-2 py-0.5 bg-blue-500/10 text-blue-600 rounded-full">
-                {rule.scheduleInterval}
+            {rule.version !== undefined && (
+              <span className="text-xs px-2 py-0.5 bg-muted rounded-full text-muted-foreground">
+                v{rule.version}
+              </span>
+            )}
+            {rule.scheduleEnabled && describeSchedule(rule) && (
+              <span className="text-xs px-2 py-0.5 bg-blue-500/10 text-blue-600 rounded-full font-mono">
+                {describeSchedule(rule)}
+              </span>
+            )}
+            {rule.matchMode === 'all' && (
+              <span className="text-xs px-2 py-0.5 bg-purple-500/10 text-purple-600 rounded-full">
+                Fan-out
+              </span>
+            )}
+            {rule.exclusive && (
+              <span className="text-xs px-2 py-0.5 bg-amber-500/10 text-amber-600 rounded-full">
+                Exclusive
+              </span>
+            )}
+            {describeRunLimits(rule).length > 0 && (
+              <span className="text-xs px-2 py-0.5 bg-orange-500/10 text-orange-600 rounded-full">
+                {describeRunLimits(rule).join(' · ')}
               </span>
             )}
           </div>
@@ -549,6 +688,22 @@ function RuleCard({
             </div>
           </div>
 
+          {/* Structured Conditions */}
+          {rule.conditions.length > 0 && (
+            <div>
+              <h4 className="text-xs font-medium text-muted-foreground mb-1">
+                Conditions{rule.conditionsOnly ? ' (AI matching skipped)' : ''}
+              </h4>
+              <div className="flex flex-wrap gap-1">
+                {rule.conditions.map((condition, i) => (
+                  <span key={i} className="text-xs px-2 py-1 bg-muted rounded font-mono">
+                    {describeCondition(condition)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Execution Steps */}
           <div>
             <h4 className="text-xs font-medium text-muted-foreground mb-1">
@@ -565,12 +720,14 @@ function RuleCard({
                   </span>
                   <div className="flex-1">
                     <span className="text-xs text-muted-foreground">
-                      {step.type === 'instruction' ? 'Instruction' : 'Action'}
+                      {step.type === 'instruction' ? 'Instruction' : step.type === 'action' ? 'Action' : 'Approval'}
                     </span>
                     <p className="text-sm">
                       {step.type === 'instruction'
                         ? step.content
-                        : `${step.toolName}: ${JSON.stringify(step.parameters)}`}
+                        : step.type === 'action'
+                          ? `${step.toolName}: ${JSON.stringify(step.parameters)}`
+                          : step.message || 'Wait for approval before continuing'}
                     </p>
                   </div>
                 </div>
@@ -578,26 +735,28 @@ function RuleCard({
             </div>
           </div>
 
-          {/* Output Config */}
+          {/* Output destinations */}
           <div>
             <h4 className="text-xs font-medium text-muted-foreground mb-1">
-              Output Configuration
+              Output
             </h4>
-            <div className="text-sm p-2 bg-background rounded border">
-              <p>
-                <span className="text-muted-foreground">Platform:</span>{' '}
-                {rule.outputConfig.platform}
-              </p>
-              {rule.outputConfig.destination && (
-                <p>
-                  <span className="text-muted-foreground">Destination:</span>{' '}
-                  {rule.outputConfig.destination}
-                </p>
+            <div className="text-sm p-2 bg-background rounded border space-y-1">
+              {resolveOutputTargets(rule.outputConfig).length === 0 ? (
+                <p className="text-muted-foreground">Not sent anywhere</p>
+              ) : (
+                resolveOutputTargets(rule.outputConfig).map((target, i) => (
+                  <p key={i}>
+                    {describeOutputTarget(target)}
+                    <span className="text-muted-foreground"> · {target.format}</span>
+                    {target.template && (
+                      <>
+                        {' '}
+                        <code className="text-xs">{target.template}</code>
+                      </>
+                    )}
+                  </p>
+                ))
               )}
-              <p>
-                <span className="text-muted-foreground">Format:</span>{' '}
-                {rule.outputConfig.format}
-              </p>
             </div>
           </div>
 
@@ -615,7 +774,7 @@ function RuleCard({
                 <>
                   <p>
                     <span className="text-muted-foreground">Schedule:</span>{' '}
-                    {rule.scheduleInterval}
+                    {describeSchedule(rule)}
                   </p>
                   {rule.scheduleNextRun && (
                     <p>
@@ -634,8 +793,8 @@ function RuleCard({
             </div>
           </div>
 
-          {/* View Logs */}
-          <div>
+          {/* View Logs / Test / History / Webhooks / Export */}
+          <div className="flex gap-2">
             <button
               onClick={onViewLogs}
               className={clsx(
@@ -647,6 +806,53 @@ function RuleCard({
               <History className="w-3.5 h-3.5" />
               View Execution Logs
             </button>
+            <button
+              onClick={onTest}
+              className={clsx(
+                'flex items-center gap-2 px-3 py-1.5 text-sm rounded-md',
+                'border border-border bg-background',
+                'hover:bg-muted transition-colors'
+              )}
+            >
+              <FlaskConical className="w-3.5 h-3.5" />
+              Test Rule
+            </button>
+            <button
+              onClick={onViewHistory}
+              className={clsx(
+                'flex items-center gap-2 px-3 py-1.5 text-sm rounded-md',
+                'border border-border bg-background',
+                'hover:bg-muted transition-colors'
+              )}
+            >
+              <GitCommitHorizontal className="w-3.5 h-3.5" />
+              Version History
+            </button>
+            {resolveOutputTargets(rule.outputConfig).some((target) => target.platform === 'webhook') && (
+              <button
+                onClick={onViewWebhooks}
+                className={clsx(
+                  'flex items-center gap-2 px-3 py-1.5 text-sm rounded-md',
+                  'border border-border bg-background',
+                  'hover:bg-muted transition-colors'
+                )}
+              >
+                <Webhook className="w-3.5 h-3.5" />
+                Webhook Deliveries
+              </button>
+            )}
+            <a
+              href={`/api/automations/export?ids=${rule.id}`}
+              download
+              className={clsx(
+                'flex items-center gap-2 px-3 py-1.5 text-sm rounded-md',
+                'border border-border bg-background',
+                'hover:bg-muted transition-colors'
+              )}
+            >
+              <Download className="w-3.5 h-3.5" />
+              Export
+            </a>
           </div>
 
           {/* Metadata */}
@@ -724,13 +930,19 @@ function RuleForm({
   const [description, setDescription] = useState(src?.description || '');
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [priority, setPriority] = useState(rule?.priority ?? prefill?.priority ?? 0);
+  const [matchMode, setMatchMode] = useState<MatchMode>(src?.matchMode || 'first');
+  const [matchThreshold, setMatchThreshold] = useState(src?.matchThreshold ?? DEFAULT_MATCH_THRESHOLD);
+  const [exclusive, setExclusive] = useState(src?.exclusive || false);
+  const [conditions, setConditions] = useState<StructuredCondition[]>(src?.conditions || []);
+  const [conditionsOnly, setConditionsOnly] = useState(src?.conditionsOnly || false);
+  const [runLimits, setRunLimits] = useState<RunLimitSettings>({
+    rateLimit: src?.rateLimit ?? undefined,
+    cooldownMs: src?.cooldownMs ?? undefined,
+    debounceMs: src?.debounceMs ?? undefined,
+  });
   const [topicCondition, setTopicCondition] = useState(src?.topicCondition || '');
-  const [outputPlatform, setOutputPlatform] = useState<'slack' | 'gmail' | 'webhook' | 'none'>(
-    src?.outputConfig?.platform || 'none'
-  );
-  const [outputDestination, setOutputDestination] = useState(src?.outputConfig?.destination || '');
-  const [outputFormat, setOutputFormat] = useState<'summary' | 'detailed' | 'raw'>(
-    src?.outputConfig?.format || 'summary'
+  const [outputTargets, setOutputTargets] = useState<OutputTarget[]>(
+    src?.outputConfig ? resolveOutputTargets(src.outputConfig) : []
   );
   const [acceptedTriggers, setAcceptedTriggers] = useState<string[]>(
     src?.acceptedTriggers || []
@@ -745,6 +957,20 @@ function RuleForm({
   const [scheduleInterval, setScheduleInterval] = useState<ScheduleInterval | ''>(
     src?.scheduleInterval || ''
   );
+  const [scheduleType, setScheduleType] = useState<ScheduleType>(src?.scheduleType || 'interval');
+  const [scheduleCron, setScheduleCron] = useState(src?.scheduleCron || '');
+  const [scheduleTimezone, setScheduleTimezone] = useState(
+    src?.scheduleTimezone || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  );
+
+  // Cron validation and upcoming fire times for the preview
+  const cronError = scheduleCron.trim()
+    ? validateCronExpression(scheduleCron) || validateTimezone(scheduleTimezone.trim())
+    : null;
+  const cronPreview =
+    scheduleType === 'cron' && scheduleCron.trim() && !cronError
+      ? getNextCronRuns(scheduleCron, scheduleTimezone.trim(), new Date(), 5)
+      : [];
 
   // Fetch user's active triggers when activation mode requires it
   useEffect(() => {
@@ -769,12 +995,31 @@ function RuleForm({
     setSteps([...steps, { type: 'instruction', content: '' }]);
   };
 
+  const addApprovalStep = () => {
+    setSteps([...steps, { type: 'approval', message: '' }]);
+  };
+
   const updateStep = (index: number, content: string) => {
     const newSteps = [...steps];
-    newSteps[index] = { type: 'instruction', content };
+    const step = newSteps[index];
+    newSteps[index] =
+      step.type === 'approval'
+        ? { type: 'approval', message: content }
+        : {
+            type: 'instruction',
+            content,
+            retry: step.retry,
+            timeoutMs: step.timeoutMs,
+            onError: step.onError,
+            fallbackStep: step.fallbackStep,
+          };
     setSteps(newSteps);
   };
 
+  const updateStepPolicy = (index: number, policy: StepPolicy) => {
+    setSteps(steps.map((step, i) => (i === index && step.type !== 'approval' ? { ...step, ...policy } : step)));
+  };
+
   const removeStep = (index: number) => {
     setSteps(steps.filter((_, i) => i !== index));
   };
@@ -786,23 +1031,52 @@ function RuleForm({
     setError(null);
 
     try {
+      const executionSteps: ExecutionStep[] = steps
+        .filter((s) => (s.type === 'instruction' ? s.content : s.type === 'action' ? s.toolName : true))
+        .map((s) => (s.type === 'approval' ? { type: 'approval', message: s.message?.trim() || undefined } : s));
+      const outputConfig: OutputConfig = toOutputConfig(
+        outputTargets.map((target) => ({
+          ...target,
+          destination: target.destination?.trim() || undefined,
+          template: target.template?.trim() || undefined,
+        }))
+      );
+
+      // Catch unknown template references and invalid step policies before saving
+      const stepsError =
+        validateOutputConfig(outputConfig) ||
+        validateRuleTemplates(executionSteps, outputConfig) ||
+        validateStepPolicies(executionSteps) ||
+        validateRunLimits(runLimits);
+      if (stepsError) {
+        setError(stepsError);
+        return;
+      }
+
       const input: ExecutionRuleInput = {
         name,
         description: description || undefined,
         priority,
+        matchMode,
+        matchThreshold: matchMode === 'all' ? matchThreshold : undefined,
+        exclusive,
+        conditions: cleanConditions(conditions),
+        conditionsOnly: conditions.length > 0 && conditionsOnly,
+        // null clears a limit that was removed in the form
+        rateLimit: runLimits.rateLimit ?? null,
+        cooldownMs: runLimits.cooldownMs ?? null,
+        debounceMs: runLimits.debounceMs ?? null,
         topicCondition: topicCondition || name,
         acceptedTriggers,
-        executionSteps: steps.filter((s) =>
-          s.type === 'instruction' ? s.content : ('toolName' in s ? s.toolName : false)
-        ),
-        outputConfig: {
-          platform: outputPlatform,
-          destination: outputDestination || undefined,
-          format: outputFormat,
-        },
+        executionSteps,
+        outputConfig,
         activationMode,
         scheduleEnabled: activationMode === 'scheduled' || activationMode === 'all' ? scheduleEnabled : false,
-        scheduleInterval: scheduleEnabled && scheduleInterval ? scheduleInterval : undefined,
+        scheduleInterval:
+          scheduleEnabled && scheduleType === 'interval' && scheduleInterval ? scheduleInterval : undefined,
+        scheduleType,
+        scheduleCron: scheduleEnabled && scheduleType === 'cron' ? scheduleCron.trim() : undefined,
+        scheduleTimezone: scheduleEnabled && scheduleType === 'cron' ? scheduleTimezone.trim() : undefined,
       };
 
       const url = isEditing ? `/api/automations/${rule.id}` : '/api/automations';
@@ -811,7 +1085,7 @@ function RuleForm({
       const res = await fetch(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(input),
+        body: JSON.stringify({ ...input, source: 'ui' }),
       });
 
       if (!res.ok) {
@@ -895,7 +1169,7 @@ function RuleForm({
             >
               <option value="trigger">Trigger (webhook events)</option>
               <option value="manual">Manual (@mention in chat)</option>
-              <option value="scheduled">Scheduled (runs on interval)</option>
+              <option value="scheduled">Scheduled (interval or cron)</option>
               <option value="all">All methods</option>
             </select>
           </div>
@@ -916,6 +1190,16 @@ function RuleForm({
                 </label>
               </div>
               {scheduleEnabled && (
+                <select
+                  value={scheduleType}
+                  onChange={(e) => setScheduleType(e.target.value as ScheduleType)}
+                  className="w-full px-3 py-2 border rounded-md bg-background text-sm"
+                >
+                  <option value="interval">Fixed interval</option>
+                  <option value="cron">Cron expression</option>
+                </select>
+              )}
+              {scheduleEnabled && scheduleType === 'interval' && (
                 <select
                   value={scheduleInterval}
                   onChange={(e) => setScheduleInterval(e.target.value as ScheduleInterval | '')}
@@ -928,6 +1212,42 @@ function RuleForm({
                   <option value="weekly">Every week</option>
                 </select>
               )}
+              {scheduleEnabled && scheduleType === 'cron' && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      value={scheduleCron}
+                      onChange={(e) => setScheduleCron(e.target.value)}
+                      className="w-full px-3 py-2 border rounded-md bg-background text-sm font-mono"
+                      placeholder="30 8 * * 1-5"
+                    />
+                    <input
+                      type="text"
+                      value={scheduleTimezone}
+                      onChange={(e) => setScheduleTimezone(e.target.value)}
+                      className="w-full px-3 py-2 border rounded-md bg-background text-sm"
+                      placeholder="America/New_York"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    minute hour day-of-month month day-of-week, evaluated in the timezone above
+                  </p>
+                  {cronError && (
+                    <p className="text-xs text-destructive">{cronError}</p>
+                  )}
+                  {cronPreview.length > 0 && (
+                    <div className="text-xs">
+                      <p className="text-muted-foreground mb-1">Next runs:</p>
+                      <ul className="space-y-0.5">
+                        {cronPreview.map((run) => (
+                          <li key={run.getTime()}>{formatCronRun(run, scheduleTimezone.trim())}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -1007,6 +1327,22 @@ function RuleForm({
             </div>
           )}
 
+          {/* Structured Conditions - only when trigger or all */}
+          {(activationMode === 'trigger' || activationMode === 'all') && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Conditions</label>
+              <p className="text-xs text-muted-foreground mb-2">
+                Checked against the event payload before AI matching. All must pass.
+              </p>
+              <ConditionsEditor
+                conditions={conditions}
+                conditionsOnly={conditionsOnly}
+                onChange={setConditions}
+                onConditionsOnlyChange={setConditionsOnly}
+              />
+            </div>
+          )}
+
           {/* Execution Steps */}
           <div>
             <label className="block text-sm font-medium mb-2">Steps *</label>
@@ -1016,13 +1352,40 @@ function RuleForm({
                   <span className="text-xs px-1.5 py-0.5 bg-muted rounded mt-2 text-muted-foreground">
                     {i + 1}
                   </span>
-                  <textarea
-                    value={step.type === 'instruction' ? step.content : ('toolName' in step ? `[Action] ${step.toolName}` : '')}
-                    onChange={(e) => updateStep(i, e.target.value)}
-                    rows={2}
-                    className="flex-1 px-3 py-2 border rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring resize-none"
-                    placeholder={i === 0 ? 'e.g., Summarize the email and send a Slack message to #team' : 'Next step...'}
-                  />
+                  {step.type === 'approval' ? (
+                    <div className="flex-1 px-3 py-2 border border-yellow-500/40 rounded-md bg-yellow-500/5">
+                      <span className="flex items-center gap-1.5 text-xs font-medium text-yellow-600 dark:text-yellow-500 mb-1">
+                        <PauseCircle className="w-3.5 h-3.5" />
+                        Wait for approval
+                      </span>
+                      <input
+                        type="text"
+                        value={step.message || ''}
+                        onChange={(e) => updateStep(i, e.target.value)}
+                        className="w-full px-2 py-1 border rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                        placeholder="What should be checked? e.g., Review the reply before it is sent"
+                      />
+                    </div>
+                  ) : (
+                    <div className="flex-1 space-y-1.5">
+                      <textarea
+                        value={step.type === 'instruction' ? step.content : `[Action] ${step.toolName}`}
+                        onChange={(e) => updateStep(i, e.target.value)}
+                        rows={2}
+                        className="w-full px-3 py-2 border rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring resize-none"
+                        placeholder={i === 0 ? 'e.g., Summarize the email and send a Slack message to #team' : 'Next step...'}
+                      />
+                      {showAdvanced && (
+                        <StepPolicyEditor
+                          policy={step}
+                          stepType={step.type}
+                          stepIndex={i}
+                          stepCount={steps.length}
+                          onChange={(policy) => updateStepPolicy(i, policy)}
+                        />
+                      )}
+                    </div>
+                  )}
                   {steps.length > 1 && (
                     <button
                       type="button"
@@ -1035,13 +1398,30 @@ function RuleForm({
                 </div>
               ))}
             </div>
-            <button
-              type="button"
-              onClick={addStep}
-              className="mt-2 text-xs px-3 py-1.5 border border-dashed rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
-            >
-              + Add step
-            </button>
+            <div className="mt-2 flex gap-2">
+              <button
+                type="button"
+                onClick={addStep}
+                className="text-xs px-3 py-1.5 border border-dashed rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+              >
+                + Add step
+              </button>
+              <button
+                type="button"
+                onClick={addApprovalStep}
+                className="text-xs px-3 py-1.5 border border-dashed rounded-md hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+              >
+                + Add approval
+              </button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Approval steps pause the run and ask you to approve or reject it in your notifications.
+              Open Advanced to set retries, timeouts and error handling per step.
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Insert run data with {'{{trigger.payload.subject}}'}, {'{{steps[0].result}}'} (steps count from 0),{' '}
+              {'{{rule.name}}'} or {'{{now | date:"YYYY-MM-DD"}}'}.
+            </p>
           </div>
 
           {/* Advanced */}
@@ -1069,6 +1449,56 @@ function RuleForm({
                   />
                 </div>
 
+                {/* Matching */}
+                <div>
+                  <label className="block text-xs font-medium text-muted-foreground mb-1">
+                    When other rules also match
+                  </label>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <select
+                      value={matchMode}
+                      onChange={(e) => setMatchMode(e.target.value as MatchMode)}
+                      className="px-2 py-1.5 border rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                    >
+                      <option value="first">Run only the highest-priority match</option>
+                      <option value="all">Run alongside other matches</option>
+                    </select>
+                    {matchMode === 'all' && (
+                      <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                        Min confidence
+                        <input
+                          type="number"
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          value={matchThreshold}
+                          onChange={(e) => setMatchThreshold(Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)))}
+                          className="w-20 px-2 py-1.5 border rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                        />
+                      </label>
+                    )}
+                  </div>
+                  <label className="flex items-center gap-2 mt-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={exclusive}
+                      onChange={(e) => setExclusive(e.target.checked)}
+                      className="rounded"
+                    />
+                    Exclusive: don&apos;t run lower-priority rules after this one
+                  </label>
+                </div>
+
+                {/* Run limits */}
+                {activationMode !== 'manual' && activationMode !== 'scheduled' && (
+                  <div>
+                    <label className="block text-xs font-medium text-muted-foreground mb-1">
+                      Trigger run limits
+                    </label>
+                    <RunLimitsEditor limits={runLimits} onChange={setRunLimits} />
+                  </div>
+                )}
+
                 {/* Topic Condition */}
                 <div>
                   <label className="block text-xs font-medium text-muted-foreground mb-1">
@@ -1083,52 +1513,12 @@ function RuleForm({
                   />
                 </div>
 
-                {/* Output Config */}
+                {/* Output destinations */}
                 <div>
                   <label className="block text-xs font-medium text-muted-foreground mb-1">
-                    Output Configuration
+                    Send output to
                   </label>
-                  <div className="grid grid-cols-3 gap-2">
-                    <div>
-                      <label className="text-[10px] text-muted-foreground">Platform</label>
-                      <select
-                        value={outputPlatform}
-                        onChange={(e) => setOutputPlatform(e.target.value as typeof outputPlatform)}
-                        className="w-full px-2 py-1.5 border rounded-md bg-background text-xs"
-                      >
-                        <option value="none">None</option>
-                        <option value="slack">Slack</option>
-                        <option value="gmail">Gmail</option>
-                        <option value="webhook">Webhook</option>
-                      </select>
-                    </div>
-                    <div>
-                      <label className="text-[10px] text-muted-foreground">Destination</label>
-                      <input
-                        type="text"
-                        value={outputDestination}
-                        onChange={(e) => setOutputDestination(e.target.value)}
-                        className="w-full px-2 py-1.5 border rounded-md bg-background text-xs"
-                        placeholder={
-                          outputPlatform === 'slack' ? '#channel'
-                            : outputPlatform === 'gmail' ? 'email@example.com'
-                            : 'https://...'
-                        }
-                      />
-                    </div>
-                    <div>
-                      <label className="text-[10px] text-muted-foreground">Format</label>
-                      <select
-                        value={outputFormat}
-                        onChange={(e) => setOutputFormat(e.target.value as typeof outputFormat)}
-                        className="w-full px-2 py-1.5 border rounded-md bg-background text-xs"
-                      >
-                        <option value="summary">Summary</option>
-                        <option value="detailed">Detailed</option>
-                        <option value="raw">Raw</option>
-                      </select>
-                    </div>
-                  </div>
+                  <OutputTargetsEditor targets={outputTargets} onChange={setOutputTargets} />
                 </div>
               </div>
             )}
@@ -0,0 +1,126 @@
+'use client';
+
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import {
+  CONDITION_OPERATORS,
+  validateConditions,
+} from '@/lib/execution-rules/conditions';
+import type { ConditionOperator, StructuredCondition } from '@/lib/execution-rules/types';
+
+interface ConditionsEditorProps {
+  conditions: StructuredCondition[];
+  conditionsOnly: boolean;
+  onChange: (conditions: StructuredCondition[]) => void;
+  onConditionsOnlyChange: (conditionsOnly: boolean) => void;
+}
+
+/**
+ * Editor value for a condition: lists are edited as comma-separated text
+ */
+function valueToText(condition: StructuredCondition): string {
+  if (Array.isArray(condition.value)) return condition.value.join(', ');
+  return condition.value === undefined || condition.value === null ? '' : String(condition.value);
+}
+
+function textToValue(text: string, operator: ConditionOperator): unknown {
+  if (operator === 'exists') return undefined;
+  if (operator === 'in') return text.split(',').map((item) => item.trim());
+  return text;
+}
+
+/**
+ * Remove blank list entries left over from editing
+ */
+export function cleanConditions(conditions: StructuredCondition[]): StructuredCondition[] {
+  return conditions.map((condition) =>
+    Array.isArray(condition.value)
+      ? { ...condition, value: condition.value.filter((item) => String(item).trim() !== '') }
+      : condition
+  );
+}
+
+export function ConditionsEditor({
+  conditions,
+  conditionsOnly,
+  onChange,
+  onConditionsOnlyChange,
+}: ConditionsEditorProps) {
+  const validationError = conditions.length > 0 || conditionsOnly
+    ? validateConditions(cleanConditions(conditions), conditionsOnly)
+    : null;
+
+  const updateCondition = (index: number, changes: Partial<StructuredCondition>) => {
+    onChange(conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)));
+  };
+
+  const changeOperator = (index: number, operator: ConditionOperator) => {
+    updateCondition(index, { operator, value: textToValue(valueToText(conditions[index]), operator) });
+  };
+
+  return (
+    <div className="space-y-2">
+      {conditions.map((condition, i) => (
+        <div key={i} className="flex gap-2 items-center">
+          <input
+            type="text"
+            value={condition.field}
+            onChange={(e) => updateCondition(i, { field: e.target.value })}
+            className="flex-1 min-w-0 px-2 py-1.5 border rounded-md bg-background text-sm font-mono focus:outline-none focus:ring-2 focus:ring-ring"
+            placeholder="$.sender"
+          />
+          <select
+            value={condition.operator}
+            onChange={(e) => changeOperator(i, e.target.value as ConditionOperator)}
+            className="px-2 py-1.5 border rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            {Object.entries(CONDITION_OPERATORS).map(([operator, label]) => (
+              <option key={operator} value={operator}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {condition.operator !== 'exists' && (
+            <input
+              type="text"
+              value={valueToText(condition)}
+              onChange={(e) => updateCondition(i, { value: textToValue(e.target.value, condition.operator) })}
+              className="flex-1 min-w-0 px-2 py-1.5 border rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              placeholder={condition.operator === 'in' ? 'a, b, c' : condition.operator === 'regex' ? '@acme\\.com' : 'value'}
+            />
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(conditions.filter((_, j) => j !== i))}
+            className="p-1.5 hover:bg-destructive/10 rounded text-muted-foreground hover:text-destructive"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...conditions, { field: '', operator: 'equals', value: '' }])}
+        className="flex items-center gap-1 text-xs text-primary hover:underline"
+      >
+        <Plus className="w-3 h-3" />
+        Add condition
+      </button>
+
+      {conditions.length > 0 && (
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={conditionsOnly}
+            onChange={(e) => onConditionsOnlyChange(e.target.checked)}
+            className="rounded"
+          />
+          Match on these conditions alone (skip AI matching)
+        </label>
+      )}
+
+      {validationError && <p className="text-xs text-destructive">{validationError}</p>}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback } from 'react';
 import {
   X,
   Loader2,
@@ -14,9 +14,19 @@ import {
   Activity,
   TrendingUp,
   Zap,
+  RotateCcw,
+  GitCompare,
+  SkipForward,
+  Send,
+  Radio,
+  Search,
 } from 'lucide-react';
 import { clsx } from 'clsx';
-import type { ExecutionLogEntry, ExecutionLogStats, StepResult } from '@/lib/execution-rules/types';
+import { describeOutputTarget } from '@/lib/execution-rules/output-destinations';
+import { LOG_STATUSES } from '@/lib/execution-rules/log-filters';
+import { isRunFinished, useLiveRuns } from '@/hooks/useLiveRuns';
+import { RunTimeline } from './RunTimeline';
+import type { ExecutionLogEntry, ExecutionLogStats, RunEvent, StepResult } from '@/lib/execution-rules/types';
 
 interface ExecutionLogPanelProps {
   ruleId?: string;
@@ -24,48 +34,167 @@ interface ExecutionLogPanelProps {
   onClose: () => void;
 }
 
+interface LogFilterState {
+  status: ExecutionLogEntry['status'] | '';
+  triggerSlug: string;
+  since: string; // yyyy-mm-dd, local day
+  until: string; // yyyy-mm-dd, local day, inclusive
+  search: string;
+}
+
+const EMPTY_FILTERS: LogFilterState = { status: '', triggerSlug: '', since: '', until: '', search: '' };
+
 export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPanelProps) {
   const [logs, setLogs] = useState<ExecutionLogEntry[]>([]);
   const [stats, setStats] = useState<ExecutionLogStats | null>(null);
-  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
-  const [offset, setOffset] = useState(0);
+  const [filters, setFilters] = useState<LogFilterState>(EMPTY_FILTERS);
+  const [searchInput, setSearchInput] = useState('');
+  const [triggerInput, setTriggerInput] = useState('');
+  const [replayingLogId, setReplayingLogId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<{ original: ExecutionLogEntry; replay: ExecutionLogEntry } | null>(null);
+  const [timelines, setTimelines] = useState<Record<string, RunEvent[]>>({});
+  const { runs: liveRuns } = useLiveRuns({ ruleId });
   const limit = 20;
 
-  const fetchLogs = useCallback(async () => {
+  // Fetch the first page, or the page after the cursor to append it
+  const fetchLogs = useCallback(async (cursor?: string) => {
     try {
-      setIsLoading(true);
-      const params = new URLSearchParams({ limit: String(limit), offset: String(offset) });
-      if (ruleId) params.set('ruleId', ruleId);
+      if (cursor) {
+        setIsLoadingMore(true);
+      } else {
+        setIsLoading(true);
+      }
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (cursor) params.set('cursor', cursor);
+      if (filters.status) params.set('status', filters.status);
+      if (filters.triggerSlug) params.set('triggerSlug', filters.triggerSlug);
+      // Date inputs are local days; until covers the whole day
+      if (filters.since) params.set('since', new Date(`${filters.since}T00:00`).toISOString());
+      if (filters.until) {
+        const until = new Date(`${filters.until}T00:00`);
+        until.setDate(until.getDate() + 1);
+        params.set('until', until.toISOString());
+      }
+      if (filters.search) params.set('q', filters.search);
 
       const url = ruleId
         ? `/api/automations/${ruleId}/logs?${params}`
         : `/api/automations/logs?${params}`;
 
       const res = await fetch(url);
-      if (!res.ok) throw new Error('Failed to fetch logs');
       const data = await res.json();
-      setLogs(data.logs || []);
-      setTotal(data.total || 0);
+      if (!res.ok) throw new Error(data.error || 'Failed to fetch logs');
+      setLogs((prev) => (cursor ? [...prev, ...(data.logs || [])] : data.logs || []));
+      setNextCursor(data.nextCursor ?? null);
       setStats(data.stats || null);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch logs');
     } finally {
       setIsLoading(false);
+      setIsLoadingMore(false);
     }
-  }, [ruleId, offset]);
+  }, [ruleId, filters]);
 
   useEffect(() => {
     fetchLogs();
   }, [fetchLogs]);
 
+  // Apply typed filters once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const search = searchInput.trim();
+      const triggerSlug = triggerInput.trim();
+      setFilters((prev) =>
+        prev.search === search && prev.triggerSlug === triggerSlug ? prev : { ...prev, search, triggerSlug }
+      );
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, triggerInput]);
+
+  const hasFilters = !!filters.status || !!filters.triggerSlug || !!filters.since || !!filters.until || !!filters.search;
+
+  const runningNow = Object.values(liveRuns).filter((events) => !isRunFinished(events));
+  const finishedCount = Object.keys(liveRuns).length - runningNow.length;
+
+  // A run watched live has just been logged; reload so it shows at the top
+  const seenFinishedCount = useRef(0);
+  useEffect(() => {
+    if (finishedCount > seenFinishedCount.current) {
+      fetchLogs();
+    }
+    seenFinishedCount.current = finishedCount;
+  }, [finishedCount, fetchLogs]);
+
+  // Load the progress events of an expanded run, once
+  useEffect(() => {
+    const log = logs.find((l) => l.id === expandedLogId);
+    if (!log?.runId || timelines[log.runId]) return;
+
+    const runId = log.runId;
+    fetch(`/api/automations/runs/${runId}`)
+      .then((res) => (res.ok ? res.json() : { events: [] }))
+      .then((data) => setTimelines((prev) => ({ ...prev, [runId]: data.events || [] })))
+      .catch(() => setTimelines((prev) => ({ ...prev, [runId]: [] })));
+  }, [expandedLogId, logs, timelines]);
+
+  // Run the rule again against the payload stored with the log
+  const replayLog = async (log: ExecutionLogEntry, version: 'current' | 'original') => {
+    const definition = version === 'original' ? `version ${log.ruleVersion} of the rule` : 'the current rule';
+    if (!confirm(`Replay this run with ${definition}? It runs again for real against the stored payload, including its actions and output.`)) {
+      return;
+    }
+
+    try {
+      setReplayingLogId(log.id);
+      setNotice(null);
+      const res = await fetch(`/api/automations/logs/${log.id}/replay`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to replay run');
+
+      setNotice(
+        data.approvalId
+          ? 'The replay is waiting for approval in your notifications.'
+          : data.success
+            ? 'Replay succeeded.'
+            : `Replay failed: ${data.error || 'unknown error'}`
+      );
+      await fetchLogs();
+      if (data.logId) setExpandedLogId(data.logId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replay run');
+    } finally {
+      setReplayingLogId(null);
+    }
+  };
+
+  const compareWithOriginal = async (log: ExecutionLogEntry) => {
+    try {
+      const res = await fetch(`/api/automations/logs/${log.id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load the original run');
+      if (!data.original) throw new Error('The original run is no longer available');
+      setComparison({ original: data.original, replay: log });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the original run');
+    }
+  };
+
   const statusConfig = {
     success: { icon: CheckCircle2, color: 'text-green-500', bg: 'bg-green-500/10', label: 'Success' },
     failure: { icon: XCircle, color: 'text-red-500', bg: 'bg-red-500/10', label: 'Failed' },
     partial: { icon: AlertTriangle, color: 'text-yellow-500', bg: 'bg-yellow-500/10', label: 'Partial' },
+    skipped: { icon: SkipForward, color: 'text-muted-foreground', bg: 'bg-muted', label: 'Skipped' },
   };
 
   const formatDuration = (ms?: number) => {
@@ -75,9 +204,6 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
     return `${(ms / 60000).toFixed(1)}m`;
   };
 
-  const totalPages = Math.ceil(total / limit);
-  const currentPage = Math.floor(offset / limit) + 1;
-
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
       <div className="bg-card border rounded-lg shadow-lg w-full max-w-3xl max-h-[90vh] overflow-hidden">
@@ -98,13 +224,20 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
         </div>
 
         {/* Stats */}
-        {stats && stats.totalRuns > 0 && (
+        {stats && (stats.totalRuns > 0 || stats.skippedRuns > 0) && (
           <div className="grid grid-cols-3 gap-4 p-4 border-b bg-muted/20">
             <div className="flex items-center gap-2">
               <Zap className="w-4 h-4 text-muted-foreground" />
               <div>
                 <p className="text-xs text-muted-foreground">Total Runs</p>
-                <p className="text-lg font-semibold">{stats.totalRuns}</p>
+                <p className="text-lg font-semibold">
+                  {stats.totalRuns}
+                  {stats.skippedRuns > 0 && (
+                    <span className="ml-1.5 text-xs font-normal text-muted-foreground">
+                      +{stats.skippedRuns} skipped
+                    </span>
+                  )}
+                </p>
               </div>
             </div>
             <div className="flex items-center gap-2">
@@ -126,8 +259,68 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
           </div>
         )}
 
+        {/* Filters */}
+        <div className="flex items-center gap-2 flex-wrap p-3 border-b">
+          <div className="relative flex-1 min-w-[10rem]">
+            <Search className="w-3.5 h-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search output and errors"
+              className="w-full pl-7 pr-2 py-1.5 border rounded-md bg-background text-xs"
+            />
+          </div>
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters({ ...filters, status: e.target.value as LogFilterState['status'] })}
+            className="px-2 py-1.5 border rounded-md bg-background text-xs"
+          >
+            <option value="">Any status</option>
+            {LOG_STATUSES.map((status) => (
+              <option key={status} value={status}>{statusConfig[status].label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={triggerInput}
+            onChange={(e) => setTriggerInput(e.target.value)}
+            placeholder="Trigger slug"
+            className="w-36 px-2 py-1.5 border rounded-md bg-background text-xs"
+          />
+          <input
+            type="date"
+            value={filters.since}
+            max={filters.until || undefined}
+            onChange={(e) => setFilters({ ...filters, since: e.target.value })}
+            className="px-2 py-1.5 border rounded-md bg-background text-xs"
+            title="From"
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <input
+            type="date"
+            value={filters.until}
+            min={filters.since || undefined}
+            onChange={(e) => setFilters({ ...filters, until: e.target.value })}
+            className="px-2 py-1.5 border rounded-md bg-background text-xs"
+            title="To"
+          />
+          {hasFilters && (
+            <button
+              onClick={() => {
+                setFilters(EMPTY_FILTERS);
+                setSearchInput('');
+                setTriggerInput('');
+              }}
+              className="px-2 py-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+
         {/* Content */}
-        <div className="p-4 overflow-y-auto max-h-[calc(90vh-200px)]">
+        <div className="p-4 overflow-y-auto max-h-[calc(90vh-250px)]">
           {/* Error */}
           {error && (
             <div className="mb-4 p-4 bg-destructive/10 border border-destructive/20 rounded-md flex items-center gap-2 text-destructive">
@@ -136,6 +329,30 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
             </div>
           )}
 
+          {notice && (
+            <div className="mb-4 p-3 bg-muted/40 border rounded-md text-sm flex items-center justify-between gap-2">
+              {notice}
+              <button onClick={() => setNotice(null)} className="p-1 hover:bg-muted rounded">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+
+          {/* Runs in progress */}
+          {runningNow.length > 0 && (
+            <div className="mb-4 space-y-2">
+              <h3 className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+                <Radio className="w-3.5 h-3.5 text-green-500 animate-pulse" />
+                Running now
+              </h3>
+              {runningNow.map((events) => (
+                <div key={events[0].runId} className="p-3 border rounded-lg bg-muted/20">
+                  <RunTimeline events={events} />
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Loading */}
           {isLoading && (
             <div className="flex items-center justify-center py-12">
@@ -147,10 +364,19 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
           {!isLoading && logs.length === 0 && (
             <div className="text-center py-12 bg-muted/30 rounded-lg border border-dashed">
               <Activity className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
-              <h3 className="text-lg font-medium mb-2">No execution logs yet</h3>
-              <p className="text-muted-foreground">
-                Logs will appear here after rules are executed
-              </p>
+              {hasFilters ? (
+                <>
+                  <h3 className="text-lg font-medium mb-2">No matching logs</h3>
+                  <p className="text-muted-foreground">Try other filters or search terms</p>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-lg font-medium mb-2">No execution logs yet</h3>
+                  <p className="text-muted-foreground">
+                    Logs will appear here after rules are executed
+                  </p>
+                </>
+              )}
             </div>
           )}
 
@@ -180,7 +406,32 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
                           <span className="text-xs px-2 py-0.5 bg-muted rounded-full">
                             {log.triggerSlug}
                           </span>
+                          {log.ruleVersion !== undefined && (
+                            <span className="text-xs px-2 py-0.5 bg-muted rounded-full text-muted-foreground">
+                              v{log.ruleVersion}
+                            </span>
+                          )}
+                          {log.replayOfLogId && (
+                            <span className="flex items-center gap-1 text-xs px-2 py-0.5 bg-blue-500/10 text-blue-500 rounded-full">
+                              <RotateCcw className="w-3 h-3" />
+                              Replay
+                            </span>
+                          )}
+                          {log.outputDeliveries?.some((d) => d.status === 'failed') && (
+                            <span className="flex items-center gap-1 text-xs px-2 py-0.5 bg-red-500/10 text-red-500 rounded-full">
+                              <Send className="w-3 h-3" />
+                              Delivery failed
+                            </span>
+                          )}
+                          {log.matchConfidence !== undefined && (
+                            <span className="text-xs text-muted-foreground">
+                              {Math.round(log.matchConfidence * 100)}% match
+                            </span>
+                          )}
                         </div>
+                        {log.skipReason && (
+                          <p className="text-xs text-muted-foreground truncate mt-0.5">{log.skipReason}</p>
+                        )}
                       </div>
                       <div className="flex items-center gap-3 text-xs text-muted-foreground flex-shrink-0">
                         {log.durationMs && <span>{formatDuration(log.durationMs)}</span>}
@@ -191,6 +442,61 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
 
                     {isExpanded && (
                       <div className="border-t bg-muted/20 p-3 space-y-3">
+                        {/* Replay / compare */}
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => replayLog(log, 'current')}
+                            disabled={!log.triggerPayload || replayingLogId !== null}
+                            title={log.triggerPayload ? undefined : 'This run was logged without its payload'}
+                            className="flex items-center gap-1.5 px-2.5 py-1 text-xs border rounded-md bg-background hover:bg-muted transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {replayingLogId === log.id ? (
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                            ) : (
+                              <RotateCcw className="w-3 h-3" />
+                            )}
+                            {log.ruleVersionId ? 'Replay with current rule' : 'Replay'}
+                          </button>
+                          {log.ruleVersionId && log.ruleVersion !== undefined && (
+                            <button
+                              onClick={() => replayLog(log, 'original')}
+                              disabled={!log.triggerPayload || replayingLogId !== null}
+                              className="flex items-center gap-1.5 px-2.5 py-1 text-xs border rounded-md bg-background hover:bg-muted transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              <RotateCcw className="w-3 h-3" />
+                              Replay with v{log.ruleVersion}
+                            </button>
+                          )}
+                          {log.replayOfLogId && (
+                            <button
+                              onClick={() => compareWithOriginal(log)}
+                              className="flex items-center gap-1.5 px-2.5 py-1 text-xs border rounded-md bg-background hover:bg-muted transition-colors"
+                            >
+                              <GitCompare className="w-3 h-3" />
+                              Compare with original
+                            </button>
+                          )}
+                        </div>
+
+                        {comparison?.replay.id === log.id && (
+                          <LogComparison
+                            original={comparison.original}
+                            replay={comparison.replay}
+                            formatDuration={formatDuration}
+                            onClose={() => setComparison(null)}
+                          />
+                        )}
+
+                        {/* Skip reason */}
+                        {log.skipReason && (
+                          <div>
+                            <h4 className="text-xs font-medium text-muted-foreground mb-1">Skipped</h4>
+                            <p className="text-sm p-2 bg-background rounded border">
+                              {log.skipReason}. The rule's run limits held this event back, so nothing ran.
+                            </p>
+                          </div>
+                        )}
+
                         {/* Output */}
                         {log.outputText && (
                           <div>
@@ -201,6 +507,37 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
                           </div>
                         )}
 
+                        {/* Output deliveries */}
+                        {log.outputDeliveries && log.outputDeliveries.length > 0 && (
+                          <div>
+                            <h4 className="text-xs font-medium text-muted-foreground mb-1">Delivered to</h4>
+                            <div className="space-y-1">
+                              {log.outputDeliveries.map((delivery, i) => (
+                                <div
+                                  key={i}
+                                  className="flex items-start gap-2 p-2 bg-background rounded border text-sm"
+                                >
+                                  {delivery.status === 'delivered' ? (
+                                    <CheckCircle2 className="w-3.5 h-3.5 text-green-500 mt-0.5 flex-shrink-0" />
+                                  ) : (
+                                    <XCircle className="w-3.5 h-3.5 text-red-500 mt-0.5 flex-shrink-0" />
+                                  )}
+                                  <div className="flex-1 min-w-0">
+                                    <span className="text-xs">{describeOutputTarget(delivery)}</span>
+                                    <span className="text-xs text-muted-foreground">
+                                      {' '}· {formatDuration(delivery.durationMs)}
+                                      {delivery.detail && ` · ${delivery.detail}`}
+                                    </span>
+                                    {delivery.error && (
+                                      <p className="text-xs text-destructive mt-0.5">{delivery.error}</p>
+                                    )}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
                         {/* Error */}
                         {log.errorText && (
                           <div>
@@ -211,6 +548,38 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
                           </div>
                         )}
 
+                        {/* Trigger payload */}
+                        {log.triggerPayload && (
+                          <div>
+                            <h4 className="text-xs font-medium text-muted-foreground mb-1">Trigger payload</h4>
+                            <pre className="text-xs p-2 bg-background rounded border whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
+                              {JSON.stringify(log.triggerPayload.payload, null, 2)}
+                            </pre>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Sensitive values are redacted before payloads are stored
+                              {log.payloadTruncated && '; this payload was shortened to fit the size limit'}.
+                            </p>
+                          </div>
+                        )}
+
+                        {/* Timeline */}
+                        {log.runId && (
+                          <div>
+                            <h4 className="text-xs font-medium text-muted-foreground mb-1">Timeline</h4>
+                            <div className="p-2 bg-background rounded border">
+                              {timelines[log.runId] ? (
+                                timelines[log.runId].length > 0 ? (
+                                  <RunTimeline events={timelines[log.runId]} />
+                                ) : (
+                                  <p className="text-xs text-muted-foreground">No progress events were kept for this run.</p>
+                                )
+                              ) : (
+                                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                              )}
+                            </div>
+                          </div>
+                        )}
+
                         {/* Steps */}
                         {log.stepsJson && log.stepsJson.length > 0 && (
                           <div>
@@ -224,14 +593,33 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
                                   <span className="text-xs px-1.5 py-0.5 bg-muted rounded">{step.stepIndex + 1}</span>
                                   {step.success ? (
                                     <CheckCircle2 className="w-3.5 h-3.5 text-green-500 mt-0.5 flex-shrink-0" />
+                                  ) : step.errorHandled ? (
+                                    <AlertTriangle className="w-3.5 h-3.5 text-yellow-500 mt-0.5 flex-shrink-0" />
                                   ) : (
                                     <XCircle className="w-3.5 h-3.5 text-red-500 mt-0.5 flex-shrink-0" />
                                   )}
                                   <div className="flex-1 min-w-0">
-                                    <span className="text-xs text-muted-foreground">{step.type}</span>
+                                    <span className="text-xs text-muted-foreground">
+                                      {step.type}
+                                      {step.attempts && step.attempts.length > 1 && ` · ${step.attempts.length} attempts`}
+                                      {step.errorHandled === 'continue' && ' · continued after error'}
+                                      {step.errorHandled === 'fallback' && ' · jumped to fallback step'}
+                                    </span>
                                     {step.error && (
                                       <p className="text-xs text-destructive mt-0.5">{String(step.error)}</p>
                                     )}
+                                    {step.attempts && step.attempts.length > 1 && (
+                                      <ul className="mt-1 space-y-0.5">
+                                        {step.attempts.map((attempt) => (
+                                          <li key={attempt.attempt} className="text-xs text-muted-foreground">
+                                            Attempt {attempt.attempt}: {attempt.success ? 'succeeded' : 'failed'} in{' '}
+                                            {formatDuration(attempt.durationMs)}
+                                            {attempt.errorClass && ` (${attempt.errorClass.replace('_', ' ')})`}
+                                            {attempt.error && !attempt.success && ` - ${attempt.error}`}
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    )}
                                     {step.result != null && (
                                       <p className="text-xs text-muted-foreground mt-0.5 truncate">
                                         {typeof step.result === 'string' ? step.result : JSON.stringify(step.result)}
@@ -251,25 +639,16 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
             </div>
           )}
 
-          {/* Pagination */}
-          {totalPages > 1 && (
-            <div className="flex items-center justify-between mt-4 pt-4 border-t">
+          {/* Next page */}
+          {!isLoading && nextCursor && (
+            <div className="flex justify-center mt-4 pt-4 border-t">
               <button
-                onClick={() => setOffset(Math.max(0, offset - limit))}
-                disabled={offset === 0}
-                className="px-3 py-1.5 text-sm border rounded-md hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={() => fetchLogs(nextCursor)}
+                disabled={isLoadingMore}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Previous
-              </button>
-              <span className="text-sm text-muted-foreground">
-                Page {currentPage} of {totalPages}
-              </span>
-              <button
-                onClick={() => setOffset(offset + limit)}
-                disabled={currentPage >= totalPages}
-                className="px-3 py-1.5 text-sm border rounded-md hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Next
+                {isLoadingMore && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                Load more
               </button>
             </div>
           )}
@@ -278,3 +657,68 @@ export function ExecutionLogPanel({ ruleId, ruleName, onClose }: ExecutionLogPan
     </div>
   );
 }
+
+interface LogComparisonProps {
+  original: ExecutionLogEntry;
+  replay: ExecutionLogEntry;
+  formatDuration: (ms?: number) => string;
+  onClose: () => void;
+}
+
+/**
+ * Side-by-side view of a replayed run and the run it replayed
+ */
+function LogComparison({ original, replay, formatDuration, onClose }: LogComparisonProps) {
+  const column = (label: string, log: ExecutionLogEntry) => (
+    <div className="space-y-2 min-w-0">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium">
+          {label}
+          {log.ruleVersion !== undefined && ` · v${log.ruleVersion}`}
+        </span>
+        <span className="text-muted-foreground">{new Date(log.createdAt).toLocaleString()}</span>
+      </div>
+      <div className="flex items-center gap-2 text-sm">
+        {log.status === 'success' ? (
+          <CheckCircle2 className="w-4 h-4 text-green-500" />
+        ) : log.status === 'failure' ? (
+          <XCircle className="w-4 h-4 text-red-500" />
+        ) : (
+          <AlertTriangle className="w-4 h-4 text-yellow-500" />
+        )}
+        <span>{log.status}</span>
+        {log.durationMs && <span className="text-xs text-muted-foreground">{formatDuration(log.durationMs)}</span>}
+      </div>
+      <ul className="space-y-0.5">
+        {(log.stepsJson || []).map((step: StepResult, i: number) => (
+          <li key={i} className="text-xs">
+            <span className={step.success ? 'text-green-500' : 'text-red-500'}>
+              Step {step.stepIndex + 1} {step.success ? 'succeeded' : 'failed'}
+            </span>
+            {step.error && <span className="text-muted-foreground"> - {String(step.error)}</span>}
+          </li>
+        ))}
+      </ul>
+      {(log.outputText || log.errorText) && (
+        <pre className="text-xs p-2 bg-background rounded border whitespace-pre-wrap break-words max-h-32 overflow-y-auto">
+          {log.outputText || log.errorText}
+        </pre>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="p-3 bg-background rounded border">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-medium text-muted-foreground">Comparison with the original run</h4>
+        <button onClick={onClose} className="p-1 hover:bg-muted rounded">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        {column('Original', original)}
+        {column('Replay', replay)}
+      </div>
+    </div>
+  );
+}
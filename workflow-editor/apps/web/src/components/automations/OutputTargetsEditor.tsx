@@ -0,0 +1,104 @@
+'use client';
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { MAX_OUTPUT_TARGETS, OUTPUT_DESTINATIONS } from '@/lib/execution-rules/output-destinations';
+import type { OutputDestinationType, OutputFormat, OutputTarget } from '@/lib/execution-rules/types';
+
+interface OutputTargetsEditorProps {
+  targets: OutputTarget[];
+  onChange: (targets: OutputTarget[]) => void;
+}
+
+/**
+ * The destinations a rule's output is sent to, each with its own format and template
+ */
+export function OutputTargetsEditor({ targets, onChange }: OutputTargetsEditorProps) {
+  const update = (index: number, changes: Partial<OutputTarget>) => {
+    onChange(targets.map((target, i) => (i === index ? { ...target, ...changes } : target)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {targets.length === 0 && (
+        <p className="text-xs text-muted-foreground">The output isn&apos;t sent anywhere; it stays in the logs.</p>
+      )}
+      {targets.map((target, index) => {
+        const definition = OUTPUT_DESTINATIONS[target.platform];
+        return (
+          <div key={index} className="p-2 bg-background rounded border space-y-2">
+            <div className="grid grid-cols-[1fr_1.5fr_1fr_auto] gap-2 items-end">
+              <div>
+                <label className="text-[10px] text-muted-foreground">Platform</label>
+                <select
+                  value={target.platform}
+                  onChange={(e) => update(index, { platform: e.target.value as OutputDestinationType })}
+                  className="w-full px-2 py-1.5 border rounded-md bg-background text-xs"
+                >
+                  {(Object.keys(OUTPUT_DESTINATIONS) as OutputDestinationType[]).map((platform) => (
+                    <option key={platform} value={platform}>{OUTPUT_DESTINATIONS[platform].label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-[10px] text-muted-foreground">{definition.destinationLabel}</label>
+                <input
+                  type="text"
+                  value={target.destination || ''}
+                  onChange={(e) => update(index, { destination: e.target.value })}
+                  className="w-full px-2 py-1.5 border rounded-md bg-background text-xs"
+                  placeholder={definition.placeholder}
+                />
+              </div>
+              <div>
+                <label className="text-[10px] text-muted-foreground">Format</label>
+                <select
+                  value={target.format}
+                  onChange={(e) => update(index, { format: e.target.value as OutputFormat })}
+                  className="w-full px-2 py-1.5 border rounded-md bg-background text-xs"
+                >
+                  <option value="summary">Summary</option>
+                  <option value="detailed">Detailed</option>
+                  <option value="raw">Raw</option>
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(targets.filter((_, i) => i !== index))}
+                className="p-1.5 text-muted-foreground hover:text-destructive transition-colors"
+                title="Remove destination"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <div>
+              <label className="text-[10px] text-muted-foreground">Template (optional, replaces the format)</label>
+              <textarea
+                value={target.template || ''}
+                onChange={(e) => update(index, { template: e.target.value })}
+                rows={2}
+                className="w-full px-2 py-1.5 border rounded-md bg-background text-xs font-mono resize-none"
+                placeholder='e.g., {{rule.name}} ran on {{today}}: {{result}}'
+              />
+            </div>
+            {definition.toolkit && (
+              <p className="text-[10px] text-muted-foreground">
+                Sent from your connected {definition.label.replace(/ page$/, '')} account.
+              </p>
+            )}
+          </div>
+        );
+      })}
+      {targets.length < MAX_OUTPUT_TARGETS && (
+        <button
+          type="button"
+          onClick={() => onChange([...targets, { platform: 'slack', destination: '', format: 'summary' }])}
+          className="flex items-center gap-1.5 px-2 py-1 text-xs border border-dashed rounded-md hover:bg-muted transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add destination
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import { X, Loader2, AlertCircle, GitCommitHorizontal, Undo2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { CHANGE_SOURCE_LABELS, RULE_FIELD_LABELS, diffSnapshots } from '@/lib/execution-rules/rule-versions';
+import type { ExecutionRule, ExecutionRuleVersion } from '@/lib/execution-rules/types';
+
+interface RuleHistoryPanelProps {
+  rule: ExecutionRule;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+type CompareTo = 'previous' | 'current';
+
+export function RuleHistoryPanel({ rule, onClose, onRestored }: RuleHistoryPanelProps) {
+  const [versions, setVersions] = useState<ExecutionRuleVersion[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState<string | undefined>(rule.versionId);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTo>('previous');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const res = await fetch(`/api/automations/${rule.id}/versions`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to fetch version history');
+      setVersions(data.versions || []);
+      setCurrentVersionId(data.currentVersionId);
+      setSelectedId((selected) => selected ?? data.versions?.[0]?.id ?? null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch version history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rule.id]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const selectedIndex = versions.findIndex((v) => v.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : undefined;
+  const current = versions.find((v) => v.id === currentVersionId) ?? versions[0];
+  const isCurrent = selected !== undefined && selected.id === current?.id;
+
+  // Versions are newest first, so the previous version is the next entry
+  const diffs = selected
+    ? compareTo === 'previous' || isCurrent
+      ? diffSnapshots(versions[selectedIndex + 1]?.snapshot, selected.snapshot)
+      : diffSnapshots(selected.snapshot, current.snapshot)
+    : [];
+
+  const restore = async (version: ExecutionRuleVersion) => {
+    if (!confirm(`Roll "${rule.name}" back to version ${version.version}? The current definition stays in the history.`)) {
+      return;
+    }
+
+    try {
+      setIsRestoring(true);
+      const res = await fetch(`/api/automations/${rule.id}/versions/${version.id}/restore`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to restore version');
+      setSelectedId(null);
+      await fetchVersions();
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border rounded-lg shadow-lg w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div className="flex items-center gap-2">
+            <GitCommitHorizontal className="w-5 h-5" />
+            <h2 className="text-lg font-semibold">Version History: {rule.name}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-muted rounded-md transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="m-4 mb-0 p-3 bg-destructive/10 border border-destructive/20 rounded-md flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+
+        {isLoading && versions.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>No versions recorded yet</p>
+            <p className="text-sm mt-1">Versions are saved each time the rule changes</p>
+          </div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            {/* Version list */}
+            <div className="w-72 border-r overflow-y-auto">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={clsx(
+                    'w-full text-left p-3 border-b hover:bg-muted/50 transition-colors',
+                    version.id === selectedId && 'bg-muted'
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">Version {version.version}</span>
+                    {version.id === current?.id && (
+                      <span className="text-xs px-1.5 py-0.5 bg-green-500/10 text-green-600 rounded-full">
+                        Current
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {CHANGE_SOURCE_LABELS[version.source]}
+                    {version.restoredFromVersion !== undefined && ` to version ${version.restoredFromVersion}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{new Date(version.createdAt).toLocaleString()}</p>
+                  {version.source !== 'baseline' && version.changedFields.length > 0 && (
+                    <p className="text-xs text-muted-foreground truncate mt-0.5">
+                      {version.changedFields.map((field) => RULE_FIELD_LABELS[field] ?? field).join(', ')}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {/* Diff */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              {selected && (
+                <>
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="text-muted-foreground">Compare with</span>
+                      <select
+                        value={isCurrent ? 'previous' : compareTo}
+                        onChange={(e) => setCompareTo(e.target.value as CompareTo)}
+                        className="px-2 py-1 border rounded-md bg-background text-sm"
+                      >
+                        <option value="previous">the previous version</option>
+                        {!isCurrent && <option value="current">the current version</option>}
+                      </select>
+                    </div>
+                    {!isCurrent && (
+                      <button
+                        onClick={() => restore(selected)}
+                        disabled={isRestoring}
+                        className="flex items-center gap-2 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+                      >
+                        {isRestoring ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Undo2 className="w-3.5 h-3.5" />}
+                        Restore version {selected.version}
+                      </button>
+                    )}
+                  </div>
+
+                  {compareTo === 'current' && !isCurrent && (
+                    <p className="text-xs text-muted-foreground">
+                      Red is version {selected.version}, green is the current version {current.version}.
+                    </p>
+                  )}
+
+                  {diffs.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No differences</p>
+                  ) : (
+                    diffs.map((diff, i) => (
+                      <div key={i}>
+                        <h4 className="text-xs font-medium text-muted-foreground mb-1">{diff.label}</h4>
+                        <div className="grid grid-cols-2 gap-2">
+                          <pre className="text-xs p-2 rounded border border-red-500/20 bg-red-500/5 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+                            {diff.before ?? <span className="text-muted-foreground italic">not set</span>}
+                          </pre>
+                          <pre className="text-xs p-2 rounded border border-green-500/20 bg-green-500/5 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+                            {diff.after ?? <span className="text-muted-foreground italic">not set</span>}
+                          </pre>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  X,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  XCircle,
+  AlertTriangle,
+  Upload,
+  Eye,
+} from 'lucide-react';
+import type { ImportConflictStrategy, RuleImportResult } from '@/lib/execution-rules/rule-import';
+
+interface RuleImportPanelProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const STATUS_LABELS: Record<RuleImportResult['status'], string> = {
+  created: 'Created',
+  renamed: 'Created with a new name',
+  overwritten: 'Overwrites the existing rule',
+  skipped: 'Skipped',
+  failed: 'Not imported',
+};
+
+export function RuleImportPanel({ onClose, onImported }: RuleImportPanelProps) {
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>(undefined);
+  const [onConflict, setOnConflict] = useState<ImportConflictStrategy>('rename');
+  const [results, setResults] = useState<RuleImportResult[] | null>(null);
+  const [isPreview, setIsPreview] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setContent(await file.text());
+    setFileName(file.name);
+    setResults(null);
+  };
+
+  const runImport = async (preview: boolean) => {
+    try {
+      setIsRunning(true);
+      setError(null);
+      const res = await fetch('/api/automations/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, fileName, onConflict, preview }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to import rules');
+      setResults(data.results);
+      setIsPreview(preview);
+      if (!preview) onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import rules');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div className="flex items-center gap-2">
+            <Upload className="w-5 h-5" />
+            <h2 className="text-lg font-semibold">Import Rules</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-muted rounded-md transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-4">
+          {/* File */}
+          <div>
+            <label className="block text-sm font-medium mb-1">Rule file (JSON or YAML)</label>
+            <input
+              type="file"
+              accept=".json,.yaml,.yml,application/json,application/yaml"
+              onChange={(e) => loadFile(e.target.files?.[0])}
+              className="block w-full text-sm file:mr-3 file:px-3 file:py-1.5 file:border file:rounded-md file:bg-background file:text-sm hover:file:bg-muted"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Or paste the contents</label>
+            <textarea
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                setFileName(undefined);
+                setResults(null);
+              }}
+              rows={8}
+              spellCheck={false}
+              placeholder={'format: automation-rules\nversion: 1\nrules:\n  - name: ...'}
+              className="w-full px-3 py-2 border rounded-md bg-background text-xs font-mono focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+          </div>
+
+          {/* Conflicts */}
+          <div>
+            <label className="block text-sm font-medium mb-1">When a rule with the same name exists</label>
+            <select
+              value={onConflict}
+              onChange={(e) => {
+                setOnConflict(e.target.value as ImportConflictStrategy);
+                setResults(null);
+              }}
+              className="w-full px-3 py-2 border rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              <option value="rename">Import it under a new name</option>
+              <option value="skip">Skip it</option>
+              <option value="overwrite">Overwrite the existing rule</option>
+            </select>
+            <p className="text-xs text-muted-foreground mt-1">
+              Overwritten rules keep their history and can be rolled back.
+            </p>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => runImport(true)}
+              disabled={isRunning || !content.trim()}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-muted transition-colors disabled:opacity-50"
+            >
+              {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Eye className="w-3.5 h-3.5" />}
+              Preview
+            </button>
+            <button
+              type="button"
+              onClick={() => runImport(false)}
+              disabled={isRunning || !content.trim() || (results !== null && !isPreview)}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+              Import
+            </button>
+          </div>
+
+          {/* Results */}
+          {results && (
+            <div className="space-y-1">
+              <h4 className="text-xs font-medium text-muted-foreground">
+                {isPreview ? 'What the import would do' : 'Import results'}
+              </h4>
+              {results.map((result, i) => (
+                <div key={i} className="flex items-start gap-2 p-2 bg-background rounded border text-sm">
+                  {result.status === 'failed' ? (
+                    <XCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                  ) : result.status === 'skipped' || result.warnings.length > 0 ? (
+                    <AlertTriangle className="w-4 h-4 text-yellow-500 mt-0.5 flex-shrink-0" />
+                  ) : (
+                    <CheckCircle2 className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{result.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {STATUS_LABELS[result.status]}
+                      {result.importedAs && `: "${result.importedAs}"`}
+                    </p>
+                    {result.error && <p className="text-xs text-destructive mt-0.5">{result.error}</p>}
+                    {result.warnings.map((warning, j) => (
+                      <p key={j} className="text-xs text-yellow-600 mt-0.5">{warning}</p>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
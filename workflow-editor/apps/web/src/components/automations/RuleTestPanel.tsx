@@ -0,0 +1,278 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  X,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  XCircle,
+  FlaskConical,
+  Play,
+  Sparkles,
+} from 'lucide-react';
+import { describeOutputTarget } from '@/lib/execution-rules/output-destinations';
+import type { ExecutionRule, RuleTestResult, StepResult } from '@/lib/execution-rules/types';
+
+interface RuleTestPanelProps {
+  rule: ExecutionRule;
+  onClose: () => void;
+}
+
+export function RuleTestPanel({ rule, onClose }: RuleTestPanelProps) {
+  const [triggerSlug, setTriggerSlug] = useState(rule.acceptedTriggers[0] || '');
+  const [payloadText, setPayloadText] = useState('{}');
+  const [isLoadingSample, setIsLoadingSample] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<RuleTestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Pre-fill the payload from the trigger type's payload schema
+  const loadSample = useCallback(async (slug: string) => {
+    if (!slug.trim()) return;
+    try {
+      setIsLoadingSample(true);
+      const res = await fetch(`/api/composio/triggers/types/${encodeURIComponent(slug.trim())}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load sample payload');
+      setPayloadText(JSON.stringify(data.samplePayload || {}, null, 2));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sample payload');
+    } finally {
+      setIsLoadingSample(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (rule.acceptedTriggers[0]) loadSample(rule.acceptedTriggers[0]);
+  }, [rule.acceptedTriggers, loadSample]);
+
+  const runTest = async (execute: boolean) => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(payloadText);
+    } catch {
+      setError('Payload is not valid JSON');
+      return;
+    }
+
+    try {
+      setIsRunning(true);
+      setError(null);
+      const res = await fetch(`/api/automations/${rule.id}/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ triggerSlug, payload, execute }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to test rule');
+      setResult(data.result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to test rule');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const matchVerdict = (test: RuleTestResult) => {
+    if (!test.conditionsPassed) return 'Skipped by a structured condition';
+    if (test.aiMatched === false) return 'The AI matcher would not match this payload';
+    if (test.skippedReason) return `Matched, but would not run: ${test.skippedReason}`;
+    if (!test.acceptsTrigger) return 'Matched, but the rule does not accept this trigger';
+    return 'The rule would run';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border rounded-lg shadow-lg w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div className="flex items-center gap-2">
+            <FlaskConical className="w-5 h-5" />
+            <h2 className="text-lg font-semibold">Test: {rule.name}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-muted rounded-md transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-4">
+          {/* Trigger */}
+          <div>
+            <label className="block text-sm font-medium mb-1">Trigger</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                list="rule-test-triggers"
+                value={triggerSlug}
+                onChange={(e) => setTriggerSlug(e.target.value)}
+                className="flex-1 px-3 py-2 border rounded-md bg-background text-sm font-mono focus:outline-none focus:ring-2 focus:ring-ring"
+                placeholder="e.g., GMAIL_NEW_GMAIL_MESSAGE"
+              />
+              <datalist id="rule-test-triggers">
+                {rule.acceptedTriggers.map((slug) => (
+                  <option key={slug} value={slug} />
+                ))}
+              </datalist>
+              <button
+                type="button"
+                onClick={() => loadSample(triggerSlug)}
+                disabled={!triggerSlug.trim() || isLoadingSample}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm border rounded-md hover:bg-muted transition-colors disabled:opacity-50"
+              >
+                {isLoadingSample ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+                Sample payload
+              </button>
+            </div>
+          </div>
+
+          {/* Payload */}
+          <div>
+            <label className="block text-sm font-medium mb-1">Event payload</label>
+            <textarea
+              value={payloadText}
+              onChange={(e) => setPayloadText(e.target.value)}
+              rows={10}
+              spellCheck={false}
+              className="w-full px-3 py-2 border rounded-md bg-background text-xs font-mono focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => runTest(false)}
+              disabled={isRunning || !triggerSlug.trim()}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-muted transition-colors disabled:opacity-50"
+            >
+              {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+              Check match
+            </button>
+            <button
+              type="button"
+              onClick={() => runTest(true)}
+              disabled={isRunning || !triggerSlug.trim()}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+              Dry run
+            </button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A dry run executes the steps, but tool calls that send or change anything are only reported.
+            Nothing is logged and no output is sent.
+          </p>
+
+          {/* Result */}
+          {result && (
+            <div className="space-y-3 p-3 bg-muted/30 rounded-md border">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                {result.wouldRun ? (
+                  <CheckCircle2 className="w-4 h-4 text-green-500" />
+                ) : (
+                  <XCircle className="w-4 h-4 text-red-500" />
+                )}
+                {matchVerdict(result)}
+              </div>
+              <div className="text-sm space-y-1">
+                {result.conditionsReason && (
+                  <p>
+                    <span className="text-muted-foreground">Conditions:</span> {result.conditionsReason}
+                  </p>
+                )}
+                {result.confidence !== undefined && (
+                  <p>
+                    <span className="text-muted-foreground">Confidence:</span>{' '}
+                    {Math.round(result.confidence * 100)}%
+                  </p>
+                )}
+                {result.reasoning && (
+                  <p>
+                    <span className="text-muted-foreground">Reasoning:</span> {result.reasoning}
+                  </p>
+                )}
+              </div>
+
+              {result.execution && (
+                <div>
+                  <h4 className="text-xs font-medium text-muted-foreground mb-1">Steps</h4>
+                  <div className="space-y-1">
+                    {result.execution.stepResults.map((step: StepResult) => (
+                      <div
+                        key={step.stepIndex}
+                        className="flex items-start gap-2 p-2 bg-background rounded border text-sm"
+                      >
+                        <span className="text-xs px-1.5 py-0.5 bg-muted rounded">{step.stepIndex + 1}</span>
+                        {step.success ? (
+                          <CheckCircle2 className="w-3.5 h-3.5 text-green-500 mt-0.5 flex-shrink-0" />
+                        ) : (
+                          <XCircle className="w-3.5 h-3.5 text-red-500 mt-0.5 flex-shrink-0" />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <span className="text-xs text-muted-foreground">{step.type}</span>
+                          {step.error && <p className="text-xs text-destructive mt-0.5">{step.error}</p>}
+                          {step.result != null && (
+                            <p className="text-xs text-muted-foreground mt-0.5 line-clamp-3">
+                              {typeof step.result === 'string' ? step.result : JSON.stringify(step.result)}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {result.execution && (
+                <div>
+                  <h4 className="text-xs font-medium text-muted-foreground mb-1">
+                    Tool calls not performed ({result.execution.dryRunCalls?.length || 0})
+                  </h4>
+                  {result.execution.dryRunCalls?.length ? (
+                    <div className="space-y-1">
+                      {result.execution.dryRunCalls.map((call, i) => (
+                        <div key={i} className="p-2 bg-background rounded border">
+                          <p className="text-xs font-mono">
+                            <span className="text-muted-foreground">Step {call.stepIndex + 1}:</span> {call.toolName}
+                          </p>
+                          <pre className="text-xs text-muted-foreground whitespace-pre-wrap break-words mt-0.5">
+                            {JSON.stringify(call.parameters, null, 2)}
+                          </pre>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No side-effecting tool calls were made.</p>
+                  )}
+                </div>
+              )}
+
+              {result.outputs?.map((output, i) => (
+                <div key={i}>
+                  <h4 className="text-xs font-medium text-muted-foreground mb-1">
+                    Output that would be sent to {describeOutputTarget(output)}
+                  </h4>
+                  <pre className="text-xs p-2 bg-background rounded border whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
+                    {output.message}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
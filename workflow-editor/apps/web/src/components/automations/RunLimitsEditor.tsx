@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+import type { ExecutionRule } from '@/lib/execution-rules/types';
+
+export type RunLimitSettings = Pick<ExecutionRule, 'rateLimit' | 'cooldownMs' | 'debounceMs'>;
+
+interface RunLimitsEditorProps {
+  limits: RunLimitSettings;
+  onChange: (limits: RunLimitSettings) => void;
+}
+
+const WINDOWS: Array<{ label: string; ms: number }> = [
+  { label: 'minute', ms: 60 * 1000 },
+  { label: 'hour', ms: 60 * 60 * 1000 },
+  { label: 'day', ms: 24 * 60 * 60 * 1000 },
+];
+
+/**
+ * Rate limit, cooldown and debounce for trigger runs of a rule
+ */
+export function RunLimitsEditor({ limits, onChange }: RunLimitsEditorProps) {
+  const { rateLimit, cooldownMs, debounceMs } = limits;
+  const windowMs = rateLimit?.windowMs ?? WINDOWS[1].ms;
+  const windows = WINDOWS.some((w) => w.ms === windowMs)
+    ? WINDOWS
+    : [...WINDOWS, { label: `${windowMs / 1000}s`, ms: windowMs }];
+
+  return (
+    <div className="space-y-1.5 text-xs text-muted-foreground">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1">
+          At most
+          <input
+            type="number"
+            min={1}
+            value={rateLimit?.maxRuns ?? ''}
+            onChange={(e) =>
+              onChange({
+                ...limits,
+                rateLimit: Number(e.target.value) > 0
+                  ? { maxRuns: Math.floor(Number(e.target.value)), windowMs }
+                  : undefined,
+              })
+            }
+            className="w-16 px-1.5 py-0.5 border rounded bg-background text-xs"
+            placeholder="any"
+          />
+          runs per
+        </label>
+        <select
+          value={windowMs}
+          onChange={(e) =>
+            onChange({ ...limits, rateLimit: rateLimit && { ...rateLimit, windowMs: Number(e.target.value) } })
+          }
+          disabled={!rateLimit}
+          className="px-1.5 py-0.5 border rounded bg-background text-xs disabled:opacity-50"
+        >
+          {windows.map((w) => (
+            <option key={w.ms} value={w.ms}>{w.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1">
+          Cooldown (min)
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={cooldownMs ? cooldownMs / 60000 : ''}
+            onChange={(e) =>
+              onChange({
+                ...limits,
+                cooldownMs: Number(e.target.value) > 0 ? Math.round(Number(e.target.value) * 60000) : undefined,
+              })
+            }
+            className="w-16 px-1.5 py-0.5 border rounded bg-background text-xs"
+            placeholder="none"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          Debounce (s)
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={debounceMs ? debounceMs / 1000 : ''}
+            onChange={(e) =>
+              onChange({
+                ...limits,
+                debounceMs: Number(e.target.value) > 0 ? Math.round(Number(e.target.value) * 1000) : undefined,
+              })
+            }
+            className="w-16 px-1.5 py-0.5 border rounded bg-background text-xs"
+            placeholder="none"
+          />
+        </label>
+      </div>
+      <p>
+        Events held back by these limits are logged as skipped. Debounce waits until triggers go quiet,
+        then runs once with the latest event.
+      </p>
+    </div>
+  );
+}
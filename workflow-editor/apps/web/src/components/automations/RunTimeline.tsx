@@ -0,0 +1,96 @@
+'use client';
+
+import React from 'react';
+import {
+  Loader2,
+  Play,
+  CheckCircle2,
+  XCircle,
+  Wrench,
+  Flag,
+  PauseCircle,
+} from 'lucide-react';
+import { clsx } from 'clsx';
+import { isRunFinished } from '@/hooks/useLiveRuns';
+import type { RunEvent } from '@/lib/execution-rules/types';
+
+interface RunTimelineProps {
+  events: RunEvent[];
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function describeEvent(event: RunEvent): string {
+  const step = event.stepIndex !== undefined ? `Step ${event.stepIndex + 1}` : 'Step';
+  switch (event.type) {
+    case 'run_started':
+      return `Run started${event.stepCount !== undefined ? ` · ${event.stepCount} step${event.stepCount === 1 ? '' : 's'}` : ''}`;
+    case 'step_started':
+      return `${step} started (${event.stepType})${event.attempt && event.attempt > 1 ? ` · attempt ${event.attempt}` : ''}`;
+    case 'tool_call':
+      return `${step} called ${event.toolName}`;
+    case 'step_finished':
+      return `${step} ${event.success ? 'succeeded' : 'failed'}`;
+    case 'run_finished':
+      return `Run ${event.success ? 'finished' : 'failed'}`;
+  }
+}
+
+function EventIcon({ event }: { event: RunEvent }) {
+  const className = 'w-3.5 h-3.5 flex-shrink-0 mt-0.5';
+  switch (event.type) {
+    case 'run_started':
+      return <Play className={clsx(className, 'text-blue-500')} />;
+    case 'step_started':
+      return <Flag className={clsx(className, 'text-muted-foreground')} />;
+    case 'tool_call':
+      return <Wrench className={clsx(className, event.success === false ? 'text-red-500' : 'text-muted-foreground')} />;
+    case 'step_finished':
+    case 'run_finished':
+      if (event.type === 'run_finished' && event.detail?.startsWith('Paused')) {
+        return <PauseCircle className={clsx(className, 'text-yellow-500')} />;
+      }
+      return event.success ? (
+        <CheckCircle2 className={clsx(className, 'text-green-500')} />
+      ) : (
+        <XCircle className={clsx(className, 'text-red-500')} />
+      );
+  }
+}
+
+/**
+ * Step-by-step view of a rule run's progress events. While the run has no
+ * run_finished event, it ends with a "running" row.
+ */
+export function RunTimeline({ events }: RunTimelineProps) {
+  const startedAt = events[0] ? new Date(events[0].createdAt).getTime() : 0;
+
+  return (
+    <ol className="space-y-1">
+      {events.map((event) => (
+        <li key={event.seq} className="flex items-start gap-2 text-xs">
+          <EventIcon event={event} />
+          <div className="flex-1 min-w-0">
+            <span>{describeEvent(event)}</span>
+            {event.durationMs !== undefined && (
+              <span className="text-muted-foreground"> · {formatDuration(event.durationMs)}</span>
+            )}
+            {event.error && <p className="text-destructive break-words">{event.error}</p>}
+            {event.detail && <p className="text-muted-foreground truncate">{event.detail}</p>}
+          </div>
+          <span className="text-muted-foreground flex-shrink-0">
+            +{formatDuration(Math.max(0, new Date(event.createdAt).getTime() - startedAt))}
+          </span>
+        </li>
+      ))}
+      {!isRunFinished(events) && (
+        <li className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          Running…
+        </li>
+      )}
+    </ol>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import React from 'react';
+import { STEP_ERROR_CLASSES, getDefaultRetryOn } from '@/lib/execution-rules/step-policy';
+import type { ExecutionStep, StepErrorClass, StepErrorPolicy, StepPolicy } from '@/lib/execution-rules/types';
+
+interface StepPolicyEditorProps {
+  policy: StepPolicy;
+  stepType: ExecutionStep['type'];
+  stepIndex: number;
+  stepCount: number;
+  onChange: (policy: StepPolicy) => void;
+}
+
+/**
+ * Retry, timeout and error handling options for a single step
+ */
+export function StepPolicyEditor({ policy, stepType, stepIndex, stepCount, onChange }: StepPolicyEditorProps) {
+  const maxAttempts = policy.retry?.maxAttempts ?? 1;
+  const retryOn = policy.retry?.retryOn?.length ? policy.retry.retryOn : getDefaultRetryOn(stepType);
+  const laterSteps = Array.from({ length: stepCount - stepIndex - 1 }, (_, i) => stepIndex + 1 + i);
+
+  const setAttempts = (attempts: number) => {
+    onChange({
+      ...policy,
+      retry: attempts > 1 ? { ...policy.retry, maxAttempts: attempts } : undefined,
+    });
+  };
+
+  const toggleRetryOn = (errorClass: StepErrorClass) => {
+    const next = retryOn.includes(errorClass)
+      ? retryOn.filter((c) => c !== errorClass)
+      : [...retryOn, errorClass];
+    onChange({ ...policy, retry: { maxAttempts, ...policy.retry, retryOn: next } });
+  };
+
+  const setOnError = (onError: StepErrorPolicy) => {
+    onChange({
+      ...policy,
+      onError: onError === 'stop' ? undefined : onError,
+      fallbackStep: onError === 'fallback' ? policy.fallbackStep ?? laterSteps[0] : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-1.5 text-xs text-muted-foreground">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1">
+          Attempts
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={maxAttempts}
+            onChange={(e) => setAttempts(Math.max(1, Number(e.target.value) || 1))}
+            className="w-12 px-1.5 py-0.5 border rounded bg-background text-xs"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          Timeout (s)
+          <input
+            type="number"
+            min={1}
+            value={policy.timeoutMs ? policy.timeoutMs / 1000 : ''}
+            onChange={(e) =>
+              onChange({ ...policy, timeoutMs: e.target.value ? Number(e.target.value) * 1000 : undefined })
+            }
+            className="w-16 px-1.5 py-0.5 border rounded bg-background text-xs"
+            placeholder="none"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          On error
+          <select
+            value={policy.onError || 'stop'}
+            onChange={(e) => setOnError(e.target.value as StepErrorPolicy)}
+            className="px-1.5 py-0.5 border rounded bg-background text-xs"
+          >
+            <option value="stop">Stop the run</option>
+            <option value="continue">Continue</option>
+            {laterSteps.length > 0 && <option value="fallback">Jump to step</option>}
+          </select>
+        </label>
+        {policy.onError === 'fallback' && (
+          <select
+            value={policy.fallbackStep ?? ''}
+            onChange={(e) => onChange({ ...policy, fallbackStep: Number(e.target.value) })}
+            className="px-1.5 py-0.5 border rounded bg-background text-xs"
+          >
+            {laterSteps.map((index) => (
+              <option key={index} value={index}>
+                Step {index + 1}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {maxAttempts > 1 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>Retry on</span>
+          {Object.entries(STEP_ERROR_CLASSES).map(([errorClass, label]) => (
+            <label key={errorClass} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={retryOn.includes(errorClass as StepErrorClass)}
+                onChange={() => toggleRetryOn(errorClass as StepErrorClass)}
+                className="rounded"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { X, Search, ArrowRight } from 'lucide-react';
 import { clsx } from 'clsx';
 import {
@@ -19,8 +19,21 @@ interface TemplatePickerProps {
 export function TemplatePicker({ onSelect, onClose }: TemplatePickerProps) {
   const [selectedCategory, setSelectedCategory] = useState<TemplateCategory | 'all'>('all');
   const [search, setSearch] = useState('');
+  const [templates, setTemplates] = useState<RuleTemplate[]>(RULE_TEMPLATES);
 
-  const filtered = RULE_TEMPLATES.filter((t) => {
+  // Built-in templates show right away; custom template packs come from the server
+  useEffect(() => {
+    fetch('/api/automations/templates')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.templates) setTemplates(data.templates);
+      })
+      .catch((err) => {
+        console.error('Failed to fetch templates:', err);
+      });
+  }, []);
+
+  const filtered = templates.filter((t) => {
     if (selectedCategory !== 'all' && t.category !== selectedCategory) return false;
     if (search) {
       const q = search.toLowerCase();
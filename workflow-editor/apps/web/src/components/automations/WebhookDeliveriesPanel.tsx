@@ -0,0 +1,274 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  X,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  Webhook,
+  RotateCcw,
+  KeyRound,
+  Eye,
+  EyeOff,
+} from 'lucide-react';
+import { clsx } from 'clsx';
+import type { ExecutionRule, WebhookDelivery, WebhookDeliveryStatus } from '@/lib/execution-rules/types';
+
+interface WebhookDeliveriesPanelProps {
+  rule: ExecutionRule;
+  onClose: () => void;
+}
+
+const statusConfig: Record<WebhookDeliveryStatus, { icon: typeof CheckCircle2; color: string; label: string }> = {
+  delivered: { icon: CheckCircle2, color: 'text-green-500', label: 'Delivered' },
+  failed: { icon: XCircle, color: 'text-red-500', label: 'Failed' },
+  pending: { icon: Clock, color: 'text-yellow-500', label: 'Retrying' },
+};
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function WebhookDeliveriesPanel({ rule, onClose }: WebhookDeliveriesPanelProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [showSecret, setShowSecret] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRedelivering, setIsRedelivering] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const res = await fetch(`/api/automations/${rule.id}/webhook-deliveries`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to fetch webhook deliveries');
+      setDeliveries(data.deliveries || []);
+      setSecret(data.secret);
+      setSelectedId((selected) => selected ?? data.deliveries?.[0]?.id ?? null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch webhook deliveries');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rule.id]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const selected = deliveries.find((d) => d.id === selectedId);
+
+  const redeliver = async (delivery: WebhookDelivery) => {
+    try {
+      setIsRedelivering(true);
+      const res = await fetch(`/api/automations/webhook-deliveries/${delivery.id}/redeliver`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to redeliver webhook');
+      setSelectedId(data.delivery?.id ?? null);
+      await fetchDeliveries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to redeliver webhook');
+    } finally {
+      setIsRedelivering(false);
+    }
+  };
+
+  const rotateSecret = async () => {
+    if (!confirm('Replace the signing secret? Receivers will reject deliveries until they are given the new one.')) {
+      return;
+    }
+
+    try {
+      setIsRotating(true);
+      const res = await fetch(`/api/automations/${rule.id}/webhook-secret`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to rotate webhook secret');
+      setSecret(data.secret);
+      setShowSecret(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate webhook secret');
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border rounded-lg shadow-lg w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div className="flex items-center gap-2">
+            <Webhook className="w-5 h-5" />
+            <h2 className="text-lg font-semibold">Webhook Deliveries: {rule.name}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-muted rounded-md transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Signing secret */}
+        <div className="p-4 border-b space-y-1">
+          <div className="flex items-center gap-2 text-sm">
+            <KeyRound className="w-4 h-4 text-muted-foreground" />
+            <span className="text-muted-foreground">Signing secret</span>
+            <code className="flex-1 min-w-0 truncate text-xs px-2 py-1 bg-muted rounded">
+              {secret ? (showSecret ? secret : `whsec_${'•'.repeat(24)}`) : '…'}
+            </code>
+            <button
+              onClick={() => setShowSecret(!showSecret)}
+              disabled={!secret}
+              className="p-1.5 hover:bg-muted rounded-md transition-colors disabled:opacity-50"
+              title={showSecret ? 'Hide secret' : 'Show secret'}
+            >
+              {showSecret ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+            </button>
+            <button
+              onClick={rotateSecret}
+              disabled={isRotating}
+              className="flex items-center gap-1.5 px-2.5 py-1 text-xs border rounded-md bg-background hover:bg-muted transition-colors disabled:opacity-50"
+            >
+              {isRotating ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+              Rotate
+            </button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Deliveries are signed the Standard Webhooks way: <code>webhook-signature</code> is{' '}
+            <code>v1,</code> followed by the base64 HMAC-SHA256 of{' '}
+            <code>{'<webhook-id>.<webhook-timestamp>.<body>'}</code>, keyed with the base64-decoded part of the
+            secret after <code>whsec_</code>.
+          </p>
+        </div>
+
+        {error && (
+          <div className="m-4 mb-0 p-3 bg-destructive/10 border border-destructive/20 rounded-md flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+
+        {isLoading && deliveries.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>No webhook deliveries yet</p>
+            <p className="text-sm mt-1">Deliveries appear here when the rule sends its output to a webhook</p>
+          </div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            {/* Delivery list */}
+            <div className="w-80 border-r overflow-y-auto">
+              {deliveries.map((delivery) => {
+                const sc = statusConfig[delivery.status];
+                const StatusIcon = sc.icon;
+                const last = delivery.attempts[delivery.attempts.length - 1];
+                return (
+                  <button
+                    key={delivery.id}
+                    onClick={() => setSelectedId(delivery.id)}
+                    className={clsx(
+                      'w-full text-left p-3 border-b hover:bg-muted/50 transition-colors',
+                      delivery.id === selectedId && 'bg-muted'
+                    )}
+                  >
+                    <div className="flex items-center gap-2">
+                      <StatusIcon className={clsx('w-3.5 h-3.5 flex-shrink-0', sc.color)} />
+                      <span className="text-sm font-medium">{last?.statusCode ?? sc.label}</span>
+                      {delivery.redeliveryOfId && (
+                        <span className="text-xs px-1.5 py-0.5 bg-blue-500/10 text-blue-500 rounded-full">
+                          Redelivery
+                        </span>
+                      )}
+                      <span className="ml-auto text-xs text-muted-foreground">
+                        {delivery.attempts.length} attempt{delivery.attempts.length === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate mt-0.5">{delivery.url}</p>
+                    <p className="text-xs text-muted-foreground">{new Date(delivery.createdAt).toLocaleString()}</p>
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Attempts */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              {selected && (
+                <>
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{selected.url}</p>
+                      <p className="text-xs text-muted-foreground">
+                        <code>webhook-id: {selected.id}</code> · {selected.bodyBytes} bytes
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => redeliver(selected)}
+                      disabled={isRedelivering || selected.body === undefined || selected.status === 'pending'}
+                      title={selected.body === undefined ? 'The body was too large to keep' : undefined}
+                      className="flex items-center gap-2 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+                    >
+                      {isRedelivering ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                      Redeliver
+                    </button>
+                  </div>
+
+                  <div>
+                    <h4 className="text-xs font-medium text-muted-foreground mb-1">Attempts</h4>
+                    <div className="space-y-1">
+                      {selected.attempts.map((attempt) => (
+                        <div key={attempt.attempt} className="p-2 bg-background rounded border text-sm space-y-1">
+                          <div className="flex items-center gap-2">
+                            {attempt.error ? (
+                              <XCircle className="w-3.5 h-3.5 text-red-500 flex-shrink-0" />
+                            ) : (
+                              <CheckCircle2 className="w-3.5 h-3.5 text-green-500 flex-shrink-0" />
+                            )}
+                            <span className="text-xs">Attempt {attempt.attempt}</span>
+                            {attempt.statusCode !== undefined && (
+                              <span className="text-xs px-1.5 py-0.5 bg-muted rounded">HTTP {attempt.statusCode}</span>
+                            )}
+                            <span className="text-xs text-muted-foreground">
+                              {formatDuration(attempt.durationMs)} · {new Date(attempt.attemptedAt).toLocaleString()}
+                            </span>
+                          </div>
+                          {attempt.error && <p className="text-xs text-destructive">{attempt.error}</p>}
+                          {attempt.responseSnippet && (
+                            <pre className="text-xs p-2 bg-muted/50 rounded whitespace-pre-wrap break-words max-h-32 overflow-y-auto">
+                              {attempt.responseSnippet}
+                            </pre>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="text-xs font-medium text-muted-foreground mb-1">Body</h4>
+                    {selected.body !== undefined ? (
+                      <pre className="text-xs p-2 bg-background rounded border whitespace-pre-wrap break-words max-h-64 overflow-y-auto">
+                        {selected.body}
+                      </pre>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">The body was too large to keep.</p>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
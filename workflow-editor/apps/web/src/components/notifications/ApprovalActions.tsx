@@ -0,0 +1,84 @@
+"use client";
+
+import React, { useState } from "react";
+import { Check, X, Loader2 } from "lucide-react";
+import { clsx } from "clsx";
+import type { Notification } from "@/lib/notifications/types";
+
+type ApprovalStatus = NonNullable<Notification["approvalStatus"]>;
+
+interface ApprovalActionsProps {
+  approvalId: string;
+  status?: ApprovalStatus;
+  onResolved: (status: ApprovalStatus) => void;
+}
+
+/**
+ * Approve/Reject buttons for a needs_approval notification
+ */
+export function ApprovalActions({ approvalId, status, onResolved }: ApprovalActionsProps) {
+  const [pending, setPending] = useState<"approve" | "reject" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (status && status !== "pending") {
+    return (
+      <p
+        className={clsx(
+          "text-[10px] font-medium mt-1.5",
+          status === "approved" ? "text-green-500" : "text-destructive"
+        )}
+      >
+        {status === "approved" ? "Approved" : status === "expired" ? "Expired (rule changed)" : "Rejected"}
+      </p>
+    );
+  }
+
+  const resolve = async (decision: "approve" | "reject") => {
+    setPending(decision);
+    setError(null);
+    try {
+      const res = await fetch(`/api/automations/approvals/${approvalId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to resolve approval");
+        return;
+      }
+      if (data.error) setError(data.error);
+      onResolved(data.status);
+    } catch {
+      setError("Failed to resolve approval");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="mt-1.5" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-1.5">
+        <button
+          onClick={() => resolve("approve")}
+          disabled={pending !== null}
+          className="inline-flex items-center gap-1 px-2 py-0.5 text-[11px] font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors"
+          type="button"
+        >
+          {pending === "approve" ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+          Approve
+        </button>
+        <button
+          onClick={() => resolve("reject")}
+          disabled={pending !== null}
+          className="inline-flex items-center gap-1 px-2 py-0.5 text-[11px] font-medium rounded-md border border-border text-muted-foreground hover:text-destructive hover:bg-destructive/10 disabled:opacity-50 transition-colors"
+          type="button"
+        >
+          {pending === "reject" ? <Loader2 className="w-3 h-3 animate-spin" /> : <X className="w-3 h-3" />}
+          Reject
+        </button>
+      </div>
+      {error && <p className="text-[10px] text-destructive mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import {
 } from "lucide-react";
 import { clsx } from "clsx";
 import type { Notification, NotificationType } from "@/lib/notifications/types";
+import { ApprovalActions } from "./ApprovalActions";
 
 const typeConfig: Record<
   NotificationType,
@@ -174,6 +175,19 @@ export function NotificationSidebar({ isOpen, onClose }: NotificationSidebarProp
                     <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">
                       {n.body}
                     </p>
+                    {n.type === "needs_approval" && n.approvalId && (
+                      <ApprovalActions
+                        approvalId={n.approvalId}
+                        status={n.approvalStatus}
+                        onResolved={(status) =>
+                          setNotifications((prev) =>
+                            prev.map((item) =>
+                              item.id === n.id ? { ...item, approvalStatus: status, read: true } : item
+                            )
+                          )
+                        }
+                      />
+                    )}
                     <div className="flex items-center gap-2 mt-1">
                       <span className="text-[10px] text-muted-foreground/70 whitespace-nowrap">
                         {timeAgo(n.createdAt)}
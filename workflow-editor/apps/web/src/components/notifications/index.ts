@@ -1,3 +1,4 @@
 export { NotificationBell } from './NotificationBell';
 export { NotificationPanel } from './NotificationPanel';
 export { NotificationSidebar } from './NotificationSidebar';
+export { ApprovalActions } from './ApprovalActions';
@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { RunEvent } from "@/lib/execution-rules/types";
+
+/**
+ * Progress events of rule runs, grouped by run and in order
+ */
+export type RunEventsById = Record<string, RunEvent[]>;
+
+/**
+ * Add an event to its run, ignoring events already seen
+ */
+function addRunEvent(runs: RunEventsById, event: RunEvent): RunEventsById {
+  const events = runs[event.runId] || [];
+  if (events.some((e) => e.seq === event.seq)) return runs;
+  return {
+    ...runs,
+    [event.runId]: [...events, event].sort((a, b) => a.seq - b.seq),
+  };
+}
+
+/**
+ * Whether a run's events include its run_finished event
+ */
+export function isRunFinished(events: RunEvent[]): boolean {
+  return events.some((e) => e.type === "run_finished");
+}
+
+/**
+ * Watch rule runs live over /api/automations/runs/stream. Runs already in
+ * progress when the stream opens are included; finished runs stay in the
+ * result until the component unmounts.
+ */
+export function useLiveRuns({ ruleId, enabled = true }: { ruleId?: string; enabled?: boolean } = {}) {
+  const [runs, setRuns] = useState<RunEventsById>({});
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const params = ruleId ? `?${new URLSearchParams({ ruleId })}` : "";
+    const source = new EventSource(`/api/automations/runs/stream${params}`);
+
+    source.onopen = () => setIsConnected(true);
+    // EventSource reconnects by itself, sending the last id it got so the
+    // stream carries on from there
+    source.onerror = () => setIsConnected(false);
+    source.addEventListener("run_event", (e) => {
+      try {
+        const event = JSON.parse((e as MessageEvent).data) as RunEvent;
+        setRuns((prev) => addRunEvent(prev, event));
+      } catch (err) {
+        console.error("[useLiveRuns] Invalid run event:", err);
+      }
+    });
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [ruleId, enabled]);
+
+  return { runs, isConnected };
+}
@@ -2,7 +2,8 @@
  * Next.js Instrumentation
  *
  * This file is loaded once when the server starts.
- * Used to initialize background services like the memory scheduler.
+ * Used to initialize background services like the memory scheduler and the
+ * trigger event worker.
  *
  * https://nextjs.org/docs/app/building-your-application/optimizing/instrumentation
  */
@@ -12,5 +13,8 @@ export async function register() {
   if (process.env.NEXT_RUNTIME === 'nodejs') {
     const { startMemoryScheduler } = await import('@/lib/memory/scheduler');
     startMemoryScheduler();
+
+    const { triggerEventWorker } = await import('@/lib/execution-rules/trigger-event-worker');
+    triggerEventWorker.start();
   }
 }
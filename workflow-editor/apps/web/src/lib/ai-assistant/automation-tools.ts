@@ -10,12 +10,33 @@ import { tool } from '@openai/agents';
 import { executionRulesStorage } from '@/lib/execution-rules/storage';
 import { triggerProcessingService } from '@/lib/execution-rules/trigger-processing-service';
 import type {
+  ExecutionRule,
   ExecutionRuleInput,
   ExecutionStep,
+  StepPolicy,
+  StepErrorPolicy,
   OutputConfig,
+  OutputTarget,
   ActivationMode,
   ScheduleInterval,
+  StructuredCondition,
 } from '@/lib/execution-rules/types';
+import { validateSchedule } from '@/lib/execution-rules/schedule';
+import { validateMatchThreshold } from '@/lib/execution-rules/matching';
+import { validateConditions } from '@/lib/execution-rules/conditions';
+import { validateRuleTemplates } from '@/lib/execution-rules/templating';
+import { validateStepPolicies } from '@/lib/execution-rules/step-policy';
+import { validateRunLimits } from '@/lib/execution-rules/run-limits';
+import { OUTPUT_DESTINATIONS, validateOutputConfig } from '@/lib/execution-rules/output-destinations';
+
+/**
+ * Short schedule description for tool results
+ */
+function describeSchedule(rule: ExecutionRule): string | undefined {
+  return rule.scheduleType === 'cron'
+    ? `cron "${rule.scheduleCron}" (${rule.scheduleTimezone || 'UTC'})`
+    : rule.scheduleInterval;
+}
 
 /**
  * Creates all automation tools bound to a specific userId.
@@ -47,18 +68,54 @@ You must determine the trigger type (Composio trigger slug or scheduled mode), w
           items: {
             type: 'object',
             properties: {
-              type: { type: 'string', enum: ['instruction', 'action'] },
+              type: { type: 'string', enum: ['instruction', 'action', 'approval'] },
               content: { type: 'string', description: 'For instruction type: natural language description' },
               tool_name: { type: 'string', description: 'For action type: Composio tool name' },
               parameters: { type: 'object', description: 'For action type: tool parameters' },
+              message: {
+                type: 'string',
+                description: 'For approval type: what the user should check before the run continues, e.g. before sending a reply',
+              },
+              max_attempts: {
+                type: 'number',
+                description:
+                  'Instruction/action: attempts including the first, with exponential backoff. Instruction steps retry timeouts, rate limits, network and 5xx errors; action steps retry only rate limits, since a failed tool call may already have taken effect',
+              },
+              timeout_ms: { type: 'number', description: 'Instruction/action: time limit per attempt in milliseconds' },
+              on_error: {
+                type: 'string',
+                enum: ['stop', 'continue', 'fallback'],
+                description: 'Instruction/action: what happens when the step fails. Defaults to "stop".',
+              },
+              fallback_step: {
+                type: 'number',
+                description: 'For on_error "fallback": 0-based index of the later step to jump to',
+              },
             },
             required: ['type'],
           },
           description: 'Steps to execute when the automation fires',
         },
-        output_platform: { type: 'string', enum: ['slack', 'gmail', 'webhook', 'none'], default: 'none' },
-        output_destination: { type: 'string', description: 'Channel ID, email, or webhook URL' },
+        output_platform: { type: 'string', enum: ['none', ...Object.keys(OUTPUT_DESTINATIONS)], default: 'none' },
+        output_destination: {
+          type: 'string',
+          description:
+            'Slack channel, email address, Notion page ID or URL, artifact ID, or webhook URL',
+        },
         output_format: { type: 'string', enum: ['summary', 'detailed', 'raw'], default: 'summary' },
+        additional_outputs: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              platform: { type: 'string', enum: Object.keys(OUTPUT_DESTINATIONS) },
+              destination: { type: 'string' },
+              format: { type: 'string', enum: ['summary', 'detailed', 'raw'], default: 'summary' },
+            },
+            required: ['platform', 'destination'],
+          },
+          description: 'More destinations to send the output to, besides output_platform',
+        },
         activation_mode: {
           type: 'string',
           enum: ['trigger', 'manual', 'scheduled', 'all'],
@@ -68,9 +125,65 @@ You must determine the trigger type (Composio trigger slug or scheduled mode), w
         schedule_interval: {
           type: 'string',
           enum: ['15min', 'hourly', 'daily', 'weekly'],
-          description: 'Required if activation_mode is "scheduled" or "all"',
+          description: 'Required if activation_mode is "scheduled" or "all", unless schedule_cron is given',
+        },
+        schedule_cron: {
+          type: 'string',
+          description: '5-field cron expression for precise schedules, e.g. "30 8 * * 1-5" for weekdays at 8:30. Overrides schedule_interval.',
+        },
+        schedule_timezone: {
+          type: 'string',
+          description: 'IANA timezone for schedule_cron, e.g. "America/New_York". Defaults to UTC.',
         },
         priority: { type: 'number', default: 0, description: 'Higher priority rules evaluated first' },
+        match_mode: {
+          type: 'string',
+          enum: ['first', 'all'],
+          default: 'first',
+          description: '"first" runs only if no higher-priority rule matched; "all" also runs alongside other matching rules',
+        },
+        match_threshold: {
+          type: 'number',
+          description: 'Minimum match confidence (0-1) for match_mode "all". Defaults to 0.7.',
+        },
+        exclusive: {
+          type: 'boolean',
+          default: false,
+          description: 'When this rule runs, lower-priority rules do not run for the same trigger',
+        },
+        conditions: {
+          type: 'array',
+          description: 'Structured conditions checked against the trigger payload before AI matching; all must pass',
+          items: {
+            type: 'object',
+            properties: {
+              field: { type: 'string', description: 'JSONPath-style payload field, e.g. "$.sender" or "$.labelIds[*]"' },
+              operator: {
+                type: 'string',
+                enum: ['equals', 'not_equals', 'contains', 'regex', 'in', 'gt', 'gte', 'lt', 'lte', 'exists'],
+              },
+              value: { description: 'Value to compare against; a list for "in", omitted for "exists"' },
+            },
+            required: ['field', 'operator'],
+          },
+        },
+        conditions_only: {
+          type: 'boolean',
+          default: false,
+          description: 'Match on conditions alone and skip AI matching (for simple cases like "sender domain is acme.com")',
+        },
+        max_runs_per_hour: {
+          type: 'number',
+          description: 'Run at most this many times per hour; further trigger events are skipped',
+        },
+        cooldown_minutes: {
+          type: 'number',
+          description: 'Skip trigger events for this many minutes after each run',
+        },
+        debounce_seconds: {
+          type: 'number',
+          description: 'Wait until triggers have been quiet this many seconds, then run once with the latest event (for bursty triggers)',
+        },
       },
       required: ['name', 'topic_condition', 'execution_steps'],
       additionalProperties: true,
@@ -80,17 +193,28 @@ You must determine the trigger type (Composio trigger slug or scheduled mode), w
       try {
         const input = rawInput as Record<string, unknown>;
         const execStepsRaw = input.execution_steps as Array<{
-          type: string; content?: string; tool_name?: string; parameters?: Record<string, unknown>;
+          type: string; content?: string; tool_name?: string; parameters?: Record<string, unknown>; message?: string;
+          max_attempts?: number; timeout_ms?: number; on_error?: StepErrorPolicy; fallback_step?: number;
         }>;
 
         const executionSteps: ExecutionStep[] = execStepsRaw.map((step) => {
+          if (step.type === 'approval') {
+            return { type: 'approval' as const, message: step.message || undefined };
+          }
+          const policy: StepPolicy = {
+            retry: step.max_attempts && step.max_attempts > 1 ? { maxAttempts: step.max_attempts } : undefined,
+            timeoutMs: step.timeout_ms,
+            onError: step.on_error,
+            fallbackStep: step.fallback_step,
+          };
           if (step.type === 'instruction') {
-            return { type: 'instruction' as const, content: step.content || '' };
+            return { type: 'instruction' as const, content: step.content || '', ...policy };
           }
           return {
             type: 'action' as const,
             toolName: step.tool_name || '',
             parameters: (step.parameters || {}) as Record<string, unknown>,
+            ...policy,
           };
         });
 
@@ -98,10 +222,17 @@ You must determine the trigger type (Composio trigger slug or scheduled mode), w
           platform: (input.output_platform as OutputConfig['platform']) || 'none',
           destination: input.output_destination as string | undefined,
           format: (input.output_format as OutputConfig['format']) || 'summary',
+          additionalTargets: (input.additional_outputs as OutputTarget[] | undefined)?.map((target) => ({
+            platform: target.platform,
+            destination: target.destination,
+            format: target.format || 'summary',
+          })),
         };
 
         const activationMode = (input.activation_mode as ActivationMode) || 'trigger';
         const scheduleInterval = input.schedule_interval as ScheduleInterval | undefined;
+        const scheduleCron = input.schedule_cron as string | undefined;
+        const scheduleTimezone = input.schedule_timezone as string | undefined;
         const isScheduled = activationMode === 'scheduled' || activationMode === 'all';
 
         const ruleInput: ExecutionRuleInput = {
@@ -114,11 +245,36 @@ You must determine the trigger type (Composio trigger slug or scheduled mode), w
           executionSteps,
           outputConfig,
           activationMode,
-          scheduleEnabled: isScheduled && !!scheduleInterval,
+          scheduleEnabled: isScheduled && (!!scheduleInterval || !!scheduleCron),
           scheduleInterval,
+          scheduleType: scheduleCron ? 'cron' : 'interval',
+          scheduleCron,
+          scheduleTimezone,
+          matchMode: input.match_mode === 'all' ? 'all' : 'first',
+          matchThreshold: input.match_threshold as number | undefined,
+          exclusive: Boolean(input.exclusive),
+          conditions: input.conditions as StructuredCondition[] | undefined,
+          conditionsOnly: Boolean(input.conditions_only),
+          rateLimit: input.max_runs_per_hour
+            ? { maxRuns: input.max_runs_per_hour as number, windowMs: 60 * 60 * 1000 }
+            : undefined,
+          cooldownMs: input.cooldown_minutes ? (input.cooldown_minutes as number) * 60 * 1000 : undefined,
+          debounceMs: input.debounce_seconds ? (input.debounce_seconds as number) * 1000 : undefined,
         };
 
-        const rule = await executionRulesStorage.create(userId, ruleInput);
+        const validationError =
+          validateSchedule(ruleInput) ||
+          validateOutputConfig(ruleInput.outputConfig) ||
+          validateMatchThreshold(ruleInput.matchThreshold) ||
+          validateConditions(ruleInput.conditions, ruleInput.conditionsOnly) ||
+          validateRuleTemplates(ruleInput.executionSteps, ruleInput.outputConfig) ||
+          validateStepPolicies(ruleInput.executionSteps) ||
+          validateRunLimits(ruleInput);
+        if (validationError) {
+          return JSON.stringify({ success: false, error: validationError });
+        }
+
+        const rule = await executionRulesStorage.create(userId, ruleInput, { source: 'assistant', changedBy: userId });
 
         return JSON.stringify({
           success: true,
@@ -127,7 +283,7 @@ You must determine the trigger type (Composio trigger slug or scheduled mode), w
           activation_mode: rule.activationMode,
           is_active: rule.isActive,
           triggers: rule.acceptedTriggers,
-          schedule: rule.scheduleEnabled ? rule.scheduleInterval : null,
+          schedule: rule.scheduleEnabled ? describeSchedule(rule) : null,
           message: `Automation "${rule.name}" created and active.`,
         });
       } catch (error) {
@@ -166,7 +322,7 @@ You must determine the trigger type (Composio trigger slug or scheduled mode), w
           is_active: r.isActive,
           activation_mode: r.activationMode,
           triggers: r.acceptedTriggers,
-          schedule: r.scheduleEnabled ? r.scheduleInterval : null,
+          schedule: r.scheduleEnabled ? describeSchedule(r) : null,
           execution_count: r.executionCount,
           last_executed: r.lastExecutedAt,
         }));
@@ -202,7 +358,11 @@ You must determine the trigger type (Composio trigger slug or scheduled mode), w
           return JSON.stringify({ success: false, error: 'Automation not found' });
         }
 
-        const updated = await executionRulesStorage.update(input.rule_id, { isActive: input.is_active });
+        const updated = await executionRulesStorage.update(
+          input.rule_id,
+          { isActive: input.is_active },
+          { source: 'assistant', changedBy: userId }
+        );
         return JSON.stringify({
           success: true,
           name: updated?.name,
@@ -306,6 +466,7 @@ IMPORTANT: ALWAYS include conversation_history with the full chat transcript whe
           rule_name: rule.name,
           output: result.output?.slice(0, 1000),
           error: result.error,
+          run_id: result.runId,
           message: result.success
             ? `Automation "${rule.name}" executed successfully.`
             : `Automation "${rule.name}" failed: ${result.error}`,
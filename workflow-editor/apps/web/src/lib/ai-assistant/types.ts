@@ -213,6 +213,7 @@ export interface ToolCallResult {
   id: string;
   toolName: string;
   toolkit: string;
+  arguments?: Record<string, unknown>;
   success: boolean;
   result?: unknown;
   error?: string;
@@ -282,6 +283,7 @@ export interface ToolCallEventData {
   toolName: string;
   toolkit: string;
   id: string;
+  arguments?: Record<string, unknown>;
 }
 
 /**
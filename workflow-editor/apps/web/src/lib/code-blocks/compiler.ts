@@ -0,0 +1,83 @@
+/**
+ * Code block compiler - syntax checking and transpilation
+ *
+ * Code blocks are written as the body of an async function, so `await` and
+ * `return` are allowed at the top level. Both helpers wrap the code the same
+ * way and report positions relative to the user's code.
+ *
+ * Server-only: the TypeScript compiler is far too large for the editor bundle,
+ * so the editor checks code through /api/code-blocks/check.
+ */
+
+import ts from 'typescript';
+import type { CodeBlockDiagnostic } from '@workflow-editor/core';
+
+/**
+ * Result of transpiling a code block
+ */
+export interface CodeBlockTranspileResult {
+  /** JavaScript for the function body */
+  code: string;
+  /** Syntax problems (transpilation still produces output when present) */
+  diagnostics: CodeBlockDiagnostic[];
+}
+
+const WRAPPER_START = 'async function __codeBlock() {\n';
+const WRAPPER_END = '\n}\n';
+
+/**
+ * Transpile options: syntax-only, no type information
+ */
+const TRANSPILE_OPTIONS: ts.TranspileOptions = {
+  reportDiagnostics: true,
+  fileName: 'code-block.ts',
+  compilerOptions: {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    removeComments: false,
+  },
+};
+
+function toDiagnostics(diagnostics: readonly ts.Diagnostic[] | undefined, code: string): CodeBlockDiagnostic[] {
+  if (!diagnostics) return [];
+  const sourceFile = ts.createSourceFile('code-block.ts', WRAPPER_START + code + WRAPPER_END, ts.ScriptTarget.ES2022);
+  const wrapperLines = WRAPPER_START.split('\n').length - 1;
+  const codeLines = code.split('\n').length;
+
+  return diagnostics.map((diagnostic) => {
+    const position = sourceFile.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+    return {
+      // Errors at the wrapper's closing brace are reported on the last line of the code
+      line: Math.min(codeLines, Math.max(1, position.line - wrapperLines + 1)),
+      column: position.character + 1,
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    };
+  });
+}
+
+/**
+ * Check code block source for TypeScript syntax errors
+ */
+export function checkCodeBlockSyntax(code: string): CodeBlockDiagnostic[] {
+  const source = WRAPPER_START + code + WRAPPER_END;
+  const output = ts.transpileModule(source, TRANSPILE_OPTIONS);
+  return toDiagnostics(output.diagnostics, code);
+}
+
+/**
+ * Transpile code block source to a JavaScript function body
+ */
+export function transpileCodeBlock(code: string): CodeBlockTranspileResult {
+  const source = WRAPPER_START + code + WRAPPER_END;
+  const output = ts.transpileModule(source, TRANSPILE_OPTIONS);
+
+  // Unwrap the function body from the emitted wrapper
+  const emitted = output.outputText;
+  const bodyStart = emitted.indexOf('{') + 1;
+  const bodyEnd = emitted.lastIndexOf('}');
+
+  return {
+    code: emitted.slice(bodyStart, bodyEnd).replace(/^\n/, '').replace(/\n$/, ''),
+    diagnostics: toDiagnostics(output.diagnostics, code),
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Local code block evaluator
+ *
+ * Test-runs a code block node in a separate Node process started with the
+ * permission model on (no file system, child processes or workers) and no
+ * environment beyond NODE_ENV, so the server's files and secrets are out of
+ * reach. Inside that process the code runs in a node:vm context built from a
+ * null-prototype object with string code generation off; the sample input is
+ * embedded in the script as a JSON string and the result comes back as one.
+ *
+ * The permission model does not restrict network access, so the process is
+ * short-lived instead: it is killed once the time limit has passed.
+ */
+
+import { spawn } from 'node:child_process';
+import { transpileCodeBlock } from './compiler';
+
+export const DEFAULT_EVALUATION_TIMEOUT_MS = 1000;
+export const MAX_EVALUATION_TIMEOUT_MS = 10_000;
+
+/** Maximum console lines captured per run */
+const MAX_LOG_ENTRIES = 100;
+
+/** Time the evaluation process gets to start and report, on top of the code's time limit */
+const PROCESS_STARTUP_MS = 5000;
+
+/** Largest report read back from the evaluation process */
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+/** Heap limit of the evaluation process, in MB */
+const MAX_HEAP_MB = 64;
+
+/**
+ * Node's permission model flag: --permission from Node 22.13/23.5, before that
+ * --experimental-permission. Without either, the evaluator refuses to run.
+ */
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has('--permission')
+  ? '--permission'
+  : process.allowedNodeEnvironmentFlags.has('--experimental-permission')
+    ? '--experimental-permission'
+    : undefined;
+
+/**
+ * Program of the evaluation process. Reads { script, timeoutMs } from stdin,
+ * runs the script in a fresh context and writes the script's __output to stdout.
+ */
+const RUNNER = `
+const vm = require('node:vm');
+let request = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => { request += chunk; });
+process.stdin.on('end', () => {
+  const { script, timeoutMs } = JSON.parse(request);
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate',
+  });
+  let report;
+  try {
+    new vm.Script(script, { filename: 'code-block.js' }).runInContext(context, { timeout: timeoutMs });
+    const output = context.__output;
+    report = typeof output === 'string' ? output : JSON.stringify({ pending: true });
+  } catch (error) {
+    report = JSON.stringify({
+      ok: false,
+      timedOut: error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT',
+      error: error && error.message ? String(error.message) : String(error),
+      logs: [],
+    });
+  }
+  process.stdout.write(report, () => process.exit(0));
+});
+`;
+
+/** Names the evaluator defines itself */
+const RESERVED_NAMES = new Set(['payload', 'console']);
+
+/**
+ * Code block evaluation request
+ */
+export interface CodeBlockEvaluationInput {
+  /** TypeScript code block body */
+  code: string;
+  /** Sample trigger payload, available as `payload` */
+  payload?: unknown;
+  /** Sample upstream node outputs keyed by variable name */
+  variables?: Record<string, unknown>;
+  /** Time limit in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Code block evaluation result
+ */
+export type CodeBlockEvaluationResult =
+  | { success: true; result: unknown; logs: string[]; durationMs: number }
+  | { success: false; error: string; logs: string[]; durationMs: number };
+
+/**
+ * Build the script run inside the context. It settles into `__output` as a JSON
+ * string once the code block's promise resolves or rejects.
+ */
+function buildScript(body: string, serializedInput: string, variableNames: string[]): string {
+  const declarations = variableNames
+    .map((name) => `  const ${name} = __variables[${JSON.stringify(name)}];`)
+    .join('\n');
+
+  return `var __output;
+(() => {
+  const __logs = [];
+  const __format = (value) => {
+    if (typeof value === 'string') return value;
+    try { return JSON.stringify(value); } catch { return String(value); }
+  };
+  const __log = (...args) => {
+    if (__logs.length < ${MAX_LOG_ENTRIES}) __logs.push(args.map(__format).join(' '));
+  };
+  const console = { log: __log, info: __log, warn: __log, error: __log, debug: __log };
+  const { payload, variables: __variables } = JSON.parse(${JSON.stringify(serializedInput)});
+${declarations}
+  const __run = async () => {
+${body}
+  };
+  __run().then(
+    (result) => {
+      try {
+        __output = JSON.stringify({ ok: true, result, logs: __logs });
+      } catch {
+        __output = JSON.stringify({ ok: false, error: 'Result is not JSON-serializable', logs: __logs });
+      }
+    },
+    (error) => {
+      __output = JSON.stringify({
+        ok: false,
+        error: error && error.message ? String(error.message) : String(error),
+        logs: __logs,
+      });
+    }
+  );
+})();`;
+}
+
+/**
+ * Run a script in a new evaluation process and return what it reported
+ */
+function runInProcess(script: string, timeoutMs: number, permissionFlag: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      process.execPath,
+      [permissionFlag, `--max-old-space-size=${MAX_HEAP_MB}`, '--no-warnings', '-e', RUNNER],
+      { env: { NODE_ENV: 'production' }, stdio: ['pipe', 'pipe', 'ignore'] }
+    );
+
+    let output = '';
+    let tooLarge = false;
+    const killTimer = setTimeout(() => child.kill('SIGKILL'), timeoutMs + PROCESS_STARTUP_MS);
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      output += chunk;
+      if (output.length > MAX_OUTPUT_BYTES) {
+        tooLarge = true;
+        child.kill('SIGKILL');
+      }
+    });
+    child.on('error', (error) => {
+      clearTimeout(killTimer);
+      reject(error);
+    });
+    child.on('close', (code, signal) => {
+      clearTimeout(killTimer);
+      if (tooLarge) {
+        reject(new Error('Code block output is too large'));
+      } else if (signal === 'SIGKILL') {
+        reject(new Error(`Code block timed out after ${timeoutMs}ms`));
+      } else if (code !== 0 || !output) {
+        reject(new Error('Code block evaluation stopped unexpectedly (out of memory?)'));
+      } else {
+        resolve(output);
+      }
+    });
+
+    child.stdin.end(JSON.stringify({ script, timeoutMs }));
+  });
+}
+
+/**
+ * Evaluate a code block against sample input
+ */
+export async function evaluateCodeBlock(input: CodeBlockEvaluationInput): Promise<CodeBlockEvaluationResult> {
+  const startedAt = Date.now();
+  const timeoutMs = Math.min(
+    Math.max(1, input.timeoutMs ?? DEFAULT_EVALUATION_TIMEOUT_MS),
+    MAX_EVALUATION_TIMEOUT_MS
+  );
+  const fail = (error: string, logs: string[] = []): CodeBlockEvaluationResult => ({
+    success: false,
+    error,
+    logs,
+    durationMs: Date.now() - startedAt,
+  });
+
+  if (!PERMISSION_FLAG) {
+    return fail(`Code block evaluation needs Node's permission model, which Node ${process.version} lacks`);
+  }
+
+  const { code, diagnostics } = transpileCodeBlock(input.code);
+  if (diagnostics.length > 0) {
+    return fail(diagnostics.map((d) => `Line ${d.line}:${d.column} - ${d.message}`).join('\n'));
+  }
+
+  const variables = input.variables ?? {};
+  const variableNames = Object.keys(variables);
+  const invalidName = variableNames.find(
+    (name) => !/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) || RESERVED_NAMES.has(name) || name.startsWith('__')
+  );
+  if (invalidName) {
+    return fail(`Invalid variable name "${invalidName}"`);
+  }
+
+  let serializedInput: string;
+  try {
+    serializedInput = JSON.stringify({ payload: input.payload ?? {}, variables });
+  } catch {
+    return fail('Sample input must be JSON-serializable');
+  }
+
+  let output: string;
+  try {
+    output = await runInProcess(buildScript(code, serializedInput, variableNames), timeoutMs, PERMISSION_FLAG);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+
+  let parsed:
+    | { ok: true; result?: unknown; logs: string[] }
+    | { ok: false; error: string; timedOut?: boolean; logs: string[] }
+    | { pending: true };
+  try {
+    parsed = JSON.parse(output);
+  } catch {
+    return fail('Code block evaluation returned an unreadable result');
+  }
+
+  if ('pending' in parsed) {
+    // Timers and I/O are not available, so a pending promise can never settle
+    return fail('Code block did not finish: it is awaiting a promise that never resolves');
+  }
+
+  if (!parsed.ok) {
+    return fail(parsed.timedOut ? `Code block timed out after ${timeoutMs}ms` : parsed.error, parsed.logs);
+  }
+
+  return {
+    success: true,
+    result: parsed.result ?? null,
+    logs: parsed.logs,
+    durationMs: Date.now() - startedAt,
+  };
+}
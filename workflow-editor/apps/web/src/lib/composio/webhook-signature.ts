@@ -0,0 +1,131 @@
+/**
+ * Composio webhook signature verification
+ *
+ * Composio signs webhooks following the Standard Webhooks scheme:
+ * - webhook-id: event ID
+ * - webhook-timestamp: Unix seconds when the event was sent
+ * - webhook-signature: space-separated "v1,<base64 HMAC-SHA256>" entries
+ *
+ * The signature covers "<id>.<timestamp>.<raw body>", so the body must be
+ * verified exactly as received, before it is parsed.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/** Default allowed clock difference between Composio and this server */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Webhook verification settings
+ */
+export interface WebhookVerificationConfig {
+  /** Active signing secrets; more than one while a secret is being rotated */
+  secrets: string[];
+  /** Reject unverified requests even when no secret is configured */
+  strict: boolean;
+  /** Maximum age (and clock skew) of a signed request, in seconds */
+  toleranceSeconds: number;
+}
+
+export type WebhookVerificationResult =
+  | { verified: true; secretIndex: number }
+  | { verified: false; unsigned: boolean; error: string };
+
+/**
+ * Read verification settings from the environment.
+ * COMPOSIO_WEBHOOK_SECRET_PREVIOUS keeps the old secret valid during rotation.
+ * Strict mode defaults to on in production (COMPOSIO_WEBHOOK_STRICT overrides).
+ */
+export function getWebhookVerificationConfig(): WebhookVerificationConfig {
+  const secrets = [process.env.COMPOSIO_WEBHOOK_SECRET, process.env.COMPOSIO_WEBHOOK_SECRET_PREVIOUS]
+    .map((secret) => secret?.trim())
+    .filter((secret): secret is string => Boolean(secret));
+
+  const strictSetting = process.env.COMPOSIO_WEBHOOK_STRICT?.trim().toLowerCase();
+  const strict = strictSetting
+    ? strictSetting === 'true' || strictSetting === '1'
+    : process.env.NODE_ENV === 'production';
+
+  const tolerance = Number(process.env.COMPOSIO_WEBHOOK_TOLERANCE_SECONDS);
+
+  return {
+    secrets,
+    strict,
+    toleranceSeconds: Number.isFinite(tolerance) && tolerance > 0 ? tolerance : DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  };
+}
+
+/**
+ * Secrets in "whsec_<base64>" form are base64 keys; anything else is used as-is
+ */
+function secretKey(secret: string): Buffer {
+  return secret.startsWith('whsec_')
+    ? Buffer.from(secret.slice('whsec_'.length), 'base64')
+    : Buffer.from(secret, 'utf8');
+}
+
+/**
+ * Compute the base64 signature for a request
+ */
+export function signWebhookPayload(secret: string, webhookId: string, timestamp: string, rawBody: string): string {
+  return createHmac('sha256', secretKey(secret))
+    .update(`${webhookId}.${timestamp}.${rawBody}`)
+    .digest('base64');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Verify a webhook request's signature headers against the raw body
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  headers: { get(name: string): string | null },
+  config: Pick<WebhookVerificationConfig, 'secrets' | 'toleranceSeconds'>,
+  now: number = Date.now()
+): WebhookVerificationResult {
+  const webhookId = headers.get('webhook-id');
+  const timestamp = headers.get('webhook-timestamp');
+  const signatureHeader = headers.get('webhook-signature');
+
+  if (!webhookId || !timestamp || !signatureHeader) {
+    return { verified: false, unsigned: true, error: 'Missing webhook signature headers' };
+  }
+
+  if (config.secrets.length === 0) {
+    return { verified: false, unsigned: false, error: 'No webhook secret configured' };
+  }
+
+  if (!/^\d+$/.test(timestamp)) {
+    return { verified: false, unsigned: false, error: 'Invalid webhook timestamp' };
+  }
+  if (Math.abs(now / 1000 - Number(timestamp)) > config.toleranceSeconds) {
+    return { verified: false, unsigned: false, error: 'Webhook timestamp is outside the allowed tolerance' };
+  }
+
+  const signatures = signatureHeader
+    .split(' ')
+    .map((entry) => entry.split(','))
+    .filter(([version, value]) => version === 'v1' && Boolean(value))
+    .map(([, value]) => value);
+
+  if (signatures.length === 0) {
+    return { verified: false, unsigned: false, error: 'No v1 signature in webhook-signature header' };
+  }
+
+  for (let i = 0; i < config.secrets.length; i++) {
+    const expected = signWebhookPayload(config.secrets[i], webhookId, timestamp, rawBody);
+    // Check every signature so timing does not depend on which one matched
+    let matched = false;
+    for (const signature of signatures) {
+      if (safeEqual(signature, expected)) matched = true;
+    }
+    if (matched) return { verified: true, secretIndex: i };
+  }
+
+  return { verified: false, unsigned: false, error: 'Invalid webhook signature' };
+}
@@ -4,3 +4,29 @@ export const DEV_USER = {
   email: 'dev@haist.local',
   image: null,
 };
+
+/**
+ * The user a request is made by, or null when it is not authenticated.
+ *
+ * The app runs single-user, so the only user is DEV_USER, and only requests
+ * from the app's own pages count as theirs: cross-site requests (a page on
+ * another origin posting to the local server) are not authenticated.
+ */
+export function getRequestUser(request: Request): typeof DEV_USER | null {
+  const fetchSite = request.headers.get('sec-fetch-site');
+  if (fetchSite && fetchSite !== 'same-origin' && fetchSite !== 'none') {
+    return null;
+  }
+
+  const origin = request.headers.get('origin');
+  if (origin) {
+    const host = request.headers.get('x-forwarded-host') ?? request.headers.get('host');
+    try {
+      if (new URL(origin).host !== host) return null;
+    } catch {
+      return null;
+    }
+  }
+
+  return DEV_USER;
+}
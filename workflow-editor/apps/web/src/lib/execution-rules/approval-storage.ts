@@ -0,0 +1,87 @@
+/**
+ * Convex storage for approval requests of paused rule runs
+ */
+
+import { convex, api } from '@/lib/convex';
+import type { ApprovalStatus, ExecutionApproval, PausedExecution, StepResult, TriggerPayload } from './types';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+function toISO(ts?: number | null): string {
+  return ts ? new Date(ts).toISOString() : new Date().toISOString();
+}
+
+function mapDoc(doc: Record<string, unknown>): ExecutionApproval {
+  return {
+    id: doc._id as string,
+    userId: doc.userId as string,
+    ruleId: doc.ruleId as string,
+    ruleName: doc.ruleName as string,
+    stepIndex: doc.stepIndex as number,
+    message: (doc.message as string) || undefined,
+    stepResults: (doc.stepResultsJson as StepResult[]) || [],
+    previousResults: (doc.previousResults as string[]) || [],
+    triggerPayload: JSON.parse(doc.triggerPayload as string) as TriggerPayload,
+    matchConfidence: doc.matchConfidence as number | undefined,
+    ruleVersionId: (doc.ruleVersionId as string) || undefined,
+    ruleVersion: doc.ruleVersion as number | undefined,
+    status: doc.status as ApprovalStatus,
+    createdAt: toISO(doc.createdAt as number),
+    resolvedAt: doc.resolvedAt ? toISO(doc.resolvedAt as number) : undefined,
+  };
+}
+
+export const approvalStorage = {
+  async create(input: {
+    userId: string;
+    ruleId: string;
+    ruleName: string;
+    paused: PausedExecution;
+    triggerPayload: TriggerPayload;
+    matchConfidence?: number;
+    ruleVersionId?: string;
+    ruleVersion?: number;
+  }): Promise<string> {
+    const id = await convex.mutation(api.executionApprovals.create, {
+      userId: input.userId,
+      ruleId: input.ruleId as Id<"execution_rules">,
+      ruleName: input.ruleName,
+      stepIndex: input.paused.stepIndex,
+      message: input.paused.message || undefined,
+      stepResultsJson: input.paused.stepResults,
+      previousResults: input.paused.previousResults,
+      triggerPayload: JSON.stringify(input.triggerPayload),
+      matchConfidence: input.matchConfidence,
+      ruleVersionId: input.ruleVersionId as Id<"execution_rule_versions"> | undefined,
+      ruleVersion: input.ruleVersion,
+    });
+    return id as string;
+  },
+
+  async getById(id: string): Promise<ExecutionApproval | null> {
+    const doc = await convex.query(api.executionApprovals.get, { id: id as Id<"execution_approvals"> });
+    return doc ? mapDoc(doc) : null;
+  },
+
+  async getPending(userId: string): Promise<ExecutionApproval[]> {
+    const docs = await convex.query(api.executionApprovals.listPending, { userId });
+    return docs.map(mapDoc);
+  },
+
+  /**
+   * Approve or reject a pending request. An approval comes back expired when
+   * the rule changed since the run paused.
+   * Returns null if it is not the user's or was already resolved.
+   */
+  async resolve(
+    id: string,
+    userId: string,
+    status: Exclude<ApprovalStatus, 'pending' | 'expired'>
+  ): Promise<ExecutionApproval | null> {
+    const doc = await convex.mutation(api.executionApprovals.resolve, {
+      id: id as Id<"execution_approvals">,
+      userId,
+      status,
+    });
+    return doc ? mapDoc(doc) : null;
+  },
+};
@@ -0,0 +1,244 @@
+/**
+ * Structured match conditions for execution rules
+ *
+ * Conditions are checked against the trigger payload before AI matching. A
+ * field is a JSONPath-style path such as `$.sender.email`, `labelIds[0]` or
+ * `$.attachments[*].filename`; `[*]` fans out over arrays and a condition passes
+ * when any resolved value satisfies it. All of a rule's conditions must pass.
+ *
+ * Pure module — safe to import from client components for the editor.
+ */
+
+import type { ConditionOperator, StructuredCondition } from './types';
+
+/**
+ * Operators with their editor labels
+ */
+export const CONDITION_OPERATORS: Record<ConditionOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  contains: 'contains',
+  regex: 'matches regex',
+  in: 'is one of',
+  gt: 'greater than',
+  gte: 'at least',
+  lt: 'less than',
+  lte: 'at most',
+  exists: 'exists',
+};
+
+/**
+ * Result of evaluating a rule's conditions
+ */
+export interface ConditionEvaluation {
+  passed: boolean;
+  /** Description of the first failing condition */
+  failed?: string;
+}
+
+type PathSegment = { kind: 'key'; key: string } | { kind: 'index'; index: number } | { kind: 'wildcard' };
+
+/**
+ * Parse a JSONPath-style field path. Returns null if the path is malformed.
+ */
+export function parseFieldPath(path: string): PathSegment[] | null {
+  let rest = path.trim();
+  if (rest.startsWith('$')) rest = rest.slice(1);
+  if (!rest) return null;
+
+  const segments: PathSegment[] = [];
+  const pattern = /^(?:\.?([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[\*\]|\.\*|\[(['"])(.*?)\3\])/;
+
+  while (rest.length > 0) {
+    const match = rest.match(pattern);
+    if (!match) return null;
+    if (match[1] !== undefined) {
+      segments.push({ kind: 'key', key: match[1] });
+    } else if (match[2] !== undefined) {
+      segments.push({ kind: 'index', index: Number(match[2]) });
+    } else if (match[4] !== undefined) {
+      segments.push({ kind: 'key', key: match[4] });
+    } else {
+      segments.push({ kind: 'wildcard' });
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+}
+
+/**
+ * Resolve a field path to every value it points at
+ */
+export function resolveFieldPath(data: unknown, path: string): unknown[] {
+  const segments = parseFieldPath(path);
+  if (!segments) return [];
+
+  let current: unknown[] = [data];
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') continue;
+      if (segment.kind === 'wildcard') {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else if (segment.kind === 'index') {
+        if (Array.isArray(value) && segment.index < value.length) next.push(value[segment.index]);
+      } else if (segment.key in value) {
+        next.push((value as Record<string, unknown>)[segment.key]);
+      }
+    }
+    current = next;
+  }
+
+  return current.filter((value) => value !== undefined);
+}
+
+function asText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function sameValue(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    return actual.trim().toLowerCase() === expected.trim().toLowerCase();
+  }
+  return asText(actual) === asText(expected);
+}
+
+/**
+ * Compare as numbers, falling back to dates (ISO strings)
+ */
+function compare(actual: unknown, expected: unknown): number | null {
+  const a = Number(actual);
+  const b = Number(expected);
+  if (actual !== '' && expected !== '' && !Number.isNaN(a) && !Number.isNaN(b)) return a - b;
+
+  const da = typeof actual === 'string' ? Date.parse(actual) : NaN;
+  const db = typeof expected === 'string' ? Date.parse(expected) : NaN;
+  if (!Number.isNaN(da) && !Number.isNaN(db)) return da - db;
+
+  return null;
+}
+
+function testValue(actual: unknown, operator: ConditionOperator, expected: unknown): boolean {
+  switch (operator) {
+    case 'equals':
+      return sameValue(actual, expected);
+    case 'not_equals':
+      return !sameValue(actual, expected);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some((item) => sameValue(item, expected));
+      return asText(actual).toLowerCase().includes(asText(expected).toLowerCase());
+    case 'regex':
+      return new RegExp(asText(expected), 'i').test(asText(actual));
+    case 'in':
+      return Array.isArray(expected) && expected.some((item) => sameValue(actual, item));
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const diff = compare(actual, expected);
+      if (diff === null) return false;
+      if (operator === 'gt') return diff > 0;
+      if (operator === 'gte') return diff >= 0;
+      if (operator === 'lt') return diff < 0;
+      return diff <= 0;
+    }
+    case 'exists':
+      return actual !== null && actual !== '';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Human-readable form of a condition
+ */
+export function describeCondition(condition: StructuredCondition): string {
+  const label = CONDITION_OPERATORS[condition.operator] || condition.operator;
+  if (condition.operator === 'exists') return `${condition.field} ${label}`;
+  const value = Array.isArray(condition.value)
+    ? condition.value.map(asText).join(', ')
+    : asText(condition.value);
+  return `${condition.field} ${label} "${value}"`;
+}
+
+/**
+ * Evaluate a single condition against trigger data
+ */
+export function evaluateCondition(condition: StructuredCondition, data: unknown): boolean {
+  const values = resolveFieldPath(data, condition.field);
+
+  // A missing field only satisfies "does not equal"
+  if (values.length === 0) return condition.operator === 'not_equals';
+
+  // "does not equal" must hold for every value; everything else for any value
+  return condition.operator === 'not_equals'
+    ? values.every((value) => testValue(value, condition.operator, condition.value))
+    : values.some((value) => testValue(value, condition.operator, condition.value));
+}
+
+/**
+ * Evaluate all of a rule's conditions (AND) against trigger data
+ */
+export function evaluateConditions(
+  conditions: StructuredCondition[],
+  data: unknown
+): ConditionEvaluation {
+  for (const condition of conditions) {
+    let passed: boolean;
+    try {
+      passed = evaluateCondition(condition, data);
+    } catch {
+      passed = false;
+    }
+    if (!passed) {
+      return { passed: false, failed: describeCondition(condition) };
+    }
+  }
+  return { passed: true };
+}
+
+/**
+ * Validate structured conditions. Returns an error message, or null if valid.
+ */
+export function validateConditions(conditions: unknown, conditionsOnly?: boolean): string | null {
+  if (conditions === undefined || conditions === null) {
+    return conditionsOnly ? 'Skipping AI matching requires at least one condition' : null;
+  }
+  if (!Array.isArray(conditions)) return 'Conditions must be an array';
+
+  for (const [index, condition] of conditions.entries()) {
+    const prefix = `Condition ${index + 1}`;
+    if (!condition || typeof condition !== 'object') return `${prefix} is invalid`;
+
+    const { field, operator, value } = condition as StructuredCondition;
+    if (typeof field !== 'string' || !field.trim()) return `${prefix} requires a field`;
+    if (!parseFieldPath(field)) return `${prefix} has an invalid field path "${field}"`;
+    if (!(operator in CONDITION_OPERATORS)) return `${prefix} has an invalid operator`;
+
+    if (operator === 'exists') continue;
+    if (value === undefined || value === null || value === '') return `${prefix} requires a value`;
+
+    if (operator === 'in' && !Array.isArray(value)) {
+      return `${prefix}: "is one of" requires a list of values`;
+    }
+    if (operator === 'regex') {
+      try {
+        new RegExp(asText(value));
+      } catch {
+        return `${prefix} has an invalid regular expression`;
+      }
+    }
+    if (['gt', 'gte', 'lt', 'lte'].includes(operator) && compare(value, value) === null) {
+      return `${prefix} requires a number or date to compare against`;
+    }
+  }
+
+  if (conditionsOnly && conditions.length === 0) {
+    return 'Skipping AI matching requires at least one condition';
+  }
+
+  return null;
+}
@@ -0,0 +1,107 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNextCronRuns, validateCronExpression } from './cron';
+
+function nextRuns(expression: string, timezone: string, from: string, count: number): string[] {
+  return getNextCronRuns(expression, timezone, new Date(from), count).map((date) => date.toISOString());
+}
+
+describe('validateCronExpression', () => {
+  test('accepts aliases, names, ranges and steps', () => {
+    for (const expression of ['@daily', '*/15 9-17 * * mon-fri', '0 0 1,15 jan,jul *', '0 0 * * 7']) {
+      assert.equal(validateCronExpression(expression), null, expression);
+    }
+  });
+
+  test('rejects malformed expressions', () => {
+    for (const expression of ['', '* * * *', '60 * * * *', '0 24 * * *', '0 0 0 * *', '0 0 * 13 *', '*/0 * * * *']) {
+      assert.notEqual(validateCronExpression(expression), null, expression);
+    }
+  });
+});
+
+describe('getNextCronRuns', () => {
+  test('fires strictly after the start time', () => {
+    assert.deepEqual(nextRuns('*/15 * * * *', 'UTC', '2026-05-01T10:15:00Z', 2), [
+      '2026-05-01T10:30:00.000Z',
+      '2026-05-01T10:45:00.000Z',
+    ]);
+  });
+
+  test('evaluates the expression in the timezone', () => {
+    assert.deepEqual(nextRuns('0 9 * * *', 'Asia/Tokyo', '2026-05-01T00:30:00Z', 2), [
+      '2026-05-02T00:00:00.000Z',
+      '2026-05-03T00:00:00.000Z',
+    ]);
+  });
+
+  test('does not skip the day after a spring-forward transition', () => {
+    // 2026-03-08 is 23 hours long in New York
+    assert.deepEqual(nextRuns('0 0 * * 1', 'America/New_York', '2026-03-08T05:30:00Z', 2), [
+      '2026-03-09T04:00:00.000Z',
+      '2026-03-16T04:00:00.000Z',
+    ]);
+  });
+
+  test('skips local times that a spring-forward transition leaves out', () => {
+    assert.deepEqual(nextRuns('30 2 * * *', 'America/New_York', '2026-03-07T12:00:00Z', 2), [
+      '2026-03-09T06:30:00.000Z',
+      '2026-03-10T06:30:00.000Z',
+    ]);
+  });
+
+  test('fires once at midnight around a fall-back transition', () => {
+    // 2026-11-01 is 25 hours long in New York
+    assert.deepEqual(nextRuns('0 0 * * *', 'America/New_York', '2026-10-31T12:00:00Z', 3), [
+      '2026-11-01T04:00:00.000Z',
+      '2026-11-02T05:00:00.000Z',
+      '2026-11-03T05:00:00.000Z',
+    ]);
+  });
+
+  test('keeps the day a transition at midnight starts at 01:00', () => {
+    // Santiago moves from 00:00 to 01:00 on 2026-09-06, so that midnight never happens
+    assert.deepEqual(nextRuns('0 1 * * *', 'America/Santiago', '2026-09-05T12:00:00Z', 2), [
+      '2026-09-06T04:00:00.000Z',
+      '2026-09-07T04:00:00.000Z',
+    ]);
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // The 13th of the month or any Friday
+    assert.deepEqual(nextRuns('0 9 13 * 5', 'UTC', '2026-10-01T00:00:00Z', 4), [
+      '2026-10-02T09:00:00.000Z',
+      '2026-10-09T09:00:00.000Z',
+      '2026-10-13T09:00:00.000Z',
+      '2026-10-16T09:00:00.000Z',
+    ]);
+  });
+
+  test('matches only the restricted day field when the other is *', () => {
+    assert.deepEqual(nextRuns('0 9 13 * *', 'UTC', '2026-10-01T00:00:00Z', 2), [
+      '2026-10-13T09:00:00.000Z',
+      '2026-11-13T09:00:00.000Z',
+    ]);
+    assert.deepEqual(nextRuns('0 9 * * fri', 'UTC', '2026-10-01T00:00:00Z', 2), [
+      '2026-10-02T09:00:00.000Z',
+      '2026-10-09T09:00:00.000Z',
+    ]);
+  });
+
+  test('treats 7 as Sunday', () => {
+    assert.deepEqual(nextRuns('0 12 * * 7', 'UTC', '2026-10-01T00:00:00Z', 1), ['2026-10-04T12:00:00.000Z']);
+  });
+
+  test('finds a leap day years ahead', () => {
+    assert.deepEqual(nextRuns('0 0 29 2 *', 'UTC', '2026-03-01T00:00:00Z', 1), ['2028-02-29T00:00:00.000Z']);
+  });
+
+  test('returns nothing for a date that never exists', () => {
+    assert.deepEqual(nextRuns('0 0 31 2 *', 'UTC', '2026-03-01T00:00:00Z', 1), []);
+  });
+
+  test('returns nothing for an invalid expression or timezone', () => {
+    assert.deepEqual(nextRuns('not a cron', 'UTC', '2026-03-01T00:00:00Z', 1), []);
+    assert.deepEqual(nextRuns('0 0 * * *', 'Mars/Olympus_Mons', '2026-03-01T00:00:00Z', 1), []);
+  });
+});
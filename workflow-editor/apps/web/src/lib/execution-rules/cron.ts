@@ -0,0 +1,321 @@
+/**
+ * Cron expressions for scheduled execution rules
+ *
+ * Standard 5-field syntax (minute hour day-of-month month day-of-week) evaluated
+ * in an IANA timezone. Supports lists, ranges, steps, month/day names and the
+ * common @hourly/@daily/@weekly/@monthly/@yearly aliases. When both day-of-month
+ * and day-of-week are restricted, a time matches if either field matches.
+ *
+ * Pure module — safe to import from client components for previews.
+ */
+
+/**
+ * Parsed cron expression
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export type CronParseResult =
+  | { success: true; schedule: CronSchedule }
+  | { success: false; error: string };
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: Record<string, number>;
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: {
+      JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+      JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+    },
+  },
+  {
+    name: 'day of week',
+    min: 0,
+    max: 7,
+    names: { SUN: 0, MON: 1, TUE: 2, WED: 3, THU: 4, FRI: 5, SAT: 6 },
+  },
+];
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+/** Upper bound on search iterations when looking for the next fire time */
+const MAX_SEARCH_STEPS = 100_000;
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+function parseValue(token: string, spec: FieldSpec): number | null {
+  const named = spec.names?.[token.toUpperCase()];
+  if (named !== undefined) return named;
+  if (!/^\d+$/.test(token)) return null;
+  const value = parseInt(token, 10);
+  return value >= spec.min && value <= spec.max ? value : null;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> | string {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0 || !rangePart) {
+      return `Invalid ${spec.name} "${part}"`;
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        return `Invalid step "${stepPart}" in ${spec.name}`;
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      const fromValue = parseValue(from, spec);
+      const toValue = parseValue(to, spec);
+      if (fromValue === null || toValue === null || fromValue > toValue) {
+        return `Invalid ${spec.name} range "${rangePart}"`;
+      }
+      start = fromValue;
+      end = toValue;
+    } else {
+      const value = parseValue(rangePart, spec);
+      if (value === null) {
+        return `Invalid ${spec.name} "${rangePart}" (expected ${spec.min}-${spec.max})`;
+      }
+      start = value;
+      // "5/15" means every 15 starting at 5
+      end = stepPart !== undefined ? spec.max : value;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ */
+export function parseCronExpression(expression: string): CronParseResult {
+  const trimmed = expression.trim();
+  const expanded = ALIASES[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+
+  if (fields.length !== 5) {
+    return {
+      success: false,
+      error: 'Cron expression must have 5 fields: minute hour day-of-month month day-of-week',
+    };
+  }
+
+  const parsed: Set<number>[] = [];
+  for (let i = 0; i < fields.length; i++) {
+    const result = parseField(fields[i], FIELD_SPECS[i]);
+    if (typeof result === 'string') {
+      return { success: false, error: result };
+    }
+    parsed.push(result);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed;
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    success: true,
+    schedule: {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      dayOfMonthRestricted: fields[2] !== '*',
+      dayOfWeekRestricted: fields[4] !== '*',
+    },
+  };
+}
+
+/**
+ * Validate a cron expression. Returns an error message, or null if valid.
+ */
+export function validateCronExpression(expression: string): string | null {
+  const result = parseCronExpression(expression);
+  return result.success ? null : result.error;
+}
+
+/**
+ * Validate an IANA timezone name. Returns an error message, or null if valid.
+ */
+export function validateTimezone(timezone: string): string | null {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return null;
+  } catch {
+    return `Unknown timezone "${timezone}"`;
+  }
+}
+
+interface WallClock {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Read the wall-clock time of an instant in a timezone
+ */
+function toWallClock(date: Date, timezone: string): WallClock {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    weekday: WEEKDAYS[parts.weekday] ?? 0,
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, clock: WallClock): boolean {
+  const domMatch = schedule.daysOfMonth.has(clock.day);
+  const dowMatch = schedule.daysOfWeek.has(clock.weekday);
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Find the next time strictly after `from` that matches the schedule.
+ * Walks forward in UTC and re-reads the wall clock, so DST transitions are
+ * handled naturally (skipped local times never fire).
+ */
+function findNext(schedule: CronSchedule, timezone: string, from: Date): Date | null {
+  const MINUTE = 60 * 1000;
+  // Start at the next whole minute
+  let t = Math.floor(from.getTime() / MINUTE) * MINUTE + MINUTE;
+
+  for (let i = 0; i < MAX_SEARCH_STEPS; i++) {
+    const clock = toWallClock(new Date(t), timezone);
+
+    if (!schedule.months.has(clock.month) || !matchesDay(schedule, clock)) {
+      // Head for the next local midnight: to 23:00, then hour by hour. A DST
+      // day can be 23 hours long, so jumping a full day's worth could overshoot.
+      t += (clock.hour < 23 ? (23 - clock.hour) * 60 - clock.minute : 60 - clock.minute) * MINUTE;
+      continue;
+    }
+    if (!schedule.hours.has(clock.hour)) {
+      // Jump to the next local hour
+      t += (60 - clock.minute) * MINUTE;
+      continue;
+    }
+    if (!schedule.minutes.has(clock.minute)) {
+      t += MINUTE;
+      continue;
+    }
+    return new Date(t);
+  }
+
+  return null;
+}
+
+/**
+ * Compute the next `count` fire times of a cron expression after `from`
+ */
+export function getNextCronRuns(
+  expression: string,
+  timezone: string = 'UTC',
+  from: Date = new Date(),
+  count = 1
+): Date[] {
+  const parsed = parseCronExpression(expression);
+  if (!parsed.success || validateTimezone(timezone)) return [];
+
+  const runs: Date[] = [];
+  let cursor = from;
+  while (runs.length < count) {
+    const next = findNext(parsed.schedule, timezone, cursor);
+    if (!next) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
+
+/**
+ * Format a fire time for display in the schedule's timezone
+ */
+export function formatCronRun(date: Date, timezone: string = 'UTC'): string {
+  return date.toLocaleString('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Convex storage for events held by debounced rules
+ */
+
+import { convex, api } from '@/lib/convex';
+import type { TriggerPayload } from './types';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+/**
+ * An event waiting for its rule's debounce to end
+ */
+export interface HeldEvent {
+  ruleId: string;
+  userId: string;
+  payload: TriggerPayload;
+  dueAt: string;
+  supersededCount: number; // Earlier events in the burst that were dropped
+}
+
+export const ruleDebounceStorage = {
+  /**
+   * Hold an event until dueAt, replacing any event the rule already holds.
+   * Returns the replaced event's payload.
+   */
+  async hold(
+    ruleId: string,
+    userId: string,
+    payload: TriggerPayload,
+    dueAt: Date
+  ): Promise<TriggerPayload | undefined> {
+    const { superseded } = await convex.mutation(api.ruleDebounces.hold, {
+      ruleId: ruleId as Id<"execution_rules">,
+      userId,
+      payloadJson: JSON.stringify(payload),
+      triggerId: payload.id,
+      dueAt: dueAt.getTime(),
+    });
+    return superseded ? (JSON.parse(superseded.payloadJson) as TriggerPayload) : undefined;
+  },
+
+  /**
+   * Take the held events that are due. Each event is returned to one caller only.
+   */
+  async takeDue(now: Date = new Date(), limit = 25): Promise<HeldEvent[]> {
+    const docs = await convex.mutation(api.ruleDebounces.takeDue, { now: now.getTime(), limit });
+    return docs.map((doc) => ({
+      ruleId: doc.ruleId as string,
+      userId: doc.userId,
+      payload: JSON.parse(doc.payloadJson) as TriggerPayload,
+      dueAt: new Date(doc.dueAt).toISOString(),
+      supersededCount: doc.supersededCount,
+    }));
+  },
+};
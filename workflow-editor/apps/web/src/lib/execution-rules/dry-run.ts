@@ -0,0 +1,143 @@
+/**
+ * Dry-run helpers for testing rules
+ *
+ * A rule test runs against a sample payload instead of a real trigger event.
+ * Tools that only read data run as usual; any other tool call is recorded and
+ * reported instead of performed, so testing a rule never sends a message or
+ * changes anything in a connected account.
+ */
+
+import { inferToolkitFromTrigger } from './webhook-payload';
+import type { TriggerPayload } from './types';
+
+/**
+ * Verbs that mark a tool as read-only when they directly follow the toolkit
+ * prefix, e.g. GMAIL_FETCH_EMAILS or SLACK_LIST_ALL_CHANNELS
+ */
+const READ_ONLY_VERBS = new Set([
+  'GET',
+  'LIST',
+  'SEARCH',
+  'FETCH',
+  'FIND',
+  'READ',
+  'RETRIEVE',
+  'QUERY',
+  'DESCRIBE',
+  'VIEW',
+  'LOOKUP',
+]);
+
+/** Words joining a read verb to another action, e.g. FIND_AND_REPLACE or FIND_OR_CREATE */
+const COMPOUND_VERB_JOINERS = new Set(['AND', 'OR', 'THEN']);
+
+/** How deep sample payloads are generated for nested schemas */
+const MAX_SAMPLE_DEPTH = 6;
+
+/**
+ * Whether a tool only reads data and can run during a dry run.
+ * Only the verb right after the toolkit prefix counts (SLACK_PUBLISH_VIEW
+ * publishes), and compound verbs such as GOOGLEDOCS_FIND_AND_REPLACE write.
+ * Unknown tools are assumed to have side effects.
+ */
+export function isReadOnlyTool(toolName: string): boolean {
+  const [, verb, next] = toolName.toUpperCase().split('_');
+  return READ_ONLY_VERBS.has(verb) && !COMPOUND_VERB_JOINERS.has(next);
+}
+
+/**
+ * Build an example value from a JSON schema, preferring the schema's own
+ * examples, defaults and enum values
+ */
+export function sampleFromSchema(schema: unknown, depth = 0): unknown {
+  if (!schema || typeof schema !== 'object') return null;
+  const s = schema as Record<string, unknown>;
+
+  if (Array.isArray(s.examples) && s.examples.length > 0) return s.examples[0];
+  if (s.example !== undefined) return s.example;
+  if (s.default !== undefined) return s.default;
+  if (Array.isArray(s.enum) && s.enum.length > 0) return s.enum[0];
+
+  for (const key of ['anyOf', 'oneOf', 'allOf']) {
+    const options = s[key];
+    if (Array.isArray(options) && options.length > 0) {
+      const option = options.find((o) => (o as Record<string, unknown>)?.type !== 'null') ?? options[0];
+      return sampleFromSchema(option, depth);
+    }
+  }
+
+  const type = Array.isArray(s.type) ? s.type.find((t) => t !== 'null') : s.type;
+  switch (type) {
+    case 'string':
+      if (s.format === 'date-time') return new Date().toISOString();
+      if (s.format === 'date') return new Date().toISOString().slice(0, 10);
+      if (s.format === 'email') return 'someone@example.com';
+      if (s.format === 'uri' || s.format === 'url') return 'https://example.com';
+      return typeof s.title === 'string' ? `Sample ${s.title.toLowerCase()}` : 'sample';
+    case 'integer':
+    case 'number':
+      return typeof s.minimum === 'number' ? s.minimum : 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return depth < MAX_SAMPLE_DEPTH && s.items ? [sampleFromSchema(s.items, depth + 1)] : [];
+    case 'object':
+    default: {
+      const properties = s.properties as Record<string, unknown> | undefined;
+      if (!properties) return type === 'object' ? {} : null;
+      if (depth >= MAX_SAMPLE_DEPTH) return {};
+      const sample: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(properties)) {
+        sample[key] = sampleFromSchema(property, depth + 1);
+      }
+      return sample;
+    }
+  }
+}
+
+/**
+ * Build a sample event payload from a trigger type's payload schema
+ */
+export function buildSamplePayload(payloadSchema: Record<string, unknown>): Record<string, unknown> {
+  const sample = sampleFromSchema(payloadSchema);
+  return sample && typeof sample === 'object' && !Array.isArray(sample)
+    ? (sample as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Wrap sample event data in a TriggerPayload, as if the trigger had fired
+ */
+export function buildTestPayload(
+  userId: string,
+  triggerSlug: string,
+  data: Record<string, unknown>
+): TriggerPayload {
+  const id = `test_${Date.now()}`;
+  const toolkitSlug = inferToolkitFromTrigger(triggerSlug);
+
+  return {
+    id,
+    uuid: crypto.randomUUID(),
+    triggerSlug,
+    toolkitSlug,
+    userId,
+    payload: data,
+    originalPayload: data,
+    metadata: {
+      id,
+      uuid: id,
+      toolkitSlug,
+      triggerSlug,
+      triggerConfig: {},
+      connectedAccount: {
+        id: userId,
+        uuid: userId,
+        authConfigId: '',
+        authConfigUUID: '',
+        userId,
+        status: 'ACTIVE',
+      },
+    },
+  };
+}
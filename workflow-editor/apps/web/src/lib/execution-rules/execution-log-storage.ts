@@ -1,11 +1,34 @@
 /**
  * Convex storage for execution logs
+ * The trigger payload is stored redacted and size-capped (see log-payload.ts).
  */
 
 import { convex, api } from '@/lib/convex';
-import type { ExecutionLogEntry, ExecutionLogStats } from './types';
+import { DEFAULT_MAX_PAYLOAD_BYTES, parseLogPayload, serializeLogPayload } from './log-payload';
+import { summarizeLogs, type AnalyticsLogRecord } from './log-analytics';
+import type {
+  ExecutionAnalytics,
+  ExecutionLogEntry,
+  ExecutionLogFilters,
+  ExecutionLogPage,
+  ExecutionLogStats,
+  OutputDelivery,
+} from './types';
 import type { Id } from '../../../convex/_generated/dataModel';
 
+/** Cap on the stored trigger payload, in bytes */
+const MAX_PAYLOAD_BYTES =
+  parseInt(process.env.EXECUTION_LOG_PAYLOAD_MAX_BYTES || '', 10) || DEFAULT_MAX_PAYLOAD_BYTES;
+
+/** Logs deleted per mutation when enforcing retention */
+const DELETE_BATCH_SIZE = 100;
+
+/** Logs read per mutation when backfilling search text */
+const SEARCH_BACKFILL_BATCH_SIZE = 100;
+
+/** Logs read per query when computing analytics */
+const ANALYTICS_PAGE_SIZE = 200;
+
 function toISO(ts?: number | null): string {
   return ts ? new Date(ts).toISOString() : new Date().toISOString();
 }
@@ -17,17 +40,33 @@ function mapDoc(doc: Record<string, unknown>): ExecutionLogEntry {
     ruleName: doc.ruleName as string,
     userId: doc.userId as string,
     triggerSlug: (doc.triggerSlug as string) || '',
-    status: doc.status as 'success' | 'failure' | 'partial',
+    status: doc.status as ExecutionLogEntry['status'],
     stepsJson: (doc.stepsJson as ExecutionLogEntry['stepsJson']) || [],
     outputText: (doc.outputText as string) || undefined,
     errorText: (doc.errorText as string) || undefined,
+    skipReason: (doc.skipReason as string) || undefined,
     durationMs: (doc.durationMs as number) || undefined,
+    triggerId: (doc.triggerId as string) || undefined,
+    matchConfidence: doc.matchConfidence as number | undefined,
+    triggerPayload: parseLogPayload(doc.triggerPayloadJson),
+    payloadTruncated: (doc.payloadTruncated as boolean) || undefined,
+    replayOfLogId: (doc.replayOfLogId as string) || undefined,
+    ruleVersionId: (doc.ruleVersionId as string) || undefined,
+    ruleVersion: doc.ruleVersion as number | undefined,
+    runId: (doc.runId as string) || undefined,
+    outputDeliveries: (doc.outputDeliveries as Array<Record<string, unknown>> | undefined)?.map((delivery) => ({
+      ...(delivery as unknown as OutputDelivery),
+      attemptedAt: toISO(delivery.attemptedAt as number),
+    })),
     createdAt: toISO(doc.createdAt as number),
   };
 }
 
 export const executionLogStorage = {
-  async create(log: Omit<ExecutionLogEntry, 'id' | 'createdAt'>): Promise<ExecutionLogEntry> {
+  async create(
+    log: Omit<ExecutionLogEntry, 'id' | 'createdAt' | 'payloadTruncated'>
+  ): Promise<ExecutionLogEntry> {
+    const stored = log.triggerPayload ? serializeLogPayload(log.triggerPayload, MAX_PAYLOAD_BYTES) : undefined;
     const id = await convex.mutation(api.executionLogs.create, {
       ruleId: log.ruleId as Id<"execution_rules">,
       ruleName: log.ruleName,
@@ -37,7 +76,16 @@ export const executionLogStorage = {
       stepsJson: log.stepsJson || [],
       outputText: log.outputText || undefined,
       errorText: log.errorText || undefined,
+      skipReason: log.skipReason || undefined,
       durationMs: log.durationMs || undefined,
+      triggerId: log.triggerId || undefined,
+      matchConfidence: log.matchConfidence,
+      triggerPayloadJson: stored?.json,
+      payloadTruncated: stored?.truncated || undefined,
+      replayOfLogId: log.replayOfLogId ? (log.replayOfLogId as Id<"execution_logs">) : undefined,
+      ruleVersionId: log.ruleVersionId ? (log.ruleVersionId as Id<"execution_rule_versions">) : undefined,
+      ruleVersion: log.ruleVersion,
+      runId: log.runId,
     });
 
     return {
@@ -50,57 +98,164 @@ export const executionLogStorage = {
       stepsJson: log.stepsJson || [],
       outputText: log.outputText,
       errorText: log.errorText,
+      skipReason: log.skipReason,
       durationMs: log.durationMs,
+      triggerId: log.triggerId,
+      matchConfidence: log.matchConfidence,
+      triggerPayload: parseLogPayload(stored?.json),
+      payloadTruncated: stored?.truncated || undefined,
+      replayOfLogId: log.replayOfLogId,
+      ruleVersionId: log.ruleVersionId,
+      ruleVersion: log.ruleVersion,
+      runId: log.runId,
       createdAt: new Date().toISOString(),
     };
   },
 
-  async getByRuleId(ruleId: string, limit = 50, offset = 0): Promise<{ logs: ExecutionLogEntry[]; total: number }> {
-    const docs = await convex.query(api.executionLogs.listByRule, {
-      ruleId: ruleId as Id<"execution_rules">,
+  async setOutputDeliveries(id: string, deliveries: OutputDelivery[]): Promise<void> {
+    await convex.mutation(api.executionLogs.setOutputDeliveries, {
+      id: id as Id<"execution_logs">,
+      deliveries: deliveries.map((delivery) => ({
+        ...delivery,
+        attemptedAt: new Date(delivery.attemptedAt).getTime(),
+      })),
     });
-    const total = docs.length;
-    const sliced = docs.slice(offset, offset + limit);
-    return { logs: sliced.map(mapDoc), total };
   },
 
-  async getByUserId(userId: string, limit = 50, offset = 0): Promise<{ logs: ExecutionLogEntry[]; total: number }> {
-    const docs = await convex.query(api.executionLogs.list, { userId });
-    const total = docs.length;
-    const sliced = docs.slice(offset, offset + limit);
-    return { logs: sliced.map(mapDoc), total };
+  async getByIdAndUser(id: string, userId: string): Promise<ExecutionLogEntry | undefined> {
+    const doc = await convex.query(api.executionLogs.get, { id: id as Id<"execution_logs"> });
+    if (!doc || doc.userId !== userId) return undefined;
+    return mapDoc(doc);
   },
 
-  async getRecent(userId: string, limit = 10): Promise<ExecutionLogEntry[]> {
-    const docs = await convex.query(api.executionLogs.list, { userId, limit });
+  async getReplays(logId: string): Promise<ExecutionLogEntry[]> {
+    const docs = await convex.query(api.executionLogs.listReplays, {
+      logId: logId as Id<"execution_logs">,
+    });
     return docs.map(mapDoc);
   },
 
-  async deleteOlderThan(_days: number): Promise<number> {
-    console.warn('TODO: implement deleteOlderThan in Convex');
-    return 0;
+  /**
+   * A page of a user's logs, newest first (or by relevance when searching)
+   */
+  async list(
+    userId: string,
+    filters: ExecutionLogFilters = {},
+    cursor: string | null = null,
+    limit = 50
+  ): Promise<ExecutionLogPage> {
+    const page = await convex.query(api.executionLogs.list, {
+      userId,
+      ruleId: filters.ruleId as Id<"execution_rules"> | undefined,
+      status: filters.status,
+      triggerSlug: filters.triggerSlug,
+      since: filters.since ? new Date(filters.since).getTime() : undefined,
+      until: filters.until ? new Date(filters.until).getTime() : undefined,
+      search: filters.search?.trim() || undefined,
+      paginationOpts: { numItems: limit, cursor },
+    });
+    return {
+      logs: page.page.map(mapDoc),
+      nextCursor: page.isDone ? null : page.continueCursor,
+    };
   },
 
-  async getStats(userId: string): Promise<ExecutionLogStats> {
-    const s = await convex.query(api.executionLogs.stats, { userId });
+  async getRecent(userId: string, limit = 10): Promise<ExecutionLogEntry[]> {
+    const { logs } = await this.list(userId, {}, null, limit);
+    return logs;
+  },
+
+  /**
+   * Delete logs older than the given number of days, with the progress events
+   * and webhook deliveries of their runs. Returns how many logs were deleted.
+   */
+  async deleteOlderThan(days: number): Promise<number> {
+    const before = Date.now() - days * 24 * 60 * 60 * 1000;
+    let deleted = 0;
+    for (;;) {
+      const count = await convex.mutation(api.executionLogs.removeOlderThan, {
+        before,
+        limit: DELETE_BATCH_SIZE,
+      });
+      deleted += count;
+      if (count < DELETE_BATCH_SIZE) return deleted;
+    }
+  },
+
+  /**
+   * Make logs recorded before full-text search existed searchable.
+   * Returns how many logs were updated.
+   */
+  async backfillSearchText(): Promise<number> {
+    let cursor: string | null = null;
+    let updated = 0;
+    for (;;) {
+      const page: { updated: number; isDone: boolean; continueCursor: string } = await convex.mutation(
+        api.executionLogs.backfillSearchText,
+        { cursor, numItems: SEARCH_BACKFILL_BATCH_SIZE }
+      );
+      updated += page.updated;
+      if (page.isDone) return updated;
+      cursor = page.continueCursor;
+    }
+  },
+
+  async getStats(userId: string, ruleId?: string): Promise<ExecutionLogStats> {
+    const s = await convex.query(api.executionLogs.stats, {
+      userId,
+      ruleId: ruleId as Id<"execution_rules"> | undefined,
+    });
     return {
       totalRuns: s.total,
+      skippedRuns: s.skipped,
       successRate: s.total > 0 ? (s.success / s.total) * 100 : 0,
       avgDurationMs: Math.round(s.avgDuration),
     };
   },
 
-  async getStatsByRuleId(ruleId: string): Promise<ExecutionLogStats> {
-    const { logs } = await this.getByRuleId(ruleId, 10000, 0);
-    const total = logs.length;
-    const success = logs.filter(l => l.status === 'success').length;
-    const avgMs = total > 0
-      ? logs.reduce((sum, l) => sum + (l.durationMs || 0), 0) / total
-      : 0;
+  /**
+   * Aggregate a user's logs from since until now, in buckets of bucketMs.
+   * Rules without a log in the last idleDays are reported as idle.
+   */
+  async getAnalytics(
+    userId: string,
+    options: { since: Date; bucketMs: number; idleDays: number; ruleId?: string }
+  ): Promise<ExecutionAnalytics> {
+    const since = options.since.getTime();
+    const until = Date.now();
+    const ruleId = options.ruleId as Id<"execution_rules"> | undefined;
+
+    // Read the range page by page so a busy account stays within query limits
+    const logs: AnalyticsLogRecord[] = [];
+    let cursor: string | null = null;
+    for (;;) {
+      const page: { page: AnalyticsLogRecord[]; isDone: boolean; continueCursor: string } = await convex.query(
+        api.executionLogs.analyticsPage,
+        { userId, since, until, ruleId, paginationOpts: { numItems: ANALYTICS_PAGE_SIZE, cursor } }
+      );
+      logs.push(...page.page);
+      if (page.isDone) break;
+      cursor = page.continueCursor;
+    }
+
+    const idleRules = await convex.query(api.executionRules.listIdle, {
+      userId,
+      idleSince: until - options.idleDays * 24 * 60 * 60 * 1000,
+      ruleId,
+    });
+
     return {
-      totalRuns: total,
-      successRate: total > 0 ? (success / total) * 100 : 0,
-      avgDurationMs: Math.round(avgMs),
+      since: options.since.toISOString(),
+      until: toISO(until),
+      bucketMs: options.bucketMs,
+      ...summarizeLogs(logs, { since, until, bucketMs: options.bucketMs }),
+      idleRules: idleRules
+        .sort((a, b) => (a.lastFiredAt ?? 0) - (b.lastFiredAt ?? 0))
+        .map((rule) => ({
+          ...rule,
+          lastFiredAt: rule.lastFiredAt ? toISO(rule.lastFiredAt) : undefined,
+        })),
+      idleDays: options.idleDays,
     };
   },
 };
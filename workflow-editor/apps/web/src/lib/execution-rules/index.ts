@@ -15,23 +15,171 @@ export type {
   ExecutionStep,
   InstructionStep,
   ActionStep,
+  ApprovalStep,
+  StepPolicy,
+  StepRetryPolicy,
+  StepErrorPolicy,
+  StepErrorClass,
   OutputConfig,
   OutputPlatform,
   OutputFormat,
+  OutputDestinationType,
+  OutputTarget,
+  OutputDelivery,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  RunEvent,
+  RunEventType,
   TriggerPayload,
+  RuleMatch,
   RuleMatchResult,
   RuleExecutionResult,
   StepResult,
+  StepAttempt,
+  DryRunToolCall,
+  RuleTestResult,
   ProcessingResult,
+  RuleProcessingOutcome,
+  MatchMode,
+  ConditionOperator,
+  StructuredCondition,
+  RuleRateLimit,
   // Activation mode types
   ActivationMode,
   ScheduleInterval,
+  ScheduleType,
   ManualInvocationContext,
   ManualInvocationResult,
+  // Trigger event inbox
+  TriggerEvent,
+  TriggerEventStatus,
+  // Approval types
+  ApprovalStatus,
+  ExecutionApproval,
+  PausedExecution,
+  // Version history
+  ExecutionRuleVersion,
+  RuleChangeSource,
+  RuleSnapshot,
 } from './types';
 
 // Storage
 export { executionRulesStorage } from './storage';
+export type { RuleChange } from './storage';
+export { triggerEventStorage } from './trigger-event-storage';
+export { approvalStorage } from './approval-storage';
+export { ruleDebounceStorage } from './debounce-storage';
+export type { HeldEvent } from './debounce-storage';
+export { webhookDeliveryStorage } from './webhook-delivery-storage';
+export { runEventStorage } from './run-event-storage';
+export type { RunEventPage } from './run-event-storage';
+
+// Scheduling
+export { computeNextRun, isScheduleEligible, SCHEDULE_INTERVAL_MS } from './schedule';
+export {
+  parseCronExpression,
+  validateCronExpression,
+  validateTimezone,
+  getNextCronRuns,
+  formatCronRun,
+} from './cron';
+
+// Matching
+export { selectRulesToRun, validateMatchThreshold, DEFAULT_MATCH_THRESHOLD } from './matching';
+
+// Structured conditions
+export {
+  CONDITION_OPERATORS,
+  evaluateCondition,
+  evaluateConditions,
+  validateConditions,
+  describeCondition,
+  resolveFieldPath,
+} from './conditions';
+
+// Templating
+export {
+  validateTemplate,
+  validateRuleTemplates,
+  buildTemplateContext,
+  renderTemplate,
+  renderParameters,
+  formatTemplateDate,
+  TEMPLATE_HELPERS,
+} from './templating';
+export type { TemplateContext, TemplateScope } from './templating';
+
+// Step retry, timeout and error policies
+export {
+  classifyStepError,
+  shouldRetry,
+  getDefaultRetryOn,
+  getRetryDelay,
+  validateStepPolicies,
+  DEFAULT_RETRY_ON,
+  DEFAULT_ACTION_RETRY_ON,
+  STEP_ERROR_CLASSES,
+} from './step-policy';
+
+// Trigger run limits
+export {
+  checkRunLimits,
+  hasRunLimits,
+  describeRunLimits,
+  formatLimitDuration,
+  validateRunLimits,
+} from './run-limits';
+
+// Output destinations
+export {
+  OUTPUT_DESTINATIONS,
+  OUTPUT_FORMATS,
+  MAX_OUTPUT_TARGETS,
+  isOutputDestinationType,
+  resolveOutputTargets,
+  toOutputConfig,
+  describeOutputTarget,
+  validateOutputConfig,
+} from './output-destinations';
+export type { OutputDestinationDefinition } from './output-destinations';
+export { deliverOutputs, formatOutputMessage } from './output-delivery';
+export { webhookDeliveryService, MAX_STORED_BODY_BYTES } from './webhook-delivery';
+export type { WebhookSendResult } from './webhook-delivery';
+
+// Dry runs
+export { isReadOnlyTool, sampleFromSchema, buildSamplePayload, buildTestPayload } from './dry-run';
+
+// Rule versions
+export { diffSnapshots, formatSnapshotValue, ruleAtVersion, RULE_FIELD_LABELS, CHANGE_SOURCE_LABELS } from './rule-versions';
+export type { RuleFieldDiff } from './rule-versions';
+
+// Import / export
+export {
+  parseRuleBundle,
+  validateRuleBundle,
+  validatePortableRule,
+  serializeRuleBundle,
+  toPortableRule,
+  detectBundleFormat,
+  RULE_BUNDLE_FORMAT,
+  RULE_BUNDLE_VERSION,
+} from './rule-bundle';
+export type { RuleBundle, PortableRuleTemplate, BundleFileFormat } from './rule-bundle';
+export { importRules } from './rule-import';
+export type { ImportConflictStrategy, RuleImportResult } from './rule-import';
+
+// Stored trigger payloads
+export { serializeLogPayload, parseLogPayload, DEFAULT_MAX_PAYLOAD_BYTES, REDACTED } from './log-payload';
+export type { StoredPayload } from './log-payload';
+
+// Execution log listing and retention
+export { readLogListParams, LOG_STATUSES, DEFAULT_LOG_PAGE_SIZE, MAX_LOG_PAGE_SIZE } from './log-filters';
+export { enforceLogRetention, getLogRetentionDays } from './log-retention';
+
+// Run progress
+export { RunProgress, summarizeForEvent } from './run-progress';
+export type { RunProgressEvent } from './run-progress';
 
 // Agents
 export { ruleMatcherAgent } from './rule-matcher-agent';
@@ -39,6 +187,8 @@ export { ruleExecutorAgent } from './rule-executor-agent';
 
 // Services
 export { triggerProcessingService } from './trigger-processing-service';
+export type { ReplayResult, ReplayVersion } from './trigger-processing-service';
+export { triggerEventWorker, DEDUP_WINDOW_MS } from './trigger-event-worker';
 
 // Prompts
 export {
@@ -0,0 +1,117 @@
+/**
+ * Execution log analytics
+ *
+ * Aggregates the logs of a time range for the analytics dashboard. Logs are
+ * read page by page as slim records (see executionLogs.analyticsPage) and
+ * counted in buckets of bucketMs aligned to the Unix epoch, so daily buckets
+ * are UTC days.
+ */
+
+import type { ExecutionAnalytics, ExecutionLogEntry } from './types';
+
+/**
+ * The fields of a log the analytics are computed from
+ */
+export interface AnalyticsLogRecord {
+  ruleId: string;
+  ruleName: string;
+  status: ExecutionLogEntry['status'];
+  triggerSlug?: string;
+  errorGroup?: string; // Normalized error text
+  durationMs?: number;
+  createdAt: number;
+}
+
+/** Error groups reported */
+const TOP_ERROR_COUNT = 10;
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Aggregate logs between since and until. Everything but the idle rules.
+ */
+export function summarizeLogs(
+  logs: AnalyticsLogRecord[],
+  options: { since: number; until: number; bucketMs: number }
+): Pick<ExecutionAnalytics, 'buckets' | 'rules' | 'triggers' | 'topErrors' | 'duration'> {
+  const { since, until, bucketMs } = options;
+  const firstBucket = Math.floor(since / bucketMs) * bucketMs;
+  const bucketCount = Math.max(1, Math.ceil((until - firstBucket) / bucketMs));
+  const bucketOf = (createdAt: number) =>
+    Math.min(bucketCount - 1, Math.floor((createdAt - firstBucket) / bucketMs));
+
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    start: new Date(firstBucket + i * bucketMs).toISOString(),
+    success: 0,
+    failure: 0,
+    partial: 0,
+    skipped: 0,
+  }));
+  const rules = new Map<string, ExecutionAnalytics['rules'][number]>();
+  const triggers = new Map<string, ExecutionAnalytics['triggers'][number]>();
+  const errors = new Map<string, { message: string; count: number; lastSeenAt: number; ruleNames: Set<string> }>();
+  const durations: number[] = [];
+
+  for (const log of logs) {
+    const bucket = bucketOf(log.createdAt);
+    buckets[bucket][log.status]++;
+    if (log.status === 'skipped') continue;
+
+    const failed = log.status === 'failure';
+    const rule = rules.get(log.ruleId) ?? {
+      ruleId: log.ruleId,
+      ruleName: log.ruleName,
+      runs: 0,
+      failures: 0,
+      counts: new Array<number>(bucketCount).fill(0),
+    };
+    rule.runs++;
+    rule.counts[bucket]++;
+    if (failed) rule.failures++;
+    rules.set(log.ruleId, rule);
+
+    const slug = log.triggerSlug || 'manual';
+    const trigger = triggers.get(slug) ?? { triggerSlug: slug, runs: 0, failures: 0 };
+    trigger.runs++;
+    if (failed) trigger.failures++;
+    triggers.set(slug, trigger);
+
+    if (log.errorGroup) {
+      const group = errors.get(log.errorGroup) ?? {
+        message: log.errorGroup,
+        count: 0,
+        lastSeenAt: 0,
+        ruleNames: new Set<string>(),
+      };
+      group.count++;
+      group.lastSeenAt = Math.max(group.lastSeenAt, log.createdAt);
+      group.ruleNames.add(log.ruleName);
+      errors.set(log.errorGroup, group);
+    }
+
+    if (log.durationMs !== undefined) durations.push(log.durationMs);
+  }
+  durations.sort((a, b) => a - b);
+
+  return {
+    buckets,
+    rules: [...rules.values()].sort((a, b) => b.runs - a.runs),
+    triggers: [...triggers.values()].sort((a, b) => b.runs - a.runs),
+    topErrors: [...errors.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_ERROR_COUNT)
+      .map((e) => ({ ...e, lastSeenAt: new Date(e.lastSeenAt).toISOString(), ruleNames: [...e.ruleNames] })),
+    duration: {
+      samples: durations.length,
+      p50Ms: percentile(durations, 50),
+      p95Ms: percentile(durations, 95),
+      maxMs: durations[durations.length - 1] ?? 0,
+    },
+  };
+}
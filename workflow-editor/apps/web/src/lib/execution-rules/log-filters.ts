@@ -0,0 +1,63 @@
+/**
+ * Execution log listing query parameters
+ *
+ * The log routes share these parameters:
+ * - status: success | failure | partial | skipped
+ * - triggerSlug: exact trigger slug
+ * - since / until: ISO dates or date-times; since is inclusive, until exclusive
+ * - q: full-text search of the output and error text
+ * - cursor / limit: the page (limit 0 returns stats only)
+ *
+ * Pure module — safe to import from client components.
+ */
+
+import type { ExecutionLogEntry, ExecutionLogFilters } from './types';
+
+export const LOG_STATUSES: ExecutionLogEntry['status'][] = ['success', 'failure', 'partial', 'skipped'];
+
+export const DEFAULT_LOG_PAGE_SIZE = 50;
+export const MAX_LOG_PAGE_SIZE = 100;
+
+/**
+ * Read the filters and page of a log listing. Returns an error message for
+ * invalid parameters.
+ */
+export function readLogListParams(
+  params: URLSearchParams
+): { filters: ExecutionLogFilters; cursor: string | null; limit: number } | { error: string } {
+  const filters: ExecutionLogFilters = {};
+
+  const status = params.get('status');
+  if (status) {
+    if (!LOG_STATUSES.includes(status as ExecutionLogEntry['status'])) {
+      return { error: `status must be one of ${LOG_STATUSES.join(', ')}` };
+    }
+    filters.status = status as ExecutionLogEntry['status'];
+  }
+
+  for (const key of ['since', 'until'] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return { error: `${key} must be an ISO date` };
+    }
+    filters[key] = date.toISOString();
+  }
+  if (filters.since && filters.until && filters.since >= filters.until) {
+    return { error: 'since must be before until' };
+  }
+
+  const triggerSlug = params.get('triggerSlug')?.trim();
+  if (triggerSlug) filters.triggerSlug = triggerSlug;
+
+  const search = params.get('q')?.trim();
+  if (search) filters.search = search;
+
+  const limit = parseInt(params.get('limit') || '', 10);
+  return {
+    filters,
+    cursor: params.get('cursor') || null,
+    limit: Number.isFinite(limit) ? Math.min(MAX_LOG_PAGE_SIZE, Math.max(0, limit)) : DEFAULT_LOG_PAGE_SIZE,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Trigger payloads stored with execution logs
+ *
+ * Logs keep the payload a run started from so it can be replayed. Before it is
+ * stored, values under sensitive keys (passwords, tokens, API keys, cookies...)
+ * are redacted, long strings and arrays are shortened, and a payload that is
+ * still over the size cap loses its raw webhook body and then its event data.
+ */
+
+import type { TriggerPayload } from './types';
+
+/** Default cap on the stored payload, in bytes of JSON */
+export const DEFAULT_MAX_PAYLOAD_BYTES = 32 * 1024;
+
+export const REDACTED = '[REDACTED]';
+
+const SENSITIVE_KEY = /pass(word|wd)?$|secret|token|api[-_]?key|authorization|cookie|credential|private[-_]?key/i;
+const MAX_STRING_LENGTH = 4000;
+const MAX_ARRAY_ITEMS = 100;
+const MAX_DEPTH = 12;
+
+/**
+ * A payload prepared for storage
+ */
+export interface StoredPayload {
+  json: string;
+  /** Set when values were shortened or dropped to fit the cap */
+  truncated: boolean;
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Redact sensitive values and shorten long ones
+ */
+function sanitize(value: unknown, depth: number, state: { truncated: boolean }): unknown {
+  if (typeof value === 'string') {
+    if (value.length <= MAX_STRING_LENGTH) return value;
+    state.truncated = true;
+    return `${value.slice(0, MAX_STRING_LENGTH)}… [${value.length - MAX_STRING_LENGTH} more characters]`;
+  }
+  if (!value || typeof value !== 'object') return value;
+
+  if (depth >= MAX_DEPTH) {
+    state.truncated = true;
+    return '[nested too deeply]';
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length > MAX_ARRAY_ITEMS) state.truncated = true;
+    return value.slice(0, MAX_ARRAY_ITEMS).map((item) => sanitize(item, depth + 1, state));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    result[key] =
+      SENSITIVE_KEY.test(key) && item !== null && item !== undefined && item !== ''
+        ? REDACTED
+        : sanitize(item, depth + 1, state);
+  }
+  return result;
+}
+
+/**
+ * Prepare a trigger payload for storage with its log
+ */
+export function serializeLogPayload(
+  payload: TriggerPayload,
+  maxBytes = DEFAULT_MAX_PAYLOAD_BYTES
+): StoredPayload {
+  const state = { truncated: false };
+  const sanitized = sanitize(payload, 0, state) as TriggerPayload;
+
+  let json = JSON.stringify(sanitized);
+  if (byteLength(json) <= maxBytes) return { json, truncated: state.truncated };
+
+  // The raw webhook body usually repeats the event data
+  const withoutOriginal: TriggerPayload = { ...sanitized, originalPayload: undefined };
+  json = JSON.stringify(withoutOriginal);
+  if (byteLength(json) <= maxBytes) return { json, truncated: true };
+
+  const preview = JSON.stringify(sanitized.payload ?? {}).slice(0, Math.floor(maxBytes / 2));
+  json = JSON.stringify({
+    ...withoutOriginal,
+    payload: { _truncated: `Event data exceeded ${maxBytes} bytes`, preview },
+  });
+  return { json, truncated: true };
+}
+
+/**
+ * Read a stored payload back; undefined if it is missing or unreadable
+ */
+export function parseLogPayload(json: unknown): TriggerPayload | undefined {
+  if (typeof json !== 'string' || !json) return undefined;
+  try {
+    return JSON.parse(json) as TriggerPayload;
+  } catch {
+    return undefined;
+  }
+}
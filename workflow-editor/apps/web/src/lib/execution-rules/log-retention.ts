@@ -0,0 +1,44 @@
+/**
+ * Execution log retention
+ *
+ * Logs older than EXECUTION_LOG_RETENTION_DAYS are deleted, together with the
+ * progress events and webhook deliveries of their runs. The in-process
+ * scheduler enforces it daily; serverless deployments call
+ * /api/cron/cleanup-execution-logs instead. The same job makes logs recorded
+ * before full-text search existed searchable.
+ */
+
+import { executionLogStorage } from './execution-log-storage';
+
+const DEFAULT_RETENTION_DAYS = 90;
+
+/**
+ * Days logs are kept; 0 keeps them forever
+ */
+export function getLogRetentionDays(): number {
+  const value = process.env.EXECUTION_LOG_RETENTION_DAYS;
+  if (value === undefined || value.trim() === '') return DEFAULT_RETENTION_DAYS;
+  const days = Number(value);
+  return Number.isFinite(days) && days >= 0 ? Math.floor(days) : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Delete the logs past the retention period, then index the remaining
+ * logs that predate search
+ */
+export async function enforceLogRetention(): Promise<{ retentionDays: number; deleted: number; indexed: number }> {
+  const retentionDays = getLogRetentionDays();
+  let deleted = 0;
+  if (retentionDays > 0) {
+    deleted = await executionLogStorage.deleteOlderThan(retentionDays);
+    if (deleted > 0) {
+      console.log(`[LogRetention] Deleted ${deleted} execution log(s) older than ${retentionDays} days`);
+    }
+  }
+
+  const indexed = await executionLogStorage.backfillSearchText();
+  if (indexed > 0) {
+    console.log(`[LogRetention] Made ${indexed} older execution log(s) searchable`);
+  }
+  return { retentionDays, deleted, indexed };
+}
@@ -0,0 +1,137 @@
+/**
+ * Rule pre-filtering and fan-out selection
+ *
+ * Before AI matching, structured conditions drop rules that cannot match and
+ * decide rules that opt out of AI matching. After matching, selection decides
+ * which of the matched rules run for a trigger. Matches are walked in priority
+ * order:
+ * - 'first' rules: only the highest-priority one runs
+ * - 'all' rules: run when their confidence reaches the rule's threshold
+ * - an exclusive rule that runs stops everything below it
+ */
+
+import type { ExecutionRule, RuleMatch } from './types';
+import { evaluateConditions } from './conditions';
+
+/**
+ * Minimum confidence for 'all' mode rules without their own threshold
+ */
+export const DEFAULT_MATCH_THRESHOLD = 0.7;
+
+/**
+ * A matched rule that will not run, with the reason
+ */
+export interface SkippedRuleMatch {
+  match: RuleMatch;
+  reason: string;
+}
+
+/**
+ * Result of checking structured conditions before AI matching
+ */
+export interface PrefilterResult {
+  /** Rules decided by their conditions alone */
+  conditionMatches: RuleMatch[];
+  /** Rules that passed their conditions and still need AI matching */
+  aiRules: ExecutionRule[];
+  /** Rules left out, with the reason */
+  excluded: Array<{ rule: ExecutionRule; reason: string }>;
+}
+
+/**
+ * Check structured conditions for rules sorted by priority (highest first).
+ * Rules below a condition-only exclusive rule that is certain to run are left
+ * out, since selection would skip them anyway.
+ */
+export function prefilterRules(rules: ExecutionRule[], data: unknown): PrefilterResult {
+  const result: PrefilterResult = { conditionMatches: [], aiRules: [], excluded: [] };
+  let firstModeAbove = false;
+  let stoppedBy: string | null = null;
+
+  for (const rule of rules) {
+    if (stoppedBy) {
+      result.excluded.push({ rule, reason: `exclusive rule "${stoppedBy}" matched on conditions` });
+      continue;
+    }
+
+    if (rule.conditions.length > 0) {
+      const evaluation = evaluateConditions(rule.conditions, data);
+      if (!evaluation.passed) {
+        result.excluded.push({ rule, reason: `condition not met: ${evaluation.failed}` });
+        continue;
+      }
+    }
+
+    if (!rule.conditionsOnly || rule.conditions.length === 0) {
+      result.aiRules.push(rule);
+      if (rule.matchMode !== 'all') firstModeAbove = true;
+      continue;
+    }
+
+    result.conditionMatches.push({
+      rule,
+      confidence: 1,
+      reasoning: 'All structured conditions matched',
+    });
+
+    // A 'first' rule only runs if no higher-priority 'first' rule can match
+    if (rule.exclusive && (rule.matchMode === 'all' || !firstModeAbove)) {
+      stoppedBy = rule.name;
+    }
+    if (rule.matchMode !== 'all') firstModeAbove = true;
+  }
+
+  return result;
+}
+
+/**
+ * Select the matched rules to run, in priority order
+ */
+export function selectRulesToRun(matches: RuleMatch[]): {
+  selected: RuleMatch[];
+  skipped: SkippedRuleMatch[];
+} {
+  const selected: RuleMatch[] = [];
+  const skipped: SkippedRuleMatch[] = [];
+  let firstModeTaken = false;
+  let stoppedBy: string | null = null;
+
+  for (const match of matches) {
+    const { rule } = match;
+
+    if (stoppedBy) {
+      skipped.push({ match, reason: `exclusive rule "${stoppedBy}" already ran` });
+      continue;
+    }
+
+    if (rule.matchMode === 'all') {
+      const threshold = rule.matchThreshold ?? DEFAULT_MATCH_THRESHOLD;
+      if (match.confidence < threshold) {
+        skipped.push({ match, reason: `confidence ${match.confidence} is below threshold ${threshold}` });
+        continue;
+      }
+    } else {
+      if (firstModeTaken) {
+        skipped.push({ match, reason: 'a higher-priority rule already matched' });
+        continue;
+      }
+      firstModeTaken = true;
+    }
+
+    selected.push(match);
+    if (rule.exclusive) stoppedBy = rule.name;
+  }
+
+  return { selected, skipped };
+}
+
+/**
+ * Validate a match threshold value
+ */
+export function validateMatchThreshold(threshold: unknown): string | null {
+  if (threshold === undefined || threshold === null) return null;
+  if (typeof threshold !== 'number' || Number.isNaN(threshold) || threshold < 0 || threshold > 1) {
+    return 'Match threshold must be a number between 0 and 1';
+  }
+  return null;
+}
@@ -0,0 +1,205 @@
+/**
+ * Output delivery
+ *
+ * Sends a finished run's output to each of the rule's destinations (see
+ * output-destinations.ts). Chat and document destinations are direct
+ * Composio tool calls on the user's connected account; artifacts are appended
+ * through the artifact service and webhooks are signed, retried HTTP requests
+ * (see webhook-delivery.ts). Every
+ * destination is attempted, and each gets its own delivery record whether it
+ * succeeded or not.
+ */
+
+import { composioService } from '@/lib/composio/composio-service';
+import { artifactService } from '@/lib/artifacts/artifact-service';
+import { webhookDeliveryService } from './webhook-delivery';
+import { buildTemplateContext, renderTemplate } from './templating';
+import { parseNotionPageId, resolveOutputTargets } from './output-destinations';
+import type {
+  ExecutionRule,
+  OutputDelivery,
+  OutputDestinationType,
+  OutputTarget,
+  RuleExecutionResult,
+  TriggerPayload,
+} from './types';
+
+/**
+ * What a sender needs to deliver one message
+ */
+interface OutputMessage {
+  rule: ExecutionRule;
+  result: RuleExecutionResult;
+  text: string;
+  userId: string;
+  logId?: string;
+}
+
+/**
+ * Deliver a message to a destination. Returns what's worth keeping with the
+ * delivery record; throws, or returns an error, when the delivery failed.
+ */
+type OutputSender = (
+  destination: string,
+  message: OutputMessage
+) => Promise<Pick<OutputDelivery, 'detail' | 'webhookDeliveryId' | 'error'> | void>;
+
+/** Notion rich text is limited to 2000 characters per block */
+const NOTION_BLOCK_LENGTH = 2000;
+
+/**
+ * Call a Composio tool on the user's account and fail on an unsuccessful result
+ */
+async function callTool(toolName: string, userId: string, args: Record<string, unknown>): Promise<void> {
+  const response = await composioService.executeTool(toolName, userId, args);
+  if (!response.successful) {
+    throw new Error(response.error || `${toolName} failed`);
+  }
+}
+
+const SENDERS: Record<OutputDestinationType, OutputSender> = {
+  slack: (channel, { text, userId }) =>
+    callTool('SLACK_SEND_MESSAGE', userId, { channel, markdown_text: text }),
+
+  gmail: (to, { rule, text, userId }) => {
+    const [recipient, ...others] = to.split(',').map((address) => address.trim());
+    return callTool('GMAIL_SEND_EMAIL', userId, {
+      recipient_email: recipient,
+      extra_recipients: others.length > 0 ? others : undefined,
+      subject: `Automation Result: ${rule.name}`,
+      body: text,
+    });
+  },
+
+  notion: (page, { rule, text, userId }) => {
+    const paragraphs: string[] = [];
+    for (let i = 0; i < text.length; i += NOTION_BLOCK_LENGTH) {
+      paragraphs.push(text.slice(i, i + NOTION_BLOCK_LENGTH));
+    }
+    const richText = (content: string) => [{ type: 'text', text: { content } }];
+    return callTool('NOTION_APPEND_BLOCK_CHILDREN', userId, {
+      block_id: parseNotionPageId(page),
+      children: [
+        {
+          object: 'block',
+          type: 'heading_3',
+          heading_3: { rich_text: richText(`${rule.name} · ${new Date().toLocaleString('en-US', { timeZone: 'UTC' })} UTC`) },
+        },
+        ...paragraphs.map((content) => ({
+          object: 'block',
+          type: 'paragraph',
+          paragraph: { rich_text: richText(content) },
+        })),
+      ],
+    });
+  },
+
+  artifact: async (artifactId, { rule, text, userId }) => {
+    const artifact = await artifactService.get(artifactId.trim()).catch(() => undefined);
+    if (!artifact || artifact.userId !== userId) {
+      throw new Error(`Artifact ${artifactId} not found`);
+    }
+    const entry = await artifactService.addEntry(artifact.id, {
+      workflowName: rule.name,
+      content: text,
+      source: 'workflow_output',
+    });
+    return { detail: entry.id };
+  },
+
+  webhook: async (url, { rule, result, text, logId }) => {
+    const body = JSON.stringify({
+      rule: rule.name,
+      result,
+      message: text,
+      timestamp: new Date().toISOString(),
+    });
+    const { id, status, attempts } = await webhookDeliveryService.deliver(rule, url.trim(), body, logId);
+    const last = attempts[attempts.length - 1];
+    const tries = attempts.length > 1 ? ` after ${attempts.length} attempts` : '';
+    return {
+      webhookDeliveryId: id,
+      detail: last?.statusCode ? `HTTP ${last.statusCode}${tries}` : undefined,
+      error: status === 'failed' ? `${last?.error ?? 'Delivery failed'}${tries}` : undefined,
+    };
+  },
+};
+
+/**
+ * Format a run's output for one destination, using its template or format
+ */
+export function formatOutputMessage(
+  rule: ExecutionRule,
+  result: RuleExecutionResult,
+  payload: TriggerPayload,
+  target: Pick<OutputTarget, 'format' | 'template'>
+): string {
+  if (target.template) {
+    return renderTemplate(
+      target.template,
+      buildTemplateContext(rule, payload, result.stepResults, result.output || '')
+    );
+  }
+
+  switch (target.format) {
+    case 'summary':
+      return `Rule "${result.ruleName}" executed ${result.success ? 'successfully' : 'with errors'}.\n\n${result.output || ''}`;
+    case 'detailed':
+      return JSON.stringify(result, null, 2);
+    case 'raw':
+      return result.output || '';
+    default:
+      return result.output || '';
+  }
+}
+
+/**
+ * Send a run's output to every destination of the rule, in order
+ */
+export async function deliverOutputs(
+  rule: ExecutionRule,
+  result: RuleExecutionResult,
+  payload: TriggerPayload,
+  userId: string,
+  logId?: string
+): Promise<OutputDelivery[]> {
+  const deliveries: OutputDelivery[] = [];
+
+  for (const target of resolveOutputTargets(rule.outputConfig)) {
+    const startedAt = Date.now();
+    const delivery: OutputDelivery = {
+      platform: target.platform,
+      destination: target.destination,
+      status: 'delivered',
+      durationMs: 0,
+      attemptedAt: new Date(startedAt).toISOString(),
+    };
+
+    console.log(
+      `[OutputDelivery] Sending output of "${rule.name}" to ${target.platform}${target.destination ? `:${target.destination}` : ''}`
+    );
+
+    try {
+      const text = formatOutputMessage(rule, result, payload, target);
+      const send = SENDERS[target.platform];
+      if (!send) {
+        throw new Error(`Unsupported output destination: ${target.platform}`);
+      }
+      const sent = await send(target.destination || '', { rule, result, text, userId, logId });
+      Object.assign(delivery, sent);
+      if (delivery.error) {
+        console.error(`[OutputDelivery] Failed to send output to ${target.platform}: ${delivery.error}`);
+        delivery.status = 'failed';
+      }
+    } catch (error) {
+      console.error(`[OutputDelivery] Failed to send output to ${target.platform}:`, error);
+      delivery.status = 'failed';
+      delivery.error = error instanceof Error ? error.message : String(error);
+    }
+
+    delivery.durationMs = Date.now() - startedAt;
+    deliveries.push(delivery);
+  }
+
+  return deliveries;
+}
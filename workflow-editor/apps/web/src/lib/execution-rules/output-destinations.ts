@@ -0,0 +1,173 @@
+/**
+ * Output destinations
+ *
+ * The registry of places a rule's output can go. A rule's output config holds
+ * one destination (platform/destination/format/template) and optionally more
+ * in `additionalTargets`; each is formatted and delivered on its own, and gets
+ * its own delivery status in the execution log. Delivery itself lives in
+ * output-delivery.ts.
+ *
+ * Pure module — safe to import from client components for the editor.
+ */
+
+import type { OutputConfig, OutputDestinationType, OutputFormat, OutputTarget } from './types';
+
+export interface OutputDestinationDefinition {
+  label: string;
+  /** What the destination field holds, for the editor */
+  destinationLabel: string;
+  placeholder: string;
+  /**
+   * Composio toolkit the user has to connect; unset for built-in destinations.
+   * Its version must be pinned in composio-service.ts, or tool calls fail.
+   */
+  toolkit?: string;
+  /** Check a destination value. Returns an error message, or null if valid. */
+  validateDestination: (destination: string) => string | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function required(destination: string, what: string): string | null {
+  return destination.trim() ? null : `${what} is required`;
+}
+
+export const OUTPUT_DESTINATIONS: Record<OutputDestinationType, OutputDestinationDefinition> = {
+  slack: {
+    label: 'Slack',
+    destinationLabel: 'Channel',
+    placeholder: '#channel or channel ID',
+    toolkit: 'slack',
+    validateDestination: (destination) => required(destination, 'Slack channel'),
+  },
+  gmail: {
+    label: 'Gmail',
+    destinationLabel: 'Recipient',
+    placeholder: 'email@example.com',
+    toolkit: 'gmail',
+    validateDestination: (destination) =>
+      destination
+        .split(',')
+        .map((address) => address.trim())
+        .every((address) => EMAIL_PATTERN.test(address))
+        ? null
+        : 'Gmail recipient must be an email address (or several, separated by commas)',
+  },
+  notion: {
+    label: 'Notion page',
+    destinationLabel: 'Page ID',
+    placeholder: 'Page ID or URL',
+    toolkit: 'notion',
+    validateDestination: (destination) =>
+      parseNotionPageId(destination) ? null : 'Notion destination must be a page ID or page URL',
+  },
+  artifact: {
+    label: 'Artifact',
+    destinationLabel: 'Artifact ID',
+    placeholder: 'Artifact to append entries to',
+    validateDestination: (destination) => required(destination, 'Artifact ID'),
+  },
+  webhook: {
+    label: 'Webhook',
+    destinationLabel: 'URL',
+    placeholder: 'https://...',
+    validateDestination: (destination) => {
+      try {
+        const url = new URL(destination.trim());
+        return url.protocol === 'https:' || url.protocol === 'http:' ? null : 'Webhook URL must use http or https';
+      } catch {
+        return 'Webhook URL is not a valid URL';
+      }
+    },
+  },
+};
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['summary', 'detailed', 'raw'];
+
+/** Most destinations one rule can send to */
+export const MAX_OUTPUT_TARGETS = 10;
+
+export function isOutputDestinationType(platform: unknown): platform is OutputDestinationType {
+  return typeof platform === 'string' && platform in OUTPUT_DESTINATIONS;
+}
+
+/**
+ * The 32-character page ID in a Notion page ID or URL, dashed or not
+ */
+export function parseNotionPageId(destination: string): string | null {
+  const compact = destination.trim().split(/[?#]/)[0].replace(/-/g, '');
+  const match = compact.match(/([0-9a-f]{32})$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Every destination of an output config, first one first
+ */
+export function resolveOutputTargets(config: OutputConfig): OutputTarget[] {
+  const targets: OutputTarget[] = [];
+  if (isOutputDestinationType(config.platform)) {
+    targets.push({
+      platform: config.platform,
+      destination: config.destination,
+      format: config.format,
+      template: config.template,
+    });
+  }
+  return [...targets, ...(config.additionalTargets || [])];
+}
+
+/**
+ * Split a list of destinations back into an output config
+ */
+export function toOutputConfig(targets: OutputTarget[]): OutputConfig {
+  const [first, ...rest] = targets;
+  if (!first) return { platform: 'none', format: 'summary' };
+  return {
+    ...first,
+    additionalTargets: rest.length > 0 ? rest : undefined,
+  };
+}
+
+/**
+ * Short description of a destination, e.g. "Slack #alerts"
+ */
+export function describeOutputTarget(target: Pick<OutputTarget, 'platform' | 'destination'>): string {
+  const label = OUTPUT_DESTINATIONS[target.platform]?.label ?? target.platform;
+  return target.destination ? `${label} ${target.destination}` : label;
+}
+
+/**
+ * Validate an output config and each of its destinations.
+ * Returns an error message, or null if valid.
+ */
+export function validateOutputConfig(config: OutputConfig | undefined): string | null {
+  if (!config || typeof config !== 'object') return 'Output config is required';
+  if (config.platform !== 'none' && !isOutputDestinationType(config.platform)) {
+    return 'Invalid output platform';
+  }
+  if (!OUTPUT_FORMATS.includes(config.format)) return 'Invalid output format';
+  if (config.additionalTargets !== undefined && !Array.isArray(config.additionalTargets)) {
+    return 'Additional output destinations must be a list';
+  }
+  if (config.platform === 'none' && config.additionalTargets?.length) {
+    return 'Set the first output destination before adding more';
+  }
+
+  const targets = resolveOutputTargets(config);
+  if (targets.length > MAX_OUTPUT_TARGETS) {
+    return `A rule can send its output to at most ${MAX_OUTPUT_TARGETS} destinations`;
+  }
+
+  for (const [index, target] of targets.entries()) {
+    const prefix = targets.length > 1 ? `Output destination ${index + 1}` : 'Output destination';
+    if (!target || !isOutputDestinationType(target.platform)) return `${prefix}: invalid platform`;
+    if (!OUTPUT_FORMATS.includes(target.format)) return `${prefix}: invalid format`;
+    if (target.destination !== undefined && typeof target.destination !== 'string') {
+      return `${prefix}: destination must be a string`;
+    }
+    const error = OUTPUT_DESTINATIONS[target.platform].validateDestination(target.destination || '');
+    if (error) return `${prefix}: ${error}`;
+  }
+
+  return null;
+}
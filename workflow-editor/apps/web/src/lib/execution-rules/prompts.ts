@@ -14,9 +14,9 @@ You will receive:
 2. A list of execution rules, each with a "topicCondition" describing when it should activate
 
 ## Your Task
-Evaluate the trigger content against each rule's topicCondition in the order provided (they are sorted by priority - highest first).
+Evaluate the trigger content against EVERY rule's topicCondition independently (rules are listed by priority - highest first). One trigger can match several rules, e.g. an invoice email from a client can match both "label client emails" and "forward invoices to accounting".
 
-Return the ID of the FIRST rule whose topicCondition matches the trigger content, or null if no rules match.
+Return every rule whose topicCondition matches the trigger content, in the order provided, each with its own confidence. Return an empty list if no rules match.
 
 ## Matching Guidelines
 - Match based on semantic meaning, not exact keywords
@@ -42,9 +42,14 @@ Rule 1 topicCondition: "Critical production issues"
 ## Response Format
 Respond with JSON only, no markdown formatting:
 {
-  "matchedRuleId": "rule_id_here" | null,
-  "confidence": 0.0-1.0,
-  "reasoning": "Brief explanation of why this rule matched or why no rules matched"
+  "matches": [
+    {
+      "ruleId": "rule_id_here",
+      "confidence": 0.0-1.0,
+      "reasoning": "Brief explanation of why this rule matched"
+    }
+  ],
+  "reasoning": "Brief overall summary, including why other rules did not match"
 }`;
 
 /**
@@ -110,7 +115,7 @@ ${rules
   .join('\n')}
 `;
 
-  return `${triggerContext}\n${rulesContext}\n\nAnalyze the trigger event and determine which rule (if any) should handle it. Return your response as JSON.`;
+  return `${triggerContext}\n${rulesContext}\n\nAnalyze the trigger event and determine which rules (if any) match it. Return your response as JSON.`;
 }
 
 /**
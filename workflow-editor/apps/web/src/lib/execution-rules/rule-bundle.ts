@@ -0,0 +1,261 @@
+/**
+ * Portable rule format
+ *
+ * Rules and templates are shared as a versioned "rule bundle" in JSON or
+ * YAML:
+ *
+ *   format: automation-rules
+ *   version: 1
+ *   rules:
+ *     - name: Urgent email alerts
+ *       topicCondition: An urgent email
+ *       acceptedTriggers: [GMAIL_NEW_GMAIL_MESSAGE]
+ *       executionSteps:
+ *         - type: instruction
+ *           content: Summarize the email
+ *       outputConfig: { platform: slack, destination: "#alerts", format: summary }
+ *   templates:
+ *     - id: my-template
+ *       name: ...
+ *       template: { ...same fields as a rule... }
+ *
+ * Bundles hold only a rule's definition; IDs, owners, run counts and version
+ * history stay with the account that exported them. The built-in templates
+ * ship in this format (builtin-templates.json), and template packs dropped in
+ * the template packs directory are read the same way.
+ *
+ * Pure module — safe to import from client components.
+ */
+
+import { z } from 'zod';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { validateSchedule } from './schedule';
+import { validateMatchThreshold } from './matching';
+import { validateConditions } from './conditions';
+import { validateRuleTemplates } from './templating';
+import { validateStepPolicies } from './step-policy';
+import { validateRunLimits } from './run-limits';
+import { OUTPUT_DESTINATIONS, validateOutputConfig } from './output-destinations';
+import type { ExecutionRule, ExecutionRuleInput, OutputDestinationType } from './types';
+
+export const RULE_BUNDLE_FORMAT = 'automation-rules';
+export const RULE_BUNDLE_VERSION = 1;
+
+export type BundleFileFormat = 'json' | 'yaml';
+
+const stepPolicyFields = {
+  retry: z
+    .object({
+      maxAttempts: z.number().int(),
+      backoffMs: z.number().optional(),
+      maxBackoffMs: z.number().optional(),
+      retryOn: z.array(z.enum(['timeout', 'rate_limit', 'network', 'server', 'other'])).optional(),
+    })
+    .optional(),
+  timeoutMs: z.number().optional(),
+  onError: z.enum(['stop', 'continue', 'fallback']).optional(),
+  fallbackStep: z.number().int().optional(),
+};
+
+const stepSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('instruction'), content: z.string().min(1), ...stepPolicyFields }),
+  z.object({
+    type: z.literal('action'),
+    toolName: z.string().min(1),
+    parameters: z.record(z.unknown()).default({}),
+    ...stepPolicyFields,
+  }),
+  z.object({ type: z.literal('approval'), message: z.string().optional() }),
+]);
+
+const conditionSchema = z.object({
+  field: z.string().min(1),
+  operator: z.enum(['equals', 'not_equals', 'contains', 'regex', 'in', 'gt', 'gte', 'lt', 'lte', 'exists']),
+  value: z.unknown().optional(),
+});
+
+const outputDestinationTypes = Object.keys(OUTPUT_DESTINATIONS) as [OutputDestinationType, ...OutputDestinationType[]];
+
+const outputTargetSchema = z.object({
+  platform: z.enum(outputDestinationTypes),
+  destination: z.string().optional(),
+  format: z.enum(['summary', 'detailed', 'raw']),
+  template: z.string().optional(),
+});
+
+export const portableRuleSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().optional(),
+  isActive: z.boolean().optional(),
+  priority: z.number().optional(),
+  acceptedTriggers: z.array(z.string().trim().min(1)).optional(),
+  topicCondition: z.string().trim().min(1),
+  executionSteps: z.array(stepSchema),
+  outputConfig: outputTargetSchema.extend({
+    platform: z.enum(['none', ...outputDestinationTypes]),
+    additionalTargets: z.array(outputTargetSchema).optional(),
+  }),
+  activationMode: z.enum(['trigger', 'manual', 'scheduled', 'all']).optional(),
+  scheduleEnabled: z.boolean().optional(),
+  scheduleInterval: z.enum(['15min', 'hourly', 'daily', 'weekly']).optional(),
+  scheduleType: z.enum(['interval', 'cron']).optional(),
+  scheduleCron: z.string().optional(),
+  scheduleTimezone: z.string().optional(),
+  matchMode: z.enum(['first', 'all']).optional(),
+  matchThreshold: z.number().optional(),
+  exclusive: z.boolean().optional(),
+  conditions: z.array(conditionSchema).optional(),
+  conditionsOnly: z.boolean().optional(),
+  rateLimit: z.object({ maxRuns: z.number().int(), windowMs: z.number() }).optional(),
+  cooldownMs: z.number().optional(),
+  debounceMs: z.number().optional(),
+});
+
+export const ruleTemplateSchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  description: z.string(),
+  category: z.enum(['email', 'social', 'productivity', 'monitoring', 'data']),
+  icon: z.string().default('⚡'),
+  template: portableRuleSchema,
+});
+
+export const ruleBundleSchema = z.object({
+  format: z.literal(RULE_BUNDLE_FORMAT),
+  version: z.literal(RULE_BUNDLE_VERSION),
+  exportedAt: z.string().optional(),
+  name: z.string().optional(), // e.g. the name of a template pack
+  rules: z.array(portableRuleSchema).default([]),
+  templates: z.array(ruleTemplateSchema).default([]),
+});
+
+export type RuleBundle = z.infer<typeof ruleBundleSchema>;
+export type PortableRuleTemplate = z.infer<typeof ruleTemplateSchema>;
+
+export type ParseBundleResult = { bundle: RuleBundle; error?: undefined } | { bundle?: undefined; error: string };
+
+/**
+ * Format a schema error path, e.g. rules[0].executionSteps[1].content
+ */
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (text, key) => (typeof key === 'number' ? `${text}[${key}]` : text ? `${text}.${key}` : key),
+    ''
+  );
+}
+
+/**
+ * Work out the file format from a file name, falling back to the content
+ */
+export function detectBundleFormat(text: string, fileName?: string): BundleFileFormat {
+  if (fileName && /\.ya?ml$/i.test(fileName)) return 'yaml';
+  if (fileName && /\.json$/i.test(fileName)) return 'json';
+  return /^\s*[{[]/.test(text) ? 'json' : 'yaml';
+}
+
+/**
+ * Parse and schema-check a rule bundle in JSON or YAML
+ */
+export function parseRuleBundle(text: string, format: BundleFileFormat = detectBundleFormat(text)): ParseBundleResult {
+  let data: unknown;
+  try {
+    data = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    return { error: `Not valid ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  return validateRuleBundle(data);
+}
+
+/**
+ * Schema-check an already parsed rule bundle
+ */
+export function validateRuleBundle(data: unknown): ParseBundleResult {
+  if (!data || typeof data !== 'object' || (data as Record<string, unknown>).format !== RULE_BUNDLE_FORMAT) {
+    return { error: `Not a rule bundle: expected "format: ${RULE_BUNDLE_FORMAT}"` };
+  }
+  const version = (data as Record<string, unknown>).version;
+  if (version !== RULE_BUNDLE_VERSION) {
+    return {
+      error: `Unsupported bundle version ${JSON.stringify(version)}; this app reads version ${RULE_BUNDLE_VERSION}`,
+    };
+  }
+
+  const result = ruleBundleSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = formatPath(issue.path);
+    return { error: path ? `${path}: ${issue.message}` : issue.message };
+  }
+  return { bundle: result.data };
+}
+
+/**
+ * Check a rule from a bundle with the same validators the editor and API use.
+ * Returns an error message, or null if the rule is valid.
+ */
+export function validatePortableRule(rule: ExecutionRuleInput): string | null {
+  return (
+    validateSchedule(rule) ||
+    validateOutputConfig(rule.outputConfig) ||
+    validateMatchThreshold(rule.matchThreshold) ||
+    validateConditions(rule.conditions, rule.conditionsOnly) ||
+    validateRuleTemplates(rule.executionSteps, rule.outputConfig) ||
+    validateStepPolicies(rule.executionSteps) ||
+    validateRunLimits(rule)
+  );
+}
+
+/**
+ * The portable part of a rule: its definition without IDs, owner, run
+ * history or schedule state
+ */
+export function toPortableRule(rule: ExecutionRule): ExecutionRuleInput {
+  const portable: ExecutionRuleInput = {
+    name: rule.name,
+    description: rule.description,
+    isActive: rule.isActive,
+    priority: rule.priority,
+    acceptedTriggers: rule.acceptedTriggers,
+    topicCondition: rule.topicCondition,
+    executionSteps: rule.executionSteps,
+    outputConfig: rule.outputConfig,
+    activationMode: rule.activationMode,
+    scheduleEnabled: rule.scheduleEnabled,
+    scheduleInterval: rule.scheduleInterval,
+    scheduleType: rule.scheduleType,
+    scheduleCron: rule.scheduleCron,
+    scheduleTimezone: rule.scheduleTimezone,
+    matchMode: rule.matchMode,
+    matchThreshold: rule.matchThreshold,
+    exclusive: rule.exclusive,
+    conditions: rule.conditions.length > 0 ? rule.conditions : undefined,
+    conditionsOnly: rule.conditionsOnly || undefined,
+    rateLimit: rule.rateLimit,
+    cooldownMs: rule.cooldownMs,
+    debounceMs: rule.debounceMs,
+  };
+
+  // Leave unset fields out of the file
+  return Object.fromEntries(
+    Object.entries(portable).filter(([, value]) => value !== undefined)
+  ) as ExecutionRuleInput;
+}
+
+/**
+ * Serialize rules and templates as a rule bundle
+ */
+export function serializeRuleBundle(
+  contents: { rules?: ExecutionRuleInput[]; templates?: PortableRuleTemplate[]; name?: string },
+  format: BundleFileFormat
+): string {
+  const bundle = {
+    format: RULE_BUNDLE_FORMAT,
+    version: RULE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(contents.name ? { name: contents.name } : {}),
+    ...(contents.rules?.length ? { rules: contents.rules } : {}),
+    ...(contents.templates?.length ? { templates: contents.templates } : {}),
+  };
+  return format === 'json' ? JSON.stringify(bundle, null, 2) : stringifyYaml(bundle);
+}
@@ -1,7 +1,16 @@
 /**
  * Rule Executor Agent
  *
- * Uses OpenAI Agents SDK with Composio tools to execute rule steps.
+ * Uses OpenAI Agents SDK with Composio tools to execute instruction steps.
+ * Action steps call their Composio tool directly, after validating the
+ * parameters against the tool's input schema. Templates in instructions and
+ * parameters are rendered first (see templating.ts). Approval steps pause the run;
+ * it is resumed from the saved state once the user approves it.
+ * Each step is retried, timed out and its failure handled according to its
+ * policy (see step-policy.ts).
+ * In a dry run, tool calls with side effects are recorded instead of performed
+ * (see dry-run.ts) and approval steps don't pause.
+ * Other runs report their progress as they go (see run-progress.ts).
  * Follows the pattern from tool-router-service.ts
  */
 
@@ -9,12 +18,23 @@ import { Composio } from '@composio/core';
 import { OpenAIAgentsProvider } from '@composio/openai-agents';
 import { Agent, run } from '@openai/agents';
 import { getMinimaxModel } from '../minimax-model';
+import { composioService, type ToolInputSchema } from '../composio/composio-service';
+import { AUTH_CONFIG_MAP, getToolkitForTool } from '../composio/composio-toolkits';
+import { validateToolParameters } from './tool-parameters';
+import { buildTemplateContext, renderParameters, renderTemplate, type TemplateContext } from './templating';
+import { classifyStepError, getRetryDelay, shouldRetry } from './step-policy';
+import { isReadOnlyTool } from './dry-run';
+import { RunProgress, summarizeForEvent } from './run-progress';
 import type {
   ExecutionRule,
   TriggerPayload,
   RuleExecutionResult,
   StepResult,
-  ExecutionStep,
+  StepAttempt,
+  InstructionStep,
+  ActionStep,
+  PausedExecution,
+  DryRunToolCall,
 } from './types';
 import { RULE_EXECUTOR_SYSTEM_PROMPT, buildRuleExecutorPrompt } from './prompts';
 
@@ -29,12 +49,51 @@ interface ComposioSessionData {
   createdAt: Date;
 }
 
+interface ToolSchemaCacheEntry {
+  // null when the tool has no input schema
+  schema: ToolInputSchema | null;
+  fetchedAt: number;
+}
+
+/**
+ * Options for a rule execution
+ */
+export interface ExecuteOptions {
+  dryRun?: boolean; // Record side-effecting tool calls instead of performing them
+}
+
+/** How long tool input schemas are cached */
+const TOOL_SCHEMA_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Reject when the signal aborts, for calls that don't take a signal themselves
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Error message of a failed attempt; a timeout reports the timeout rather than
+ * whatever the aborted call threw
+ */
+function attemptError(error: unknown, signal?: AbortSignal): string {
+  if (signal?.aborted && signal.reason instanceof Error) return signal.reason.message;
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
 /**
  * Rule Executor Agent class
  */
 class RuleExecutorAgent {
   private composio: Composio<OpenAIAgentsProvider> | null = null;
   private sessions: Map<string, ComposioSessionData> = new Map();
+  private toolSchemas: Map<string, ToolSchemaCacheEntry> = new Map();
 
   /**
    * Get Composio client
@@ -149,17 +208,71 @@ class RuleExecutorAgent {
 
   /**
    * Execute a rule's steps
+   * Pass `resume` to continue a run that was paused at an approval step and has
+   * since been approved.
    */
   async execute(
     rule: ExecutionRule,
     payload: TriggerPayload,
-    userId: string
+    userId: string,
+    resume?: PausedExecution,
+    options: ExecuteOptions = {}
   ): Promise<RuleExecutionResult> {
-    console.log(`[RuleExecutorAgent] Starting execution of rule "${rule.name}" with ${rule.executionSteps.length} steps`);
+    const progress = options.dryRun ? undefined : new RunProgress(rule.id, userId);
+    const startedAt = Date.now();
+    progress?.emit({
+      type: 'run_started',
+      stepCount: rule.executionSteps.length,
+      detail: `${rule.name} · ${resume ? `resumed after approval of step ${resume.stepIndex + 1}` : payload.triggerSlug}`,
+    });
+
+    const result = await this.runSteps(rule, payload, userId, resume, options, progress);
+
+    progress?.emit({
+      type: 'run_finished',
+      success: result.success,
+      error: result.error,
+      durationMs: Date.now() - startedAt,
+      detail: result.awaitingApproval
+        ? `Paused for approval at step ${result.awaitingApproval.stepIndex + 1}`
+        : undefined,
+    });
+    await progress?.flush();
+
+    return progress ? { ...result, runId: progress.runId } : result;
+  }
+
+  /**
+   * Run the steps of a rule, from the first or from the step after the
+   * approved one
+   */
+  private async runSteps(
+    rule: ExecutionRule,
+    payload: TriggerPayload,
+    userId: string,
+    resume: PausedExecution | undefined,
+    options: ExecuteOptions,
+    progress?: RunProgress
+  ): Promise<RuleExecutionResult> {
+    const firstStep = resume ? resume.stepIndex + 1 : 0;
+    console.log(
+      `[RuleExecutorAgent] ${resume ? 'Resuming' : 'Starting'} execution of rule "${rule.name}" ` +
+      `at step ${firstStep + 1} of ${rule.executionSteps.length}`
+    );
 
     const startTime = new Date().toISOString();
-    const stepResults: StepResult[] = [];
-    const previousResults: string[] = [];
+    const stepResults: StepResult[] = resume ? [...resume.stepResults] : [];
+    const previousResults: string[] = resume ? [...resume.previousResults] : [];
+    const dryRunCalls: DryRunToolCall[] | undefined = options.dryRun ? [] : undefined;
+
+    if (resume) {
+      stepResults.push({
+        stepIndex: resume.stepIndex,
+        type: 'approval',
+        success: true,
+        result: 'Approved',
+      });
+    }
 
     // Get Composio session
     console.log(`[RuleExecutorAgent] Getting Composio session for user ${userId}`);
@@ -180,79 +293,235 @@ class RuleExecutorAgent {
     console.log(`[RuleExecutorAgent] Session ready, executing ${rule.executionSteps.length} steps`);
 
     // Execute each step
-    for (let i = 0; i < rule.executionSteps.length; i++) {
+    for (let i = firstStep; i < rule.executionSteps.length; i++) {
       const step = rule.executionSteps[i];
-      const stepResult = await this.executeStep(
+
+      if (step.type === 'approval' && dryRunCalls) {
+        stepResults.push({
+          stepIndex: i,
+          type: 'approval',
+          success: true,
+          result: 'Dry run: the run would pause here for approval',
+        });
+        continue;
+      }
+
+      if (step.type === 'approval') {
+        // Don't ask for approval of a run that already went wrong
+        if (stepResults.some((r) => !r.success && !r.errorHandled)) {
+          stepResults.push({
+            stepIndex: i,
+            type: 'approval',
+            success: false,
+            error: 'Approval not requested because an earlier step failed',
+          });
+          break;
+        }
+
+        console.log(`[RuleExecutorAgent] Rule "${rule.name}" paused for approval at step ${i + 1}`);
+        return {
+          success: true,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          triggerSlug: payload.triggerSlug,
+          stepResults,
+          output: previousResults.join('\n\n'),
+          executedAt: startTime,
+          awaitingApproval: {
+            stepIndex: i,
+            message: step.message,
+            stepResults,
+            previousResults,
+          },
+        };
+      }
+
+      const stepResult = await this.executeStepWithRetries(
         step,
         i,
         rule,
         payload,
         sessionData,
-        previousResults
+        previousResults,
+        buildTemplateContext(rule, payload, stepResults),
+        dryRunCalls,
+        progress
       );
       stepResults.push(stepResult);
 
-      if (stepResult.success && stepResult.result) {
-        previousResults.push(String(stepResult.result));
+      if (stepResult.success) {
+        if (stepResult.result) {
+          previousResults.push(
+            typeof stepResult.result === 'string'
+              ? stepResult.result
+              : JSON.stringify(stepResult.result)
+          );
+        }
+        continue;
       }
+
+      // Apply the step's error policy
+      if (step.onError === 'continue') {
+        stepResult.errorHandled = 'continue';
+        console.log(`[RuleExecutorAgent] Step ${i + 1} failed, continuing with the next step`);
+        continue;
+      }
+      if (step.onError === 'fallback' && step.fallbackStep !== undefined && step.fallbackStep > i) {
+        stepResult.errorHandled = 'fallback';
+        console.log(`[RuleExecutorAgent] Step ${i + 1} failed, jumping to fallback step ${step.fallbackStep + 1}`);
+        i = step.fallbackStep - 1;
+        continue;
+      }
+      console.log(`[RuleExecutorAgent] Step ${i + 1} failed, stopping rule "${rule.name}"`);
+      break;
     }
 
-    // Determine overall success
-    const success = stepResults.every((r) => r.success);
+    // The run succeeds if every failed step was handled by its error policy
+    const unhandled = stepResults.find((r) => !r.success && !r.errorHandled);
     const output = previousResults.join('\n\n');
 
     return {
-      success,
+      success: !unhandled,
       ruleId: rule.id,
       ruleName: rule.name,
       triggerSlug: payload.triggerSlug,
       stepResults,
       output,
-      error: success ? undefined : stepResults.find((r) => !r.success)?.error,
+      error: unhandled?.error,
       executedAt: startTime,
+      dryRunCalls,
     };
   }
 
   /**
-   * Execute a single step
+   * Execute a step, retrying failed attempts according to its retry policy.
+   * Every attempt is recorded on the step result.
+   */
+  private async executeStepWithRetries(
+    step: InstructionStep | ActionStep,
+    index: number,
+    rule: ExecutionRule,
+    payload: TriggerPayload,
+    sessionData: ComposioSessionData,
+    previousResults: string[],
+    templateContext: TemplateContext,
+    dryRunCalls?: DryRunToolCall[],
+    progress?: RunProgress
+  ): Promise<StepResult> {
+    const attempts: StepAttempt[] = [];
+    const stepStartedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      progress?.emit({
+        type: 'step_started',
+        stepIndex: index,
+        stepType: step.type,
+        attempt,
+        detail: summarizeForEvent(step.type === 'instruction' ? step.content : step.toolName),
+      });
+      const result = await this.executeStep(
+        step,
+        index,
+        rule,
+        payload,
+        sessionData,
+        previousResults,
+        templateContext,
+        dryRunCalls,
+        progress
+      );
+      const errorClass = result.success ? undefined : classifyStepError(result.error || '');
+      attempts.push({
+        attempt,
+        success: result.success,
+        error: result.error,
+        errorClass,
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+      });
+
+      if (result.success || !step.retry || !shouldRetry(step.retry, attempt, errorClass!, step.type)) {
+        progress?.emit({
+          type: 'step_finished',
+          stepIndex: index,
+          stepType: step.type,
+          success: result.success,
+          error: result.error,
+          durationMs: Date.now() - stepStartedAt,
+          detail: summarizeForEvent(result.result),
+        });
+        return { ...result, attempts };
+      }
+
+      const delay = getRetryDelay(step.retry, attempt);
+      console.log(
+        `[RuleExecutorAgent] Step ${index + 1} attempt ${attempt} failed (${errorClass}), ` +
+        `retrying in ${delay}ms`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Execute a single attempt at a step, aborted after the step's timeout
    */
   private async executeStep(
-    step: ExecutionStep,
+    step: InstructionStep | ActionStep,
     index: number,
     rule: ExecutionRule,
     payload: TriggerPayload,
     sessionData: ComposioSessionData,
-    previousResults: string[]
+    previousResults: string[],
+    templateContext: TemplateContext,
+    dryRunCalls?: DryRunToolCall[],
+    progress?: RunProgress
   ): Promise<StepResult> {
+    const controller = step.timeoutMs ? new AbortController() : undefined;
+    const timer = controller
+      ? setTimeout(
+          () => controller.abort(new Error(`Step timed out after ${step.timeoutMs! / 1000}s`)),
+          step.timeoutMs
+        )
+      : undefined;
+
     try {
       if (step.type === 'instruction') {
+        let tools = sessionData.tools;
+        if (dryRunCalls) tools = this.stubSideEffects(tools, index, dryRunCalls);
+        if (progress) tools = this.reportToolCalls(tools, index, progress);
+        const session = tools === sessionData.tools ? sessionData : { ...sessionData, tools };
+
         // Use AI agent to interpret and execute the instruction
         return await this.executeInstructionStep(
-          step.content,
+          renderTemplate(step.content, templateContext),
           index,
           rule,
           payload,
-          sessionData,
-          previousResults
+          session,
+          previousResults,
+          controller?.signal
         );
-      } else if (step.type === 'action') {
-        // Direct Composio tool execution
-        return await this.executeActionStep(step, index, sessionData);
       } else {
-        return {
-          stepIndex: index,
-          type: 'instruction',
-          success: false,
-          error: 'Unknown step type',
-        };
+        // Direct Composio tool execution
+        return await this.executeActionStep(
+          { toolName: step.toolName, parameters: renderParameters(step.parameters || {}, templateContext) },
+          index,
+          sessionData.userId,
+          controller?.signal,
+          dryRunCalls,
+          progress
+        );
       }
     } catch (error) {
       return {
         stepIndex: index,
         type: step.type,
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: attemptError(error, controller?.signal),
       };
+    } finally {
+      clearTimeout(timer);
     }
   }
 
@@ -265,7 +534,8 @@ class RuleExecutorAgent {
     rule: ExecutionRule,
     payload: TriggerPayload,
     sessionData: ComposioSessionData,
-    previousResults: string[]
+    previousResults: string[],
+    signal?: AbortSignal
   ): Promise<StepResult> {
     try {
       // Build the prompt with context
@@ -287,7 +557,7 @@ class RuleExecutorAgent {
       });
 
       // Run the agent
-      const result = await run(agent, prompt);
+      const result = await run(agent, prompt, { signal });
 
       return {
         stepIndex: index,
@@ -301,39 +571,79 @@ class RuleExecutorAgent {
         stepIndex: index,
         type: 'instruction',
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: attemptError(error, signal),
       };
     }
   }
 
   /**
    * Execute an action step (direct tool call)
+   * The raw tool response is recorded as the step result.
    */
   private async executeActionStep(
     step: { toolName: string; parameters: Record<string, unknown> },
     index: number,
-    sessionData: ComposioSessionData
+    userId: string,
+    signal?: AbortSignal,
+    dryRunCalls?: DryRunToolCall[],
+    progress?: RunProgress
   ): Promise<StepResult> {
     try {
-      // For direct action steps, we use the AI agent with a specific instruction
-      // to call the exact tool with the provided parameters
-      const instruction = `Call the tool "${step.toolName}" with these exact parameters: ${JSON.stringify(step.parameters)}. Execute this tool call immediately.`;
+      const parameters = step.parameters || {};
 
-      const agent = new Agent({
-        name: 'Rule Executor',
-        instructions:
-          'You are a tool executor. When given a tool name and parameters, call that exact tool immediately with the provided parameters. Do not modify the parameters.',
-        model: getMinimaxModel(),
-        tools: sessionData.tools,
+      // Validate parameters against the tool's input schema
+      const schema = await abortable(this.getToolSchema(step.toolName, userId), signal);
+      if (schema === undefined) {
+        return {
+          stepIndex: index,
+          type: 'action',
+          success: false,
+          error: `Tool "${step.toolName}" not found. Is its toolkit connected?`,
+        };
+      }
+      if (schema) {
+        const errors = validateToolParameters(schema, parameters);
+        if (errors.length > 0) {
+          return {
+            stepIndex: index,
+            type: 'action',
+            success: false,
+            error: `Invalid parameters for ${step.toolName}: ${errors.join('; ')}`,
+          };
+        }
+      }
+
+      if (dryRunCalls && !isReadOnlyTool(step.toolName)) {
+        dryRunCalls.push({ stepIndex: index, toolName: step.toolName, parameters });
+        return {
+          stepIndex: index,
+          type: 'action',
+          success: true,
+          result: { dryRun: true, toolName: step.toolName, parameters },
+        };
+      }
+
+      const calledAt = Date.now();
+      const response = await abortable(composioService.executeTool(step.toolName, userId, parameters), signal);
+      progress?.emit({
+        type: 'tool_call',
+        stepIndex: index,
+        toolName: step.toolName,
+        success: Boolean(response.successful),
+        error: response.successful ? undefined : response.error || undefined,
+        durationMs: Date.now() - calledAt,
       });
 
-      const result = await run(agent, instruction);
+      if (!response.successful) {
+        console.error(`[RuleExecutorAgent] Action step ${index} (${step.toolName}) failed:`, response.error);
+      }
 
       return {
         stepIndex: index,
         type: 'action',
-        success: true,
-        result: result.finalOutput || 'Action completed',
+        success: Boolean(response.successful),
+        result: response,
+        error: response.successful ? undefined : response.error || `${step.toolName} failed`,
       };
     } catch (error) {
       console.error(`[RuleExecutorAgent] Action step ${index} failed:`, error);
@@ -341,11 +651,145 @@ class RuleExecutorAgent {
         stepIndex: index,
         type: 'action',
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: attemptError(error, signal),
       };
     }
   }
 
+  /**
+   * Wrap agent tools for a dry run: calls that only read data go through,
+   * anything else is recorded and answered with a stub result.
+   * Tool router meta tools that execute other tools are checked per inner call.
+   */
+  private stubSideEffects(tools: AgentTools, index: number, dryRunCalls: DryRunToolCall[]): AgentTools {
+    return tools.map((tool) => {
+      if (tool.type !== 'function') return tool;
+      return {
+        ...tool,
+        invoke: async (runContext, input, details) => {
+          let args: Record<string, unknown> = {};
+          try {
+            args = JSON.parse(input || '{}') as Record<string, unknown>;
+          } catch {
+            // Leave malformed input to the tool itself
+            return tool.invoke(runContext, input, details);
+          }
+
+          const calls = Array.isArray(args.tools)
+            ? (args.tools as Array<{ tool_slug?: string; arguments?: Record<string, unknown> }>).map((call) => ({
+                toolName: call.tool_slug || tool.name,
+                parameters: call.arguments || {},
+              }))
+            : [{ toolName: tool.name, parameters: args }];
+
+          if (calls.every((call) => isReadOnlyTool(call.toolName))) {
+            return tool.invoke(runContext, input, details);
+          }
+
+          for (const call of calls) {
+            dryRunCalls.push({ stepIndex: index, ...call });
+          }
+          return JSON.stringify({
+            successful: true,
+            data: { dryRun: true, message: 'Dry run: the call was recorded but not performed' },
+          });
+        },
+      };
+    });
+  }
+
+  /**
+   * Wrap agent tools to report each call the agent makes as a progress event.
+   * Tool router meta tools that execute other tools report the inner tools.
+   */
+  private reportToolCalls(tools: AgentTools, index: number, progress: RunProgress): AgentTools {
+    return tools.map((tool) => {
+      if (tool.type !== 'function') return tool;
+      return {
+        ...tool,
+        invoke: async (runContext, input, details) => {
+          let toolName = tool.name;
+          try {
+            const args = JSON.parse(input || '{}') as { tools?: Array<{ tool_slug?: string }> };
+            if (Array.isArray(args.tools)) {
+              toolName = args.tools.map((call) => call.tool_slug || tool.name).join(', ');
+            }
+          } catch {
+            // Report malformed input under the tool's own name
+          }
+
+          const calledAt = Date.now();
+          try {
+            const output = await tool.invoke(runContext, input, details);
+            let failed: string | undefined;
+            try {
+              const parsed = typeof output === 'string' ? JSON.parse(output) : output;
+              if (parsed && typeof parsed === 'object' && parsed.successful === false) {
+                failed = typeof parsed.error === 'string' ? parsed.error : 'Tool call failed';
+              }
+            } catch {
+              // Plain text output
+            }
+            progress.emit({
+              type: 'tool_call',
+              stepIndex: index,
+              toolName,
+              success: !failed,
+              error: failed,
+              durationMs: Date.now() - calledAt,
+            });
+            return output;
+          } catch (error) {
+            progress.emit({
+              type: 'tool_call',
+              stepIndex: index,
+              toolName,
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+              durationMs: Date.now() - calledAt,
+            });
+            throw error;
+          }
+        },
+      };
+    });
+  }
+
+  /**
+   * Get a tool's input schema (cached).
+   * Returns undefined if the tool cannot be found, null if it has no schema.
+   */
+  private async getToolSchema(
+    toolName: string,
+    userId: string
+  ): Promise<ToolInputSchema | null | undefined> {
+    const cacheKey = `${userId}:${toolName}`;
+    const cached = this.toolSchemas.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < TOOL_SCHEMA_TTL_MS) {
+      return cached.schema;
+    }
+
+    const tool = await composioService.getToolDetails(userId, this.getToolkit(toolName), toolName);
+    if (!tool) return undefined;
+
+    const schema = tool.inputSchema ?? null;
+    this.toolSchemas.set(cacheKey, { schema, fetchedAt: Date.now() });
+    return schema;
+  }
+
+  /**
+   * Work out a tool's toolkit, e.g. GOOGLE_MAPS for GOOGLE_MAPS_GET_ROUTE
+   */
+  private getToolkit(toolName: string): string {
+    const known = getToolkitForTool(toolName);
+    if (known) return known.toolkit;
+
+    const prefix = Object.keys(AUTH_CONFIG_MAP)
+      .filter((toolkit) => toolName.startsWith(`${toolkit}_`))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix || toolName.split('_')[0];
+  }
+
   /**
    * Clean up expired sessions
    */
@@ -358,6 +802,12 @@ class RuleExecutorAgent {
         this.sessions.delete(userId);
       }
     }
+
+    for (const [key, entry] of this.toolSchemas.entries()) {
+      if (now - entry.fetchedAt > TOOL_SCHEMA_TTL_MS) {
+        this.toolSchemas.delete(key);
+      }
+    }
   }
 }
 
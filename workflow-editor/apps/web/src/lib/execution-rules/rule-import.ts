@@ -0,0 +1,186 @@
+/**
+ * Import rules from a rule bundle
+ *
+ * Each rule is checked with the editor's validators and its trigger slugs are
+ * looked up in Composio. A rule with an unknown trigger is not imported; a
+ * rule whose triggers belong to a toolkit the user hasn't connected is
+ * imported inactive. A rule named like an existing one is renamed, skipped or
+ * overwrites the existing rule, depending on the conflict strategy.
+ */
+
+import { composioService } from '@/lib/composio/composio-service';
+import { executionRulesStorage } from './storage';
+import { validatePortableRule } from './rule-bundle';
+import type { ExecutionRuleInput } from './types';
+
+export type ImportConflictStrategy = 'rename' | 'skip' | 'overwrite';
+
+export const IMPORT_CONFLICT_STRATEGIES: ImportConflictStrategy[] = ['rename', 'skip', 'overwrite'];
+
+/**
+ * Outcome for one rule of an import
+ */
+export interface RuleImportResult {
+  name: string;
+  status: 'created' | 'renamed' | 'overwritten' | 'skipped' | 'failed';
+  ruleId?: string;
+  importedAs?: string; // New name of a renamed rule
+  error?: string;
+  warnings: string[];
+}
+
+export interface ImportOptions {
+  onConflict: ImportConflictStrategy;
+  /** Work out the outcome of each rule without saving anything */
+  preview?: boolean;
+}
+
+interface TriggerCheck {
+  unknown: Set<string>;
+  /** Trigger slug → toolkit the user hasn't connected */
+  disconnected: Map<string, string>;
+  /** Set when the slugs couldn't be checked */
+  skippedReason?: string;
+}
+
+/**
+ * Look up every trigger slug used by the rules
+ */
+async function checkTriggers(userId: string, rules: ExecutionRuleInput[]): Promise<TriggerCheck> {
+  const check: TriggerCheck = { unknown: new Set(), disconnected: new Map() };
+  const slugs = [...new Set(rules.flatMap((rule) => rule.acceptedTriggers || []))];
+  if (slugs.length === 0) return check;
+
+  if (!process.env.COMPOSIO_API_KEY) {
+    check.skippedReason = 'Trigger slugs were not checked because COMPOSIO_API_KEY is not configured';
+    return check;
+  }
+
+  const connected = new Set(
+    (await composioService.getAvailableToolkits(userId)).map((toolkit) => toolkit.toLowerCase())
+  );
+  for (const slug of slugs) {
+    const triggerType = await composioService.getTriggerType(slug);
+    if (!triggerType) {
+      check.unknown.add(slug);
+    } else if (!connected.has(triggerType.toolkit.slug.toLowerCase())) {
+      check.disconnected.set(slug, triggerType.toolkit.name || triggerType.toolkit.slug);
+    }
+  }
+  return check;
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? `${name} (imported)` : `${name} (imported ${n})`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+/**
+ * Import rules for a user. Rules are handled in order, so a later rule with
+ * the same name as an earlier one in the bundle is a conflict too.
+ */
+export async function importRules(
+  userId: string,
+  rules: ExecutionRuleInput[],
+  options: ImportOptions
+): Promise<RuleImportResult[]> {
+  const existing = await executionRulesStorage.getByUserId(userId);
+  const byName = new Map(existing.map((rule) => [rule.name.trim().toLowerCase(), rule]));
+  const taken = new Set(byName.keys());
+  const triggers = await checkTriggers(userId, rules);
+  const results: RuleImportResult[] = [];
+
+  for (const rule of rules) {
+    const result: RuleImportResult = { name: rule.name, status: 'created', warnings: [] };
+    results.push(result);
+
+    const validationError = validatePortableRule(rule);
+    if (validationError) {
+      result.status = 'failed';
+      result.error = validationError;
+      continue;
+    }
+
+    const unknown = (rule.acceptedTriggers || []).filter((slug) => triggers.unknown.has(slug));
+    if (unknown.length > 0) {
+      result.status = 'failed';
+      result.error = `Unknown trigger${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`;
+      continue;
+    }
+
+    let input: ExecutionRuleInput = rule;
+    if (triggers.skippedReason && rule.acceptedTriggers?.length) {
+      result.warnings.push(triggers.skippedReason);
+    }
+    const disconnected = [
+      ...new Set((rule.acceptedTriggers || []).flatMap((slug) => triggers.disconnected.get(slug) ?? [])),
+    ];
+    if (disconnected.length > 0) {
+      result.warnings.push(`Imported inactive: connect ${disconnected.join(', ')} to use its triggers`);
+      input = { ...input, isActive: false };
+    }
+
+    const key = rule.name.trim().toLowerCase();
+    const conflict = taken.has(key);
+    if (conflict && options.onConflict === 'skip') {
+      result.status = 'skipped';
+      result.warnings.push('A rule with this name already exists');
+      continue;
+    }
+
+    try {
+      // Only rules that existed before the import are overwritten
+      const target = conflict && options.onConflict === 'overwrite' ? byName.get(key) : undefined;
+      if (conflict && options.onConflict === 'rename') {
+        result.status = 'renamed';
+        result.importedAs = uniqueName(rule.name.trim(), taken);
+        input = { ...input, name: result.importedAs };
+      } else if (conflict && !target) {
+        result.status = 'failed';
+        result.error = 'The file contains another rule with this name';
+        continue;
+      } else if (target) {
+        result.status = 'overwritten';
+        result.ruleId = target.id;
+      }
+      taken.add(input.name.trim().toLowerCase());
+
+      if (options.preview) continue;
+
+      const change = { source: 'import' as const, changedBy: userId };
+      if (target) {
+        // Fields the file leaves out are reset rather than kept from the old rule
+        await executionRulesStorage.update(
+          target.id,
+          {
+            description: '',
+            priority: 0,
+            acceptedTriggers: [],
+            activationMode: 'trigger',
+            scheduleEnabled: false,
+            matchMode: 'first',
+            exclusive: false,
+            conditions: [],
+            conditionsOnly: false,
+            rateLimit: null,
+            cooldownMs: null,
+            debounceMs: null,
+            ...input,
+          },
+          change
+        );
+      } else {
+        const created = await executionRulesStorage.create(userId, input, change);
+        result.ruleId = created.id;
+      }
+    } catch (error) {
+      console.error(`[RuleImport] Failed to import rule "${rule.name}":`, error);
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : 'Failed to save rule';
+    }
+  }
+
+  return results;
+}
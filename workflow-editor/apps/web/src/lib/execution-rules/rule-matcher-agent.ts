@@ -2,18 +2,20 @@
  * Rule Matcher Agent
  *
  * Uses OpenAI GPT to evaluate trigger content against topic conditions
- * and determine which rule should handle the trigger.
+ * and determine which rules match the trigger.
  */
 
 import OpenAI from 'openai';
 import { getMinimaxClient } from '../minimax-model';
-import type { ExecutionRule, TriggerPayload, RuleMatchResult } from './types';
+import type { ExecutionRule, TriggerPayload, RuleMatch, RuleMatchResult } from './types';
 import { RULE_MATCHER_SYSTEM_PROMPT, buildRuleMatcherPrompt } from './prompts';
 
 interface MatcherResponse {
-  matchedRuleId: string | null;
-  confidence: number;
-  reasoning: string;
+  matches?: Array<{ ruleId: string; confidence?: number; reasoning?: string }>;
+  // Single-match shape, still accepted if the model falls back to it
+  matchedRuleId?: string | null;
+  confidence?: number;
+  reasoning?: string;
 }
 
 /**
@@ -39,20 +41,20 @@ class RuleMatcherAgent {
 
   /**
    * Match a trigger payload against a list of rules
-   * Returns the highest priority rule that matches, or null if no match
+   * Returns every matching rule in priority order; `rule` is the highest priority match
    */
   async match(
     payload: TriggerPayload,
     rules: ExecutionRule[]
   ): Promise<RuleMatchResult> {
     if (rules.length === 0) {
-      return { matched: false, reasoning: 'No rules to match against' };
+      return { matched: false, reasoning: 'No rules to match against', matches: [] };
     }
 
     const client = this.getClient();
     if (!client) {
       console.error('[RuleMatcherAgent] No OpenAI client available');
-      return { matched: false, reasoning: 'AI service not configured' };
+      return { matched: false, reasoning: 'AI service not configured', matches: [] };
     }
 
     // Build the prompt with trigger and rules context
@@ -80,7 +82,7 @@ class RuleMatcherAgent {
       const textContent = response.choices[0]?.message?.content;
       if (!textContent) {
         console.error('[RuleMatcherAgent] No content in response');
-        return { matched: false, reasoning: 'Invalid AI response' };
+        return { matched: false, reasoning: 'Invalid AI response', matches: [] };
       }
 
       // Parse JSON response
@@ -88,36 +90,59 @@ class RuleMatcherAgent {
 
       if (!matcherResponse) {
         console.error('[RuleMatcherAgent] Failed to parse response:', textContent);
-        return { matched: false, reasoning: 'Failed to parse AI response' };
+        return { matched: false, reasoning: 'Failed to parse AI response', matches: [] };
       }
 
-      // Find the matched rule
-      if (matcherResponse.matchedRuleId) {
-        const matchedRule = rules.find((r) => r.id === matcherResponse.matchedRuleId);
-        if (matchedRule) {
-          return {
-            matched: true,
-            rule: matchedRule,
-            confidence: matcherResponse.confidence,
-            reasoning: matcherResponse.reasoning,
-          };
-        }
+      const matches = this.resolveMatches(matcherResponse, rules);
+      if (matches.length > 0) {
+        return {
+          matched: true,
+          rule: matches[0].rule,
+          confidence: matches[0].confidence,
+          reasoning: matcherResponse.reasoning || matches[0].reasoning,
+          matches,
+        };
       }
 
       return {
         matched: false,
         confidence: matcherResponse.confidence,
         reasoning: matcherResponse.reasoning,
+        matches: [],
       };
     } catch (error) {
       console.error('[RuleMatcherAgent] Error matching rules:', error);
       return {
         matched: false,
         reasoning: `Error during matching: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        matches: [],
       };
     }
   }
 
+  /**
+   * Map the response to known rules, in the rules' priority order
+   */
+  private resolveMatches(response: MatcherResponse, rules: ExecutionRule[]): RuleMatch[] {
+    const entries =
+      response.matches ??
+      (response.matchedRuleId
+        ? [{ ruleId: response.matchedRuleId, confidence: response.confidence, reasoning: response.reasoning }]
+        : []);
+
+    const matches: RuleMatch[] = [];
+    for (const rule of rules) {
+      const entry = entries.find((e) => e.ruleId === rule.id);
+      if (!entry) continue;
+      matches.push({
+        rule,
+        confidence: typeof entry.confidence === 'number' ? entry.confidence : 0,
+        reasoning: entry.reasoning,
+      });
+    }
+    return matches;
+  }
+
   /**
    * Parse the JSON response from GPT
    */
@@ -137,7 +162,7 @@ class RuleMatcherAgent {
       }
 
       // Try to find JSON object in text
-      const objectMatch = text.match(/\{[\s\S]*?"matchedRuleId"[\s\S]*?\}/);
+      const objectMatch = text.match(/\{[\s\S]*("matches"|"matchedRuleId")[\s\S]*\}/);
       if (objectMatch) {
         try {
           return JSON.parse(objectMatch[0]) as MatcherResponse;
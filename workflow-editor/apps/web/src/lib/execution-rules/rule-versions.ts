@@ -0,0 +1,134 @@
+/**
+ * Rule version history
+ *
+ * Every change to a rule is saved as a version holding a snapshot of the
+ * rule's definition. These helpers describe what changed between two
+ * snapshots for the history and diff views.
+ *
+ * Pure module — safe to import from client components.
+ */
+
+import type { ExecutionRule, ExecutionRuleVersion, ExecutionStep, RuleChangeSource, RuleSnapshot } from './types';
+
+/** Snapshot fields with their labels, in display order */
+export const RULE_FIELD_LABELS: Record<keyof RuleSnapshot, string> = {
+  name: 'Name',
+  description: 'Description',
+  priority: 'Priority',
+  acceptedTriggers: 'Triggers',
+  topicCondition: 'Topic condition',
+  executionSteps: 'Steps',
+  outputConfig: 'Output',
+  activationMode: 'Activation mode',
+  scheduleEnabled: 'Schedule enabled',
+  scheduleInterval: 'Schedule interval',
+  scheduleType: 'Schedule type',
+  scheduleCron: 'Cron expression',
+  scheduleTimezone: 'Timezone',
+  matchMode: 'Match mode',
+  matchThreshold: 'Match threshold',
+  exclusive: 'Exclusive',
+  conditions: 'Conditions',
+  conditionsOnly: 'Conditions only',
+  rateLimit: 'Rate limit',
+  cooldownMs: 'Cooldown (ms)',
+  debounceMs: 'Debounce (ms)',
+};
+
+export const CHANGE_SOURCE_LABELS: Record<RuleChangeSource, string> = {
+  ui: 'Edited in the automations page',
+  assistant: 'Changed by the AI assistant',
+  api: 'Changed through the API',
+  import: 'Imported from a file',
+  rollback: 'Rolled back',
+  baseline: 'Before version history',
+};
+
+/**
+ * One changed value between two snapshots. Steps are compared one by one,
+ * so a changed step appears as its own entry.
+ */
+export interface RuleFieldDiff {
+  field: keyof RuleSnapshot;
+  label: string;
+  /** Display text of the old value; undefined when it was not set */
+  before?: string;
+  /** Display text of the new value; undefined when it was removed */
+  after?: string;
+}
+
+/** JSON with sorted object keys, so equal values compare equal */
+function canonical(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+}
+
+function isUnset(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Display text for a snapshot value
+ */
+export function formatSnapshotValue(value: unknown): string | undefined {
+  if (isUnset(value)) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) return value.join(', ');
+  return JSON.stringify(value, null, 2);
+}
+
+function formatStep(step: ExecutionStep | undefined): string | undefined {
+  if (!step) return undefined;
+  const { type, ...rest } = step;
+  return `${type}\n${JSON.stringify(rest, null, 2)}`;
+}
+
+/**
+ * What changed from one snapshot to another. Pass no `before` snapshot to
+ * list everything set in `after`.
+ */
+export function diffSnapshots(before: RuleSnapshot | undefined, after: RuleSnapshot): RuleFieldDiff[] {
+  const diffs: RuleFieldDiff[] = [];
+  const old = before || {};
+
+  for (const [field, label] of Object.entries(RULE_FIELD_LABELS) as [keyof RuleSnapshot, string][]) {
+    if (field === 'executionSteps') {
+      const oldSteps = old.executionSteps || [];
+      const newSteps = after.executionSteps || [];
+      for (let i = 0; i < Math.max(oldSteps.length, newSteps.length); i++) {
+        if (canonical(oldSteps[i]) === canonical(newSteps[i])) continue;
+        diffs.push({ field, label: `Step ${i + 1}`, before: formatStep(oldSteps[i]), after: formatStep(newSteps[i]) });
+      }
+      continue;
+    }
+
+    const oldValue = old[field];
+    const newValue = after[field];
+    if ((isUnset(oldValue) && isUnset(newValue)) || canonical(oldValue) === canonical(newValue)) continue;
+    diffs.push({ field, label, before: formatSnapshotValue(oldValue), after: formatSnapshotValue(newValue) });
+  }
+
+  return diffs;
+}
+
+/**
+ * A rule as it was defined at an earlier version, for replaying runs.
+ * Only the fields that shape a run are taken from the version.
+ */
+export function ruleAtVersion(rule: ExecutionRule, version: ExecutionRuleVersion): ExecutionRule {
+  const { snapshot } = version;
+  return {
+    ...rule,
+    name: snapshot.name ?? rule.name,
+    description: snapshot.description,
+    topicCondition: snapshot.topicCondition ?? '',
+    executionSteps: snapshot.executionSteps ?? [],
+    outputConfig: snapshot.outputConfig ?? { platform: 'none', format: 'summary' },
+    versionId: version.id,
+    version: version.version,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Convex storage for the progress events of rule runs
+ */
+
+import { convex, api } from '@/lib/convex';
+import type { ExecutionStep, RunEvent, RunEventType } from './types';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+function toISO(ts?: number | null): string {
+  return ts ? new Date(ts).toISOString() : new Date().toISOString();
+}
+
+function mapDoc(doc: Record<string, unknown>): RunEvent {
+  return {
+    id: doc._id as string,
+    runId: doc.runId as string,
+    ruleId: doc.ruleId as string,
+    seq: doc.seq as number,
+    type: doc.type as RunEventType,
+    stepIndex: doc.stepIndex as number | undefined,
+    stepType: doc.stepType as ExecutionStep['type'] | undefined,
+    stepCount: doc.stepCount as number | undefined,
+    attempt: doc.attempt as number | undefined,
+    toolName: doc.toolName as string | undefined,
+    success: doc.success as boolean | undefined,
+    error: doc.error as string | undefined,
+    detail: doc.detail as string | undefined,
+    durationMs: doc.durationMs as number | undefined,
+    createdAt: toISO(doc.createdAt as number),
+  };
+}
+
+/**
+ * Events of the user's runs, and where to follow on from
+ */
+export interface RunEventPage {
+  events: RunEvent[];
+  cursor: number;
+}
+
+export const runEventStorage = {
+  async append(event: Omit<RunEvent, 'id' | 'createdAt'> & { userId: string }): Promise<void> {
+    await convex.mutation(api.runEvents.append, {
+      ...event,
+      ruleId: event.ruleId as Id<"execution_rules">,
+    });
+  },
+
+  async getByRunIdAndUser(runId: string, userId: string): Promise<RunEvent[]> {
+    const docs = await convex.query(api.runEvents.listByRun, { runId, userId });
+    return docs.map(mapDoc);
+  },
+
+  /**
+   * Events of the user's unfinished runs that started after startedAfter
+   */
+  async getActive(userId: string, startedAfter: Date, ruleId?: string): Promise<RunEventPage> {
+    const { events, cursor } = await convex.query(api.runEvents.listActive, {
+      userId,
+      ruleId: ruleId as Id<"execution_rules"> | undefined,
+      startedAfter: startedAfter.getTime(),
+    });
+    return { events: events.map(mapDoc), cursor };
+  },
+
+  /**
+   * The user's events recorded after the cursor
+   */
+  async getAfter(userId: string, cursor: number, ruleId?: string): Promise<RunEventPage> {
+    const page = await convex.query(api.runEvents.listAfter, {
+      userId,
+      ruleId: ruleId as Id<"execution_rules"> | undefined,
+      after: cursor,
+    });
+    return { events: page.events.map(mapDoc), cursor: page.cursor };
+  },
+};
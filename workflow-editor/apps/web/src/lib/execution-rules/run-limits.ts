@@ -0,0 +1,128 @@
+/**
+ * Trigger run limits
+ *
+ * A rule can limit how often trigger events run it:
+ * - rate limit: at most `maxRuns` runs start within any `windowMs` period
+ * - cooldown: no run starts within `cooldownMs` of the previous one
+ * - debounce: events are held for `debounceMs`; a newer event replaces the
+ *   held one and restarts the wait, so a burst runs the rule once, with its
+ *   latest event
+ *
+ * Limits are checked before matching, and events they hold back are logged as
+ * skipped. They apply to trigger runs only: manual, scheduled and replayed runs
+ * are neither limited nor counted.
+ *
+ * Pure module — safe to import from client components for the editor.
+ */
+
+import type { ExecutionRule, ExecutionRuleInput } from './types';
+
+export const MIN_RATE_LIMIT_WINDOW_MS = 1000;
+export const MAX_LIMIT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+export const MAX_DEBOUNCE_MS = 60 * 60 * 1000;
+export const MAX_RATE_LIMIT_RUNS = 1000;
+
+type RunLimitFields = Pick<ExecutionRule, 'rateLimit' | 'cooldownMs' | 'recentRuns'>;
+
+/**
+ * Whether a rule's runs have to be counted, i.e. it has a rate limit or cooldown
+ */
+export function hasRunLimits(rule: Pick<ExecutionRule, 'rateLimit' | 'cooldownMs'>): boolean {
+  return Boolean(rule.rateLimit || rule.cooldownMs);
+}
+
+/**
+ * Format a limit duration for people, e.g. 90s, 5m, 2h, 1d
+ */
+export function formatLimitDuration(ms: number): string {
+  const units: Array<[string, number]> = [
+    ['d', 24 * 60 * 60 * 1000],
+    ['h', 60 * 60 * 1000],
+    ['m', 60 * 1000],
+  ];
+  for (const [unit, size] of units) {
+    if (ms >= size && ms % size === 0) return `${ms / size}${unit}`;
+  }
+  return ms % 1000 === 0 ? `${ms / 1000}s` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Check whether a rule's rate limit and cooldown allow a run to start now.
+ * Returns the reason the run would be skipped, or null if it may start.
+ */
+export function checkRunLimits(rule: RunLimitFields, now: number = Date.now()): string | null {
+  const starts = rule.recentRuns.map((run) => new Date(run).getTime());
+  const last = starts[starts.length - 1];
+
+  if (rule.cooldownMs && last !== undefined && now - last < rule.cooldownMs) {
+    return (
+      `Cooling down: the last run started ${formatLimitDuration(Math.max(now - last, 0))} ago ` +
+      `and the cooldown is ${formatLimitDuration(rule.cooldownMs)}`
+    );
+  }
+
+  if (rule.rateLimit) {
+    const { maxRuns, windowMs } = rule.rateLimit;
+    const inWindow = starts.filter((start) => now - start < windowMs).length;
+    if (inWindow >= maxRuns) {
+      return `Rate limit reached: ${maxRuns} run${maxRuns === 1 ? '' : 's'} per ${formatLimitDuration(windowMs)}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Short descriptions of a rule's limits, for badges
+ */
+export function describeRunLimits(
+  rule: Pick<ExecutionRule, 'rateLimit' | 'cooldownMs' | 'debounceMs'>
+): string[] {
+  const labels: string[] = [];
+  if (rule.rateLimit) {
+    labels.push(`${rule.rateLimit.maxRuns}/${formatLimitDuration(rule.rateLimit.windowMs)}`);
+  }
+  if (rule.cooldownMs) labels.push(`cooldown ${formatLimitDuration(rule.cooldownMs)}`);
+  if (rule.debounceMs) labels.push(`debounce ${formatLimitDuration(rule.debounceMs)}`);
+  return labels;
+}
+
+/**
+ * Validate a rule's run limits. Returns an error message, or null if valid.
+ */
+export function validateRunLimits(
+  input: Pick<ExecutionRuleInput, 'rateLimit' | 'cooldownMs' | 'debounceMs'>
+): string | null {
+  const { rateLimit, cooldownMs, debounceMs } = input;
+
+  if (rateLimit) {
+    if (
+      !Number.isInteger(rateLimit.maxRuns) ||
+      rateLimit.maxRuns < 1 ||
+      rateLimit.maxRuns > MAX_RATE_LIMIT_RUNS
+    ) {
+      return `Rate limit runs must be a whole number from 1 to ${MAX_RATE_LIMIT_RUNS}`;
+    }
+    if (
+      typeof rateLimit.windowMs !== 'number' ||
+      rateLimit.windowMs < MIN_RATE_LIMIT_WINDOW_MS ||
+      rateLimit.windowMs > MAX_LIMIT_WINDOW_MS
+    ) {
+      return `Rate limit window must be between 1 second and ${formatLimitDuration(MAX_LIMIT_WINDOW_MS)}`;
+    }
+  }
+
+  if (cooldownMs !== undefined && cooldownMs !== null) {
+    if (typeof cooldownMs !== 'number' || cooldownMs < 0 || cooldownMs > MAX_LIMIT_WINDOW_MS) {
+      return `Cooldown must be between 0 and ${formatLimitDuration(MAX_LIMIT_WINDOW_MS)}`;
+    }
+  }
+
+  if (debounceMs !== undefined && debounceMs !== null) {
+    if (typeof debounceMs !== 'number' || debounceMs < 0 || debounceMs > MAX_DEBOUNCE_MS) {
+      return `Debounce must be between 0 and ${formatLimitDuration(MAX_DEBOUNCE_MS)}`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,62 @@
+/**
+ * Run progress
+ *
+ * A rule run reports its progress (run started, step started, tool call made,
+ * step finished, run finished) as it goes, so it can be watched live (see
+ * /api/automations/runs/stream) and replayed as a timeline once it is logged.
+ * Events are recorded in order, in the background; a failure to record one is
+ * logged and never fails the run.
+ */
+
+import { runEventStorage } from './run-event-storage';
+import type { RunEvent } from './types';
+
+/**
+ * What a caller reports; the run fills in the rest
+ */
+export type RunProgressEvent = Omit<RunEvent, 'id' | 'runId' | 'ruleId' | 'seq' | 'createdAt'>;
+
+/** Longest detail kept with an event */
+const MAX_DETAIL_LENGTH = 300;
+
+/**
+ * Shorten a step result, instruction or error for an event
+ */
+export function summarizeForEvent(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_DETAIL_LENGTH ? `${text.slice(0, MAX_DETAIL_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Progress reporter of one run
+ */
+export class RunProgress {
+  readonly runId = crypto.randomUUID();
+  private seq = 0;
+  private recording: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly ruleId: string,
+    private readonly userId: string
+  ) {}
+
+  /**
+   * Record an event after the ones already reported
+   */
+  emit(event: RunProgressEvent): void {
+    const seq = ++this.seq;
+    this.recording = this.recording.then(() =>
+      runEventStorage
+        .append({ ...event, runId: this.runId, ruleId: this.ruleId, userId: this.userId, seq })
+        .catch((error) => console.error(`[RunProgress] Failed to record ${event.type} of run ${this.runId}:`, error))
+    );
+  }
+
+  /**
+   * Wait until every reported event is recorded
+   */
+  flush(): Promise<void> {
+    return this.recording;
+  }
+}
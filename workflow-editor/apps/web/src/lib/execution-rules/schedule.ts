@@ -0,0 +1,103 @@
+/**
+ * Schedule computation for scheduled execution rules
+ */
+
+import type { ActivationMode, ScheduleInterval, ScheduleType } from './types';
+import { getNextCronRuns, validateCronExpression, validateTimezone } from './cron';
+
+/**
+ * Interval lengths in milliseconds
+ */
+export const SCHEDULE_INTERVAL_MS: Record<ScheduleInterval, number> = {
+  '15min': 15 * 60 * 1000,
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Schedule-related fields of a rule
+ */
+export interface ScheduleFields {
+  isActive?: boolean;
+  activationMode?: ActivationMode;
+  scheduleEnabled?: boolean;
+  scheduleInterval?: ScheduleInterval;
+  scheduleType?: ScheduleType;
+  scheduleCron?: string;
+  scheduleTimezone?: string;
+}
+
+/**
+ * Whether the schedule itself is fully defined (interval chosen or cron set)
+ */
+function hasSchedule(fields: ScheduleFields): boolean {
+  return fields.scheduleType === 'cron'
+    ? Boolean(fields.scheduleCron)
+    : Boolean(fields.scheduleInterval);
+}
+
+/**
+ * Whether a rule should be picked up by the scheduler
+ */
+export function isScheduleEligible(fields: ScheduleFields): boolean {
+  return (
+    fields.isActive !== false &&
+    (fields.activationMode === 'scheduled' || fields.activationMode === 'all') &&
+    Boolean(fields.scheduleEnabled) &&
+    hasSchedule(fields)
+  );
+}
+
+/**
+ * Validate the schedule definition. Returns an error message, or null if valid.
+ */
+export function validateSchedule(fields: ScheduleFields): string | null {
+  if (fields.scheduleType !== undefined && fields.scheduleType !== 'interval' && fields.scheduleType !== 'cron') {
+    return 'Invalid schedule type';
+  }
+
+  if (fields.scheduleInterval !== undefined && !(fields.scheduleInterval in SCHEDULE_INTERVAL_MS)) {
+    return 'Invalid schedule interval';
+  }
+
+  if (fields.scheduleCron !== undefined) {
+    const cronError = validateCronExpression(fields.scheduleCron);
+    if (cronError) return `Invalid cron expression: ${cronError}`;
+  }
+
+  if (fields.scheduleTimezone !== undefined) {
+    const tzError = validateTimezone(fields.scheduleTimezone);
+    if (tzError) return tzError;
+  }
+
+  // A valid expression can still name a date that doesn't exist (e.g. 0 0 31 2 *)
+  if (
+    fields.scheduleCron !== undefined &&
+    getNextCronRuns(fields.scheduleCron, fields.scheduleTimezone || 'UTC').length === 0
+  ) {
+    return 'Cron expression never fires';
+  }
+
+  if (fields.scheduleType === 'cron' && fields.scheduleEnabled && !fields.scheduleCron) {
+    return 'Cron expression is required for cron schedules';
+  }
+
+  return null;
+}
+
+/**
+ * Compute the next run time for a schedule, strictly after `from`.
+ * Missed runs are not replayed: the next run is always in the future of `from`.
+ * Returns null if the schedule is incomplete or never fires.
+ */
+export function computeNextRun(fields: ScheduleFields, from: Date = new Date()): Date | null {
+  if (fields.scheduleType === 'cron') {
+    if (!fields.scheduleCron) return null;
+    const [next] = getNextCronRuns(fields.scheduleCron, fields.scheduleTimezone || 'UTC', from, 1);
+    return next ?? null;
+  }
+
+  if (!fields.scheduleInterval) return null;
+  return new Date(from.getTime() + SCHEDULE_INTERVAL_MS[fields.scheduleInterval]);
+}
@@ -0,0 +1,142 @@
+/**
+ * Retry, timeout and error handling policies for rule steps
+ *
+ * A step runs up to `retry.maxAttempts` times. Each attempt is cut off after
+ * `timeoutMs`, and only failures in one of the `retry.retryOn` error classes are
+ * retried, with exponential backoff between attempts. Action steps call a tool
+ * that may have taken effect even when the call timed out or failed, so by
+ * default they are only retried on rate limits. When the last attempt
+ * fails, `onError` decides whether the run stops, continues or jumps to a
+ * fallback step.
+ *
+ * Pure module — safe to import from client components for the editor.
+ */
+
+import type { ExecutionStep, StepErrorClass, StepErrorPolicy, StepRetryPolicy } from './types';
+
+/** Error classes retried when a policy doesn't list any */
+export const DEFAULT_RETRY_ON: StepErrorClass[] = ['timeout', 'rate_limit', 'network', 'server'];
+
+/** Error classes retried for action steps when a policy doesn't list any */
+export const DEFAULT_ACTION_RETRY_ON: StepErrorClass[] = ['rate_limit'];
+
+/**
+ * Error classes a step is retried on when its policy doesn't list any
+ */
+export function getDefaultRetryOn(stepType: ExecutionStep['type']): StepErrorClass[] {
+  return stepType === 'action' ? DEFAULT_ACTION_RETRY_ON : DEFAULT_RETRY_ON;
+}
+
+/** Error classes with their editor labels */
+export const STEP_ERROR_CLASSES: Record<StepErrorClass, string> = {
+  timeout: 'Timeouts',
+  rate_limit: 'Rate limits',
+  network: 'Network errors',
+  server: 'Server errors (5xx)',
+  other: 'Any other error',
+};
+
+export const DEFAULT_BACKOFF_MS = 1000;
+export const DEFAULT_MAX_BACKOFF_MS = 30_000;
+export const MAX_STEP_ATTEMPTS = 10;
+export const MIN_STEP_TIMEOUT_MS = 1000;
+export const MAX_STEP_TIMEOUT_MS = 15 * 60 * 1000;
+
+const ERROR_POLICIES: StepErrorPolicy[] = ['stop', 'continue', 'fallback'];
+
+/**
+ * Work out the error class of a failed attempt from its error message
+ */
+export function classifyStepError(error: string): StepErrorClass {
+  const text = error.toLowerCase();
+
+  if (/timed out|timeout|aborted/.test(text)) return 'timeout';
+  if (/\b429\b|rate.?limit|too many requests|quota/.test(text)) return 'rate_limit';
+  if (/econnreset|econnrefused|enotfound|eai_again|etimedout|socket hang up|fetch failed|network/.test(text)) {
+    return 'network';
+  }
+  if (/\b5\d\d\b|internal server error|bad gateway|service unavailable|overloaded/.test(text)) return 'server';
+  return 'other';
+}
+
+/**
+ * Whether a failed attempt should be retried
+ * @param attempt The 1-based attempt that just failed
+ */
+export function shouldRetry(
+  retry: StepRetryPolicy | undefined,
+  attempt: number,
+  errorClass: StepErrorClass,
+  stepType: ExecutionStep['type']
+): boolean {
+  if (!retry || attempt >= retry.maxAttempts) return false;
+  return (retry.retryOn?.length ? retry.retryOn : getDefaultRetryOn(stepType)).includes(errorClass);
+}
+
+/**
+ * Delay before the next attempt
+ * @param attempt The 1-based attempt that just failed
+ */
+export function getRetryDelay(retry: StepRetryPolicy, attempt: number): number {
+  const base = retry.backoffMs ?? DEFAULT_BACKOFF_MS;
+  const max = retry.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+  return Math.min(base * 2 ** (attempt - 1), max);
+}
+
+/**
+ * Validate the retry, timeout and error policies of a rule's steps.
+ * Returns an error message, or null if they are valid.
+ */
+export function validateStepPolicies(steps: ExecutionStep[] | undefined): string | null {
+  for (const [index, step] of (steps || []).entries()) {
+    if (step.type === 'approval') continue;
+    const prefix = `Step ${index + 1}`;
+    const { retry, timeoutMs, onError, fallbackStep } = step;
+
+    if (retry !== undefined) {
+      if (!retry || typeof retry !== 'object') return `${prefix} has an invalid retry policy`;
+      if (
+        !Number.isInteger(retry.maxAttempts) ||
+        retry.maxAttempts < 1 ||
+        retry.maxAttempts > MAX_STEP_ATTEMPTS
+      ) {
+        return `${prefix}: max attempts must be a whole number from 1 to ${MAX_STEP_ATTEMPTS}`;
+      }
+      if (retry.backoffMs !== undefined && (typeof retry.backoffMs !== 'number' || retry.backoffMs < 0)) {
+        return `${prefix}: retry backoff must be a positive number of milliseconds`;
+      }
+      if (
+        retry.maxBackoffMs !== undefined &&
+        (typeof retry.maxBackoffMs !== 'number' || retry.maxBackoffMs < (retry.backoffMs ?? 0))
+      ) {
+        return `${prefix}: maximum retry backoff must be at least the initial backoff`;
+      }
+      if (retry.retryOn !== undefined) {
+        if (!Array.isArray(retry.retryOn)) return `${prefix}: retryOn must be a list of error classes`;
+        const unknown = retry.retryOn.find((errorClass) => !(errorClass in STEP_ERROR_CLASSES));
+        if (unknown !== undefined) return `${prefix}: unknown error class "${unknown}"`;
+      }
+    }
+
+    if (
+      timeoutMs !== undefined &&
+      (typeof timeoutMs !== 'number' || timeoutMs < MIN_STEP_TIMEOUT_MS || timeoutMs > MAX_STEP_TIMEOUT_MS)
+    ) {
+      return `${prefix}: timeout must be between ${MIN_STEP_TIMEOUT_MS / 1000}s and ${MAX_STEP_TIMEOUT_MS / 60000} minutes`;
+    }
+
+    if (onError !== undefined && !ERROR_POLICIES.includes(onError)) {
+      return `${prefix} has an invalid error policy. Must be "stop", "continue" or "fallback"`;
+    }
+    if (onError === 'fallback') {
+      if (!Number.isInteger(fallbackStep) || fallbackStep === undefined) {
+        return `${prefix} requires a fallback step`;
+      }
+      if (fallbackStep <= index || fallbackStep >= (steps || []).length) {
+        return `${prefix}: the fallback step must be a later step of this rule`;
+      }
+    }
+  }
+
+  return null;
+}
@@ -2,21 +2,34 @@
  * Convex storage for execution rules
  */
 
+import { randomBytes } from 'node:crypto';
 import { convex, api } from '@/lib/convex';
 import type {
   ExecutionRule,
   ExecutionRuleInput,
+  ExecutionRuleVersion,
+  RuleChangeSource,
+  RuleSnapshot,
   ExecutionStep,
   OutputConfig,
   ActivationMode,
   ScheduleInterval,
+  ScheduleType,
+  MatchMode,
+  StructuredCondition,
+  RuleRateLimit,
 } from './types';
+import { computeNextRun, isScheduleEligible } from './schedule';
 import type { Id } from '../../../convex/_generated/dataModel';
 
 function toISO(ts?: number | null): string {
   return ts ? new Date(ts).toISOString() : new Date().toISOString();
 }
 
+function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64')}`;
+}
+
 function mapDoc(doc: Record<string, unknown>): ExecutionRule {
   return {
     id: doc._id as string,
@@ -36,11 +49,48 @@ function mapDoc(doc: Record<string, unknown>): ExecutionRule {
     activationMode: (doc.activationMode as ActivationMode) || 'trigger',
     scheduleEnabled: Boolean(doc.scheduleEnabled),
     scheduleInterval: doc.scheduleInterval as ScheduleInterval | undefined,
+    scheduleType: (doc.scheduleType as ScheduleType) || 'interval',
+    scheduleCron: doc.scheduleCron as string | undefined,
+    scheduleTimezone: doc.scheduleTimezone as string | undefined,
     scheduleLastRun: doc.scheduleLastRun ? toISO(doc.scheduleLastRun as number) : undefined,
     scheduleNextRun: doc.scheduleNextRun ? toISO(doc.scheduleNextRun as number) : undefined,
+    matchMode: (doc.matchMode as MatchMode) || 'first',
+    matchThreshold: doc.matchThreshold as number | undefined,
+    exclusive: Boolean(doc.exclusive),
+    conditions: (doc.conditions as StructuredCondition[]) || [],
+    conditionsOnly: Boolean(doc.conditionsOnly),
+    rateLimit: (doc.rateLimit as RuleRateLimit) || undefined,
+    cooldownMs: (doc.cooldownMs as number) || undefined,
+    debounceMs: (doc.debounceMs as number) || undefined,
+    recentRuns: ((doc.recentRunStarts as number[]) || []).map((start) => toISO(start)),
+    versionId: (doc.currentVersionId as string) || undefined,
+    version: doc.currentVersion as number | undefined,
   };
 }
 
+function mapVersionDoc(doc: Record<string, unknown>): ExecutionRuleVersion {
+  return {
+    id: doc._id as string,
+    ruleId: doc.ruleId as string,
+    userId: doc.userId as string,
+    version: doc.version as number,
+    snapshot: (doc.snapshot as RuleSnapshot) || {},
+    changedFields: (doc.changedFields as ExecutionRuleVersion['changedFields']) || [],
+    source: doc.source as RuleChangeSource,
+    changedBy: doc.changedBy as string | undefined,
+    restoredFromVersion: doc.restoredFromVersion as number | undefined,
+    createdAt: toISO(doc.createdAt as number),
+  };
+}
+
+/**
+ * Who made a change to a rule, recorded with the version it creates
+ */
+export interface RuleChange {
+  source: RuleChangeSource;
+  changedBy?: string;
+}
+
 /**
  * Execution rules storage operations
  */
@@ -61,7 +111,10 @@ export const executionRulesStorage = {
     return mapDoc(doc);
   },
 
-  async create(userId: string, input: ExecutionRuleInput): Promise<ExecutionRule> {
+  async create(userId: string, input: ExecutionRuleInput, change?: RuleChange): Promise<ExecutionRule> {
+    const activationMode = input.activationMode ?? 'trigger';
+    const nextRun = isScheduleEligible({ ...input, activationMode }) ? computeNextRun(input) : null;
+
     const id = await convex.mutation(api.executionRules.create, {
       userId,
       name: input.name,
@@ -72,9 +125,23 @@ export const executionRulesStorage = {
       topicCondition: input.topicCondition,
       executionSteps: input.executionSteps as any,
       outputConfig: input.outputConfig as any,
-      activationMode: input.activationMode ?? 'trigger',
+      activationMode,
       scheduleEnabled: input.scheduleEnabled,
       scheduleInterval: input.scheduleInterval,
+      scheduleType: input.scheduleType,
+      scheduleCron: input.scheduleCron,
+      scheduleTimezone: input.scheduleTimezone,
+      scheduleNextRun: nextRun?.getTime(),
+      matchMode: input.matchMode,
+      matchThreshold: input.matchThreshold,
+      exclusive: input.exclusive,
+      conditions: input.conditions as any,
+      conditionsOnly: input.conditionsOnly,
+      rateLimit: input.rateLimit ?? undefined,
+      cooldownMs: input.cooldownMs || undefined,
+      debounceMs: input.debounceMs || undefined,
+      source: change?.source,
+      changedBy: change?.changedBy,
     });
 
     const created = await this.get(id as string);
@@ -82,7 +149,13 @@ export const executionRulesStorage = {
     return created;
   },
 
-  async update(id: string, input: Partial<ExecutionRuleInput>): Promise<ExecutionRule | undefined> {
+  async update(
+    id: string,
+    input: Partial<ExecutionRuleInput>,
+    change?: RuleChange
+  ): Promise<ExecutionRule | undefined> {
+    const scheduleNextRun = await this.resolveScheduleNextRun(id, input);
+
     await convex.mutation(api.executionRules.update, {
       id: id as Id<"execution_rules">,
       ...Object.fromEntries(
@@ -98,12 +171,124 @@ export const executionRulesStorage = {
           activationMode: input.activationMode,
           scheduleEnabled: input.scheduleEnabled,
           scheduleInterval: input.scheduleInterval,
+          scheduleType: input.scheduleType,
+          scheduleCron: input.scheduleCron,
+          scheduleTimezone: input.scheduleTimezone,
+          scheduleNextRun,
+          matchMode: input.matchMode,
+          matchThreshold: input.matchThreshold,
+          exclusive: input.exclusive,
+          conditions: input.conditions as any,
+          conditionsOnly: input.conditionsOnly,
+          // A zero cooldown or debounce turns it off
+          rateLimit: input.rateLimit,
+          cooldownMs: input.cooldownMs === 0 ? null : input.cooldownMs,
+          debounceMs: input.debounceMs === 0 ? null : input.debounceMs,
+          source: change?.source,
+          changedBy: change?.changedBy,
         }).filter(([, v]) => v !== undefined)
       ),
     } as any);
     return this.get(id);
   },
 
+  async getVersions(ruleId: string): Promise<ExecutionRuleVersion[]> {
+    const docs = await convex.query(api.executionRuleVersions.listByRule, {
+      ruleId: ruleId as Id<"execution_rules">,
+    });
+    return docs.map(mapVersionDoc);
+  },
+
+  async getVersion(versionId: string): Promise<ExecutionRuleVersion | undefined> {
+    const doc = await convex.query(api.executionRuleVersions.get, {
+      id: versionId as Id<"execution_rule_versions">,
+    });
+    if (!doc) return undefined;
+    return mapVersionDoc(doc);
+  },
+
+  /**
+   * Roll a rule back to one of its versions. The rule keeps its active state.
+   */
+  async restoreVersion(
+    rule: ExecutionRule,
+    version: ExecutionRuleVersion,
+    changedBy?: string
+  ): Promise<ExecutionRule | undefined> {
+    const restored = { ...version.snapshot, isActive: rule.isActive };
+    const sameSchedule =
+      isScheduleEligible(rule) &&
+      restored.activationMode === rule.activationMode &&
+      Boolean(restored.scheduleEnabled) === rule.scheduleEnabled &&
+      (restored.scheduleType || 'interval') === rule.scheduleType &&
+      restored.scheduleInterval === rule.scheduleInterval &&
+      restored.scheduleCron === rule.scheduleCron &&
+      restored.scheduleTimezone === rule.scheduleTimezone;
+
+    // Keep the pending run when the schedule is unchanged
+    const scheduleNextRun =
+      sameSchedule && rule.scheduleNextRun
+        ? undefined
+        : isScheduleEligible(restored)
+          ? computeNextRun(restored)?.getTime() ?? null
+          : null;
+
+    await convex.mutation(api.executionRuleVersions.restore, {
+      ruleId: rule.id as Id<"execution_rules">,
+      versionId: version.id as Id<"execution_rule_versions">,
+      changedBy,
+      scheduleNextRun,
+    });
+    return this.get(rule.id);
+  },
+
+  /**
+   * Work out the next run after an update.
+   * Returns undefined when schedule fields are untouched (keep the current next run),
+   * null when the rule is no longer scheduled, or a fresh timestamp otherwise.
+   */
+  async resolveScheduleNextRun(
+    id: string,
+    input: Partial<ExecutionRuleInput>
+  ): Promise<number | null | undefined> {
+    const touchesSchedule =
+      input.isActive !== undefined ||
+      input.activationMode !== undefined ||
+      input.scheduleEnabled !== undefined ||
+      input.scheduleInterval !== undefined ||
+      input.scheduleType !== undefined ||
+      input.scheduleCron !== undefined ||
+      input.scheduleTimezone !== undefined;
+    if (!touchesSchedule) return undefined;
+
+    const existing = await this.get(id);
+    if (!existing) return undefined;
+
+    const merged = {
+      isActive: input.isActive ?? existing.isActive,
+      activationMode: input.activationMode ?? existing.activationMode,
+      scheduleEnabled: input.scheduleEnabled ?? existing.scheduleEnabled,
+      scheduleInterval: input.scheduleInterval ?? existing.scheduleInterval,
+      scheduleType: input.scheduleType ?? existing.scheduleType,
+      scheduleCron: input.scheduleCron ?? existing.scheduleCron,
+      scheduleTimezone: input.scheduleTimezone ?? existing.scheduleTimezone,
+    };
+
+    if (!isScheduleEligible(merged)) return null;
+
+    // Keep the pending run unless the schedule definition changed or nothing is pending yet
+    const definitionChanged =
+      merged.scheduleType !== existing.scheduleType ||
+      merged.scheduleInterval !== existing.scheduleInterval ||
+      merged.scheduleCron !== existing.scheduleCron ||
+      merged.scheduleTimezone !== existing.scheduleTimezone;
+    if (existing.scheduleNextRun && isScheduleEligible(existing) && !definitionChanged) {
+      return undefined;
+    }
+
+    return computeNextRun(merged)?.getTime() ?? null;
+  },
+
   async delete(id: string): Promise<boolean> {
     try {
       await convex.mutation(api.executionRules.remove, { id: id as Id<"execution_rules"> });
@@ -122,6 +307,44 @@ export const executionRulesStorage = {
     await convex.mutation(api.executionRules.incrementExecutionCount, { id: id as Id<"execution_rules"> });
   },
 
+  /**
+   * Record the start of a trigger run against the rule's rate limit and
+   * cooldown. Returns false if the limits don't allow it, in which case the
+   * caller must skip execution.
+   */
+  async claimRun(id: string, now: Date = new Date()): Promise<boolean> {
+    return await convex.mutation(api.executionRules.claimRun, {
+      id: id as Id<"execution_rules">,
+      now: now.getTime(),
+    });
+  },
+
+  /**
+   * The secret that signs the rule's webhook deliveries, created on first use
+   */
+  async getWebhookSecret(id: string): Promise<string> {
+    const secret = await convex.mutation(api.executionRules.setWebhookSecret, {
+      id: id as Id<"execution_rules">,
+      secret: generateWebhookSecret(),
+      replace: false,
+    });
+    if (!secret) throw new Error('Execution rule not found');
+    return secret;
+  },
+
+  /**
+   * Replace the rule's webhook secret. Receivers must be given the new one.
+   */
+  async rotateWebhookSecret(id: string): Promise<string> {
+    const secret = await convex.mutation(api.executionRules.setWebhookSecret, {
+      id: id as Id<"execution_rules">,
+      secret: generateWebhookSecret(),
+      replace: true,
+    });
+    if (!secret) throw new Error('Execution rule not found');
+    return secret;
+  },
+
   async getManualRules(userId: string): Promise<ExecutionRule[]> {
     const docs = await convex.query(api.executionRules.listActive, { userId });
     return docs
@@ -129,13 +352,32 @@ export const executionRulesStorage = {
       .map(mapDoc);
   },
 
-  async getScheduledRulesDue(): Promise<ExecutionRule[]> {
-    console.warn('getScheduledRulesDue: not fully implemented in Convex, returning empty');
-    return [];
+  async getScheduledRulesDue(now: Date = new Date()): Promise<ExecutionRule[]> {
+    const docs = await convex.query(api.executionRules.listScheduledDue, { now: now.getTime() });
+    return docs.map(mapDoc);
   },
 
-  async updateScheduleRun(id: string, interval: ScheduleInterval): Promise<void> {
-    await convex.mutation(api.executionRules.incrementExecutionCount, { id: id as Id<"execution_rules"> });
+  /**
+   * Make scheduled rules without a next run time due now.
+   * Returns how many rules were updated.
+   */
+  async backfillScheduleNextRun(now: Date = new Date()): Promise<number> {
+    return await convex.mutation(api.executionRules.backfillScheduleNextRun, { now: now.getTime() });
+  },
+
+  /**
+   * Record a scheduled run and advance the rule's next run time.
+   * A schedule with no next run is disabled rather than left without one.
+   * Returns false if the run was already claimed (e.g. by the cron route and the
+   * in-process scheduler racing), in which case the caller must skip execution.
+   */
+  async updateScheduleRun(rule: ExecutionRule, ranAt: Date = new Date()): Promise<boolean> {
+    return await convex.mutation(api.executionRules.claimScheduledRun, {
+      id: rule.id as Id<"execution_rules">,
+      expectedNextRun: rule.scheduleNextRun ? new Date(rule.scheduleNextRun).getTime() : undefined,
+      ranAt: ranAt.getTime(),
+      nextRun: computeNextRun(rule, ranAt)?.getTime(),
+    });
   },
 
   async getByIdAndUser(id: string, userId: string): Promise<ExecutionRule | undefined> {
@@ -0,0 +1,69 @@
+/**
+ * Custom template packs
+ *
+ * Rule bundles (.json, .yaml or .yml) placed in the template packs directory
+ * add their templates to the template picker. The directory is
+ * RULE_TEMPLATE_PACKS_DIR, or ./template-packs in the app's working directory.
+ * Packs are read on each request, so new files show up without a restart.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { detectBundleFormat, parseRuleBundle } from './rule-bundle';
+import { RULE_TEMPLATES, type RuleTemplate } from './templates';
+
+const PACK_FILE = /\.(json|ya?ml)$/i;
+
+function packsDir(): string {
+  return path.resolve(process.env.RULE_TEMPLATE_PACKS_DIR || path.join(process.cwd(), 'template-packs'));
+}
+
+/**
+ * Templates from every pack in the packs directory.
+ * Invalid packs are logged and skipped.
+ */
+export async function loadCustomTemplates(): Promise<RuleTemplate[]> {
+  const dir = packsDir();
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((file) => PACK_FILE.test(file)).sort();
+  } catch {
+    // No packs directory means no custom templates
+    return [];
+  }
+
+  const templates: RuleTemplate[] = [];
+  for (const file of files) {
+    try {
+      const text = await readFile(path.join(dir, file), 'utf8');
+      const { bundle, error } = parseRuleBundle(text, detectBundleFormat(text, file));
+      if (!bundle) {
+        console.warn(`[TemplatePacks] Skipping ${file}: ${error}`);
+        continue;
+      }
+      templates.push(...bundle.templates);
+    } catch (error) {
+      console.warn(`[TemplatePacks] Failed to read ${file}:`, error);
+    }
+  }
+  return templates;
+}
+
+/**
+ * Built-in templates followed by custom ones. A custom template whose ID is
+ * already taken is skipped.
+ */
+export async function getAllTemplates(): Promise<RuleTemplate[]> {
+  const all = [...RULE_TEMPLATES];
+  const ids = new Set(all.map((template) => template.id));
+
+  for (const template of await loadCustomTemplates()) {
+    if (ids.has(template.id)) {
+      console.warn(`[TemplatePacks] Skipping template "${template.id}": the ID is already in use`);
+      continue;
+    }
+    ids.add(template.id);
+    all.push(template);
+  }
+  return all;
+}
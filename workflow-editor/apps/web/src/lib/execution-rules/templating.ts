@@ -0,0 +1,469 @@
+/**
+ * Templates for rule steps and output
+ *
+ * Action parameters, instructions and output templates can reference run data
+ * with {{ ... }} expressions:
+ * - {{trigger.payload.sender.email}}: trigger event data (also trigger.id,
+ *   trigger.slug and trigger.toolkit)
+ * - {{steps[0].result}}: an earlier step's result, 0-based (also .success and
+ *   .error); action results are objects, e.g. {{steps[1].result.data.ts}}
+ * - {{rule.name}}: rule metadata (also rule.id and rule.description)
+ * - {{now}} / {{today}}: the current time (ISO) and date (YYYY-MM-DD)
+ * - {{result}}: the run's final output (output templates only)
+ *
+ * Values can be piped through helpers, e.g.
+ * {{now | addDays:1 | date:"ddd D MMM"}} or {{trigger.payload.subject | default:"(none)"}}.
+ *
+ * Pure module — safe to import from client components for validation.
+ */
+
+import { parseFieldPath } from './conditions';
+import type { ExecutionRule, ExecutionStep, OutputConfig, StepResult, TriggerPayload } from './types';
+
+/**
+ * Data available to templates during a run
+ */
+export interface TemplateContext {
+  trigger: {
+    id: string;
+    slug: string;
+    toolkit: string;
+    payload: Record<string, unknown>;
+  };
+  /** Step results by step index; undefined for steps that have not run */
+  steps: Array<Pick<StepResult, 'type' | 'success' | 'result' | 'error'> | undefined>;
+  rule: {
+    id: string;
+    name: string;
+    description?: string;
+  };
+  now: Date;
+  /** Final output, only set for output templates */
+  result?: string;
+  /** IANA timezone for date helpers (defaults to UTC) */
+  timeZone?: string;
+}
+
+/**
+ * Where a template is used, which decides the references it may use
+ */
+export interface TemplateScope {
+  /** Index of the step the template belongs to; only earlier steps can be referenced */
+  stepIndex?: number;
+  /** Whether {{result}} is available (output templates) */
+  allowResult?: boolean;
+}
+
+const TEMPLATE_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+
+/** Fields under each root; null means any sub-path is allowed */
+const KNOWN_FIELDS: Record<string, Record<string, boolean> | null> = {
+  trigger: { id: false, slug: false, toolkit: false, payload: true },
+  rule: { id: false, name: false, description: false },
+  now: {},
+  today: {},
+  result: {},
+};
+
+/** Step result fields; `true` allows a sub-path */
+const STEP_FIELDS: Record<string, boolean> = { type: false, success: false, result: true, error: false };
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type HelperArg = string | number;
+
+interface TemplateHelper {
+  /** Argument required, optional or not accepted */
+  arg: 'required' | 'optional' | 'none';
+  apply: (value: unknown, arg: HelperArg | undefined, ctx: TemplateContext) => unknown;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function shiftDate(ms: number) {
+  return (value: unknown, arg: HelperArg | undefined) => {
+    const date = toDate(value);
+    const amount = Number(arg);
+    return date && Number.isFinite(amount) ? new Date(date.getTime() + amount * ms) : value;
+  };
+}
+
+/**
+ * Format a date with YYYY, MM, M, MMM, MMMM, DD, D, ddd, dddd, HH, mm and ss tokens
+ */
+export function formatTemplateDate(date: Date, format: string, timeZone = 'UTC'): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  const month = Number(part('month'));
+  const weekday = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday'));
+  const pad = (value: string | number) => String(value).padStart(2, '0');
+
+  const tokens: Record<string, string> = {
+    YYYY: part('year'),
+    MMMM: MONTHS[month - 1],
+    MMM: MONTHS[month - 1].slice(0, 3),
+    MM: pad(month),
+    M: String(month),
+    dddd: WEEKDAYS[weekday],
+    ddd: WEEKDAYS[weekday].slice(0, 3),
+    DD: pad(part('day')),
+    D: String(Number(part('day'))),
+    HH: pad(part('hour')),
+    mm: pad(part('minute')),
+    ss: pad(part('second')),
+  };
+
+  return format.replace(/YYYY|MMMM|MMM|MM|M|dddd|ddd|DD|D|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+const HELPERS: Record<string, TemplateHelper> = {
+  date: {
+    arg: 'optional',
+    apply: (value, arg, ctx) => {
+      const date = toDate(value);
+      if (!date) return value;
+      return arg === undefined ? date.toISOString() : formatTemplateDate(date, String(arg), ctx.timeZone);
+    },
+  },
+  addMinutes: { arg: 'required', apply: shiftDate(60 * 1000) },
+  addHours: { arg: 'required', apply: shiftDate(60 * 60 * 1000) },
+  addDays: { arg: 'required', apply: shiftDate(24 * 60 * 60 * 1000) },
+  default: {
+    arg: 'required',
+    apply: (value, arg) => (value === undefined || value === null || value === '' ? arg : value),
+  },
+  json: { arg: 'none', apply: (value) => JSON.stringify(value ?? null) },
+  upper: { arg: 'none', apply: (value) => stringify(value).toUpperCase() },
+  lower: { arg: 'none', apply: (value) => stringify(value).toLowerCase() },
+  truncate: {
+    arg: 'required',
+    apply: (value, arg) => {
+      const text = stringify(value);
+      const length = Number(arg);
+      return Number.isFinite(length) && text.length > length ? `${text.slice(0, length)}…` : text;
+    },
+  },
+};
+
+/**
+ * Names of the available helpers
+ */
+export const TEMPLATE_HELPERS = Object.keys(HELPERS);
+
+interface ParsedExpression {
+  path: string;
+  helpers: Array<{ name: string; arg?: HelperArg }>;
+}
+
+/**
+ * Split on a separator outside quotes
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Parse an expression like `now | addDays:1 | date:"YYYY-MM-DD"`.
+ * Returns an error message if it is malformed.
+ */
+function parseExpression(expression: string): ParsedExpression | string {
+  const [path, ...helperParts] = splitOutsideQuotes(expression, '|').map((part) => part.trim());
+  if (!path) return 'Empty template expression';
+
+  const helpers: ParsedExpression['helpers'] = [];
+  for (const part of helperParts) {
+    const match = part.match(/^([A-Za-z]+)(?::\s*(?:"([^"]*)"|'([^']*)'|(-?\d+(?:\.\d+)?)))?$/);
+    if (!match) return `Invalid helper "${part}"`;
+    const [, name, doubleQuoted, singleQuoted, number] = match;
+    const arg = doubleQuoted ?? singleQuoted ?? (number !== undefined ? Number(number) : undefined);
+    helpers.push({ name, arg });
+  }
+
+  return { path, helpers };
+}
+
+/**
+ * Check one reference against the known fields. Returns an error or null.
+ */
+function validateReference(path: string, scope: TemplateScope): string | null {
+  const segments = parseFieldPath(path);
+  if (!segments || segments.length === 0 || segments[0].kind !== 'key') {
+    return `Invalid reference "${path}"`;
+  }
+
+  const root = segments[0].key;
+  const [next, field] = segments.slice(1);
+
+  if (root === 'steps') {
+    if (!next || next.kind !== 'index') {
+      return `"${path}" must pick a step by index, e.g. steps[0].result`;
+    }
+    if (scope.stepIndex !== undefined && next.index >= scope.stepIndex) {
+      return `"${path}" refers to a step that has not run yet (steps are numbered from 0)`;
+    }
+    if (field && (field.kind !== 'key' || !(field.key in STEP_FIELDS))) {
+      return `Unknown step field in "${path}" (use result, success, error or type)`;
+    }
+    if (field?.kind === 'key' && !STEP_FIELDS[field.key] && segments.length > 3) {
+      return `"${path}" has no fields below ${field.key}`;
+    }
+    return null;
+  }
+
+  if (!(root in KNOWN_FIELDS)) {
+    return `Unknown reference "${path}" (use trigger, steps, rule, now, today or result)`;
+  }
+  if (root === 'result' && !scope.allowResult) {
+    return `"result" is only available in output templates`;
+  }
+
+  const fields = KNOWN_FIELDS[root];
+  if (!next || fields === null) return null;
+  if (next.kind !== 'key' || !(next.key in fields)) {
+    const names = Object.keys(fields);
+    return names.length > 0
+      ? `Unknown field in "${path}" (${root} has ${names.join(', ')})`
+      : `"${root}" has no fields`;
+  }
+  if (!fields[next.key] && segments.length > 2) {
+    return `"${path}" has no fields below ${root}.${next.key}`;
+  }
+  return null;
+}
+
+/**
+ * Find problems in a template: malformed expressions, unknown references and
+ * unknown helpers
+ */
+export function validateTemplate(template: string, scope: TemplateScope = {}): string[] {
+  const errors: string[] = [];
+
+  for (const match of template.matchAll(TEMPLATE_PATTERN)) {
+    const parsed = parseExpression(match[1]);
+    if (typeof parsed === 'string') {
+      errors.push(parsed);
+      continue;
+    }
+
+    const referenceError = validateReference(parsed.path, scope);
+    if (referenceError) errors.push(referenceError);
+
+    for (const helper of parsed.helpers) {
+      const definition = HELPERS[helper.name];
+      if (!definition) {
+        errors.push(`Unknown helper "${helper.name}" (available: ${TEMPLATE_HELPERS.join(', ')})`);
+      } else if (definition.arg === 'required' && helper.arg === undefined) {
+        errors.push(`Helper "${helper.name}" needs an argument, e.g. ${helper.name}:1`);
+      } else if (definition.arg === 'none' && helper.arg !== undefined) {
+        errors.push(`Helper "${helper.name}" does not take an argument`);
+      }
+    }
+  }
+
+  // Whatever is left after removing complete expressions must not open one
+  if (template.replace(TEMPLATE_PATTERN, '').includes('{{')) {
+    errors.push('Unclosed "{{" in template');
+  }
+
+  return errors;
+}
+
+/**
+ * Strings inside a parameter value, with their location
+ */
+function collectStrings(value: unknown, path: string, out: Array<{ path: string; text: string }>): void {
+  if (typeof value === 'string') {
+    out.push({ path, text: value });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => collectStrings(item, `${path}[${i}]`, out));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      collectStrings(item, path ? `${path}.${key}` : key, out);
+    }
+  }
+}
+
+/**
+ * Validate the templates in a rule's steps and output template.
+ * Returns the first problem found, or null.
+ */
+export function validateRuleTemplates(
+  steps: ExecutionStep[] | undefined,
+  outputConfig?: Pick<OutputConfig, 'template' | 'additionalTargets'>
+): string | null {
+  for (const [index, step] of (steps || []).entries()) {
+    const prefix = `Step ${index + 1}`;
+    const scope: TemplateScope = { stepIndex: index };
+
+    if (step.type === 'instruction' && typeof step.content === 'string') {
+      const [error] = validateTemplate(step.content, scope);
+      if (error) return `${prefix}: ${error}`;
+    } else if (step.type === 'action') {
+      const strings: Array<{ path: string; text: string }> = [];
+      collectStrings(step.parameters, '', strings);
+      for (const { path, text } of strings) {
+        const [error] = validateTemplate(text, scope);
+        if (error) return `${prefix}, parameter ${path}: ${error}`;
+      }
+    }
+  }
+
+  if (typeof outputConfig?.template === 'string') {
+    const [error] = validateTemplate(outputConfig.template, { allowResult: true });
+    if (error) return `Output template: ${error}`;
+  }
+
+  for (const [index, target] of (outputConfig?.additionalTargets || []).entries()) {
+    if (typeof target?.template !== 'string') continue;
+    const [error] = validateTemplate(target.template, { allowResult: true });
+    if (error) return `Output template for destination ${index + 2}: ${error}`;
+  }
+
+  return null;
+}
+
+/**
+ * Build the template context for a run
+ */
+export function buildTemplateContext(
+  rule: Pick<ExecutionRule, 'id' | 'name' | 'description' | 'scheduleTimezone'>,
+  payload: TriggerPayload,
+  stepResults: StepResult[],
+  result?: string
+): TemplateContext {
+  const steps: TemplateContext['steps'] = [];
+  for (const step of stepResults) {
+    steps[step.stepIndex] = { type: step.type, success: step.success, result: step.result, error: step.error };
+  }
+
+  return {
+    trigger: {
+      id: payload.id,
+      slug: payload.triggerSlug,
+      toolkit: payload.toolkitSlug,
+      payload: payload.payload || payload.originalPayload || {},
+    },
+    steps,
+    rule: { id: rule.id, name: rule.name, description: rule.description },
+    now: new Date(),
+    result,
+    timeZone: rule.scheduleTimezone,
+  };
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Evaluate one expression. Unknown references evaluate to undefined.
+ */
+function evaluateExpression(expression: string, ctx: TemplateContext): unknown {
+  const parsed = parseExpression(expression);
+  if (typeof parsed === 'string') return undefined;
+
+  const root = {
+    trigger: ctx.trigger,
+    steps: ctx.steps,
+    rule: ctx.rule,
+    now: ctx.now,
+    today: formatTemplateDate(ctx.now, 'YYYY-MM-DD', ctx.timeZone),
+    result: ctx.result,
+  };
+
+  let value: unknown = root;
+  for (const segment of parseFieldPath(parsed.path) || []) {
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+      value = undefined;
+      break;
+    }
+    if (segment.kind === 'index') {
+      value = Array.isArray(value) ? value[segment.index] : undefined;
+    } else if (segment.kind === 'key') {
+      value = (value as Record<string, unknown>)[segment.key];
+    } else {
+      value = Array.isArray(value) ? value : Object.values(value);
+    }
+  }
+
+  for (const helper of parsed.helpers) {
+    const definition = HELPERS[helper.name];
+    if (definition) value = definition.apply(value, helper.arg, ctx);
+  }
+
+  return value;
+}
+
+/**
+ * Render a template to a string. Missing values render as empty text and
+ * objects as JSON.
+ */
+export function renderTemplate(template: string, ctx: TemplateContext): string {
+  return template.replace(TEMPLATE_PATTERN, (_, expression: string) =>
+    stringify(evaluateExpression(expression, ctx))
+  );
+}
+
+/**
+ * Render the templates in action parameters. A string that is a single
+ * expression keeps the value's type, so {{steps[0].result.data}} can pass an
+ * object and {{trigger.payload.count}} a number.
+ */
+export function renderParameters<T>(value: T, ctx: TemplateContext): T {
+  if (typeof value === 'string') {
+    const single = value.match(/^\{\{([\s\S]*?)\}\}$/);
+    if (single && !single[1].includes('}}')) {
+      const result = evaluateExpression(single[1], ctx);
+      return (result instanceof Date ? result.toISOString() : result ?? '') as T;
+    }
+    return renderTemplate(value, ctx) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderParameters(item, ctx)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderParameters(item, ctx)])
+    ) as T;
+  }
+  return value;
+}
+
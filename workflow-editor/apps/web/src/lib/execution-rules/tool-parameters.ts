@@ -0,0 +1,88 @@
+/**
+ * Validation of action step parameters against a Composio tool's input schema
+ */
+
+import type { ToolInputSchema, ToolInputSchemaProperty } from '@/lib/composio/composio-service';
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default:
+      // Unknown or composite schema types are not checked
+      return true;
+  }
+}
+
+function validateValue(
+  value: unknown,
+  schema: ToolInputSchemaProperty,
+  path: string,
+  errors: string[]
+): void {
+  if (!matchesType(value, schema.type)) {
+    const article = /^[aeiou]/.test(schema.type) ? 'an' : 'a';
+    errors.push(`${path} must be ${article} ${schema.type}, got ${describeType(value)}`);
+    return;
+  }
+
+  if (schema.enum && schema.enum.length > 0 && !schema.enum.includes(value as string)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    const obj = value as Record<string, unknown>;
+    for (const [key, childSchema] of Object.entries(schema.properties)) {
+      if (obj[key] !== undefined) validateValue(obj[key], childSchema, `${path}.${key}`, errors);
+    }
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => validateValue(item, schema.items!, `${path}[${i}]`, errors));
+  }
+}
+
+/**
+ * Validate parameters against a tool input schema.
+ * Returns the list of problems (empty when valid).
+ */
+export function validateToolParameters(
+  schema: ToolInputSchema,
+  parameters: Record<string, unknown>
+): string[] {
+  const errors: string[] = [];
+
+  for (const name of schema.required || []) {
+    if (parameters[name] === undefined || parameters[name] === null || parameters[name] === '') {
+      errors.push(`Missing required parameter "${name}"`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(parameters)) {
+    const propertySchema = schema.properties[name];
+    if (!propertySchema) {
+      errors.push(`Unknown parameter "${name}"`);
+      continue;
+    }
+    if (value === undefined || value === null) continue;
+    validateValue(value, propertySchema, name, errors);
+  }
+
+  return errors;
+}
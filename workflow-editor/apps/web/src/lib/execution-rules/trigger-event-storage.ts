@@ -0,0 +1,118 @@
+/**
+ * Convex storage for the trigger event inbox
+ */
+
+import { convex, api } from '@/lib/convex';
+import type { TriggerEvent, TriggerEventStatus } from './types';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+function toISO(ts?: number | null): string | undefined {
+  return ts ? new Date(ts).toISOString() : undefined;
+}
+
+function parseRawPayload(raw: unknown): Record<string, unknown> {
+  try {
+    return JSON.parse(raw as string) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+function mapDoc(doc: Record<string, unknown>): TriggerEvent {
+  return {
+    id: doc._id as string,
+    eventId: doc.eventId as string,
+    userId: (doc.userId as string) || undefined,
+    triggerSlug: (doc.triggerSlug as string) || undefined,
+    rawPayload: parseRawPayload(doc.rawPayload),
+    status: doc.status as TriggerEventStatus,
+    attempts: (doc.attempts as number) || 0,
+    logIds: (doc.logIds as string[]) || [],
+    reason: (doc.reason as string) || undefined,
+    errorText: (doc.errorText as string) || undefined,
+    duplicateCount: (doc.duplicateCount as number) || 0,
+    receivedAt: toISO(doc.receivedAt as number) || new Date().toISOString(),
+    processedAt: toISO(doc.processedAt as number),
+  };
+}
+
+export const triggerEventStorage = {
+  /**
+   * Record an inbound event, deduplicating by eventId within the window
+   */
+  async record(event: {
+    eventId: string;
+    userId?: string;
+    triggerSlug?: string;
+    rawPayload: Record<string, unknown>;
+    dedupWindowMs: number;
+    skipReason?: string;
+  }): Promise<{ id: string; duplicate: boolean; status: TriggerEventStatus }> {
+    const result = await convex.mutation(api.triggerEvents.record, {
+      eventId: event.eventId,
+      userId: event.userId,
+      triggerSlug: event.triggerSlug,
+      rawPayload: JSON.stringify(event.rawPayload),
+      dedupWindowMs: event.dedupWindowMs,
+      skipReason: event.skipReason,
+    });
+    return { id: result.id as string, duplicate: result.duplicate, status: result.status };
+  },
+
+  /**
+   * Claim a batch of events for a worker, leasing them for leaseMs
+   */
+  async claim(workerId: string, options: { leaseMs: number; limit: number; maxAttempts: number }): Promise<TriggerEvent[]> {
+    const docs = await convex.mutation(api.triggerEvents.claim, {
+      workerId,
+      leaseMs: options.leaseMs,
+      limit: options.limit,
+      maxAttempts: options.maxAttempts,
+    });
+    return docs.map(mapDoc);
+  },
+
+  /**
+   * Extend the lease of a claimed event. Returns false if the lease was lost.
+   */
+  async renewLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    return await convex.mutation(api.triggerEvents.renewLease, {
+      id: id as Id<"trigger_events">,
+      workerId,
+      leaseMs,
+    });
+  },
+
+  /**
+   * Finish a claimed event. Returns false if the lease was lost.
+   */
+  async finish(
+    id: string,
+    workerId: string,
+    result: {
+      status: Exclude<TriggerEventStatus, 'processing'>;
+      logIds?: string[];
+      reason?: string;
+      errorText?: string;
+    }
+  ): Promise<boolean> {
+    return await convex.mutation(api.triggerEvents.finish, {
+      id: id as Id<"trigger_events">,
+      workerId,
+      status: result.status,
+      logIds: result.logIds?.map((logId) => logId as Id<"execution_logs">),
+      reason: result.reason,
+      errorText: result.errorText,
+    });
+  },
+
+  async getById(id: string): Promise<TriggerEvent | null> {
+    const doc = await convex.query(api.triggerEvents.get, { id: id as Id<"trigger_events"> });
+    return doc ? mapDoc(doc) : null;
+  },
+
+  async getByUserId(userId: string, limit = 50): Promise<TriggerEvent[]> {
+    const docs = await convex.query(api.triggerEvents.listByUser, { userId, limit });
+    return docs.map(mapDoc);
+  },
+};
@@ -0,0 +1,263 @@
+/**
+ * Trigger Event Worker
+ *
+ * Processes events from the trigger_events inbox. Events are claimed with a
+ * lease that the worker renews while the event's rules run; if the server
+ * stops mid-run the lease expires and the event is claimed again, up to
+ * TRIGGER_EVENT_MAX_ATTEMPTS times. Delivery is at-least-once: a rule that was
+ * running when the server stopped runs again.
+ *
+ * An event whose rule runs all failed is marked failed, not completed. It is
+ * not retried, since a failed run may already have performed some of its steps.
+ *
+ * The webhook route kicks the worker after recording an event, and a polling
+ * loop (started from instrumentation) picks up anything left behind. Each
+ * drain also runs debounced rules whose held event is due.
+ */
+
+import { executionRulesStorage } from './storage';
+import { triggerEventStorage } from './trigger-event-storage';
+import { triggerProcessingService } from './trigger-processing-service';
+import { buildTriggerPayload } from './webhook-payload';
+import type { TriggerEvent, TriggerEventStatus } from './types';
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
+/** Redeliveries of the same event ID within this window are ignored */
+export const DEDUP_WINDOW_MS = readPositiveInt('TRIGGER_EVENT_DEDUP_WINDOW_MS', 24 * 60 * 60 * 1000);
+
+/** How long a claimed event stays leased to a worker without a renewal */
+const LEASE_MS = readPositiveInt('TRIGGER_EVENT_LEASE_MS', 5 * 60 * 1000);
+
+/** How often the lease of an event being processed is renewed */
+const LEASE_RENEW_INTERVAL_MS = Math.max(1000, Math.floor(LEASE_MS / 3));
+
+/** Attempts before an event is marked failed */
+const MAX_ATTEMPTS = readPositiveInt('TRIGGER_EVENT_MAX_ATTEMPTS', 3);
+
+/** Events claimed per batch */
+const BATCH_SIZE = 10;
+
+/** Polling interval for the background loop */
+const POLL_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Result of draining the inbox
+ */
+export interface TriggerEventDrainResult {
+  claimed: number;
+  completed: number;
+  skipped: number;
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Trigger event worker
+ */
+class TriggerEventWorker {
+  private workerId = `worker-${crypto.randomUUID()}`;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private draining: Promise<TriggerEventDrainResult> | null = null;
+  private drainRequested = false;
+
+  /**
+   * Start the background polling loop
+   */
+  start(): void {
+    if (this.timer) return;
+    console.log(`[TriggerEventWorker] Started (${this.workerId}), polling every ${POLL_INTERVAL_MS / 1000}s`);
+    this.kick();
+    this.timer = setInterval(() => this.kick(), POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the background polling loop
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Drain the inbox in the background
+   */
+  kick(): void {
+    this.drain().catch((error) => {
+      console.error('[TriggerEventWorker] Drain failed:', error);
+    });
+  }
+
+  /**
+   * Process pending events until none are left.
+   * Concurrent calls share the running drain, which makes one more pass so
+   * events recorded meanwhile are not missed.
+   */
+  drain(): Promise<TriggerEventDrainResult> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return this.draining;
+    }
+
+    this.draining = this.runDrain().finally(() => {
+      this.draining = null;
+    });
+    return this.draining;
+  }
+
+  private async runDrain(): Promise<TriggerEventDrainResult> {
+    const totals: TriggerEventDrainResult = { claimed: 0, completed: 0, skipped: 0, retried: 0, failed: 0 };
+
+    do {
+      this.drainRequested = false;
+
+      let batch: TriggerEvent[];
+      do {
+        batch = await triggerEventStorage.claim(this.workerId, {
+          leaseMs: LEASE_MS,
+          limit: BATCH_SIZE,
+          maxAttempts: MAX_ATTEMPTS,
+        });
+        totals.claimed += batch.length;
+
+        for (const event of batch) {
+          const status = await this.processEvent(event);
+          if (status === 'completed') totals.completed++;
+          else if (status === 'skipped') totals.skipped++;
+          else if (status === 'pending') totals.retried++;
+          else totals.failed++;
+        }
+      } while (batch.length === BATCH_SIZE);
+    } while (this.drainRequested);
+
+    try {
+      await triggerProcessingService.flushDebounced();
+    } catch (error) {
+      console.error('[TriggerEventWorker] Failed to run debounced rules:', error);
+    }
+
+    if (totals.claimed > 0) {
+      console.log(
+        `[TriggerEventWorker] Processed ${totals.claimed} events: ${totals.completed} completed, ` +
+        `${totals.skipped} skipped, ${totals.retried} retried, ${totals.failed} failed`
+      );
+    }
+    return totals;
+  }
+
+  /**
+   * Process one claimed event and record the outcome
+   */
+  private async processEvent(event: TriggerEvent): Promise<Exclude<TriggerEventStatus, 'processing'>> {
+    let result: {
+      status: Exclude<TriggerEventStatus, 'processing'>;
+      logIds?: string[];
+      reason?: string;
+      errorText?: string;
+    };
+
+    // Keep the lease for as long as the rules take
+    const renewal = setInterval(() => {
+      triggerEventStorage
+        .renewLease(event.id, this.workerId, LEASE_MS)
+        .then((renewed) => {
+          if (!renewed) {
+            console.warn(`[TriggerEventWorker] Could not renew the lease on event ${event.eventId}`);
+          }
+        })
+        .catch((error) => {
+          console.error(`[TriggerEventWorker] Failed to renew the lease on event ${event.eventId}:`, error);
+        });
+    }, LEASE_RENEW_INTERVAL_MS);
+
+    try {
+      result = await this.runEvent(event);
+    } catch (error) {
+      const errorText = error instanceof Error ? error.message : 'Unknown error';
+      const retry = event.attempts < MAX_ATTEMPTS;
+      console.error(
+        `[TriggerEventWorker] Event ${event.eventId} failed (attempt ${event.attempts}/${MAX_ATTEMPTS}):`,
+        errorText
+      );
+      result = { status: retry ? 'pending' : 'failed', errorText };
+    } finally {
+      clearInterval(renewal);
+    }
+
+    const finished = await triggerEventStorage.finish(event.id, this.workerId, result);
+    if (!finished) {
+      console.warn(`[TriggerEventWorker] Lost the lease on event ${event.eventId}; another worker took it over`);
+    }
+    return result.status;
+  }
+
+  private async runEvent(event: TriggerEvent): Promise<{
+    status: Exclude<TriggerEventStatus, 'processing'>;
+    logIds?: string[];
+    reason?: string;
+    errorText?: string;
+  }> {
+    if (!event.userId) {
+      return { status: 'skipped', reason: 'No user_id in webhook payload' };
+    }
+
+    const hasRules = await executionRulesStorage.hasActiveRules(event.userId);
+    if (!hasRules) {
+      return { status: 'skipped', reason: 'No active rules' };
+    }
+
+    const payload = buildTriggerPayload(event.eventId, event.userId, event.rawPayload);
+    const processing = await triggerProcessingService.process(event.userId, payload);
+
+    // Nothing ran, so the failure happened before any rule did: safe to retry
+    if (processing.error && processing.outcomes.length === 0) {
+      throw new Error(processing.error);
+    }
+
+    for (const outcome of processing.outcomes) {
+      if (outcome.executed) {
+        console.log(
+          `[TriggerEventWorker] Successfully executed rule "${outcome.ruleName}" for trigger ${payload.triggerSlug}`
+        );
+      } else if (outcome.approvalId) {
+        console.log(`[TriggerEventWorker] Rule "${outcome.ruleName}" is waiting for approval`);
+      } else if (outcome.skippedReason) {
+        console.log(`[TriggerEventWorker] Rule "${outcome.ruleName}" held back: ${outcome.skippedReason}`);
+      } else {
+        console.log(
+          `[TriggerEventWorker] Rule "${outcome.ruleName}" matched but execution failed: ${outcome.error}`
+        );
+      }
+    }
+
+    const logIds = processing.outcomes.flatMap((outcome) => (outcome.logId ? [outcome.logId] : []));
+    const runs = processing.outcomes.filter((outcome) => !outcome.skippedReason);
+    const failures = runs.filter((outcome) => !outcome.executed && !outcome.approvalId);
+    if (failures.length > 0 && failures.length === runs.length) {
+      return {
+        status: 'failed',
+        logIds,
+        errorText: failures.map((outcome) => `${outcome.ruleName}: ${outcome.error || 'Unknown error'}`).join('; '),
+      };
+    }
+
+    return {
+      status: 'completed',
+      logIds,
+      reason: processing.matched
+        ? undefined
+        : processing.outcomes.length > 0
+          ? 'Held back by rule run limits'
+          : 'No rule matched',
+    };
+  }
+}
+
+// Export singleton instance
+export const triggerEventWorker = new TriggerEventWorker();
+
@@ -4,22 +4,47 @@
  * Orchestrates the flow of:
  * 1. Getting user's active rules
  * 2. Matching trigger against rules
- * 3. Executing the matched rule
- * 4. Sending output to destination
+ * 3. Executing every selected matched rule (fan-out)
+ * 4. Sending output to each of the rule's destinations (see output-delivery.ts)
+ *
+ * Runs that reach an approval step are paused and saved; resolveApproval
+ * resumes or cancels them. testRule runs the same checks against a sample
+ * payload as a dry run, without logging or sending anything.
+ *
+ * Every log stores the payload its run started from, so replay can run the rule
+ * again against it.
+ *
+ * Rules with run limits (see run-limits.ts) are checked before matching.
+ * Events a rate limit or cooldown holds back are logged as skipped. Events for
+ * debounced rules are held and run by flushDebounced once the burst is over;
+ * a held rule is matched on its own then, apart from the event's other rules.
  */
 
 import { executionRulesStorage } from './storage';
 import { executionLogStorage } from './execution-log-storage';
+import { ruleDebounceStorage, type HeldEvent } from './debounce-storage';
 import { ruleMatcherAgent } from './rule-matcher-agent';
 import { ruleExecutorAgent } from './rule-executor-agent';
+import { approvalStorage } from './approval-storage';
 import type {
   TriggerPayload,
   ExecutionRule,
   RuleExecutionResult,
   ProcessingResult,
-  OutputFormat,
-  ScheduleInterval,
+  RuleProcessingOutcome,
+  RuleMatch,
+  RuleMatchResult,
+  ApprovalStatus,
+  ExecutionApproval,
+  RuleTestResult,
+  ExecutionLogEntry,
 } from './types';
+import { prefilterRules, selectRulesToRun } from './matching';
+import { evaluateConditions } from './conditions';
+import { checkRunLimits, formatLimitDuration, hasRunLimits } from './run-limits';
+import { resolveOutputTargets } from './output-destinations';
+import { deliverOutputs, formatOutputMessage } from './output-delivery';
+import { ruleAtVersion } from './rule-versions';
 import { notificationsStorage } from '@/lib/notifications/storage';
 
 /**
@@ -29,8 +54,42 @@ interface ManualProcessingResult {
   success: boolean;
   output?: string;
   error?: string;
+  runId?: string; // Progress events of the run
+}
+
+/**
+ * Result of approving or rejecting a paused run
+ */
+export interface ApprovalResolutionResult {
+  success: boolean;
+  status?: Exclude<ApprovalStatus, 'pending'>;
+  logId?: string;
+  approvalId?: string; // Set when the resumed run paused at another approval step
+  error?: string;
+}
+
+/**
+ * Result of replaying a logged run
+ */
+export interface ReplayResult {
+  success: boolean;
+  logId?: string;
+  approvalId?: string; // Set when the replay paused at an approval step
+  error?: string;
 }
 
+/**
+ * Which definition of the rule a replay runs: the version that produced the
+ * original log, or the rule as it is now
+ */
+export type ReplayVersion = 'original' | 'current';
+
+/**
+ * Extra wait after a debounce ends before its held event is taken, so the
+ * flush timer doesn't fire just ahead of dueAt
+ */
+const DEBOUNCE_FLUSH_GRACE_MS = 250;
+
 /**
  * Result of scheduled execution
  */
@@ -45,6 +104,9 @@ interface ScheduledProcessingResult {
  * Trigger Processing Service class
  */
 class TriggerProcessingService {
+  /** Whether scheduled rules without a next run have been made due */
+  private scheduleBackfilled = false;
+
   /**
    * Process an incoming trigger for a user
    */
@@ -57,7 +119,7 @@ class TriggerProcessingService {
 
       if (rules.length === 0) {
         console.log(`[TriggerProcessing] User ${userId} has no active rules`);
-        return { matched: false, executed: false };
+        return { matched: false, outcomes: [] };
       }
 
       console.log(`[TriggerProcessing] Found ${rules.length} active rules for user ${userId}`);
@@ -71,7 +133,7 @@ class TriggerProcessingService {
         console.log(
           `[TriggerProcessing] No rules with trigger-eligible activation mode for user ${userId}`
         );
-        return { matched: false, executed: false };
+        return { matched: false, outcomes: [] };
       }
 
       console.log(
@@ -85,101 +147,590 @@ class TriggerProcessingService {
         console.log(
           `[TriggerProcessing] No rules accept trigger ${payload.triggerSlug}`
         );
-        return { matched: false, executed: false };
+        return { matched: false, outcomes: [] };
       }
 
       console.log(
         `[TriggerProcessing] ${applicableRules.length} rules accept trigger ${payload.triggerSlug}`
       );
 
-      // 4. Match trigger content against rules using AI
-      const matchResult = await ruleMatcherAgent.match(payload, applicableRules);
+      // 4. Apply run limits: skip throttled rules, hold the event for debounced ones
+      const limited = await this.applyRunLimits(applicableRules, payload, userId);
+      const limitOutcomes = limited.outcomes;
+      const candidateRules = limited.rules;
+
+      if (candidateRules.length === 0) {
+        console.log('[TriggerProcessing] Run limits held back every applicable rule');
+        return { matched: false, outcomes: limitOutcomes };
+      }
+
+      // 5. Check structured conditions before involving the AI
+      const { conditionMatches, aiRules, excluded } = prefilterRules(
+        candidateRules,
+        payload.payload || payload.originalPayload || {}
+      );
+
+      for (const { rule, reason } of excluded) {
+        console.log(`[TriggerProcessing] Rule "${rule.name}" excluded: ${reason}`);
+      }
+
+      // 6. Match the remaining rules using AI
+      let matchResult: RuleMatchResult = { matched: false, matches: [] };
+      if (aiRules.length > 0) {
+        matchResult = await ruleMatcherAgent.match(payload, aiRules);
+      } else {
+        console.log('[TriggerProcessing] Structured conditions decided every rule; skipping AI matching');
+      }
+
+      // Merge condition and AI matches back into priority order
+      const matches = [...conditionMatches, ...matchResult.matches].sort(
+        (a, b) => candidateRules.indexOf(a.rule) - candidateRules.indexOf(b.rule)
+      );
 
-      if (!matchResult.matched || !matchResult.rule) {
+      if (matches.length === 0) {
+        const reasoning = matchResult.reasoning || 'No rule passed its structured conditions';
         console.log(
-          `[TriggerProcessing] No rule matched. Reasoning: ${matchResult.reasoning}`
+          `[TriggerProcessing] No rule matched. Reasoning: ${reasoning}`
         );
-        return { matched: false, executed: false };
+        return { matched: false, outcomes: limitOutcomes, reasoning };
+      }
+
+      // 7. Pick the rules to run (fan-out, thresholds, exclusive rules)
+      const { selected, skipped } = selectRulesToRun(matches);
+
+      for (const { match, reason } of skipped) {
+        console.log(`[TriggerProcessing] Skipping matched rule "${match.rule.name}": ${reason}`);
       }
 
       console.log(
-        `[TriggerProcessing] Matched rule "${matchResult.rule.name}" (confidence: ${matchResult.confidence})`
+        `[TriggerProcessing] Running ${selected.length} matched rule(s): ${selected
+          .map((m) => `"${m.rule.name}" (confidence: ${m.confidence})`)
+          .join(', ')}`
       );
 
-      // 5. Execute the matched rule
-      const startTime = Date.now();
-      const executionResult = await ruleExecutorAgent.execute(
-        matchResult.rule,
-        payload,
-        userId
-      );
-      const durationMs = Date.now() - startTime;
+      // 8. Execute each selected rule in priority order
+      const outcomes: RuleProcessingOutcome[] = [...limitOutcomes];
+      for (const match of selected) {
+        outcomes.push(await this.runMatchedRule(match, payload, userId));
+      }
+
+      return {
+        matched: true,
+        outcomes,
+        reasoning: matchResult.reasoning,
+      };
+    } catch (error) {
+      console.error('[TriggerProcessing] Error processing trigger:', error);
+      return {
+        matched: false,
+        outcomes: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Check run limits ahead of matching. Rules that are rate limited or cooling
+   * down are skipped and logged; debounced rules hold the event. Events a
+   * rule's structured conditions reject are left to the prefilter, so they
+   * aren't logged as skipped and don't replace a held event.
+   */
+  private async applyRunLimits(
+    rules: ExecutionRule[],
+    payload: TriggerPayload,
+    userId: string
+  ): Promise<{ rules: ExecutionRule[]; outcomes: RuleProcessingOutcome[] }> {
+    const data = payload.payload || payload.originalPayload || {};
+    const result: { rules: ExecutionRule[]; outcomes: RuleProcessingOutcome[] } = { rules: [], outcomes: [] };
+    const now = Date.now();
+
+    for (const rule of rules) {
+      if (!hasRunLimits(rule) && !rule.debounceMs) {
+        result.rules.push(rule);
+        continue;
+      }
+      if (rule.conditions.length > 0 && !evaluateConditions(rule.conditions, data).passed) {
+        result.rules.push(rule);
+        continue;
+      }
+
+      const reason = checkRunLimits(rule, now);
+      if (reason) {
+        console.log(`[TriggerProcessing] Rule "${rule.name}" skipped: ${reason}`);
+        result.outcomes.push(await this.recordSkip(rule, payload, userId, reason));
+      } else if (rule.debounceMs) {
+        result.outcomes.push(await this.holdForDebounce(rule, payload, userId, rule.debounceMs));
+      } else {
+        result.rules.push(rule);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Hold an event for a debounced rule. The event it replaces, if any, is
+   * logged as skipped.
+   */
+  private async holdForDebounce(
+    rule: ExecutionRule,
+    payload: TriggerPayload,
+    userId: string,
+    debounceMs: number
+  ): Promise<RuleProcessingOutcome> {
+    const superseded = await ruleDebounceStorage.hold(rule.id, userId, payload, new Date(Date.now() + debounceMs));
+    this.scheduleDebounceFlush(debounceMs);
+
+    if (superseded) {
+      await this.recordSkip(rule, superseded, userId, 'Debounced: replaced by a newer event');
+    }
+
+    const skippedReason = `Debounced: runs ${formatLimitDuration(debounceMs)} after the last event of the burst`;
+    console.log(`[TriggerProcessing] Rule "${rule.name}" holding event ${payload.id}. ${skippedReason}`);
+    return { ruleId: rule.id, ruleName: rule.name, executed: false, skippedReason };
+  }
+
+  private scheduleDebounceFlush(debounceMs: number): void {
+    const timer = setTimeout(() => {
+      this.flushDebounced().catch((error) => {
+        console.error('[TriggerProcessing] Failed to run debounced rules:', error);
+      });
+    }, debounceMs + DEBOUNCE_FLUSH_GRACE_MS);
+    timer.unref?.();
+  }
+
+  /**
+   * Run debounced rules whose held event is due. Called by a timer after an
+   * event is held and by the trigger event worker's polling loop, which picks
+   * up events held before a restart. An event is taken before it runs, so it
+   * runs at most once.
+   */
+  async flushDebounced(now: Date = new Date()): Promise<RuleProcessingOutcome[]> {
+    const due = await ruleDebounceStorage.takeDue(now);
+    const outcomes: RuleProcessingOutcome[] = [];
+    for (const held of due) {
+      const outcome = await this.runHeldEvent(held);
+      if (outcome) outcomes.push(outcome);
+    }
+    return outcomes;
+  }
+
+  /**
+   * Match and run a debounced rule against its held event
+   */
+  private async runHeldEvent(held: HeldEvent): Promise<RuleProcessingOutcome | null> {
+    const { payload, userId } = held;
+    try {
+      const rule = await executionRulesStorage.getByIdAndUser(held.ruleId, userId);
+      if (!rule || !rule.isActive || (rule.activationMode !== 'trigger' && rule.activationMode !== 'all')) {
+        console.log(`[TriggerProcessing] Dropping held event ${payload.id}: rule ${held.ruleId} no longer runs on triggers`);
+        return null;
+      }
 
       console.log(
-        `[TriggerProcessing] Rule execution ${executionResult.success ? 'succeeded' : 'failed'}`
+        `[TriggerProcessing] Debounce ended for rule "${rule.name}" ` +
+        `(${held.supersededCount} earlier event${held.supersededCount === 1 ? '' : 's'} replaced)`
       );
 
-      // 5.5. Save execution log
-      const hasPartial = executionResult.stepResults.some(s => s.success) && executionResult.stepResults.some(s => !s.success);
-      try {
-        await executionLogStorage.create({
-          ruleId: matchResult.rule.id,
-          ruleName: matchResult.rule.name,
-          userId,
-          triggerSlug: payload.triggerSlug,
-          status: executionResult.success ? 'success' : hasPartial ? 'partial' : 'failure',
-          stepsJson: executionResult.stepResults,
-          outputText: executionResult.output,
-          errorText: executionResult.error,
-          durationMs,
-        });
-      } catch (logError) {
-        console.error('[TriggerProcessing] Failed to save execution log:', logError);
+      // The rule may have changed while the event was held
+      const { conditionMatches, aiRules } = prefilterRules([rule], payload.payload || payload.originalPayload || {});
+      const matches = aiRules.length > 0 ? (await ruleMatcherAgent.match(payload, aiRules)).matches : conditionMatches;
+      const { selected } = selectRulesToRun(matches);
+      if (selected.length === 0) {
+        console.log(`[TriggerProcessing] Held event ${payload.id} did not match rule "${rule.name}"`);
+        return null;
       }
 
-      // 5.6. Create notification
-      try {
-        await notificationsStorage.create({
-          userId,
-          type: executionResult.success ? 'execution_success' : 'execution_failure',
-          title: executionResult.success
-            ? `✅ ${matchResult.rule.name} completed`
-            : `❌ ${matchResult.rule.name} failed`,
-          body: executionResult.success
-            ? (executionResult.output?.slice(0, 200) || 'Rule executed successfully.')
-            : (executionResult.error?.slice(0, 200) || 'An unknown error occurred.'),
-          ruleId: matchResult.rule.id,
-          ruleName: matchResult.rule.name,
-        });
-      } catch (notifError) {
-        console.error('[TriggerProcessing] Failed to create notification:', notifError);
+      return await this.runMatchedRule(selected[0], payload, userId);
+    } catch (error) {
+      console.error(`[TriggerProcessing] Error running held event ${payload.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Log an event that a run limit kept from running the rule
+   */
+  private async recordSkip(
+    rule: ExecutionRule,
+    payload: TriggerPayload,
+    userId: string,
+    reason: string,
+    confidence?: number
+  ): Promise<RuleProcessingOutcome> {
+    let logId: string | undefined;
+    try {
+      const log = await executionLogStorage.create({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        userId,
+        triggerSlug: payload.triggerSlug,
+        status: 'skipped',
+        stepsJson: [],
+        skipReason: reason,
+        triggerId: payload.id,
+        matchConfidence: confidence,
+        triggerPayload: payload,
+        ruleVersionId: rule.versionId,
+        ruleVersion: rule.version,
+      });
+      logId = log.id;
+    } catch (logError) {
+      console.error('[TriggerProcessing] Failed to save skipped execution log:', logError);
+    }
+
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      confidence,
+      executed: false,
+      logId,
+      skippedReason: reason,
+    };
+  }
+
+  /**
+   * Execute one matched rule, log it and send its output.
+   * Failures are contained so the other matched rules still run.
+   */
+  private async runMatchedRule(
+    match: RuleMatch,
+    payload: TriggerPayload,
+    userId: string
+  ): Promise<RuleProcessingOutcome> {
+    const { rule, confidence } = match;
+
+    try {
+      // Count the run against the rule's limits; a concurrent event may have
+      // taken the last slot since the check before matching
+      if (hasRunLimits(rule) && !(await executionRulesStorage.claimRun(rule.id))) {
+        const latest = await executionRulesStorage.get(rule.id);
+        const reason = (latest && checkRunLimits(latest)) || 'Run limit reached';
+        console.log(`[TriggerProcessing] Rule "${rule.name}" skipped: ${reason}`);
+        return await this.recordSkip(rule, payload, userId, reason, confidence);
       }
 
-      // 6. Update execution stats
-      await executionRulesStorage.incrementExecutionCount(matchResult.rule.id);
+      const startTime = Date.now();
+      const executionResult = await ruleExecutorAgent.execute(rule, payload, userId);
+      const durationMs = Date.now() - startTime;
 
-      // 7. Send output if configured
-      if (matchResult.rule.outputConfig.platform !== 'none') {
-        await this.sendOutput(matchResult.rule, executionResult, userId);
+      if (executionResult.awaitingApproval) {
+        const approvalId = await this.pauseForApproval(rule, payload, userId, executionResult, confidence);
+        return {
+          ruleId: rule.id,
+          ruleName: rule.name,
+          confidence,
+          executed: false,
+          approvalId,
+        };
       }
 
+      console.log(
+        `[TriggerProcessing] Rule "${rule.name}" execution ${executionResult.success ? 'succeeded' : 'failed'}`
+      );
+
+      const logId = await this.recordRun(rule, executionResult, payload, userId, durationMs, confidence);
+
       return {
-        matched: true,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        confidence,
         executed: executionResult.success,
-        ruleName: matchResult.rule.name,
-        ruleId: matchResult.rule.id,
+        logId,
         error: executionResult.error,
       };
     } catch (error) {
-      console.error('[TriggerProcessing] Error processing trigger:', error);
+      console.error(`[TriggerProcessing] Error running rule "${rule.name}":`, error);
       return {
-        matched: false,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        confidence,
         executed: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       };
     }
   }
 
+  /**
+   * Save the log, notify, update stats and send the output of a finished run
+   */
+  private async recordRun(
+    rule: ExecutionRule,
+    executionResult: RuleExecutionResult,
+    payload: TriggerPayload,
+    userId: string,
+    durationMs: number,
+    confidence?: number,
+    replayOfLogId?: string
+  ): Promise<string | undefined> {
+    // Save execution log
+    let logId: string | undefined;
+    const hasPartial = executionResult.stepResults.some(s => s.success) && executionResult.stepResults.some(s => !s.success);
+    try {
+      const log = await executionLogStorage.create({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        userId,
+        triggerSlug: payload.triggerSlug,
+        status: executionResult.success ? 'success' : hasPartial ? 'partial' : 'failure',
+        stepsJson: executionResult.stepResults,
+        outputText: executionResult.output,
+        errorText: executionResult.error,
+        durationMs,
+        triggerId: payload.id,
+        matchConfidence: confidence,
+        triggerPayload: payload,
+        replayOfLogId,
+        ruleVersionId: rule.versionId,
+        ruleVersion: rule.version,
+        runId: executionResult.runId,
+      });
+      logId = log.id;
+    } catch (logError) {
+      console.error('[TriggerProcessing] Failed to save execution log:', logError);
+    }
+
+    // Create notification
+    try {
+      await notificationsStorage.create({
+        userId,
+        type: executionResult.success ? 'execution_success' : 'execution_failure',
+        title: executionResult.success
+          ? `✅ ${rule.name} completed`
+          : `❌ ${rule.name} failed`,
+        body: executionResult.success
+          ? (executionResult.output?.slice(0, 200) || 'Rule executed successfully.')
+          : (executionResult.error?.slice(0, 200) || 'An unknown error occurred.'),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        logId,
+      });
+    } catch (notifError) {
+      console.error('[TriggerProcessing] Failed to create notification:', notifError);
+    }
+
+    // Update execution stats
+    await executionRulesStorage.incrementExecutionCount(rule.id);
+
+    // Send output to the rule's destinations, if any
+    await this.sendOutput(rule, executionResult, payload, userId, logId);
+
+    return logId;
+  }
+
+  /**
+   * Save a run paused at an approval step and ask the user to review it
+   */
+  private async pauseForApproval(
+    rule: ExecutionRule,
+    payload: TriggerPayload,
+    userId: string,
+    executionResult: RuleExecutionResult,
+    confidence?: number
+  ): Promise<string> {
+    const paused = executionResult.awaitingApproval!;
+    const approvalId = await approvalStorage.create({
+      userId,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      paused,
+      triggerPayload: payload,
+      matchConfidence: confidence,
+      ruleVersionId: rule.versionId,
+      ruleVersion: rule.version,
+    });
+
+    try {
+      const latestResult = paused.previousResults[paused.previousResults.length - 1];
+      await notificationsStorage.create({
+        userId,
+        type: 'needs_approval',
+        title: `⏸️ ${rule.name} needs approval`,
+        body: (paused.message || latestResult || 'Review this run to continue.').slice(0, 200),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        approvalId,
+      });
+    } catch (notifError) {
+      console.error('[TriggerProcessing] Failed to create approval notification:', notifError);
+    }
+
+    console.log(`[TriggerProcessing] Rule "${rule.name}" is waiting for approval (${approvalId})`);
+    return approvalId;
+  }
+
+  /**
+   * Log a paused run that ends without being resumed, under the rule version it ran with
+   */
+  private async logUnresumedRun(approval: ExecutionApproval, stepError: string, errorText: string): Promise<string | undefined> {
+    try {
+      const log = await executionLogStorage.create({
+        ruleId: approval.ruleId,
+        ruleName: approval.ruleName,
+        userId: approval.userId,
+        triggerSlug: approval.triggerPayload.triggerSlug,
+        status: 'failure',
+        stepsJson: [
+          ...approval.stepResults,
+          { stepIndex: approval.stepIndex, type: 'approval', success: false, error: stepError },
+        ],
+        outputText: approval.previousResults.join('\n\n') || undefined,
+        errorText,
+        triggerId: approval.triggerPayload.id,
+        matchConfidence: approval.matchConfidence,
+        triggerPayload: approval.triggerPayload,
+        ruleVersionId: approval.ruleVersionId,
+        ruleVersion: approval.ruleVersion,
+      });
+      return log.id;
+    } catch (logError) {
+      console.error('[TriggerProcessing] Failed to save execution log:', logError);
+      return undefined;
+    }
+  }
+
+  /**
+   * Approve (resume) or reject (cancel) a run paused at an approval step.
+   * A run whose rule changed or was deleted while it waited is dropped, not resumed.
+   */
+  async resolveApproval(
+    approvalId: string,
+    userId: string,
+    decision: Exclude<ApprovalStatus, 'pending' | 'expired'>
+  ): Promise<ApprovalResolutionResult> {
+    const approval = await approvalStorage.resolve(approvalId, userId, decision);
+    if (!approval) {
+      return { success: false, error: 'Approval request not found or already resolved' };
+    }
+
+    console.log(`[TriggerProcessing] Approval ${approvalId} for rule "${approval.ruleName}" ${approval.status}`);
+
+    if (approval.status === 'rejected') {
+      const logId = await this.logUnresumedRun(approval, 'Rejected', 'Rejected by reviewer');
+      return { success: true, status: 'rejected', logId };
+    }
+
+    const payload = approval.triggerPayload;
+    const rule = await executionRulesStorage.getByIdAndUser(approval.ruleId, userId);
+    // Requests from before versions were recorded are checked by their step instead
+    const dropReason = !rule
+      ? 'The rule was deleted while waiting for approval'
+      : approval.status === 'expired' || rule.executionSteps[approval.stepIndex]?.type !== 'approval'
+        ? 'The rule changed while waiting for approval'
+        : undefined;
+    if (!rule || dropReason) {
+      const error = `${dropReason}; the run was not resumed`;
+      const logId = await this.logUnresumedRun(approval, 'Not resumed', error);
+      return { success: false, status: approval.status === 'expired' ? 'expired' : decision, logId, error };
+    }
+
+    try {
+      const startTime = Date.now();
+      const executionResult = await ruleExecutorAgent.execute(rule, payload, userId, {
+        stepIndex: approval.stepIndex,
+        message: approval.message,
+        stepResults: approval.stepResults,
+        previousResults: approval.previousResults,
+      });
+      const durationMs = Date.now() - startTime;
+
+      if (executionResult.awaitingApproval) {
+        const nextApprovalId = await this.pauseForApproval(
+          rule,
+          payload,
+          userId,
+          executionResult,
+          approval.matchConfidence
+        );
+        return { success: true, status: decision, approvalId: nextApprovalId };
+      }
+
+      const logId = await this.recordRun(rule, executionResult, payload, userId, durationMs, approval.matchConfidence);
+      return {
+        success: executionResult.success,
+        status: decision,
+        logId,
+        error: executionResult.error,
+      };
+    } catch (error) {
+      console.error(`[TriggerProcessing] Error resuming rule "${rule.name}":`, error);
+      return {
+        success: false,
+        status: decision,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Run a logged execution again against its stored payload.
+   * This is a real run: steps, notifications and output all happen again. The
+   * new log is linked to the original through replayOfLogId. A replay that
+   * pauses for approval only resumes while its rule version is current, so a
+   * replay of an earlier version cannot get past an approval step.
+   */
+  async replay(
+    userId: string,
+    original: ExecutionLogEntry,
+    version: ReplayVersion = 'current'
+  ): Promise<ReplayResult> {
+    if (!original.triggerPayload) {
+      return { success: false, error: 'This run has no stored payload to replay' };
+    }
+
+    let rule = await executionRulesStorage.getByIdAndUser(original.ruleId, userId);
+    if (!rule) {
+      return { success: false, error: 'Rule no longer exists' };
+    }
+
+    if (version === 'original' && original.ruleVersionId !== rule.versionId) {
+      const ruleVersion = original.ruleVersionId
+        ? await executionRulesStorage.getVersion(original.ruleVersionId)
+        : undefined;
+      if (!ruleVersion || ruleVersion.ruleId !== rule.id) {
+        return { success: false, error: 'The rule version this run used is not available' };
+      }
+      rule = ruleAtVersion(rule, ruleVersion);
+    }
+
+    console.log(
+      `[TriggerProcessing] Replaying log ${original.id} of rule "${rule.name}"` +
+        (rule.version ? ` at version ${rule.version}` : '')
+    );
+
+    try {
+      const payload = original.triggerPayload;
+      const startTime = Date.now();
+      const executionResult = await ruleExecutorAgent.execute(rule, payload, userId);
+      const durationMs = Date.now() - startTime;
+
+      if (executionResult.awaitingApproval) {
+        const approvalId = await this.pauseForApproval(
+          rule,
+          payload,
+          userId,
+          executionResult,
+          original.matchConfidence
+        );
+        return { success: true, approvalId };
+      }
+
+      const replayLogId = await this.recordRun(
+        rule,
+        executionResult,
+        payload,
+        userId,
+        durationMs,
+        original.matchConfidence,
+        original.id
+      );
+      return { success: executionResult.success, logId: replayLogId, error: executionResult.error };
+    } catch (error) {
+      console.error(`[TriggerProcessing] Error replaying rule "${rule.name}":`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
   /**
    * Process a manual invocation of a rule
    */
@@ -241,58 +792,28 @@ class TriggerProcessingService {
       );
       const durationMs = Date.now() - startTime;
 
+      if (executionResult.awaitingApproval) {
+        await this.pauseForApproval(rule, syntheticPayload, userId, executionResult);
+        return {
+          success: true,
+          runId: executionResult.runId,
+          output: `${executionResult.output ? `${executionResult.output}\n\n` : ''}Waiting for approval: ${
+            executionResult.awaitingApproval.message || 'review this run in your notifications to continue.'
+          }`,
+        };
+      }
+
       console.log(
         `[TriggerProcessing] Manual execution ${executionResult.success ? 'succeeded' : 'failed'}`
       );
 
-      // Save execution log
-      const hasPartial = executionResult.stepResults.some(s => s.success) && executionResult.stepResults.some(s => !s.success);
-      try {
-        await executionLogStorage.create({
-          ruleId: rule.id,
-          ruleName: rule.name,
-          userId,
-          triggerSlug: 'MANUAL_INVOCATION',
-          status: executionResult.success ? 'success' : hasPartial ? 'partial' : 'failure',
-          stepsJson: executionResult.stepResults,
-          outputText: executionResult.output,
-          errorText: executionResult.error,
-          durationMs,
-        });
-      } catch (logError) {
-        console.error('[TriggerProcessing] Failed to save execution log:', logError);
-      }
-
-      // Create notification
-      try {
-        await notificationsStorage.create({
-          userId,
-          type: executionResult.success ? 'execution_success' : 'execution_failure',
-          title: executionResult.success
-            ? `✅ ${rule.name} completed`
-            : `❌ ${rule.name} failed`,
-          body: executionResult.success
-            ? (executionResult.output?.slice(0, 200) || 'Rule executed successfully.')
-            : (executionResult.error?.slice(0, 200) || 'An unknown error occurred.'),
-          ruleId: rule.id,
-          ruleName: rule.name,
-        });
-      } catch (notifError) {
-        console.error('[TriggerProcessing] Failed to create notification:', notifError);
-      }
-
-      // Update execution stats
-      await executionRulesStorage.incrementExecutionCount(rule.id);
-
-      // Send output if configured
-      if (rule.outputConfig.platform !== 'none') {
-        await this.sendOutput(rule, executionResult, userId);
-      }
+      await this.recordRun(rule, executionResult, syntheticPayload, userId, durationMs);
 
       return {
         success: executionResult.success,
         output: executionResult.output,
         error: executionResult.error,
+        runId: executionResult.runId,
       };
     } catch (error) {
       console.error('[TriggerProcessing] Error processing manual invocation:', error);
@@ -317,12 +838,28 @@ class TriggerProcessingService {
     };
 
     try {
+      // Rules scheduled before next runs were tracked have none; make them due once per process
+      if (!this.scheduleBackfilled) {
+        const backfilled = await executionRulesStorage.backfillScheduleNextRun();
+        this.scheduleBackfilled = true;
+        if (backfilled > 0) {
+          console.log(`[TriggerProcessing] Set the next run of ${backfilled} scheduled rules`);
+        }
+      }
+
       // Get all rules that are due to run
       const dueRules = await executionRulesStorage.getScheduledRulesDue();
 
       console.log(`[TriggerProcessing] Found ${dueRules.length} scheduled rules due to run`);
 
       for (const rule of dueRules) {
+        // Advance the schedule first so a concurrent scheduler can't run it twice
+        const claimed = await executionRulesStorage.updateScheduleRun(rule);
+        if (!claimed) {
+          console.log(`[TriggerProcessing] Scheduled rule "${rule.name}" already claimed, skipping`);
+          continue;
+        }
+
         result.rulesProcessed++;
 
         try {
@@ -335,7 +872,9 @@ class TriggerProcessingService {
             userId: rule.userId,
             payload: {
               scheduledAt: new Date().toISOString(),
-              interval: rule.scheduleInterval,
+              ...(rule.scheduleType === 'cron'
+                ? { cron: rule.scheduleCron, timezone: rule.scheduleTimezone || 'UTC' }
+                : { interval: rule.scheduleInterval }),
             },
             originalPayload: {
               scheduledAt: new Date().toISOString(),
@@ -366,54 +905,13 @@ class TriggerProcessingService {
           );
           const durationMs = Date.now() - startTime;
 
-          // Save execution log
-          const hasPartial = executionResult.stepResults.some(s => s.success) && executionResult.stepResults.some(s => !s.success);
-          try {
-            await executionLogStorage.create({
-              ruleId: rule.id,
-              ruleName: rule.name,
-              userId: rule.userId,
-              triggerSlug: 'SCHEDULED_EXECUTION',
-              status: executionResult.success ? 'success' : hasPartial ? 'partial' : 'failure',
-              stepsJson: executionResult.stepResults,
-              outputText: executionResult.output,
-              errorText: executionResult.error,
-              durationMs,
-            });
-          } catch (logError) {
-            console.error('[TriggerProcessing] Failed to save execution log:', logError);
-          }
-
-          // Create notification
-          try {
-            await notificationsStorage.create({
-              userId: rule.userId,
-              type: executionResult.success ? 'execution_success' : 'execution_failure',
-              title: executionResult.success
-                ? `✅ ${rule.name} completed`
-                : `❌ ${rule.name} failed`,
-              body: executionResult.success
-                ? (executionResult.output?.slice(0, 200) || 'Scheduled rule executed successfully.')
-                : (executionResult.error?.slice(0, 200) || 'An unknown error occurred.'),
-              ruleId: rule.id,
-              ruleName: rule.name,
-            });
-          } catch (notifError) {
-            console.error('[TriggerProcessing] Failed to create notification:', notifError);
-          }
-
-          // Update schedule timestamps
-          if (rule.scheduleInterval) {
-            await executionRulesStorage.updateScheduleRun(
-              rule.id,
-              rule.scheduleInterval as ScheduleInterval
-            );
+          if (executionResult.awaitingApproval) {
+            await this.pauseForApproval(rule, syntheticPayload, rule.userId, executionResult);
+            result.rulesSucceeded++;
+            continue;
           }
 
-          // Send output if configured
-          if (rule.outputConfig.platform !== 'none') {
-            await this.sendOutput(rule, executionResult, rule.userId);
-          }
+          await this.recordRun(rule, executionResult, syntheticPayload, rule.userId, durationMs);
 
           if (executionResult.success) {
             result.rulesSucceeded++;
@@ -449,6 +947,70 @@ class TriggerProcessingService {
     }
   }
 
+  /**
+   * Test a rule against a sample payload: explain whether it would match and,
+   * with `execute`, dry-run its steps. Nothing is logged, sent or counted.
+   */
+  async testRule(
+    userId: string,
+    rule: ExecutionRule,
+    payload: TriggerPayload,
+    execute: boolean
+  ): Promise<RuleTestResult> {
+    console.log(`[TriggerProcessing] Testing rule "${rule.name}" with ${payload.triggerSlug}`);
+
+    const result: RuleTestResult = {
+      acceptsTrigger:
+        (rule.activationMode === 'trigger' || rule.activationMode === 'all') &&
+        this.filterByAcceptedTriggers([rule], payload.triggerSlug).length > 0,
+      conditionsPassed: true,
+      wouldRun: false,
+    };
+
+    // Same matching as process(), for this rule alone
+    const { conditionMatches, aiRules, excluded } = prefilterRules(
+      [rule],
+      payload.payload || payload.originalPayload || {}
+    );
+
+    let match: RuleMatch | undefined = conditionMatches[0];
+    if (excluded.length > 0) {
+      result.conditionsPassed = false;
+      result.conditionsReason = excluded[0].reason;
+    } else if (match) {
+      result.conditionsReason = match.reasoning;
+      result.confidence = match.confidence;
+    } else if (aiRules.length > 0) {
+      const matchResult = await ruleMatcherAgent.match(payload, aiRules);
+      match = matchResult.matches[0];
+      result.aiMatched = Boolean(match);
+      result.confidence = match?.confidence ?? matchResult.confidence;
+      result.reasoning = match?.reasoning || matchResult.reasoning;
+    }
+
+    if (match) {
+      const { skipped } = selectRulesToRun([match]);
+      result.skippedReason = skipped[0]?.reason;
+      result.wouldRun = result.acceptsTrigger && !result.skippedReason;
+    }
+
+    if (execute) {
+      const execution = await ruleExecutorAgent.execute(rule, payload, userId, undefined, { dryRun: true });
+      result.execution = execution;
+
+      const targets = resolveOutputTargets(rule.outputConfig);
+      if (targets.length > 0) {
+        result.outputs = targets.map((target) => ({
+          platform: target.platform,
+          destination: target.destination,
+          message: formatOutputMessage(rule, execution, payload, target),
+        }));
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Filter rules by accepted triggers
    */
@@ -466,160 +1028,24 @@ class TriggerProcessingService {
   }
 
   /**
-   * Send output to configured destination
+   * Send a run's output to the rule's destinations and record each delivery
+   * on the run's log. Delivery failures don't fail the run.
    */
   private async sendOutput(
     rule: ExecutionRule,
     result: RuleExecutionResult,
-    userId: string
+    payload: TriggerPayload,
+    userId: string,
+    logId?: string
   ): Promise<void> {
-    const { platform, destination, format, template } = rule.outputConfig;
-
-    // Format the output message
-    const message = this.formatOutput(result, format, template);
-
-    console.log(
-      `[TriggerProcessing] Sending output to ${platform}${destination ? `:${destination}` : ''}`
-    );
+    const deliveries = await deliverOutputs(rule, result, payload, userId, logId);
+    if (!logId || deliveries.length === 0) return;
 
     try {
-      switch (platform) {
-        case 'slack':
-          await this.sendToSlack(destination!, message, userId);
-          break;
-        case 'gmail':
-          await this.sendToGmail(destination!, rule.name, message, userId);
-          break;
-        case 'webhook':
-          await this.sendToWebhook(destination!, rule.name, result);
-          break;
-        default:
-          console.log(`[TriggerProcessing] Unknown platform: ${platform}`);
-      }
+      await executionLogStorage.setOutputDeliveries(logId, deliveries);
     } catch (error) {
-      console.error(`[TriggerProcessing] Failed to send output to ${platform}:`, error);
-    }
-  }
-
-  /**
-   * Format output message based on format and template
-   */
-  private formatOutput(
-    result: RuleExecutionResult,
-    format: OutputFormat,
-    template?: string
-  ): string {
-    if (template) {
-      return template.replace(/\{\{result\}\}/g, result.output || '');
-    }
-
-    switch (format) {
-      case 'summary':
-        return `Rule "${result.ruleName}" executed ${result.success ? 'successfully' : 'with errors'}.\n\n${result.output || ''}`;
-      case 'detailed':
-        return JSON.stringify(result, null, 2);
-      case 'raw':
-        return result.output || '';
-      default:
-        return result.output || '';
-    }
-  }
-
-  /**
-   * Send message to Slack
-   */
-  private async sendToSlack(
-    channel: string,
-    message: string,
-    userId: string
-  ): Promise<void> {
-    // Use the existing Composio service to send Slack message
-    const { Composio } = await import('@composio/core');
-    const { OpenAIAgentsProvider } = await import('@composio/openai-agents');
-
-    const composio = new Composio({
-      apiKey: process.env.COMPOSIO_API_KEY!,
-      provider: new OpenAIAgentsProvider(),
-    });
-
-    const authConfigs: Record<string, string> = {};
-    if (process.env.SLACK_AUTH_CONFIG_ID) {
-      authConfigs.slack = process.env.SLACK_AUTH_CONFIG_ID;
+      console.error('[TriggerProcessing] Failed to record output deliveries:', error);
     }
-
-    const session = await composio.create(userId, { authConfigs });
-    const tools = await session.tools();
-
-    // Use the agent to send the message
-    const { Agent, run } = await import('@openai/agents');
-    const { getMinimaxModel } = await import('../minimax-model');
-    const agent = new Agent({
-      name: 'Slack Sender',
-      instructions: 'Send the provided message to the specified Slack channel.',
-      model: getMinimaxModel(),
-      tools,
-    });
-
-    await run(agent, `Send this message to channel ${channel}: ${message}`);
-  }
-
-  /**
-   * Send email via Gmail
-   */
-  private async sendToGmail(
-    to: string,
-    subject: string,
-    body: string,
-    userId: string
-  ): Promise<void> {
-    const { Composio } = await import('@composio/core');
-    const { OpenAIAgentsProvider } = await import('@composio/openai-agents');
-
-    const composio = new Composio({
-      apiKey: process.env.COMPOSIO_API_KEY!,
-      provider: new OpenAIAgentsProvider(),
-    });
-
-    const authConfigs: Record<string, string> = {};
-    if (process.env.GMAIL_AUTH_CONFIG_ID) {
-      authConfigs.gmail = process.env.GMAIL_AUTH_CONFIG_ID;
-    }
-
-    const session = await composio.create(userId, { authConfigs });
-    const tools = await session.tools();
-
-    const { Agent, run } = await import('@openai/agents');
-    const { getMinimaxModel } = await import('../minimax-model');
-    const agent = new Agent({
-      name: 'Gmail Sender',
-      instructions: 'Send the provided email to the specified recipient.',
-      model: getMinimaxModel(),
-      tools,
-    });
-
-    await run(
-      agent,
-      `Send an email to ${to} with subject "Automation Result: ${subject}" and body: ${body}`
-    );
-  }
-
-  /**
-   * Send to webhook
-   */
-  private async sendToWebhook(
-    url: string,
-    ruleName: string,
-    result: RuleExecutionResult
-  ): Promise<void> {
-    await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        rule: ruleName,
-        result,
-        timestamp: new Date().toISOString(),
-      }),
-    });
   }
 }
 
@@ -18,10 +18,68 @@ export type ActivationMode = 'trigger' | 'manual' | 'scheduled' | 'all';
  */
 export type ScheduleInterval = '15min' | 'hourly' | 'daily' | 'weekly';
 
+/**
+ * How a scheduled rule's run times are defined
+ * - 'interval': fixed ScheduleInterval (default)
+ * - 'cron': 5-field cron expression evaluated in scheduleTimezone
+ */
+export type ScheduleType = 'interval' | 'cron';
+
+/**
+ * How a rule takes part in trigger matching
+ * - 'first': only the highest-priority matching rule runs (default)
+ * - 'all': runs whenever it matches at or above its confidence threshold,
+ *   alongside any other matching rules (fan-out)
+ */
+export type MatchMode = 'first' | 'all';
+
+/**
+ * Operators for structured match conditions
+ */
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'regex'
+  | 'in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'exists';
+
+/**
+ * Deterministic condition checked against the trigger payload before AI matching
+ */
+export interface StructuredCondition {
+  field: string; // JSONPath-style path into the payload, e.g. "$.sender.email"
+  operator: ConditionOperator;
+  value?: unknown; // List of values for 'in'; unused for 'exists'
+}
+
+/**
+ * At most maxRuns trigger runs of a rule start within any windowMs period
+ */
+export interface RuleRateLimit {
+  maxRuns: number;
+  windowMs: number;
+}
+
 /**
  * Output platforms for rule execution results
  */
-export type OutputPlatform = 'slack' | 'gmail' | 'webhook' | 'none';
+export type OutputPlatform =
+  | 'slack'
+  | 'gmail'
+  | 'notion'
+  | 'artifact'
+  | 'webhook'
+  | 'none';
+
+/**
+ * Platforms that deliver output somewhere (see output-destinations.ts)
+ */
+export type OutputDestinationType = Exclude<OutputPlatform, 'none'>;
 
 /**
  * Output format options
@@ -36,12 +94,70 @@ export interface OutputConfig {
   destination?: string; // channel ID, email, webhook URL
   format: OutputFormat;
   template?: string; // Message template with {{result}} placeholders
+  additionalTargets?: OutputTarget[]; // Further destinations, sent after the one above
+}
+
+/**
+ * One destination of a rule's output, with its own format and template
+ */
+export interface OutputTarget {
+  platform: OutputDestinationType;
+  destination?: string;
+  format: OutputFormat;
+  template?: string;
+}
+
+/**
+ * Delivery of a run's output to one destination
+ */
+export interface OutputDelivery {
+  platform: OutputDestinationType;
+  destination?: string;
+  status: 'delivered' | 'failed';
+  error?: string;
+  detail?: string; // e.g. the ID of the created message or entry
+  webhookDeliveryId?: string; // Webhook destinations: the delivery record with every attempt
+  durationMs: number;
+  attemptedAt: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * One attempt of a webhook delivery
+ */
+export interface WebhookDeliveryAttempt {
+  attempt: number; // 1-based
+  statusCode?: number;
+  responseSnippet?: string; // Start of the response body
+  error?: string;
+  durationMs: number;
+  attemptedAt: string;
+}
+
+/**
+ * A signed POST of a rule's output to a webhook destination, with its attempts
+ */
+export interface WebhookDelivery {
+  id: string;
+  userId: string;
+  ruleId: string;
+  ruleName: string;
+  logId?: string;
+  url: string;
+  body?: string; // Unset when the body was too large to keep
+  bodyBytes: number;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  redeliveryOfId?: string; // Set on manual redeliveries
+  createdAt: string;
+  updatedAt: string;
 }
 
 /**
  * Instruction-based execution step (AI interprets)
  */
-export interface InstructionStep {
+export interface InstructionStep extends StepPolicy {
   type: 'instruction';
   content: string; // Human language instruction for AI
 }
@@ -49,16 +165,58 @@ export interface InstructionStep {
 /**
  * Structured action execution step (direct tool call)
  */
-export interface ActionStep {
+export interface ActionStep extends StepPolicy {
   type: 'action';
   toolName: string; // Composio tool name, e.g., "GMAIL_SEND_EMAIL"
   parameters: Record<string, unknown>; // Tool parameters
 }
 
+/**
+ * Error classes a retry policy can retry on
+ */
+export type StepErrorClass = 'timeout' | 'rate_limit' | 'network' | 'server' | 'other';
+
+/**
+ * Retry policy for a step
+ * Delays double after each failed attempt: backoffMs, 2 * backoffMs, ...
+ */
+export interface StepRetryPolicy {
+  maxAttempts: number; // Including the first attempt
+  backoffMs?: number; // Delay before the first retry (default 1000)
+  maxBackoffMs?: number; // Upper bound for the delay (default 30000)
+  retryOn?: StepErrorClass[]; // Defaults to timeout, rate_limit, network and server (only rate_limit for actions)
+}
+
+/**
+ * What to do when a step fails after its last attempt
+ * - stop: end the run (default)
+ * - continue: go on with the next step
+ * - fallback: jump to `fallbackStep`, skipping the steps in between
+ */
+export type StepErrorPolicy = 'stop' | 'continue' | 'fallback';
+
+/**
+ * Retry, timeout and error handling options shared by instruction and action steps
+ */
+export interface StepPolicy {
+  retry?: StepRetryPolicy;
+  timeoutMs?: number; // Per attempt
+  onError?: StepErrorPolicy;
+  fallbackStep?: number; // 0-based index of a later step, for onError "fallback"
+}
+
+/**
+ * Human approval step: pauses the run until the user approves or rejects it
+ */
+export interface ApprovalStep {
+  type: 'approval';
+  message?: string; // Shown to the reviewer, e.g. "Check the reply before it is sent"
+}
+
 /**
  * Union type for execution steps
  */
-export type ExecutionStep = InstructionStep | ActionStep;
+export type ExecutionStep = InstructionStep | ActionStep | ApprovalStep;
 
 /**
  * Stored execution rule
@@ -82,8 +240,26 @@ export interface ExecutionRule {
   activationMode: ActivationMode;
   scheduleEnabled: boolean;
   scheduleInterval?: ScheduleInterval;
+  scheduleType: ScheduleType;
+  scheduleCron?: string; // e.g. "30 8 * * 1-5"
+  scheduleTimezone?: string; // IANA name, e.g. "America/New_York" (defaults to UTC)
   scheduleLastRun?: string;
   scheduleNextRun?: string;
+  // Matching fields
+  matchMode: MatchMode;
+  matchThreshold?: number; // 0-1, minimum confidence for 'all' mode (defaults to DEFAULT_MATCH_THRESHOLD)
+  exclusive: boolean; // When this rule runs, lower-priority rules are not run
+  // Structured pre-filter fields
+  conditions: StructuredCondition[]; // All must pass for the rule to be considered
+  conditionsOnly: boolean; // Conditions alone decide the match; the AI matcher is skipped
+  // Trigger run limits, checked before matching
+  rateLimit?: RuleRateLimit;
+  cooldownMs?: number; // Minimum time between the starts of two trigger runs
+  debounceMs?: number; // Wait this long for a quieter moment, then run only the latest event
+  recentRuns: string[]; // Start times of the latest trigger runs, oldest first
+  // Version history
+  versionId?: string; // Version holding the rule's current definition
+  version?: number;
 }
 
 /**
@@ -102,6 +278,47 @@ export interface ExecutionRuleInput {
   activationMode?: ActivationMode;
   scheduleEnabled?: boolean;
   scheduleInterval?: ScheduleInterval;
+  scheduleType?: ScheduleType;
+  scheduleCron?: string;
+  scheduleTimezone?: string;
+  // Matching fields
+  matchMode?: MatchMode;
+  matchThreshold?: number;
+  exclusive?: boolean;
+  // Structured pre-filter fields
+  conditions?: StructuredCondition[];
+  conditionsOnly?: boolean;
+  // Trigger run limits; null removes a limit on update
+  rateLimit?: RuleRateLimit | null;
+  cooldownMs?: number | null;
+  debounceMs?: number | null;
+}
+
+/**
+ * Where a change to a rule came from. 'baseline' marks the state of a rule
+ * created before version history existed, recorded before its first change.
+ */
+export type RuleChangeSource = 'ui' | 'assistant' | 'api' | 'import' | 'rollback' | 'baseline';
+
+/**
+ * Rule fields captured in each version (everything but whether it is active)
+ */
+export type RuleSnapshot = Partial<Omit<ExecutionRuleInput, 'isActive'>>;
+
+/**
+ * A saved version of a rule's definition
+ */
+export interface ExecutionRuleVersion {
+  id: string;
+  ruleId: string;
+  userId: string;
+  version: number;
+  snapshot: RuleSnapshot;
+  changedFields: (keyof RuleSnapshot)[];
+  source: RuleChangeSource;
+  changedBy?: string;
+  restoredFromVersion?: number; // Set on rollbacks
+  createdAt: string;
 }
 
 /**
@@ -133,14 +350,26 @@ export interface TriggerPayload {
   };
 }
 
+/**
+ * A single rule judged to match a trigger
+ */
+export interface RuleMatch {
+  rule: ExecutionRule;
+  confidence: number;
+  reasoning?: string;
+}
+
 /**
  * Result of rule matching
+ * `rule`/`confidence` describe the highest-priority match; `matches` lists every
+ * matching rule in priority order.
  */
 export interface RuleMatchResult {
   matched: boolean;
   rule?: ExecutionRule;
   confidence?: number;
   reasoning?: string;
+  matches: RuleMatch[];
 }
 
 /**
@@ -148,10 +377,24 @@ export interface RuleMatchResult {
  */
 export interface StepResult {
   stepIndex: number;
-  type: 'instruction' | 'action';
+  type: ExecutionStep['type'];
   success: boolean;
   result?: unknown;
   error?: string;
+  attempts?: StepAttempt[]; // Set for instruction and action steps
+  errorHandled?: Exclude<StepErrorPolicy, 'stop'>; // How a failure was handled, if the run went on
+}
+
+/**
+ * A single attempt at running a step
+ */
+export interface StepAttempt {
+  attempt: number; // 1-based
+  success: boolean;
+  error?: string;
+  errorClass?: StepErrorClass;
+  startedAt: string;
+  durationMs: number;
 }
 
 /**
@@ -166,16 +409,95 @@ export interface RuleExecutionResult {
   output?: string;
   error?: string;
   executedAt: string;
+  awaitingApproval?: PausedExecution; // Set when the run stopped at an approval step
+  dryRunCalls?: DryRunToolCall[]; // Set for dry runs: tool calls reported instead of performed
+  runId?: string; // Progress events of the run; unset for dry runs
+}
+
+/**
+ * A tool call a dry run would have made
+ */
+export interface DryRunToolCall {
+  stepIndex: number;
+  toolName: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Result of testing a rule against a sample payload
+ */
+export interface RuleTestResult {
+  acceptsTrigger: boolean; // Activation mode and accepted triggers allow this trigger
+  conditionsPassed: boolean;
+  conditionsReason?: string; // The failing condition, or why conditions alone decided the match
+  aiMatched?: boolean; // Unset when AI matching was not needed
+  confidence?: number;
+  reasoning?: string;
+  wouldRun: boolean;
+  skippedReason?: string; // Why a match would still not run, e.g. below the threshold
+  execution?: RuleExecutionResult; // Set when the steps were dry-run
+  outputs?: Array<{ platform: OutputDestinationType; destination?: string; message: string }>; // Not sent
+}
+
+/**
+ * State of a run paused at an approval step, enough to resume it
+ */
+export interface PausedExecution {
+  stepIndex: number; // Index of the approval step
+  message?: string;
+  stepResults: StepResult[]; // Results of the steps before the approval step
+  previousResults: string[];
+}
+
+/**
+ * Status of an approval request. An approved run whose rule changed while it
+ * waited is expired instead: it is dropped rather than resumed.
+ */
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+/**
+ * Stored approval request for a paused rule run
+ */
+export interface ExecutionApproval {
+  id: string;
+  userId: string;
+  ruleId: string;
+  ruleName: string;
+  stepIndex: number;
+  message?: string;
+  stepResults: StepResult[];
+  previousResults: string[];
+  triggerPayload: TriggerPayload;
+  matchConfidence?: number;
+  ruleVersionId?: string; // Rule version the paused run uses
+  ruleVersion?: number;
+  status: ApprovalStatus;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+/**
+ * Outcome of running one matched rule for a trigger
+ */
+export interface RuleProcessingOutcome {
+  ruleId: string;
+  ruleName: string;
+  confidence?: number;
+  executed: boolean;
+  logId?: string;
+  approvalId?: string; // Set when the run is paused at an approval step
+  skippedReason?: string; // Set when a run limit stopped or deferred the rule
+  error?: string;
 }
 
 /**
- * Result of trigger processing
+ * Result of trigger processing, with one outcome per rule that ran or was
+ * held back by its run limits
  */
 export interface ProcessingResult {
   matched: boolean;
-  executed: boolean;
-  ruleId?: string;
-  ruleName?: string;
+  outcomes: RuleProcessingOutcome[];
+  reasoning?: string;
   error?: string;
 }
 
@@ -188,23 +510,149 @@ export interface ExecutionLogEntry {
   ruleName: string;
   userId: string;
   triggerSlug: string;
-  status: 'success' | 'failure' | 'partial';
+  status: 'success' | 'failure' | 'partial' | 'skipped';
   stepsJson: StepResult[];
   outputText?: string;
   errorText?: string;
+  skipReason?: string; // Why a run limit held the event back; set on skipped logs
   durationMs?: number;
+  triggerId?: string; // Trigger event ID, shared by every rule run for the same event
+  matchConfidence?: number;
+  triggerPayload?: TriggerPayload; // Redacted and size-capped; used to replay the run
+  payloadTruncated?: boolean; // Parts of the payload were shortened or dropped
+  replayOfLogId?: string; // Set on replays: the log of the run that was replayed
+  ruleVersionId?: string; // Version of the rule that ran
+  ruleVersion?: number;
+  outputDeliveries?: OutputDelivery[]; // One per output destination, set once the output is sent
+  runId?: string; // Progress events of the run, for its timeline
   createdAt: string;
 }
 
+/**
+ * Kind of progress event of a rule run
+ */
+export type RunEventType = 'run_started' | 'step_started' | 'tool_call' | 'step_finished' | 'run_finished';
+
+/**
+ * A progress event of a rule run, recorded as it happens
+ */
+export interface RunEvent {
+  id: string;
+  runId: string;
+  ruleId: string;
+  seq: number; // Order within the run, from 1
+  type: RunEventType;
+  stepIndex?: number;
+  stepType?: ExecutionStep['type'];
+  stepCount?: number; // run_started: steps of the rule
+  attempt?: number; // step_started: attempt of the step, from 1
+  toolName?: string; // tool_call
+  success?: boolean; // tool_call, step_finished and run_finished
+  error?: string;
+  detail?: string; // e.g. the step's instruction, or the start of its result
+  durationMs?: number;
+  createdAt: string;
+}
+
+/**
+ * Filters of an execution log listing; all are optional and combine
+ */
+export interface ExecutionLogFilters {
+  ruleId?: string;
+  status?: ExecutionLogEntry['status'];
+  triggerSlug?: string;
+  since?: string; // ISO, inclusive
+  until?: string; // ISO, exclusive
+  search?: string; // Full-text search of outputText and errorText; results come in relevance order
+}
+
+/**
+ * A page of execution logs. Pass nextCursor back to get the next page; it is
+ * null on the last page.
+ */
+export interface ExecutionLogPage {
+  logs: ExecutionLogEntry[];
+  nextCursor: string | null;
+}
+
 /**
  * Aggregated execution log statistics
  */
 export interface ExecutionLogStats {
-  totalRuns: number;
+  totalRuns: number; // Skipped events are not runs and aren't counted
+  skippedRuns: number;
   successRate: number;
   avgDurationMs: number;
 }
 
+/**
+ * Logs of one time bucket, counted by status
+ */
+export interface ExecutionAnalyticsBucket {
+  start: string; // ISO; buckets are aligned to the Unix epoch, so daily buckets are UTC days
+  success: number;
+  failure: number;
+  partial: number;
+  skipped: number;
+}
+
+/**
+ * Aggregated execution logs of a time range, for the analytics dashboard.
+ * Skipped events are counted in the buckets only; everything else is about runs.
+ */
+export interface ExecutionAnalytics {
+  since: string;
+  until: string;
+  bucketMs: number;
+  buckets: ExecutionAnalyticsBucket[];
+  rules: Array<{
+    ruleId: string;
+    ruleName: string;
+    runs: number;
+    failures: number;
+    counts: number[]; // Runs per bucket, aligned with buckets
+  }>;
+  triggers: Array<{ triggerSlug: string; runs: number; failures: number }>; // "manual" for runs without a trigger
+  topErrors: Array<{
+    message: string; // Normalized: IDs, numbers, quoted values and URLs replaced
+    count: number;
+    lastSeenAt: string;
+    ruleNames: string[];
+  }>;
+  duration: { samples: number; p50Ms: number; p95Ms: number; maxMs: number };
+  idleRules: Array<{
+    ruleId: string;
+    ruleName: string;
+    isActive: boolean;
+    lastFiredAt?: string; // Unset if the rule never fired
+  }>;
+  idleDays: number;
+}
+
+/**
+ * Processing status of an inbound trigger event
+ */
+export type TriggerEventStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * Inbound trigger event stored in the trigger_events inbox
+ */
+export interface TriggerEvent {
+  id: string;
+  eventId: string; // Composio event ID, used for deduplication
+  userId?: string;
+  triggerSlug?: string;
+  rawPayload: Record<string, unknown>;
+  status: TriggerEventStatus;
+  attempts: number;
+  logIds: string[];
+  reason?: string; // Why the event was skipped or produced no runs
+  errorText?: string;
+  duplicateCount: number;
+  receivedAt: string;
+  processedAt?: string;
+}
+
 /**
  * Context for manual rule invocation via @mention
  */
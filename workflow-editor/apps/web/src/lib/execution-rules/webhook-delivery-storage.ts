@@ -0,0 +1,86 @@
+/**
+ * Convex storage for outgoing webhook deliveries
+ */
+
+import { convex, api } from '@/lib/convex';
+import type { WebhookDelivery, WebhookDeliveryAttempt, WebhookDeliveryStatus } from './types';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+function toISO(ts?: number | null): string {
+  return ts ? new Date(ts).toISOString() : new Date().toISOString();
+}
+
+function mapDoc(doc: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: doc._id as string,
+    userId: doc.userId as string,
+    ruleId: doc.ruleId as string,
+    ruleName: doc.ruleName as string,
+    logId: doc.logId as string | undefined,
+    url: doc.url as string,
+    body: doc.body as string | undefined,
+    bodyBytes: (doc.bodyBytes as number) || 0,
+    status: doc.status as WebhookDeliveryStatus,
+    attempts: ((doc.attempts as Array<Record<string, unknown>>) || []).map((attempt) => ({
+      ...(attempt as unknown as WebhookDeliveryAttempt),
+      attemptedAt: toISO(attempt.attemptedAt as number),
+    })),
+    redeliveryOfId: doc.redeliveryOfId as string | undefined,
+    createdAt: toISO(doc.createdAt as number),
+    updatedAt: toISO(doc.updatedAt as number),
+  };
+}
+
+export const webhookDeliveryStorage = {
+  async create(input: {
+    userId: string;
+    ruleId: string;
+    ruleName: string;
+    logId?: string;
+    url: string;
+    body?: string;
+    bodyBytes: number;
+    redeliveryOfId?: string;
+  }): Promise<string> {
+    const id = await convex.mutation(api.webhookDeliveries.create, {
+      ...input,
+      ruleId: input.ruleId as Id<"execution_rules">,
+      logId: input.logId as Id<"execution_logs"> | undefined,
+      redeliveryOfId: input.redeliveryOfId as Id<"webhook_deliveries"> | undefined,
+    });
+    return id as string;
+  },
+
+  /**
+   * Record an attempt. Pass status "pending" when another attempt follows.
+   */
+  async recordAttempt(id: string, attempt: WebhookDeliveryAttempt, status: WebhookDeliveryStatus): Promise<void> {
+    await convex.mutation(api.webhookDeliveries.recordAttempt, {
+      id: id as Id<"webhook_deliveries">,
+      attempt: { ...attempt, attemptedAt: new Date(attempt.attemptedAt).getTime() },
+      status,
+    });
+  },
+
+  async get(id: string): Promise<WebhookDelivery | undefined> {
+    const doc = await convex.query(api.webhookDeliveries.get, { id: id as Id<"webhook_deliveries"> });
+    return doc ? mapDoc(doc) : undefined;
+  },
+
+  async getByIdAndUser(id: string, userId: string): Promise<WebhookDelivery | undefined> {
+    const doc = await convex.query(api.webhookDeliveries.get, { id: id as Id<"webhook_deliveries"> });
+    if (!doc || doc.userId !== userId) return undefined;
+    return mapDoc(doc);
+  },
+
+  /**
+   * A rule's deliveries, newest first
+   */
+  async getByRuleId(ruleId: string, limit = 50): Promise<WebhookDelivery[]> {
+    const docs = await convex.query(api.webhookDeliveries.listByRule, {
+      ruleId: ruleId as Id<"execution_rules">,
+      limit,
+    });
+    return docs.map(mapDoc);
+  },
+};
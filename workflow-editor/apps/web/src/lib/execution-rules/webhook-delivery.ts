@@ -0,0 +1,184 @@
+/**
+ * Outgoing webhook delivery
+ *
+ * Webhook destinations get a POST signed with the rule's webhook secret,
+ * following the Standard Webhooks scheme Composio uses for the webhooks we
+ * receive (see lib/composio/webhook-signature.ts):
+ * - webhook-id: the delivery ID, the same on every attempt of a delivery
+ * - webhook-timestamp: Unix seconds when the attempt was sent
+ * - webhook-signature: "v1,<base64 HMAC-SHA256 of '<id>.<timestamp>.<body>'>"
+ *
+ * Each attempt is cut off after WEBHOOK_TIMEOUT_MS. Timeouts, network errors,
+ * 408, 429 and 5xx responses are retried with exponential backoff, up to
+ * WEBHOOK_MAX_ATTEMPTS attempts; any other response is final. Every attempt is
+ * recorded in webhook_deliveries. A manual redelivery sends the stored body
+ * again as a new delivery, with a new ID and signature.
+ */
+
+import { signWebhookPayload } from '@/lib/composio/webhook-signature';
+import { executionRulesStorage } from './storage';
+import { webhookDeliveryStorage } from './webhook-delivery-storage';
+import { getRetryDelay } from './step-policy';
+import type { ExecutionRule, WebhookDelivery, WebhookDeliveryAttempt, WebhookDeliveryStatus } from './types';
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
+/** How long one attempt may take */
+const TIMEOUT_MS = readPositiveInt('WEBHOOK_TIMEOUT_MS', 10 * 1000);
+
+/** Attempts before a delivery is marked failed */
+const MAX_ATTEMPTS = readPositiveInt('WEBHOOK_MAX_ATTEMPTS', 4);
+
+/** Bodies larger than this are sent but not stored, so they can't be redelivered */
+export const MAX_STORED_BODY_BYTES = 256 * 1024;
+
+/** Characters of the response body kept with each attempt */
+const RESPONSE_SNIPPET_LENGTH = 500;
+
+/**
+ * Outcome of a delivery, once its last attempt is done
+ */
+export type WebhookSendResult = Pick<WebhookDelivery, 'id' | 'status' | 'attempts'>;
+
+function isRetryableStatus(statusCode: number): boolean {
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * Outgoing webhook delivery service
+ */
+class WebhookDeliveryService {
+  /**
+   * Deliver a rule's output to a webhook URL, retrying as needed
+   */
+  async deliver(rule: ExecutionRule, url: string, body: string, logId?: string): Promise<WebhookSendResult> {
+    const bodyBytes = Buffer.byteLength(body);
+    const id = await webhookDeliveryStorage.create({
+      userId: rule.userId,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      logId,
+      url,
+      body: bodyBytes <= MAX_STORED_BODY_BYTES ? body : undefined,
+      bodyBytes,
+    });
+
+    const secret = await executionRulesStorage.getWebhookSecret(rule.id);
+    return this.send(id, url, body, secret);
+  }
+
+  /**
+   * Send a stored delivery again, as a new delivery
+   */
+  async redeliver(delivery: WebhookDelivery): Promise<WebhookSendResult> {
+    if (delivery.body === undefined) {
+      throw new Error('The body of this delivery was too large to keep, so it cannot be redelivered');
+    }
+
+    const id = await webhookDeliveryStorage.create({
+      userId: delivery.userId,
+      ruleId: delivery.ruleId,
+      ruleName: delivery.ruleName,
+      logId: delivery.logId,
+      url: delivery.url,
+      body: delivery.body,
+      bodyBytes: delivery.bodyBytes,
+      redeliveryOfId: delivery.id,
+    });
+
+    const secret = await executionRulesStorage.getWebhookSecret(delivery.ruleId);
+    return this.send(id, delivery.url, delivery.body, secret);
+  }
+
+  /**
+   * Make attempts until one succeeds, fails for good, or attempts run out
+   */
+  private async send(id: string, url: string, body: string, secret: string): Promise<WebhookSendResult> {
+    const attempts: WebhookDeliveryAttempt[] = [];
+    let status: WebhookDeliveryStatus = 'pending';
+
+    for (let attempt = 1; status === 'pending'; attempt++) {
+      const { result, retryable } = await this.attempt(id, attempt, url, body, secret);
+      attempts.push(result);
+
+      if (!result.error) {
+        status = 'delivered';
+      } else if (!retryable || attempt >= MAX_ATTEMPTS) {
+        status = 'failed';
+      }
+
+      try {
+        await webhookDeliveryStorage.recordAttempt(id, result, status);
+      } catch (error) {
+        console.error('[WebhookDelivery] Failed to record attempt:', error);
+      }
+
+      if (status === 'pending') {
+        const delay = getRetryDelay({ maxAttempts: MAX_ATTEMPTS }, attempt);
+        console.warn(`[WebhookDelivery] Attempt ${attempt} of ${id} failed (${result.error}), retrying in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+
+    console.log(`[WebhookDelivery] Delivery ${id} ${status} after ${attempts.length} attempt(s)`);
+    return { id, status, attempts };
+  }
+
+  /**
+   * Sign and send one attempt
+   */
+  private async attempt(
+    id: string,
+    attempt: number,
+    url: string,
+    body: string,
+    secret: string
+  ): Promise<{ result: WebhookDeliveryAttempt; retryable: boolean }> {
+    const startedAt = Date.now();
+    const timestamp = Math.floor(startedAt / 1000).toString();
+    const result: WebhookDeliveryAttempt = {
+      attempt,
+      durationMs: 0,
+      attemptedAt: new Date(startedAt).toISOString(),
+    };
+    let retryable = false;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'webhook-id': id,
+          'webhook-timestamp': timestamp,
+          'webhook-signature': `v1,${signWebhookPayload(secret, id, timestamp, body)}`,
+        },
+        body,
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+        redirect: 'manual',
+      });
+
+      result.statusCode = response.status;
+      result.responseSnippet = (await response.text().catch(() => '')).slice(0, RESPONSE_SNIPPET_LENGTH) || undefined;
+      if (!response.ok) {
+        result.error = `Webhook responded with ${response.status} ${response.statusText}`.trim();
+        retryable = isRetryableStatus(response.status);
+      }
+    } catch (error) {
+      result.error =
+        error instanceof Error && error.name === 'TimeoutError'
+          ? `Timed out after ${TIMEOUT_MS / 1000}s`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      retryable = true;
+    }
+
+    result.durationMs = Date.now() - startedAt;
+    return { result, retryable };
+  }
+}
+
+export const webhookDeliveryService = new WebhookDeliveryService();
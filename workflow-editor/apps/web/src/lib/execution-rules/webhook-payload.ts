@@ -0,0 +1,190 @@
+/**
+ * Composio webhook payload parsing
+ *
+ * Supports both V3 and V2 webhook payload formats:
+ * - V3: userId in metadata.user_id
+ * - V2: userId in data.user_id
+ *
+ * Shared by the webhook route (which records the raw event) and the trigger
+ * event worker (which builds the TriggerPayload when processing it).
+ */
+
+import type { TriggerPayload } from './types';
+
+/**
+ * Composio V3 webhook payload format
+ */
+interface ComposioV3Payload {
+  id: string;
+  timestamp: string;
+  type: string;
+  metadata: {
+    user_id: string;
+    trigger_slug: string;
+    trigger_id: string;
+    connected_account_id: string;
+    auth_config_id: string;
+    log_id?: string;
+  };
+  data: Record<string, unknown>;
+}
+
+/**
+ * Composio V2 webhook payload format
+ */
+interface ComposioV2Payload {
+  type: string;
+  timestamp: string;
+  data: {
+    user_id: string;
+    connection_id: string;
+    trigger_id: string;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Legacy/raw payload format (headers + body wrapper)
+ */
+interface LegacyPayload {
+  headers?: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+export type ComposioWebhookPayload = ComposioV3Payload | ComposioV2Payload | LegacyPayload | Record<string, unknown>;
+
+/**
+ * Extract userId and trigger info from any Composio webhook format
+ */
+export function parseComposioPayload(payload: ComposioWebhookPayload): {
+  userId: string | null;
+  triggerSlug: string | null;
+  eventData: Record<string, unknown>;
+} {
+  // V3 format: metadata.user_id
+  if ('metadata' in payload && payload.metadata && typeof payload.metadata === 'object') {
+    const meta = payload.metadata as Record<string, unknown>;
+    return {
+      userId: (meta.user_id as string) || null,
+      triggerSlug: (meta.trigger_slug as string) || null,
+      eventData: ('data' in payload ? payload.data : payload) as Record<string, unknown>,
+    };
+  }
+
+  // V2 format: data.user_id
+  if ('data' in payload && payload.data && typeof payload.data === 'object') {
+    const data = payload.data as Record<string, unknown>;
+    if (data.user_id) {
+      return {
+        userId: data.user_id as string,
+        triggerSlug: ('type' in payload ? payload.type : null) as string | null,
+        eventData: data,
+      };
+    }
+  }
+
+  // Legacy format: headers + body wrapper
+  if ('headers' in payload && 'body' in payload && payload.body) {
+    const body = payload.body as Record<string, unknown>;
+    // Try to find user_id in body
+    const userId = (body.user_id as string) ||
+                   ((body.metadata as Record<string, unknown>)?.user_id as string) ||
+                   ((body.data as Record<string, unknown>)?.user_id as string) ||
+                   null;
+    return {
+      userId,
+      triggerSlug: inferTriggerSlug(body),
+      eventData: body,
+    };
+  }
+
+  // Fallback: try to find user_id anywhere in the payload
+  const p = payload as Record<string, unknown>;
+  return {
+    userId: (p.user_id as string) || (p.userId as string) || null,
+    triggerSlug: inferTriggerSlug(p),
+    eventData: p,
+  };
+}
+
+/**
+ * Infer trigger type from payload content
+ */
+export function inferTriggerSlug(data: Record<string, unknown>): string | null {
+  if (data.message_id && (data.message_text || data.sender)) return 'GMAIL_NEW_GMAIL_MESSAGE';
+  if (data.thread_id && data.label_ids) return 'GMAIL_NEW_GMAIL_MESSAGE';
+  if (data.event_id || data.calendar_id) return 'GOOGLECALENDAR_EVENT_CREATED';
+  if (data.channel && data.text && data.user) return 'SLACK_NEW_MESSAGE';
+  return null;
+}
+
+/**
+ * Infer toolkit from trigger slug
+ */
+export function inferToolkitFromTrigger(triggerSlug?: string | null): string {
+  if (!triggerSlug) return 'UNKNOWN';
+  const slug = triggerSlug.toUpperCase();
+  if (slug.includes('GMAIL')) return 'GMAIL';
+  if (slug.includes('CALENDAR')) return 'GOOGLECALENDAR';
+  if (slug.includes('SLACK')) return 'SLACK';
+  if (slug.includes('NOTION')) return 'NOTION';
+  if (slug.includes('GITHUB')) return 'GITHUB';
+  if (slug.includes('DRIVE')) return 'GOOGLEDRIVE';
+  return 'UNKNOWN';
+}
+
+/**
+ * Resolve the ID Composio redelivers the event under.
+ * Prefers the webhook-id header, then the V3 event id, then IDs in the event
+ * data. Returns null if the event has no stable ID.
+ */
+export function resolveEventId(
+  payload: ComposioWebhookPayload,
+  eventData: Record<string, unknown>,
+  webhookId?: string | null
+): string | null {
+  if (webhookId) return webhookId;
+  const p = payload as Record<string, unknown>;
+  if (typeof p.id === 'string' && p.id) return p.id;
+  if (typeof eventData.id === 'string' && eventData.id) return eventData.id;
+  if (typeof eventData.message_id === 'string' && eventData.message_id) return eventData.message_id;
+  return null;
+}
+
+/**
+ * Build the TriggerPayload handed to trigger processing
+ */
+export function buildTriggerPayload(
+  eventId: string,
+  userId: string,
+  rawPayload: ComposioWebhookPayload
+): TriggerPayload {
+  const { triggerSlug, eventData } = parseComposioPayload(rawPayload);
+  const resolvedTriggerSlug = triggerSlug || inferTriggerSlug(eventData) || 'UNKNOWN_TRIGGER';
+  const toolkitSlug = inferToolkitFromTrigger(resolvedTriggerSlug);
+
+  return {
+    id: eventId,
+    uuid: crypto.randomUUID(),
+    triggerSlug: resolvedTriggerSlug,
+    toolkitSlug,
+    userId,
+    payload: eventData,
+    originalPayload: rawPayload as Record<string, unknown>,
+    metadata: {
+      id: '',
+      uuid: '',
+      toolkitSlug,
+      triggerSlug: resolvedTriggerSlug,
+      triggerConfig: {},
+      connectedAccount: {
+        id: '',
+        uuid: '',
+        authConfigId: '',
+        authConfigUUID: '',
+        userId,
+        status: 'ACTIVE',
+      },
+    },
+  };
+}
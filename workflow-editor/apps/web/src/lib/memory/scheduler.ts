@@ -1,9 +1,10 @@
 /**
  * In-Process Scheduler
  *
- * Handles two types of scheduled work:
+ * Handles three types of scheduled work:
  * 1. Memory distillation — daily at 5 AM EST
  * 2. Scheduled execution rules — every 5 minutes (checks which rules are due)
+ * 3. Execution log retention — daily (deletes logs past the retention period)
  *
  * Self-initializing: import this module once and it starts automatically.
  * Safe to import multiple times — only starts one scheduler.
@@ -15,6 +16,7 @@ import { distillAllUsers } from './distillation-service';
 const DISTILL_HOUR_EST = 5; // 5 AM EST
 const RULES_CHECK_INTERVAL_MS = 5 * 60 * 1000; // Every 5 minutes
 const DISTILL_CHECK_INTERVAL_MS = 30 * 60 * 1000; // Check every 30 minutes
+const LOG_RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000; // Daily
 
 let schedulerStarted = false;
 let lastDistillDate = '';
@@ -76,6 +78,17 @@ async function checkScheduledRules() {
   }
 }
 
+// ── Execution Log Retention ─────────────────────────────────────────────
+
+async function checkLogRetention() {
+  try {
+    const { enforceLogRetention } = await import('@/lib/execution-rules/log-retention');
+    await enforceLogRetention();
+  } catch (error) {
+    console.error('[Scheduler] Execution log cleanup failed:', error);
+  }
+}
+
 // ── Start ───────────────────────────────────────────────────────────────
 
 export function startMemoryScheduler() {
@@ -89,16 +102,20 @@ export function startMemoryScheduler() {
 
   console.log(
     `[Scheduler] Started. Memory distillation daily at ${DISTILL_HOUR_EST}:00 EST. ` +
-    `Scheduled rules every ${RULES_CHECK_INTERVAL_MS / 60000} min.`
+    `Scheduled rules every ${RULES_CHECK_INTERVAL_MS / 60000} min. Log cleanup daily.`
   );
 
   // Run checks immediately on startup
   checkDistillation();
   checkScheduledRules();
+  checkLogRetention();
 
   // Memory distillation — check every 30 min
   setInterval(checkDistillation, DISTILL_CHECK_INTERVAL_MS);
 
   // Scheduled execution rules — check every 5 min
   setInterval(checkScheduledRules, RULES_CHECK_INTERVAL_MS);
+
+  // Execution log retention — daily
+  setInterval(checkLogRetention, LOG_RETENTION_INTERVAL_MS);
 }
@@ -20,6 +20,8 @@ function mapDoc(doc: Record<string, unknown>): Notification {
     ruleId: doc.ruleId as string | undefined,
     ruleName: doc.ruleName as string | undefined,
     logId: doc.logId as string | undefined,
+    approvalId: doc.approvalId as string | undefined,
+    approvalStatus: doc.approvalStatus as Notification['approvalStatus'],
     read: Boolean(doc.read),
     createdAt: toISO(doc.createdAt as number),
   };
@@ -35,6 +37,7 @@ export const notificationsStorage = {
       ruleId: input.ruleId as Id<"execution_rules"> | undefined,
       ruleName: input.ruleName,
       logId: input.logId as Id<"execution_logs"> | undefined,
+      approvalId: input.approvalId as Id<"execution_approvals"> | undefined,
     });
 
     return {
@@ -46,6 +49,8 @@ export const notificationsStorage = {
       ruleId: input.ruleId,
       ruleName: input.ruleName,
       logId: input.logId,
+      approvalId: input.approvalId,
+      approvalStatus: input.approvalId ? 'pending' : undefined,
       read: false,
       createdAt: new Date().toISOString(),
     };
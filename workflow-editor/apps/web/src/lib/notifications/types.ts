@@ -9,6 +9,8 @@ export interface Notification {
   ruleId?: string;
   ruleName?: string;
   logId?: string;
+  approvalId?: string;
+  approvalStatus?: 'pending' | 'approved' | 'rejected' | 'expired'; // Current status of the approval request
   read: boolean;
   createdAt: string;
 }
@@ -21,4 +23,5 @@ export interface NotificationInput {
   ruleId?: string;
   ruleName?: string;
   logId?: string;
+  approvalId?: string;
 }
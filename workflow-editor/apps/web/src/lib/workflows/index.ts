@@ -0,0 +1,10 @@
+/**
+ * Workflows Module
+ *
+ * Persistence for workflows built on the canvas editor.
+ */
+
+export * from './types';
+export { workflowStorage } from './storage';
+export { parseSerializedWorkflow } from './serialization';
+export type { ParseWorkflowResult } from './serialization';
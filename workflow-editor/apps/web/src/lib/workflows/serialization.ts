@@ -0,0 +1,73 @@
+/**
+ * Serialized workflow parsing
+ *
+ * Validates workflow documents sent by the editor before they are stored.
+ */
+
+import { deserializeWorkflow } from '@workflow-editor/core';
+import type { WorkflowDocument, SerializedWorkflow } from '@workflow-editor/core';
+
+/**
+ * Major format version this server can read (see serializeWorkflow in core)
+ */
+const SUPPORTED_FORMAT_MAJOR = '1';
+
+export type ParseWorkflowResult =
+  | { success: true; workflow: WorkflowDocument }
+  | { success: false; error: string };
+
+/**
+ * Parse and validate a SerializedWorkflow from a request body
+ */
+export function parseSerializedWorkflow(input: unknown): ParseWorkflowResult {
+  if (!input || typeof input !== 'object') {
+    return { success: false, error: 'Workflow is required' };
+  }
+
+  const serialized = input as Partial<SerializedWorkflow>;
+
+  if (!serialized.formatVersion || typeof serialized.formatVersion !== 'string') {
+    return { success: false, error: 'formatVersion is required' };
+  }
+
+  if (serialized.formatVersion.split('.')[0] !== SUPPORTED_FORMAT_MAJOR) {
+    return {
+      success: false,
+      error: `Unsupported workflow format version: ${serialized.formatVersion}`,
+    };
+  }
+
+  if (!serialized.metadata || typeof serialized.metadata.name !== 'string' || !serialized.metadata.name.trim()) {
+    return { success: false, error: 'Workflow name is required' };
+  }
+
+  if (!serialized.trigger || typeof serialized.trigger.type !== 'string') {
+    return { success: false, error: 'Trigger configuration is required' };
+  }
+
+  if (!Array.isArray(serialized.nodes) || !Array.isArray(serialized.edges)) {
+    return { success: false, error: 'Workflow nodes and edges must be arrays' };
+  }
+
+  const nodeIds = new Set<string>();
+  for (const node of serialized.nodes) {
+    if (!node || typeof node.id !== 'string' || !node.position || typeof node.data !== 'object') {
+      return { success: false, error: 'Each node requires an id, position and data' };
+    }
+    nodeIds.add(node.id);
+  }
+
+  for (const edge of serialized.edges) {
+    if (!edge || typeof edge.id !== 'string') {
+      return { success: false, error: 'Each edge requires an id' };
+    }
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+      return { success: false, error: `Edge ${edge.id} references an unknown node` };
+    }
+  }
+
+  const workflow = deserializeWorkflow(serialized as SerializedWorkflow);
+  workflow.metadata = { ...workflow.metadata, name: workflow.metadata.name.trim() };
+
+  return { success: true, workflow };
+}
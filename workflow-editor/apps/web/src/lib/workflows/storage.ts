@@ -0,0 +1,117 @@
+/**
+ * Convex storage for canvas workflows
+ */
+
+import { convex, api } from '@/lib/convex';
+import { serializeWorkflow } from '@workflow-editor/core';
+import type { WorkflowDocument, SerializedWorkflow } from '@workflow-editor/core';
+import type { StoredWorkflow, StoredWorkflowSummary } from './types';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+function toISO(ts?: number | null): string {
+  return ts ? new Date(ts).toISOString() : new Date().toISOString();
+}
+
+function mapDoc(doc: Record<string, unknown>): StoredWorkflow {
+  const id = doc._id as string;
+  const createdAt = toISO(doc.createdAt as number);
+  const updatedAt = toISO(doc.updatedAt as number);
+  const metadata = (doc.metadata as SerializedWorkflow['metadata']) || { name: doc.name as string };
+
+  return {
+    id,
+    userId: doc.userId as string,
+    isActive: Boolean(doc.isActive),
+    workflow: {
+      formatVersion: doc.formatVersion as string,
+      metadata: { ...metadata, id, name: doc.name as string, createdAt, updatedAt },
+      trigger: doc.trigger as SerializedWorkflow['trigger'],
+      nodes: (doc.nodes as SerializedWorkflow['nodes']) || [],
+      edges: (doc.edges as SerializedWorkflow['edges']) || [],
+    },
+    createdAt,
+    updatedAt,
+  };
+}
+
+/**
+ * Convert a workflow document into the fields stored in Convex.
+ * Storage-owned metadata (id, timestamps) is stripped so the row is the source of truth.
+ */
+function toFields(document: WorkflowDocument) {
+  const serialized = serializeWorkflow(document);
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...metadata } = serialized.metadata;
+
+  return {
+    name: metadata.name,
+    description: metadata.description || undefined,
+    formatVersion: serialized.formatVersion,
+    metadata,
+    trigger: serialized.trigger,
+    nodes: serialized.nodes,
+    edges: serialized.edges,
+    nodeCount: serialized.nodes.length,
+    triggerType: serialized.trigger?.type,
+    isActive: Boolean(serialized.trigger?.isActive),
+  };
+}
+
+export const workflowStorage = {
+  async getByUserId(userId: string): Promise<StoredWorkflow[]> {
+    const docs = await convex.query(api.workflows.list, { userId });
+    return docs.map(mapDoc);
+  },
+
+  async get(id: string): Promise<StoredWorkflow | undefined> {
+    const doc = await convex.query(api.workflows.get, { id: id as Id<"workflows"> });
+    if (!doc) return undefined;
+    return mapDoc(doc);
+  },
+
+  async getByIdAndUser(id: string, userId: string): Promise<StoredWorkflow | undefined> {
+    const workflow = await this.get(id);
+    if (!workflow || workflow.userId !== userId) return undefined;
+    return workflow;
+  },
+
+  async create(userId: string, document: WorkflowDocument): Promise<StoredWorkflow> {
+    const id = await convex.mutation(api.workflows.create, {
+      userId,
+      ...toFields(document),
+    });
+
+    const created = await this.get(id as string);
+    if (!created) throw new Error('Failed to create workflow');
+    return created;
+  },
+
+  async update(id: string, document: WorkflowDocument): Promise<StoredWorkflow | undefined> {
+    await convex.mutation(api.workflows.update, {
+      id: id as Id<"workflows">,
+      ...toFields(document),
+    });
+    return this.get(id);
+  },
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await convex.mutation(api.workflows.remove, { id: id as Id<"workflows"> });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  toSummary(stored: StoredWorkflow): StoredWorkflowSummary {
+    return {
+      id: stored.id,
+      name: stored.workflow.metadata.name,
+      description: stored.workflow.metadata.description,
+      createdAt: stored.createdAt,
+      updatedAt: stored.updatedAt,
+      nodeCount: stored.workflow.nodes.length,
+      triggerType: stored.workflow.trigger?.type,
+      isActive: stored.isActive,
+    };
+  },
+};
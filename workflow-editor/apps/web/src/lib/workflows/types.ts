@@ -0,0 +1,35 @@
+/**
+ * Workflow Persistence Types
+ *
+ * Type definitions for workflows saved from the canvas editor.
+ */
+
+import type { SerializedWorkflow } from '@workflow-editor/core';
+
+/**
+ * A workflow document persisted for a user
+ */
+export interface StoredWorkflow {
+  id: string;
+  userId: string;
+  isActive: boolean;
+  /** Serialized document, with metadata.id/createdAt/updatedAt filled from storage */
+  workflow: SerializedWorkflow;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Workflow summary for dashboard list display
+ * (mirrors WorkflowSummary in @workflow-editor/state)
+ */
+export interface StoredWorkflowSummary {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+  nodeCount: number;
+  triggerType?: string;
+  isActive?: boolean;
+}
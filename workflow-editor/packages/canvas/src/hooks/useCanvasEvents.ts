@@ -8,7 +8,14 @@ import { useCallback } from 'react';
 import { useReactFlow } from '@xyflow/react';
 import { useWorkflowStore, useCanvasStore, useSelectionStore } from '@workflow-editor/state';
 import type { WorkflowNode, NodeType, BubbleNodeData, TriggerNodeData } from '@workflow-editor/core';
-import { generateNodeId, generateVariableName, getBubble, createBubbleNodeData, createTriggerNodeData } from '@workflow-editor/core';
+import {
+  generateNodeId,
+  generateVariableName,
+  getBubble,
+  createBubbleNodeData,
+  createTriggerNodeData,
+  createCodeBlockNodeData,
+} from '@workflow-editor/core';
 
 /**
  * Hook for handling canvas events
@@ -51,6 +58,8 @@ export function useCanvasEvents() {
       if (nodeType === 'trigger') {
         const triggerType = event.dataTransfer.getData('application/reactflow-trigger') as TriggerNodeData['triggerType'] || 'webhook/http';
         nodeData = createTriggerNodeData(triggerType);
+      } else if (nodeType === 'codeBlock') {
+        nodeData = createCodeBlockNodeData(generateVariableName('code', existingNames));
       } else if (bubbleName) {
         const bubble = getBubble(bubbleName);
         if (bubble) {
@@ -63,8 +72,27 @@ export function useCanvasEvents() {
           return;
         }
       } else {
-        console.warn(`Unknown node type: ${nodeType}`);
-        return;
+        // Plugin node types carry their default data from the palette
+        const defaultData = event.dataTransfer.getData('application/reactflow-data');
+        if (!defaultData) {
+          console.warn(`Unknown node type: ${nodeType}`);
+          return;
+        }
+        let data: WorkflowNode['data'] | undefined;
+        try {
+          data = JSON.parse(defaultData);
+        } catch {
+          data = undefined;
+        }
+        // Drag data can come from outside the palette
+        if (!data || typeof data !== 'object') {
+          console.warn(`Invalid node data for ${nodeType}`);
+          return;
+        }
+        nodeData =
+          'variableName' in data
+            ? { ...data, variableName: generateVariableName(nodeType, existingNames) }
+            : data;
       }
 
       const newNode: WorkflowNode = {
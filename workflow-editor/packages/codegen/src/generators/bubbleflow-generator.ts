@@ -9,11 +9,16 @@ import type {
   BubbleNodeData,
   TriggerNodeData,
   ComposioNodeData,
+  CodeBlockNodeData,
   ToolInputSchema,
   ToolInputSchemaProperty,
   ArtifactConfig,
+  CodeGeneratorContribution,
+  GeneratorContext,
 } from '@workflow-editor/core';
-import { topologicalSort, getBubble, DEFAULT_ARTIFACT_CONFIG } from '@workflow-editor/core';
+import { getBubble, DEFAULT_ARTIFACT_CONFIG } from '@workflow-editor/core';
+import { buildFlowTree, type BranchKind, type FlowItem } from './control-flow';
+import { CodeGeneratorRegistry } from './generator-registry';
 
 /**
  * Enriched schema information from details services
@@ -69,7 +74,7 @@ function toClassName(name: string): string {
 /**
  * Generate import statements
  */
-function generateImports(nodes: WorkflowNode[]): string[] {
+function generateImports(nodes: WorkflowNode[], contributedImports: Set<string>): string[] {
   const imports = new Set<string>();
   imports.add('BubbleFlow');
 
@@ -87,7 +92,17 @@ function generateImports(nodes: WorkflowNode[]): string[] {
     }
   }
 
-  return [`import {\n  ${Array.from(imports).join(',\n  ')},\n} from '@bubblelab/bubble-core';`];
+  const statements = [`import {\n  ${Array.from(imports).join(',\n  ')},\n} from '@bubblelab/bubble-core';`];
+
+  // Composio tool calls execute through the Composio SDK
+  if (nodes.some(isComposioCall)) {
+    statements.push(`import { Composio } from '@composio/core';`);
+  }
+
+  // Imports requested by contributed code generators
+  statements.push(...contributedImports);
+
+  return statements;
 }
 
 /**
@@ -611,62 +626,532 @@ function generateBubbleCode(
 }
 
 /**
- * Generate the handle method body
+ * Map a JSON schema type to the parameter type used by generateParamValue
  */
-function generateHandleBody(
-  nodes: WorkflowNode[],
+function toParamType(schemaType: string | undefined): string | undefined {
+  if (schemaType === 'integer') return 'number';
+  return schemaType;
+}
+
+/**
+ * Find upstream AI agent nodes feeding into a given node
+ */
+function findUpstreamAgentNodes(
+  nodeId: string,
+  allNodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): WorkflowNode[] {
+  return edges
+    .filter((e) => e.target === nodeId)
+    .map((e) => allNodes.find((n) => n.id === e.source))
+    .filter((n): n is WorkflowNode =>
+      !!n && n.data?.nodeType === 'bubble' && (n.data as BubbleNodeData).bubbleName === 'ai-agent'
+    );
+}
+
+/**
+ * Generate Composio tool execution code
+ *
+ * Arguments produced by upstream AI agents (JSON responses) are spread first,
+ * so parameters configured on the node take precedence.
+ */
+function generateComposioCode(
+  node: WorkflowNode,
+  allNodes: WorkflowNode[],
   edges: WorkflowEdge[],
+  nodeVariableMap: NodeVariableMap,
   enrichedSchemas?: Map<string, EnrichedSchemaInfo>
 ): string {
-  const sortedNodes = topologicalSort(nodes, edges);
-  const lines: string[] = [];
+  const data = node.data as ComposioNodeData;
+  if (!data.toolName) return '';
 
-  // Build a map of node IDs to their variable names for reference resolution
-  const nodeVariableMap: NodeVariableMap = new Map();
+  const enrichedInfo = enrichedSchemas?.get(`composio/${data.toolkit}/${data.toolName}`);
+  const schema = enrichedInfo?.inputSchema || data.toolInputSchema;
+
+  const args: string[] = [];
+
+  for (const agentNode of findUpstreamAgentNodes(node.id, allNodes, edges)) {
+    const agentVar = nodeVariableMap.get(agentNode.id);
+    if (agentVar) {
+      args.push(`      ...this.parseToolArguments(${agentVar}.data),`);
+    }
+  }
+
+  for (const [paramName, paramValue] of Object.entries(data.parameters || {})) {
+    const paramMeta = paramValue as ParameterValueWithMeta;
+
+    // Leave unset parameters to the upstream agent output
+    if (paramMeta.type !== 'variable' && (paramValue.value === '' || paramValue.value === undefined)) {
+      continue;
+    }
+
+    const schemaType = toParamType(schema?.properties[paramName]?.type);
+    const effectiveType = paramMeta.type === 'variable' ? 'variable' : (schemaType || paramValue.type);
+    const value = generateParamValue(paramValue.value, effectiveType, paramMeta, nodeVariableMap, schemaType);
+
+    const keyStr = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(paramName) ? paramName : JSON.stringify(paramName);
+    args.push(`      ${keyStr}: ${value},`);
+  }
+
+  const argsStr = args.length > 0 ? `{\n${args.join('\n')}\n    }` : '{}';
+
+  return `    const ${data.variableName} = await this.executeComposioTool(${JSON.stringify(data.toolName)}, ${argsStr});`;
+}
+
+/**
+ * Generate inline code block code
+ *
+ * The code runs as the body of an async function with access to `payload` and
+ * upstream node variables; its return value becomes the node's data.
+ */
+function generateCodeBlockCode(node: WorkflowNode): string {
+  const data = node.data as CodeBlockNodeData;
+  if (!data.code?.trim()) return '';
+
+  // Re-indent for readability, unless that would change template literal contents
+  const body = data.code.includes('`')
+    ? data.code
+    : data.code
+        .split('\n')
+        .map((line) => (line.trim() ? `        ${line}` : ''))
+        .join('\n');
+
+  return [
+    `    const ${data.variableName} = {`,
+    `      data: await (async () => {`,
+    body,
+    `      })(),`,
+    `      success: true,`,
+    `    };`,
+  ].join('\n');
+}
 
-  // Filter to only bubble nodes
-  const bubbleNodes = sortedNodes.filter(
-    (n) => 'nodeType' in n.data && n.data.nodeType === 'bubble'
+/**
+ * Generate helper methods used by Composio tool execution
+ */
+function generateComposioHelpers(): string {
+  return `
+  private readonly composio = new Composio({ apiKey: process.env.COMPOSIO_API_KEY });
+
+  /**
+   * Execute a Composio tool, normalizing the result to the bubble result shape
+   */
+  private async executeComposioTool(toolName: string, args: Record<string, unknown>) {
+    try {
+      const result = await this.composio.tools.execute(toolName, {
+        userId: process.env.COMPOSIO_USER_ID || 'default',
+        arguments: args,
+      });
+      return { data: result.data, success: result.successful, error: result.error ?? '' };
+    } catch (error) {
+      return { data: undefined, success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Parse tool arguments from an AI agent's JSON response
+   */
+  private parseToolArguments(data: unknown): Record<string, unknown> {
+    const response = (data as { response?: unknown } | undefined)?.response;
+    if (typeof response !== 'string') return {};
+    const json = response.trim().replace(/^\`\`\`(?:json)?\\s*/, '').replace(/\\s*\`\`\`$/, '');
+    try {
+      const parsed = JSON.parse(json);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  }`;
+}
+
+/**
+ * Default iteration limit for loops without maxIterations
+ */
+const DEFAULT_MAX_ITERATIONS = 100;
+
+/**
+ * State shared while emitting the handle body
+ */
+interface EmitContext {
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  nodeVariableMap: NodeVariableMap;
+  enrichedSchemas?: Map<string, EnrichedSchemaInfo>;
+  warnings: string[];
+  /** Node ID -> scope path the node was emitted in ('' for the top level) */
+  scopes: Map<string, string>;
+  /** Counter for unique loop guard variable names */
+  loopCount: number;
+  /** Import statements requested by contributed generators */
+  contributedImports: Set<string>;
+}
+
+/**
+ * Contributed code generators for a node, highest priority first
+ */
+function getContributedGenerators(node: WorkflowNode): CodeGeneratorContribution[] {
+  return CodeGeneratorRegistry.getGenerators(node.type, node.data?.nodeType as string | undefined);
+}
+
+/**
+ * Variable name a node's output is stored in, if it has one
+ */
+function getVariableName(node: WorkflowNode): string | undefined {
+  const variableName = (node.data as { variableName?: unknown }).variableName;
+  return typeof variableName === 'string' && /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(variableName)
+    ? variableName
+    : undefined;
+}
+
+/**
+ * Build the context passed to contributed code generators
+ */
+function createGeneratorContext(depth: number, ctx: EmitContext): GeneratorContext {
+  // The handle body starts two levels deep (class + method)
+  const indentLevel = depth + 2;
+  return {
+    nodes: ctx.nodes,
+    getNode: (id) => ctx.nodes.find((n) => n.id === id),
+    getInputNodes: (nodeId) =>
+      ctx.edges
+        .filter((e) => e.target === nodeId)
+        .map((e) => ctx.nodes.find((n) => n.id === e.source))
+        .filter((n): n is WorkflowNode => !!n),
+    getOutputNodes: (nodeId) =>
+      ctx.edges
+        .filter((e) => e.source === nodeId)
+        .map((e) => ctx.nodes.find((n) => n.id === e.target))
+        .filter((n): n is WorkflowNode => !!n),
+    indentLevel,
+    indent: () => '  '.repeat(indentLevel),
+  };
+}
+
+/**
+ * Generate code for a node through contributed generators.
+ * Generators run in priority order; the first non-empty result wins.
+ */
+function generateContributedCode(node: WorkflowNode, depth: number, ctx: EmitContext): string {
+  const context = createGeneratorContext(depth, ctx);
+
+  for (const generator of getContributedGenerators(node)) {
+    try {
+      const code = generator.generate(node, context);
+      if (!code.trim()) continue;
+      for (const statement of generator.imports?.(node) || []) {
+        ctx.contributedImports.add(statement);
+      }
+      return code;
+    } catch (error) {
+      ctx.warnings.push(
+        `Code generator for "${generator.nodeType}" failed on node "${node.data.label || node.id}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  ctx.warnings.push(`No code was generated for node "${node.data.label || node.id}"`);
+  return '';
+}
+
+/**
+ * Node data for nodes that emit an executable statement
+ */
+type ExecutableNodeData = BubbleNodeData | ComposioNodeData | CodeBlockNodeData;
+
+/**
+ * Whether a node emits an executable statement (bubble, Composio tool or code block)
+ */
+function isExecutableNode(node: WorkflowNode): boolean {
+  if (getContributedGenerators(node).length > 0) return true;
+  return (
+    node.data?.nodeType === 'bubble' ||
+    node.data?.nodeType === 'codeBlock' ||
+    (node.data?.nodeType === 'composio' && !!(node.data as ComposioNodeData).toolName)
   );
+}
+
+/**
+ * Whether a node is emitted as a Composio tool call. Composio nodes without a
+ * tool are skipped, and contributed generators replace the built-in call.
+ */
+function isComposioCall(node: WorkflowNode): boolean {
+  return (
+    node.data?.nodeType === 'composio' &&
+    !!(node.data as ComposioNodeData).toolName &&
+    getContributedGenerators(node).length === 0
+  );
+}
+
+/**
+ * Indent generated code by additional nesting levels
+ */
+function indentCode(code: string, depth: number): string {
+  if (depth === 0) return code;
+  const pad = '  '.repeat(depth);
+  return code
+    .split('\n')
+    .map((line) => (line ? pad + line : line))
+    .join('\n');
+}
+
+/**
+ * Warn when a node uses the output of a node emitted in a block it is not part of
+ */
+function checkReferenceScopes(node: WorkflowNode, scope: string, ctx: EmitContext): void {
+  const data = node.data as ExecutableNodeData;
+  const parameters = data.nodeType === 'codeBlock' ? {} : data.parameters;
+  const referencedIds = Object.values(parameters || {})
+    .map((param) => (param as ParameterValueWithMeta).referencedNodeId)
+    .filter((id): id is string => !!id);
+  if (data.nodeType === 'composio') {
+    referencedIds.push(...findUpstreamAgentNodes(node.id, ctx.nodes, ctx.edges).map((n) => n.id));
+  }
+
+  for (const refId of referencedIds) {
+    const refScope = ctx.scopes.get(refId);
+    if (refScope === undefined || scope === refScope || scope.startsWith(refScope + '/')) continue;
+    const refLabel = ctx.nodes.find((n) => n.id === refId)?.data.label || refId;
+    ctx.warnings.push(
+      `Node "${data.label}" uses the output of "${refLabel}", which runs inside a branch or loop that "${data.label}" is not part of`
+    );
+  }
+}
+
+/**
+ * Emit an executable node and record its output
+ */
+function emitNode(node: WorkflowNode, scope: string, depth: number, ctx: EmitContext): string[] {
+  ctx.scopes.set(node.id, scope);
+
+  // Contributed generators take precedence over the built-in ones
+  if (getContributedGenerators(node).length > 0) {
+    const code = generateContributedCode(node, depth, ctx);
+    if (!code) return [];
+    const variableName = getVariableName(node);
+    const label = (node.data.label || node.type || node.id).replace(/'/g, "\\'");
+    return [
+      '',
+      code,
+      ...(variableName
+        ? [indentCode(`    nodeOutputs['${node.id}'] = { data: ${variableName}?.data, success: ${variableName}?.success !== false, label: '${label}' };`, depth)]
+        : []),
+    ];
+  }
+
+  checkReferenceScopes(node, scope, ctx);
 
-  // Pre-populate the variable map with all bubble nodes
-  for (const node of bubbleNodes) {
-    const data = node.data as BubbleNodeData;
-    nodeVariableMap.set(node.id, data.variableName);
+  let code: string;
+  if (node.data.nodeType === 'composio') {
+    code = generateComposioCode(node, ctx.nodes, ctx.edges, ctx.nodeVariableMap, ctx.enrichedSchemas);
+  } else if (node.data.nodeType === 'codeBlock') {
+    code = generateCodeBlockCode(node);
+  } else {
+    code = generateBubbleCode(node, ctx.nodes, ctx.edges, ctx.nodeVariableMap, ctx.enrichedSchemas);
   }
+  if (!code) return [];
+
+  const data = node.data as ExecutableNodeData;
+  const label =
+    data.label ||
+    (data.nodeType === 'composio' ? data.toolName : data.nodeType === 'codeBlock' ? 'Code' : data.bubbleName);
+  return [
+    '',
+    indentCode(code, depth),
+    indentCode(
+      `    nodeOutputs['${node.id}'] = { data: ${data.variableName}.data, success: ${data.variableName}.success, label: '${label.replace(/'/g, "\\'")}' };`,
+      depth
+    ),
+  ];
+}
+
+/**
+ * Emit a control flow block with its branches
+ */
+function emitControlBlock(
+  item: Extract<FlowItem, { kind: 'control' }>,
+  scope: string,
+  depth: number,
+  ctx: EmitContext
+): string[] {
+  const { node, data, branches } = item;
+  const pad = '    ' + '  '.repeat(depth);
+  const label = (data.label || data.controlType).replace(/\s+/g, ' ');
+  const escapedLabel = label.replace(/'/g, "\\'");
+
+  const emitBranch = (index: number, extraDepth = 1): string[] => {
+    if (index < 0) return [];
+    const lines = emitItems(branches[index].items, `${scope}/${node.id}:${index}`, depth + extraDepth, ctx);
+    while (lines[0] === '') lines.shift();
+    return lines;
+  };
+  const branchIndex = (branch: BranchKind) => branches.findIndex((b) => b.branch === branch);
+
+  const requireExpression = (value: string | undefined, field: string, fallback: string): string => {
+    if (value?.trim()) return value.trim();
+    ctx.warnings.push(`${data.controlType} node "${label}" has no ${field}; using ${fallback}`);
+    return fallback;
+  };
 
-  for (const node of bubbleNodes) {
-    const code = generateBubbleCode(node, nodes, edges, nodeVariableMap, enrichedSchemas);
-    if (code) {
-      lines.push('');
-      lines.push(code);
+  // Wrap a loop header with an iteration counter that breaks at maxIterations
+  const guardedLoop = (header: string): string[] => {
+    let max = data.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    if (!Number.isInteger(max) || max <= 0) {
+      ctx.warnings.push(`${data.controlType} node "${label}" has an invalid maxIterations; using ${DEFAULT_MAX_ITERATIONS}`);
+      max = DEFAULT_MAX_ITERATIONS;
     }
+    const counter = `loopIterations${++ctx.loopCount}`;
+    return [
+      `${pad}let ${counter} = 0;`,
+      `${pad}${header} {`,
+      `${pad}  if (++${counter} > ${max}) {`,
+      `${pad}    console.warn('${escapedLabel} stopped after ${max} iterations');`,
+      `${pad}    break;`,
+      `${pad}  }`,
+    ];
+  };
+
+  const lines: string[] = [`${pad}// ${label}`];
+
+  switch (data.controlType) {
+    case 'if': {
+      const condition = requireExpression(data.condition, 'condition', 'false');
+      lines.push(`${pad}if (${condition}) {`, ...emitBranch(branchIndex('then')));
+      if (branchIndex('else') >= 0) {
+        lines.push(`${pad}} else {`, ...emitBranch(branchIndex('else')));
+      }
+      lines.push(`${pad}}`);
+      break;
+    }
+
+    case 'for':
+    case 'while': {
+      let header: string;
+      if (data.controlType === 'for') {
+        let iterator = data.iteratorVariable?.trim() || 'item';
+        if (!/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(iterator)) {
+          ctx.warnings.push(`for node "${label}" has an invalid iterator variable "${iterator}"; using item`);
+          iterator = 'item';
+        }
+        const iterable = requireExpression(data.iterableExpression, 'iterable expression', '[]');
+        header = `for (const ${iterator} of ${iterable})`;
+      } else {
+        const condition = requireExpression(data.condition, 'condition', 'false');
+        header = `while (${condition})`;
+      }
+      lines.push(...guardedLoop(header));
+      lines.push(...emitBranch(branchIndex('loop')), `${pad}}`);
+      break;
+    }
+
+    case 'try_catch': {
+      const catchIndex = branchIndex('catch');
+      const finallyIndex = branchIndex('finally');
+      lines.push(`${pad}try {`, ...emitBranch(branchIndex('then')));
+      if (catchIndex >= 0) {
+        lines.push(`${pad}} catch (error) {`, ...emitBranch(catchIndex));
+      } else if (finallyIndex < 0) {
+        lines.push(`${pad}} catch (error) {`, `${pad}  console.error('${escapedLabel} failed:', error);`);
+      }
+      if (finallyIndex >= 0) {
+        lines.push(`${pad}} finally {`, ...emitBranch(finallyIndex));
+      }
+      lines.push(`${pad}}`);
+      break;
+    }
+
+    case 'parallel': {
+      lines.push(`${pad}await Promise.all([`);
+      branches.forEach((_, index) => {
+        lines.push(`${pad}  (async () => {`, ...emitBranch(index, 2), `${pad}  })(),`);
+      });
+      lines.push(`${pad}]);`);
+      break;
+    }
+
+    default:
+      ctx.warnings.push(`Unsupported control flow type "${data.controlType}" on node "${label}"`);
+      return [];
   }
 
-  // Add return statement with all node outputs
-  if (bubbleNodes.length > 0) {
-    const lastNode = bubbleNodes[bubbleNodes.length - 1];
-    const lastData = lastNode.data as BubbleNodeData;
-    lines.push('');
-    lines.push(`    // Collect all node outputs`);
-    lines.push(`    const nodeOutputs: Record<string, { data: unknown; success: boolean; label: string }> = {};`);
+  return lines;
+}
 
-    // Add each node's output to the collection
-    for (const node of bubbleNodes) {
-      const nodeData = node.data as BubbleNodeData;
-      const label = nodeData.label || nodeData.bubbleName;
-      lines.push(`    nodeOutputs['${node.id}'] = { data: ${nodeData.variableName}.data, success: ${nodeData.variableName}.success, label: '${label.replace(/'/g, "\\'")}' };`);
+/**
+ * Emit a sequence of structured flow items
+ */
+function emitItems(items: FlowItem[], scope: string, depth: number, ctx: EmitContext): string[] {
+  const lines: string[] = [];
+  for (const item of items) {
+    if (item.kind === 'node') {
+      lines.push(...emitNode(item.node, scope, depth, ctx));
+    } else {
+      lines.push('', ...emitControlBlock(item, scope, depth, ctx));
     }
+  }
+  return lines;
+}
 
-    lines.push('');
-    lines.push(`    return {`);
-    lines.push(`      result: ${lastData.variableName}.data,`);
-    lines.push(`      success: ${lastData.variableName}.success,`);
-    lines.push(`      nodeOutputs,`);
-    lines.push(`    };`);
+/**
+ * Generate the handle method body
+ */
+function generateHandleBody(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  warnings: string[],
+  contributedImports: Set<string>,
+  enrichedSchemas?: Map<string, EnrichedSchemaInfo>
+): string {
+  // Statement nodes: executable nodes plus control flow blocks
+  const statementNodes = nodes.filter(
+    (n) => isExecutableNode(n) || n.data?.nodeType === 'controlFlow'
+  );
+  if (statementNodes.length === 0) {
+    return '    return { success: true, nodeOutputs: {} };';
+  }
+
+  // Build a map of node IDs to their variable names for reference resolution
+  const nodeVariableMap: NodeVariableMap = new Map();
+  for (const node of statementNodes) {
+    const variableName = getVariableName(node);
+    if (variableName && isExecutableNode(node)) {
+      nodeVariableMap.set(node.id, variableName);
+    }
+  }
+
+  const ctx: EmitContext = {
+    nodes,
+    edges,
+    nodeVariableMap,
+    enrichedSchemas,
+    warnings,
+    scopes: new Map(),
+    loopCount: 0,
+    contributedImports,
+  };
+
+  const tree = buildFlowTree(statementNodes, edges, warnings);
+
+  const lines: string[] = [];
+  lines.push(`    // Collect node outputs as each node runs`);
+  lines.push(`    const nodeOutputs: Record<string, { data: unknown; success: boolean; label: string }> = {};`);
+  lines.push(...emitItems(tree, '', 0, ctx));
+
+  // The last top-level node provides the flow result
+  const lastItem = [...tree]
+    .reverse()
+    .find((item) => item.kind === 'node' && nodeVariableMap.has(item.node.id));
+  lines.push('');
+  lines.push(`    return {`);
+  if (lastItem) {
+    const lastVariable = nodeVariableMap.get(lastItem.node.id);
+    lines.push(`      result: ${lastVariable}.data,`);
+    lines.push(`      success: ${lastVariable}.success,`);
   } else {
-    lines.push('    return { success: true, nodeOutputs: {} };');
+    lines.push(`      result: undefined,`);
+    lines.push(`      success: Object.values(nodeOutputs).every((output) => output.success),`);
   }
+  lines.push(`      nodeOutputs,`);
+  lines.push(`    };`);
 
   return lines.join('\n');
 }
@@ -678,12 +1163,23 @@ export function generateBubbleFlowCode(input: GeneratorInput): GeneratorOutput {
   const warnings: string[] = [];
   const className = input.className || toClassName(input.name);
 
+  // Generate the body first so contributed generators can request imports
+  const contributedImports = new Set<string>();
+  const handleBody = generateHandleBody(input.nodes, input.edges, warnings, contributedImports, input.enrichedSchemas);
+
   // Generate imports
-  const imports = generateImports(input.nodes);
+  const imports = generateImports(input.nodes, contributedImports);
 
   // Get trigger type
   const triggerType = input.trigger.type;
 
+  const hasComposioNodes = input.nodes.some(isComposioCall);
+  for (const node of input.nodes) {
+    if (node.data?.nodeType === 'composio' && !(node.data as ComposioNodeData).toolName) {
+      warnings.push(`Composio node "${node.data.label || node.id}" has no tool selected and was skipped`);
+    }
+  }
+
   // Build class
   const classCode = `
 /**
@@ -696,8 +1192,8 @@ ${imports.join('\n')}
 export class ${className} extends BubbleFlow<'${triggerType}'> {
 ${triggerType === 'schedule/cron' && input.trigger.cronSchedule ? `  readonly cronSchedule = '${input.trigger.cronSchedule}';\n` : ''}
   async handle(payload: WebhookEvent) {
-${generateHandleBody(input.nodes, input.edges, input.enrichedSchemas)}
-  }
+${handleBody}
+  }${hasComposioNodes ? '\n' + generateComposioHelpers() : ''}
 }
 `.trim();
 
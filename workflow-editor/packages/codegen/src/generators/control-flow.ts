@@ -0,0 +1,297 @@
+/**
+ * Control flow structuring for code generation
+ *
+ * Turns the workflow graph into a tree of nested blocks, driven by the branch
+ * labels on edges leaving control flow nodes. Unlabelled edges out of a control
+ * flow node continue after the block. A node belongs to a branch when it is only
+ * reachable through that branch; nodes reachable from several branches (or from
+ * the continuation) are join points and run after the block.
+ */
+
+import type {
+  WorkflowNode,
+  WorkflowEdge,
+  ControlFlowNodeData,
+  ControlFlowEdgeData,
+} from '@workflow-editor/core';
+import { topologicalSort } from '@workflow-editor/core';
+
+/**
+ * Branch label on a control flow edge
+ */
+export type BranchKind = NonNullable<ControlFlowEdgeData['branch']>;
+
+/**
+ * A branch of a control flow block
+ */
+export interface FlowBranch {
+  branch: BranchKind;
+  items: FlowItem[];
+}
+
+/**
+ * An item in the structured flow: a plain node or a control flow block
+ */
+export type FlowItem =
+  | { kind: 'node'; node: WorkflowNode }
+  | { kind: 'control'; node: WorkflowNode; data: ControlFlowNodeData; branches: FlowBranch[] };
+
+/**
+ * Branch labels understood by each control type, in emission order
+ */
+const BRANCHES_BY_CONTROL_TYPE: Record<ControlFlowNodeData['controlType'], BranchKind[]> = {
+  if: ['then', 'else'],
+  for: ['loop'],
+  while: ['loop'],
+  try_catch: ['then', 'catch', 'finally'],
+  parallel: ['parallel'],
+};
+
+/**
+ * Graph state shared while structuring
+ */
+interface StructureContext {
+  nodeMap: Map<string, WorkflowNode>;
+  order: Map<string, number>;
+  successors: Map<string, string[]>;
+  edges: WorkflowEdge[];
+  warnings: string[];
+}
+
+function isControlNode(node: WorkflowNode | undefined): boolean {
+  return node?.data?.nodeType === 'controlFlow';
+}
+
+function isLoopNode(node: WorkflowNode | undefined): boolean {
+  if (!isControlNode(node)) return false;
+  const controlType = (node!.data as ControlFlowNodeData).controlType;
+  return controlType === 'for' || controlType === 'while';
+}
+
+function getBranch(edge: WorkflowEdge): BranchKind | undefined {
+  return edge.data?.edgeType === 'control' ? edge.data.branch : undefined;
+}
+
+function nodeLabel(node: WorkflowNode | undefined, id: string): string {
+  return (node?.data?.label as string | undefined) || id;
+}
+
+function buildSuccessors(nodeIds: Iterable<string>, edges: WorkflowEdge[]): Map<string, string[]> {
+  const successors = new Map<string, string[]>();
+  for (const id of nodeIds) successors.set(id, []);
+  for (const edge of edges) {
+    successors.get(edge.source)?.push(edge.target);
+  }
+  return successors;
+}
+
+/**
+ * Collect nodes reachable from the entries, staying inside the region and never
+ * passing through the excluded node
+ */
+function reachable(
+  entries: string[],
+  region: Set<string>,
+  excluded: string,
+  successors: Map<string, string[]>
+): Set<string> {
+  const seen = new Set<string>();
+  const stack = entries.filter((id) => region.has(id) && id !== excluded);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const next of successors.get(id) || []) {
+      if (region.has(next) && next !== excluded && !seen.has(next)) {
+        stack.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Structure one region (the top level, or the body of a branch)
+ */
+function buildRegion(region: Set<string>, ctx: StructureContext): FlowItem[] {
+  const byOrder = (a: string, b: string) => (ctx.order.get(a) ?? 0) - (ctx.order.get(b) ?? 0);
+  const regionOrder = Array.from(region).sort(byOrder);
+
+  // Node ID -> ID of the control node whose block contains it
+  const claimedBy = new Map<string, string>();
+  // Control node ID -> branches with their member node IDs
+  const blocks = new Map<string, { branch: BranchKind; members: Set<string> }[]>();
+
+  for (const controlId of regionOrder) {
+    const controlNode = ctx.nodeMap.get(controlId);
+    if (!isControlNode(controlNode) || claimedBy.has(controlId)) continue;
+
+    const data = controlNode!.data as ControlFlowNodeData;
+    const label = nodeLabel(controlNode, controlId);
+    const allowed = BRANCHES_BY_CONTROL_TYPE[data.controlType] || [];
+
+    // Group outgoing edges into branches; parallel edges each start their own branch
+    const branchEntries = new Map<string, { branch: BranchKind; entries: string[] }>();
+    const continuation: string[] = [];
+    const outgoing = ctx.edges
+      .filter((e) => e.source === controlId && region.has(e.target))
+      .sort((a, b) => byOrder(a.target, b.target));
+
+    for (const edge of outgoing) {
+      const branch = getBranch(edge);
+      if (!branch) {
+        continuation.push(edge.target);
+        continue;
+      }
+      if (!allowed.includes(branch)) {
+        ctx.warnings.push(
+          `"${branch}" edge from ${data.controlType} node "${label}" is not a valid branch; treating it as the next step`
+        );
+        continuation.push(edge.target);
+        continue;
+      }
+      const key = branch === 'parallel' ? `parallel:${edge.target}` : branch;
+      const group = branchEntries.get(key) || { branch, entries: [] };
+      group.entries.push(edge.target);
+      branchEntries.set(key, group);
+    }
+
+    if (branchEntries.size === 0) {
+      ctx.warnings.push(
+        `${data.controlType} node "${label}" has no ${allowed.map((b) => `"${b}"`).join('/')} branch edges; its block will be empty`
+      );
+    }
+
+    // Count how many branches (and the continuation) reach each node
+    const reachCounts = new Map<string, number>();
+    const branchReach = new Map<string, Set<string>>();
+    for (const [key, group] of branchEntries) {
+      const reach = reachable(group.entries, region, controlId, ctx.successors);
+      branchReach.set(key, reach);
+      for (const id of reach) reachCounts.set(id, (reachCounts.get(id) || 0) + 1);
+    }
+    const afterBlock = reachable(continuation, region, controlId, ctx.successors);
+
+    const branches: { branch: BranchKind; members: Set<string> }[] = [];
+    const sortedKeys = Array.from(branchEntries.keys()).sort((a, b) => {
+      const rank = allowed.indexOf(branchEntries.get(a)!.branch) - allowed.indexOf(branchEntries.get(b)!.branch);
+      return rank !== 0 ? rank : byOrder(branchEntries.get(a)!.entries[0], branchEntries.get(b)!.entries[0]);
+    });
+
+    for (const key of sortedKeys) {
+      const { branch } = branchEntries.get(key)!;
+      const members = new Set<string>();
+      for (const id of branchReach.get(key)!) {
+        if (reachCounts.get(id) !== 1 || afterBlock.has(id)) continue;
+        const owner = claimedBy.get(id);
+        if (owner !== undefined) {
+          ctx.warnings.push(
+            `Node "${nodeLabel(ctx.nodeMap.get(id), id)}" is reachable from both "${nodeLabel(ctx.nodeMap.get(owner), owner)}" and "${label}"; placing it in "${nodeLabel(ctx.nodeMap.get(owner), owner)}"`
+          );
+          continue;
+        }
+        members.add(id);
+      }
+      if (members.size === 0) {
+        ctx.warnings.push(
+          `"${branch}" branch of ${data.controlType} node "${label}" only leads to nodes shared with other paths; it will be empty`
+        );
+      }
+      branches.push({ branch, members });
+    }
+
+    for (const { members } of branches) {
+      for (const id of members) claimedBy.set(id, controlId);
+    }
+    blocks.set(controlId, branches);
+  }
+
+  // Order units (plain nodes and whole blocks) so every dependency runs first
+  const unitOf = (id: string) => claimedBy.get(id) ?? id;
+  const units = regionOrder.filter((id) => !claimedBy.has(id));
+  const unitSuccessors = new Map<string, Set<string>>(units.map((id) => [id, new Set<string>()]));
+  const inDegree = new Map<string, number>(units.map((id) => [id, 0]));
+
+  for (const edge of ctx.edges) {
+    if (!region.has(edge.source) || !region.has(edge.target)) continue;
+    const from = unitOf(edge.source);
+    const to = unitOf(edge.target);
+    if (from === to || unitSuccessors.get(from)!.has(to)) continue;
+    unitSuccessors.get(from)!.add(to);
+    inDegree.set(to, inDegree.get(to)! + 1);
+  }
+
+  const ordered: string[] = [];
+  const ready = units.filter((id) => inDegree.get(id) === 0);
+  while (ready.length > 0) {
+    ready.sort(byOrder);
+    const id = ready.shift()!;
+    ordered.push(id);
+    for (const next of unitSuccessors.get(id)!) {
+      inDegree.set(next, inDegree.get(next)! - 1);
+      if (inDegree.get(next) === 0) ready.push(next);
+    }
+  }
+  if (ordered.length < units.length) {
+    ctx.warnings.push('Control flow blocks depend on each other in a cycle; generated order may be incorrect');
+    ordered.push(...units.filter((id) => !ordered.includes(id)));
+  }
+
+  return ordered.map((id): FlowItem => {
+    const node = ctx.nodeMap.get(id)!;
+    const branches = blocks.get(id);
+    if (!branches) return { kind: 'node', node };
+    return {
+      kind: 'control',
+      node,
+      data: node.data as ControlFlowNodeData,
+      branches: branches.map(({ branch, members }) => ({
+        branch,
+        items: buildRegion(members, ctx),
+      })),
+    };
+  });
+}
+
+/**
+ * Build the structured flow for the given statement nodes
+ *
+ * Edges from a loop body back to its loop node are treated as the loop's
+ * closing edge. Any other cycle is reported and its nodes are left out.
+ */
+export function buildFlowTree(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  warnings: string[]
+): FlowItem[] {
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  let flowEdges = edges.filter((e) => nodeMap.has(e.source) && nodeMap.has(e.target));
+
+  // Drop back edges into loop nodes
+  const allSuccessors = buildSuccessors(nodeMap.keys(), flowEdges);
+  const everything = new Set(nodeMap.keys());
+  flowEdges = flowEdges.filter((edge) => {
+    if (!isLoopNode(nodeMap.get(edge.target))) return true;
+    const fromLoop = reachable([edge.target], everything, '', allSuccessors);
+    return !(edge.source === edge.target || fromLoop.has(edge.source));
+  });
+
+  const sorted = topologicalSort(nodes, flowEdges);
+  if (sorted.length < nodes.length) {
+    const sortedIds = new Set(sorted.map((n) => n.id));
+    const skipped = nodes.filter((n) => !sortedIds.has(n.id)).map((n) => `"${nodeLabel(n, n.id)}"`);
+    warnings.push(
+      `Cycle detected between ${skipped.join(', ')}; these nodes were skipped. Use a loop node for repetition.`
+    );
+  }
+
+  const ctx: StructureContext = {
+    nodeMap,
+    order: new Map(sorted.map((n, i) => [n.id, i])),
+    successors: buildSuccessors(sorted.map((n) => n.id), flowEdges),
+    edges: flowEdges,
+    warnings,
+  };
+
+  return buildRegion(new Set(sorted.map((n) => n.id)), ctx);
+}
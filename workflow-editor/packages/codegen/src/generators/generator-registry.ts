@@ -0,0 +1,63 @@
+/**
+ * Code generator registry - generators contributed for custom node types
+ */
+
+import type { CodeGeneratorContribution } from '@workflow-editor/core';
+
+/**
+ * Code generator registry class
+ */
+class CodeGeneratorRegistryClass {
+  private generators: Map<string, CodeGeneratorContribution[]> = new Map();
+
+  /**
+   * Register a code generator
+   */
+  register(contribution: CodeGeneratorContribution): void {
+    const list = this.generators.get(contribution.nodeType) || [];
+    list.push(contribution);
+    // Higher priority first; equal priorities keep registration order
+    list.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    this.generators.set(contribution.nodeType, list);
+  }
+
+  /**
+   * Unregister a specific code generator
+   */
+  unregister(contribution: CodeGeneratorContribution): void {
+    const list = this.generators.get(contribution.nodeType);
+    if (!list) return;
+    const remaining = list.filter((c) => c !== contribution);
+    if (remaining.length > 0) {
+      this.generators.set(contribution.nodeType, remaining);
+    } else {
+      this.generators.delete(contribution.nodeType);
+    }
+  }
+
+  /**
+   * Get generators for the given node types, highest priority first
+   */
+  getGenerators(...nodeTypes: Array<string | undefined>): CodeGeneratorContribution[] {
+    const seen = new Set<string>();
+    const result: CodeGeneratorContribution[] = [];
+    for (const nodeType of nodeTypes) {
+      if (!nodeType || seen.has(nodeType)) continue;
+      seen.add(nodeType);
+      result.push(...(this.generators.get(nodeType) || []));
+    }
+    return result.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  }
+
+  /**
+   * Check if any generator handles a node type
+   */
+  has(nodeType: string): boolean {
+    return this.generators.has(nodeType);
+  }
+}
+
+/**
+ * Global code generator registry instance
+ */
+export const CodeGeneratorRegistry = new CodeGeneratorRegistryClass();
@@ -1 +1,2 @@
 export * from './bubbleflow-generator';
+export * from './generator-registry';
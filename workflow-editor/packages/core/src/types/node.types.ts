@@ -202,6 +202,20 @@ export interface CodeBlockNodeData extends BaseNodeData {
   language: 'typescript';
   /** Variable name for the result */
   variableName: string;
+  /** Syntax problems in `code`, from the server-side syntax check */
+  syntaxDiagnostics?: CodeBlockDiagnostic[];
+}
+
+/**
+ * A syntax problem found in code block source
+ */
+export interface CodeBlockDiagnostic {
+  /** 1-based line in the code block */
+  line: number;
+  /** 1-based column in the code block */
+  column: number;
+  /** Diagnostic message */
+  message: string;
 }
 
 /**
@@ -358,6 +372,21 @@ export function createControlFlowNodeData(
   };
 }
 
+/**
+ * Create default code block node data
+ */
+export function createCodeBlockNodeData(variableName: string = 'codeResult'): CodeBlockNodeData {
+  return {
+    nodeType: 'codeBlock',
+    label: 'Code',
+    code: '// Access the trigger payload and upstream node variables\nreturn payload;',
+    language: 'typescript',
+    variableName,
+    isValid: true,
+    validationErrors: [],
+  };
+}
+
 /**
  * Create default Composio node data
  * toolName is optional - when not provided, user must select from dropdown
@@ -150,6 +150,36 @@ export function validateNode(
     }
   }
 
+  if ('nodeType' in data && data.nodeType === 'codeBlock') {
+    if (!/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(data.variableName || '')) {
+      errors.push({
+        nodeId: node.id,
+        message: 'Variable name must be a valid identifier',
+        severity: 'error',
+        field: 'variableName',
+      });
+    }
+
+    if (!data.code?.trim()) {
+      errors.push({
+        nodeId: node.id,
+        message: 'Code is required',
+        severity: 'error',
+        field: 'code',
+      });
+    } else {
+      // Syntax errors found by the server-side check (no type checking)
+      for (const diagnostic of data.syntaxDiagnostics ?? []) {
+        errors.push({
+          nodeId: node.id,
+          message: `Line ${diagnostic.line}:${diagnostic.column} - ${diagnostic.message}`,
+          severity: 'error',
+          field: 'code',
+        });
+      }
+    }
+  }
+
   return errors;
 }
 
@@ -0,0 +1,46 @@
+'use client';
+
+/**
+ * Code block node component for inline TypeScript
+ */
+
+import React, { memo } from 'react';
+import type { NodeProps } from '@xyflow/react';
+import { Code2 } from 'lucide-react';
+import type { CodeBlockWorkflowNode } from '@workflow-editor/core';
+import { BaseNode } from '../base/BaseNode';
+
+export interface CodeBlockNodeProps extends NodeProps<CodeBlockWorkflowNode> {}
+
+/**
+ * Code block node component
+ */
+export const CodeBlockNode = memo(function CodeBlockNode(props: CodeBlockNodeProps) {
+  const { data } = props;
+
+  // Show the first meaningful line as a preview
+  const previewLine = (data.code || '')
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith('//'));
+
+  return (
+    <BaseNode
+      {...props}
+      icon={<Code2 className="w-4 h-4" />}
+      color="#0ea5e9"
+    >
+      <div className="space-y-1.5">
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground text-xs">var:</span>
+          <code className="text-primary font-mono text-xs">{data.variableName}</code>
+        </div>
+        {previewLine && (
+          <code className="block text-muted-foreground font-mono text-xs truncate max-w-[220px]">
+            {previewLine}
+          </code>
+        )}
+      </div>
+    </BaseNode>
+  );
+});
@@ -6,3 +6,4 @@ export * from './base';
 export * from './bubbles';
 export * from './triggers';
 export * from './composio';
+export * from './code';
@@ -0,0 +1,82 @@
+/**
+ * Edge registry - maps edge types to components
+ */
+
+import type { ComponentType } from 'react';
+import type { EdgeProps, EdgeTypes } from '@xyflow/react';
+import type { WorkflowEdge, WorkflowEdgeData } from '@workflow-editor/core';
+
+/**
+ * Edge registry entry
+ */
+export interface EdgeRegistryEntry {
+  type: string;
+  component: ComponentType<EdgeProps<WorkflowEdge>>;
+  defaultData?: Partial<WorkflowEdgeData>;
+}
+
+/**
+ * Edge registry class
+ */
+class EdgeRegistryClass {
+  private edges: Map<string, EdgeRegistryEntry> = new Map();
+  private edgeTypes: EdgeTypes = {};
+
+  /**
+   * Register an edge type
+   */
+  register(entry: EdgeRegistryEntry): void {
+    this.edges.set(entry.type, entry);
+    // New object so ReactFlow picks up the change
+    this.edgeTypes = { ...this.edgeTypes, [entry.type]: entry.component as unknown as EdgeTypes[string] };
+  }
+
+  /**
+   * Unregister an edge type
+   */
+  unregister(type: string): void {
+    this.edges.delete(type);
+    const { [type]: _removed, ...edgeTypes } = this.edgeTypes;
+    this.edgeTypes = edgeTypes;
+  }
+
+  /**
+   * Get an edge entry by type
+   */
+  get(type: string): EdgeRegistryEntry | undefined {
+    return this.edges.get(type);
+  }
+
+  /**
+   * Get all edge entries
+   */
+  getAll(): EdgeRegistryEntry[] {
+    return Array.from(this.edges.values());
+  }
+
+  /**
+   * Get default data for new edges of a type
+   */
+  getDefaultData(type: string): Partial<WorkflowEdgeData> | undefined {
+    return this.edges.get(type)?.defaultData;
+  }
+
+  /**
+   * Get ReactFlow edge types object
+   */
+  getEdgeTypes(): EdgeTypes {
+    return this.edgeTypes;
+  }
+
+  /**
+   * Check if an edge type is registered
+   */
+  has(type: string): boolean {
+    return this.edges.has(type);
+  }
+}
+
+/**
+ * Global edge registry instance
+ */
+export const EdgeRegistry = new EdgeRegistryClass();
@@ -3,3 +3,4 @@
  */
 
 export * from './node-registry';
+export * from './edge-registry';
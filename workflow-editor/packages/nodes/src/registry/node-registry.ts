@@ -13,6 +13,7 @@ import {
   WorkflowBubbleNode,
 } from '../components/bubbles/BubbleNode';
 import { ComposioNode } from '../components/composio/ComposioNode';
+import { CodeBlockNode } from '../components/code/CodeBlockNode';
 
 /**
  * Node registry entry
@@ -33,6 +34,7 @@ export const defaultNodeTypes: NodeTypes = {
   toolBubble: ToolBubbleNode as unknown as ComponentType<NodeProps>,
   workflowBubble: WorkflowBubbleNode as unknown as ComponentType<NodeProps>,
   composio: ComposioNode as unknown as ComponentType<NodeProps>,
+  codeBlock: CodeBlockNode as unknown as ComponentType<NodeProps>,
 };
 
 /**
@@ -224,6 +226,43 @@ class NodeRegistryClass {
         },
       },
     });
+
+    // Code block - inline TypeScript
+    this.register({
+      type: 'codeBlock',
+      component: CodeBlockNode as ComponentType<NodeProps<WorkflowNode>>,
+      metadata: {
+        name: 'Code',
+        description: 'Run custom TypeScript with access to the payload and upstream outputs',
+        category: 'utilities',
+        icon: 'code',
+        color: '#0ea5e9',
+        inputs: [
+          {
+            id: 'input',
+            name: 'Input',
+            type: 'data',
+            position: 'top',
+          },
+        ],
+        outputs: [
+          {
+            id: 'output',
+            name: 'Output',
+            type: 'data',
+            position: 'bottom',
+          },
+        ],
+        defaultData: {
+          label: 'Code',
+          nodeType: 'codeBlock',
+          language: 'typescript',
+          code: '',
+          isValid: true,
+          validationErrors: [],
+        },
+      },
+    });
   }
 
   /**
@@ -231,7 +270,8 @@ class NodeRegistryClass {
    */
   register(entry: NodeRegistryEntry): void {
     this.nodes.set(entry.type, entry);
-    this.nodeTypes[entry.type] = entry.component as ComponentType<NodeProps>;
+    // New object so ReactFlow picks up the change
+    this.nodeTypes = { ...this.nodeTypes, [entry.type]: entry.component as ComponentType<NodeProps> };
   }
 
   /**
@@ -239,7 +279,8 @@ class NodeRegistryClass {
    */
   unregister(type: string): void {
     this.nodes.delete(type);
-    delete this.nodeTypes[type];
+    const { [type]: _removed, ...nodeTypes } = this.nodeTypes;
+    this.nodeTypes = nodeTypes;
   }
 
   /**
@@ -259,7 +300,7 @@ class NodeRegistryClass {
   /**
    * Get nodes by category
    */
-  getByCategory(category: NodeCategory): NodeRegistryEntry[] {
+  getByCategory(category: NodeCategory | string): NodeRegistryEntry[] {
     return this.getAll().filter((entry) => entry.metadata.category === category);
   }
 
@@ -156,6 +156,7 @@ const DEFAULT_CATEGORIES = [
   'workflow-bubbles',
   'composio-services',
   'control-flow',
+  'utilities',
 ];
 
 const initialState: UIState = {
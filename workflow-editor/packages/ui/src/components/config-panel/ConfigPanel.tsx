@@ -4,14 +4,16 @@
  * Configuration panel for selected nodes
  */
 
-import React, { useMemo, useCallback, useRef, useEffect } from 'react';
+import React, { useMemo, useCallback, useRef, useEffect, useState } from 'react';
 import { Settings, Code, FileJson, Copy, Check, Link2, Type, Play, X, GripVertical } from 'lucide-react';
 import { clsx } from 'clsx';
 import { useWorkflowStore, useSelectionStore, useUIStore, useComposioStore } from '@workflow-editor/state';
-import type { BubbleNodeData, TriggerNodeData, ComposioNodeData, WorkflowNode, WorkflowEdge, ArtifactConfig } from '@workflow-editor/core';
+import type { BubbleNodeData, TriggerNodeData, ComposioNodeData, CodeBlockNodeData, CodeBlockDiagnostic, WorkflowNode, WorkflowEdge, ArtifactConfig } from '@workflow-editor/core';
 import { getBubble, ParameterType, createVariableParam, DEFAULT_ARTIFACT_CONFIG } from '@workflow-editor/core';
 import { ArtifactConfigSection } from './ArtifactConfigSection';
 import { generateFromWorkflow } from '@workflow-editor/codegen';
+import { PluginRegistry } from '../../plugins/plugin-registry';
+import { usePluginRegistry } from '../../plugins/usePluginRegistry';
 
 /**
  * Resize handle component for dragging panel width
@@ -854,6 +856,223 @@ function ComposioConfig({ node }: { node: WorkflowNode }) {
   );
 }
 
+/**
+ * Code block test-run response from /api/code-blocks/evaluate
+ */
+type CodeBlockRunResult =
+  | { success: true; result: unknown; logs: string[]; durationMs: number }
+  | { success: false; error: string; logs: string[]; durationMs: number };
+
+/** Pause in typing before code is sent for a syntax check */
+const SYNTAX_CHECK_DELAY_MS = 500;
+
+/**
+ * Code block configuration with a local test run
+ */
+function CodeBlockConfig({ node }: { node: WorkflowNode }) {
+  const data = node.data as CodeBlockNodeData;
+  const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+  const nodes = useWorkflowStore((state) => state.nodes);
+  const edges = useWorkflowStore((state) => state.edges);
+
+  // Upstream variables available to the code
+  const upstreamVariables = useMemo(
+    () =>
+      getConnectedSourceNodes(node.id, nodes, edges)
+        .map((n) => (n.data as { variableName?: string }).variableName)
+        .filter((name): name is string => !!name),
+    [node.id, nodes, edges]
+  );
+
+  // Syntax-check the code on the server once typing pauses; validation reports the result
+  useEffect(() => {
+    const code = data.code ?? '';
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/code-blocks/check', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code }),
+        });
+        if (!response.ok) return;
+        const { diagnostics } = (await response.json()) as { diagnostics: CodeBlockDiagnostic[] };
+
+        // Skip results for code that has been edited since
+        const current = useWorkflowStore.getState().nodes.find((n) => n.id === node.id)?.data as
+          | CodeBlockNodeData
+          | undefined;
+        if (!current || current.code !== code) return;
+        if (JSON.stringify(current.syntaxDiagnostics ?? []) !== JSON.stringify(diagnostics)) {
+          updateNodeData(node.id, { syntaxDiagnostics: diagnostics });
+        }
+      } catch {
+        // Checked again on the next edit
+      }
+    }, SYNTAX_CHECK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [node.id, data.code, updateNodeData]);
+
+  const [samplePayload, setSamplePayload] = useState('{\n  "body": {}\n}');
+  const [sampleVariables, setSampleVariables] = useState(() =>
+    JSON.stringify(
+      Object.fromEntries(upstreamVariables.map((name) => [name, { data: null, success: true }])),
+      null,
+      2
+    )
+  );
+  const [isRunning, setIsRunning] = useState(false);
+  const [runResult, setRunResult] = useState<CodeBlockRunResult | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const handleTestRun = async () => {
+    setRunError(null);
+    setRunResult(null);
+
+    let payload: unknown;
+    let variables: Record<string, unknown>;
+    try {
+      payload = JSON.parse(samplePayload || '{}');
+      variables = JSON.parse(sampleVariables || '{}');
+    } catch {
+      setRunError('Sample input must be valid JSON');
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      const response = await fetch('/api/code-blocks/evaluate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: data.code, payload, variables }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setRunError(result.error || 'Test run failed');
+      } else {
+        setRunResult(result as CodeBlockRunResult);
+      }
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : 'Test run failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const inputClass = clsx(
+    'w-full mt-1 px-3 py-2 text-sm rounded-md font-mono',
+    'bg-background border border-input',
+    'focus:outline-none focus:ring-2 focus:ring-ring'
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-xs font-medium text-muted-foreground">
+          Variable Name
+        </label>
+        <input
+          type="text"
+          value={data.variableName}
+          onChange={(e) => updateNodeData(node.id, { variableName: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="text-xs font-medium text-muted-foreground">
+          Code (TypeScript)
+        </label>
+        <textarea
+          value={data.code}
+          onChange={(e) => updateNodeData(node.id, { code: e.target.value })}
+          rows={12}
+          spellCheck={false}
+          className={clsx(inputClass, 'text-xs')}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Runs as an async function body. Use <code>payload</code>
+          {upstreamVariables.length > 0 && (
+            <>
+              {' '}and{' '}
+              {upstreamVariables.map((name, i) => (
+                <React.Fragment key={name}>
+                  {i > 0 && ', '}
+                  <code>{name}</code>
+                </React.Fragment>
+              ))}
+            </>
+          )}
+          ; the returned value becomes <code>{data.variableName}.data</code>.
+        </p>
+      </div>
+
+      <div className="space-y-2 pt-2 border-t border-border">
+        <h4 className="text-xs font-medium text-muted-foreground">Test Run</h4>
+        <div>
+          <label className="text-xs text-muted-foreground">Sample payload (JSON)</label>
+          <textarea
+            value={samplePayload}
+            onChange={(e) => setSamplePayload(e.target.value)}
+            rows={4}
+            spellCheck={false}
+            className={clsx(inputClass, 'text-xs')}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground">Upstream variables (JSON)</label>
+          <textarea
+            value={sampleVariables}
+            onChange={(e) => setSampleVariables(e.target.value)}
+            rows={4}
+            spellCheck={false}
+            className={clsx(inputClass, 'text-xs')}
+          />
+        </div>
+        <button
+          onClick={handleTestRun}
+          disabled={isRunning || !data.code?.trim()}
+          className={clsx(
+            'flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md',
+            'bg-primary text-primary-foreground hover:bg-primary/90',
+            'disabled:opacity-50 disabled:cursor-not-allowed'
+          )}
+        >
+          <Play className="w-3.5 h-3.5" />
+          {isRunning ? 'Running...' : 'Run'}
+        </button>
+
+        {runError && <p className="text-xs text-destructive">{runError}</p>}
+
+        {runResult && (
+          <div className="space-y-2">
+            <div
+              className={clsx(
+                'text-xs font-medium',
+                runResult.success ? 'text-green-600' : 'text-destructive'
+              )}
+            >
+              {runResult.success ? 'Succeeded' : 'Failed'} in {runResult.durationMs}ms
+            </div>
+            <pre className="text-xs bg-muted p-2 rounded overflow-x-auto whitespace-pre-wrap">
+              {runResult.success
+                ? JSON.stringify(runResult.result, null, 2)
+                : runResult.error}
+            </pre>
+            {runResult.logs.length > 0 && (
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Console</div>
+                <pre className="text-xs bg-muted p-2 rounded overflow-x-auto whitespace-pre-wrap">
+                  {runResult.logs.join('\n')}
+                </pre>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 /**
  * Node info display
  */
@@ -1108,6 +1327,10 @@ export function ConfigPanel() {
   const setRightPanelTab = useUIStore((state) => state.setRightPanelTab);
   const rightPanelWidth = useUIStore((state) => state.rightPanelWidth);
   const setRightPanelWidth = useUIStore((state) => state.setRightPanelWidth);
+  const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+
+  // Re-render when plugins (and their config panels) change
+  usePluginRegistry();
 
   // Handle resize
   const handleResize = useCallback((delta: number) => {
@@ -1119,6 +1342,9 @@ export function ConfigPanel() {
     ? nodes.find((n) => n.id === selectedNodeIds[0])
     : null;
 
+  // Custom config panel contributed by a plugin
+  const PluginConfigPanel = selectedNode?.type ? PluginRegistry.getConfigPanel(selectedNode.type) : undefined;
+
   return (
     <div className="relative flex flex-col h-full bg-card border-l border-border">
       {/* Resize handle */}
@@ -1166,7 +1392,13 @@ export function ConfigPanel() {
         ) : rightPanelTab === 'config' ? (
           <div className="space-y-4">
             <h3 className="font-semibold">{selectedNode.data.label}</h3>
-            {'nodeType' in selectedNode.data &&
+            {PluginConfigPanel ? (
+              <PluginConfigPanel
+                key={selectedNode.id}
+                node={selectedNode}
+                onUpdate={(data) => updateNodeData(selectedNode.id, data)}
+              />
+            ) : 'nodeType' in selectedNode.data &&
             selectedNode.data.nodeType === 'trigger' ? (
               <TriggerConfig node={selectedNode} />
             ) : 'nodeType' in selectedNode.data &&
@@ -1175,6 +1407,9 @@ export function ConfigPanel() {
             ) : 'nodeType' in selectedNode.data &&
               selectedNode.data.nodeType === 'composio' ? (
               <ComposioConfig node={selectedNode} />
+            ) : 'nodeType' in selectedNode.data &&
+              selectedNode.data.nodeType === 'codeBlock' ? (
+              <CodeBlockConfig key={selectedNode.id} node={selectedNode} />
             ) : null}
           </div>
         ) : rightPanelTab === 'schema' ? (
@@ -12,14 +12,18 @@ import {
   TRIGGERS,
   type BubbleDefinition,
   type NodeCategory,
+  type WorkflowNodeData,
 } from '@workflow-editor/core';
 import { useUIStore, useComposioStore } from '@workflow-editor/state';
+import { NodeRegistry } from '@workflow-editor/nodes';
+import { PluginRegistry } from '../../plugins/plugin-registry';
+import { usePluginRegistry } from '../../plugins/usePluginRegistry';
 
 /**
  * Palette category data
  */
 interface PaletteCategory {
-  key: NodeCategory;
+  key: NodeCategory | string;
   name: string;
   items: PaletteItem[];
 }
@@ -37,6 +41,8 @@ interface PaletteItem {
   // Composio-specific fields
   toolkit?: string;
   toolName?: string;
+  // Plugin nodes carry their own default data
+  defaultData?: Partial<WorkflowNodeData>;
   color: string;
   icon: string;
 }
@@ -106,6 +112,22 @@ function buildCategories(
     items: workflowBubbles.map((b) => bubbleToItem(b, 'workflowBubble')),
   });
 
+  // Utilities
+  categories.push({
+    key: 'utilities',
+    name: 'Utilities',
+    items: [
+      {
+        id: 'code-block',
+        name: 'Code',
+        description: 'Custom TypeScript step',
+        nodeType: 'codeBlock',
+        color: '#0ea5e9',
+        icon: 'code',
+      },
+    ],
+  });
+
   // Composio Services - show ONE item per connected toolkit (not per tool)
   const composioItems: PaletteItem[] = [];
   for (const toolkitId of connectedToolkits) {
@@ -146,7 +168,44 @@ function buildCategories(
     items: composioItems,
   });
 
-  return categories;
+  return addPluginCategories(categories);
+}
+
+/**
+ * Add plugin nodes and palette categories.
+ * Built-in categories are ordered 0, 10, 20, ... so plugins can slot in between.
+ */
+function addPluginCategories(categories: PaletteCategory[]): PaletteCategory[] {
+  const pluginNodeTypes = new Set(PluginRegistry.getNodeTypes());
+  const ordered = categories.map((category, index) => ({ category, order: index * 10 }));
+
+  for (const contribution of PluginRegistry.getPaletteCategories()) {
+    if (ordered.some(({ category }) => category.key === contribution.key)) continue;
+    ordered.push({
+      category: { key: contribution.key, name: contribution.name, items: [] },
+      order: contribution.order ?? Infinity,
+    });
+  }
+
+  for (const entry of NodeRegistry.getAll()) {
+    if (!pluginNodeTypes.has(entry.type)) continue;
+    const target = ordered.find(({ category }) => category.key === entry.metadata.category);
+    if (!target) {
+      console.warn(`[Plugins] Node type ${entry.type} uses unknown palette category ${entry.metadata.category}`);
+      continue;
+    }
+    target.category.items.push({
+      id: `plugin-${entry.type}`,
+      name: entry.metadata.name,
+      description: entry.metadata.description,
+      nodeType: entry.type,
+      defaultData: entry.metadata.defaultData,
+      color: entry.metadata.color,
+      icon: entry.metadata.icon,
+    });
+  }
+
+  return ordered.sort((a, b) => a.order - b.order).map(({ category }) => category);
 }
 
 /**
@@ -183,6 +242,9 @@ function PaletteItemComponent({ item }: { item: PaletteItem }) {
     if (item.toolName) {
       event.dataTransfer.setData('application/reactflow-toolname', item.toolName);
     }
+    if (item.defaultData) {
+      event.dataTransfer.setData('application/reactflow-data', JSON.stringify(item.defaultData));
+    }
     event.dataTransfer.effectAllowed = 'move';
   };
 
@@ -331,9 +393,12 @@ export function NodePalette() {
     }
   }, [connectedToolkits, fetchTools]);
 
+  // Rebuild when plugins are registered or unregistered
+  const pluginVersion = usePluginRegistry();
+
   const categories = useMemo(
     () => buildCategories(availableTools, connectedToolkits),
-    [availableTools, connectedToolkits]
+    [availableTools, connectedToolkits, pluginVersion]
   );
 
   return (
@@ -0,0 +1,6 @@
+/**
+ * Plugin exports
+ */
+
+export * from './plugin-registry';
+export * from './usePluginRegistry';
@@ -0,0 +1,311 @@
+/**
+ * Plugin registry - hosts WorkflowEditorPlugin contributions
+ *
+ * Registering a plugin validates it, then adds its nodes to the NodeRegistry,
+ * edges to the EdgeRegistry, code generators to the CodeGeneratorRegistry and
+ * its palette categories and config panels here. Everything a plugin adds
+ * (including what it registers from onRegister) is removed when it is
+ * unregistered.
+ */
+
+import type { ComponentType } from 'react';
+import type {
+  WorkflowEditorPlugin,
+  NodeContribution,
+  EdgeContribution,
+  CodeGeneratorContribution,
+  PaletteCategoryContribution,
+  ConfigPanelProps,
+  PluginRegistryAPI,
+  PluginValidationResult,
+} from '@workflow-editor/core';
+import { validatePlugin } from '@workflow-editor/core';
+import { NodeRegistry, EdgeRegistry } from '@workflow-editor/nodes';
+import type { NodeRegistryEntry, EdgeRegistryEntry } from '@workflow-editor/nodes';
+import { CodeGeneratorRegistry } from '@workflow-editor/codegen';
+
+/**
+ * Contributions owned by a registered plugin
+ */
+interface RegisteredPlugin {
+  plugin: WorkflowEditorPlugin;
+  nodeTypes: Set<string>;
+  edgeTypes: Set<string>;
+  codeGenerators: CodeGeneratorContribution[];
+  /** Generators built from NodeContribution.codeGenerator, by node type */
+  nodeGenerators: Map<string, CodeGeneratorContribution>;
+  paletteCategories: PaletteCategoryContribution[];
+}
+
+/**
+ * Plugin registry class
+ */
+class PluginRegistryClass {
+  private plugins: Map<string, RegisteredPlugin> = new Map();
+  private configPanels: Map<string, ComponentType<ConfigPanelProps>> = new Map();
+  private listeners: Set<() => void> = new Set();
+  private version = 0;
+
+  /**
+   * Register a plugin
+   */
+  register(plugin: WorkflowEditorPlugin): PluginValidationResult {
+    const { errors, warnings } = validatePlugin(plugin);
+
+    if (plugin.id && this.plugins.has(plugin.id)) {
+      errors.push(`Plugin ${plugin.id} is already registered`);
+    }
+    for (const node of plugin.nodes || []) {
+      if (node.type && NodeRegistry.has(node.type)) {
+        errors.push(`Node type ${node.type} is already registered`);
+      }
+    }
+    for (const edge of plugin.edges || []) {
+      if (!edge.type) {
+        errors.push('Edge contribution must have a type');
+      } else if (EdgeRegistry.has(edge.type)) {
+        errors.push(`Edge type ${edge.type} is already registered`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { valid: false, errors, warnings };
+    }
+
+    const entry: RegisteredPlugin = {
+      plugin,
+      nodeTypes: new Set(),
+      edgeTypes: new Set(),
+      codeGenerators: [],
+      nodeGenerators: new Map(),
+      paletteCategories: [],
+    };
+    this.plugins.set(plugin.id, entry);
+
+    const api = this.createAPI(entry, warnings);
+    for (const node of plugin.nodes || []) api.registerNode(node);
+    for (const edge of plugin.edges || []) api.registerEdge(edge);
+    for (const generator of plugin.codeGenerators || []) api.registerCodeGenerator(generator);
+    entry.paletteCategories.push(...(plugin.paletteCategories || []));
+
+    if (plugin.onRegister) {
+      try {
+        plugin.onRegister(api);
+      } catch (error) {
+        this.removeContributions(entry);
+        this.plugins.delete(plugin.id);
+        errors.push(`onRegister failed: ${error instanceof Error ? error.message : String(error)}`);
+        return { valid: false, errors, warnings };
+      }
+    }
+
+    for (const warning of warnings) {
+      console.warn(`[Plugins] ${plugin.id}: ${warning}`);
+    }
+
+    this.notify();
+    return { valid: true, errors, warnings };
+  }
+
+  /**
+   * Unregister a plugin and remove everything it contributed
+   */
+  unregister(id: string): boolean {
+    const entry = this.plugins.get(id);
+    if (!entry) return false;
+
+    try {
+      entry.plugin.onUnregister?.();
+    } catch (error) {
+      console.error(`[Plugins] ${id}: onUnregister failed`, error);
+    }
+
+    this.removeContributions(entry);
+    this.plugins.delete(id);
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Get a registered plugin by ID
+   */
+  get(id: string): WorkflowEditorPlugin | undefined {
+    return this.plugins.get(id)?.plugin;
+  }
+
+  /**
+   * Get all registered plugins
+   */
+  getAll(): WorkflowEditorPlugin[] {
+    return Array.from(this.plugins.values()).map((entry) => entry.plugin);
+  }
+
+  /**
+   * Check if a plugin is registered
+   */
+  has(id: string): boolean {
+    return this.plugins.has(id);
+  }
+
+  /**
+   * Get palette categories contributed by plugins, sorted by order
+   */
+  getPaletteCategories(): PaletteCategoryContribution[] {
+    const seen = new Set<string>();
+    const categories: PaletteCategoryContribution[] = [];
+    for (const entry of this.plugins.values()) {
+      for (const category of entry.paletteCategories) {
+        if (seen.has(category.key)) continue;
+        seen.add(category.key);
+        categories.push(category);
+      }
+    }
+    return categories.sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity));
+  }
+
+  /**
+   * Get the node types contributed by plugins
+   */
+  getNodeTypes(): string[] {
+    return Array.from(this.plugins.values()).flatMap((entry) => Array.from(entry.nodeTypes));
+  }
+
+  /**
+   * Get the custom config panel for a node type
+   */
+  getConfigPanel(nodeType: string): ComponentType<ConfigPanelProps> | undefined {
+    return this.configPanels.get(nodeType);
+  }
+
+  /**
+   * Subscribe to registry changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Change counter, incremented on every register/unregister
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Build the registration API for a plugin; contributions are tracked as owned by it
+   */
+  private createAPI(entry: RegisteredPlugin, warnings: string[]): PluginRegistryAPI {
+    const warn = (message: string) => {
+      warnings.push(message);
+    };
+
+    return {
+      registerNode: (contribution: NodeContribution) => {
+        if (NodeRegistry.has(contribution.type) && !entry.nodeTypes.has(contribution.type)) {
+          warn(`Node type ${contribution.type} is already registered; skipped`);
+          return;
+        }
+        NodeRegistry.register({
+          type: contribution.type,
+          component: contribution.component as NodeRegistryEntry['component'],
+          metadata: contribution.metadata,
+        });
+        entry.nodeTypes.add(contribution.type);
+
+        if (contribution.configPanel) {
+          this.configPanels.set(contribution.type, contribution.configPanel);
+        }
+        if (contribution.codeGenerator) {
+          const generate = contribution.codeGenerator;
+          const imports = contribution.imports;
+          const generator: CodeGeneratorContribution = {
+            nodeType: contribution.type,
+            generate: (node) => generate(node),
+            imports: (node) => imports?.(node) || [],
+            priority: 0,
+          };
+          CodeGeneratorRegistry.register(generator);
+          entry.nodeGenerators.set(contribution.type, generator);
+        }
+      },
+
+      unregisterNode: (type: string) => {
+        if (!entry.nodeTypes.has(type)) {
+          warn(`Node type ${type} is not owned by this plugin; not unregistered`);
+          return;
+        }
+        this.removeNodeType(entry, type);
+      },
+
+      registerEdge: (contribution: EdgeContribution) => {
+        if (EdgeRegistry.has(contribution.type) && !entry.edgeTypes.has(contribution.type)) {
+          warn(`Edge type ${contribution.type} is already registered; skipped`);
+          return;
+        }
+        EdgeRegistry.register({
+          type: contribution.type,
+          component: contribution.component as EdgeRegistryEntry['component'],
+          defaultData: contribution.defaultData,
+        });
+        entry.edgeTypes.add(contribution.type);
+      },
+
+      unregisterEdge: (type: string) => {
+        if (!entry.edgeTypes.has(type)) {
+          warn(`Edge type ${type} is not owned by this plugin; not unregistered`);
+          return;
+        }
+        EdgeRegistry.unregister(type);
+        entry.edgeTypes.delete(type);
+      },
+
+      registerCodeGenerator: (contribution: CodeGeneratorContribution) => {
+        CodeGeneratorRegistry.register(contribution);
+        entry.codeGenerators.push(contribution);
+      },
+
+      getNodeTypes: () => NodeRegistry.getAll().map((node) => node.type),
+
+      getEdgeTypes: () => EdgeRegistry.getAll().map((edge) => edge.type),
+    };
+  }
+
+  /**
+   * Remove a node type owned by a plugin along with its inline generators
+   */
+  private removeNodeType(entry: RegisteredPlugin, type: string): void {
+    NodeRegistry.unregister(type);
+    this.configPanels.delete(type);
+    entry.nodeTypes.delete(type);
+    const generator = entry.nodeGenerators.get(type);
+    if (generator) {
+      CodeGeneratorRegistry.unregister(generator);
+      entry.nodeGenerators.delete(type);
+    }
+  }
+
+  /**
+   * Remove everything a plugin contributed
+   */
+  private removeContributions(entry: RegisteredPlugin): void {
+    for (const type of Array.from(entry.nodeTypes)) this.removeNodeType(entry, type);
+    for (const type of entry.edgeTypes) EdgeRegistry.unregister(type);
+    for (const generator of entry.codeGenerators) CodeGeneratorRegistry.unregister(generator);
+    entry.edgeTypes.clear();
+    entry.codeGenerators = [];
+    entry.paletteCategories = [];
+  }
+
+  private notify(): void {
+    this.version++;
+    for (const listener of this.listeners) listener();
+  }
+}
+
+/**
+ * Global plugin registry instance
+ */
+export const PluginRegistry = new PluginRegistryClass();
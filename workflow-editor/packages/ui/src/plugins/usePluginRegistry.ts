@@ -0,0 +1,18 @@
+'use client';
+
+/**
+ * Hook for re-rendering when plugins are registered or unregistered
+ */
+
+import { useSyncExternalStore } from 'react';
+import { PluginRegistry } from './plugin-registry';
+
+const subscribe = (listener: () => void) => PluginRegistry.subscribe(listener);
+const getVersion = () => PluginRegistry.getVersion();
+
+/**
+ * Returns the plugin registry version; changes whenever plugins change
+ */
+export function usePluginRegistry(): number {
+  return useSyncExternalStore(subscribe, getVersion, getVersion);
+}